@@ -0,0 +1,232 @@
+// Routes of the REST API used by BackendService, independent of the HTTP transport
+import type {
+  ApiError,
+  AuthUser,
+  BackendProperty,
+  ExportResponse,
+  HealthResponse,
+  PropertySearchQuery,
+  PropertyStatistics
+} from '../src/types/backend.ts';
+import type { JsonPropertyStore } from './store.ts';
+import { parseSearchQuery, validateNewProperty, validatePropertyUpdate, validateStatusUpdate } from './validation.ts';
+import {
+  getCreatePermissionError,
+  getPermissionError,
+  getUpdatePermissionError,
+  isReviewDecision
+} from '../src/services/permissions.ts';
+
+export interface ApiRequest {
+  method: string;
+  // Path below the /api prefix, e.g. /properties/search
+  path: string;
+  query: URLSearchParams;
+  body?: unknown;
+  // Caller named by the X-User-Id header; reads need no user, changes do
+  user?: AuthUser | null;
+}
+
+export interface ApiResult {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown, status = 200): ApiResult => ({ status, body });
+
+const fail = (status: number, error: string, details?: string[]): ApiResult => {
+  const body: ApiError = details ? { error, details } : { error };
+  return { status, body };
+};
+
+export const searchProperties = (properties: BackendProperty[], query: PropertySearchQuery): BackendProperty[] => {
+  return properties.filter(property => {
+    if (query.address && !property.address.toLowerCase().includes(query.address.toLowerCase())) return false;
+    if (query.propertyType && property.propertyType?.toLowerCase() !== query.propertyType.toLowerCase()) return false;
+    if (query.minPrice !== undefined && property.marketValue < query.minPrice) return false;
+    if (query.maxPrice !== undefined && property.marketValue > query.maxPrice) return false;
+    if (query.city && !property.city.toLowerCase().includes(query.city.toLowerCase())) return false;
+    return true;
+  });
+};
+
+export const getStatistics = (properties: BackendProperty[]): PropertyStatistics => {
+  const total = properties.length;
+  const totalValue = properties.reduce((sum, property) => sum + property.marketValue, 0);
+
+  return {
+    total,
+    pending: properties.filter(property => property.status === 'pending').length,
+    approved: properties.filter(property => property.status === 'approved').length,
+    rejected: properties.filter(property => property.status === 'rejected').length,
+    averageValue: total > 0 ? totalValue / total : 0,
+    totalValue
+  };
+};
+
+// Same columns as BackendService's local CSV export
+export const toCsv = (properties: BackendProperty[]): string => {
+  const headers = ['ID', 'Address', 'City', 'State', 'Zip', 'Property Type', 'Market Value', 'Acreage', 'Description', 'Owner', 'Status', 'Submitted At'];
+  const rows = properties.map(property => [
+    property.id,
+    property.address,
+    property.city,
+    property.state,
+    property.zipCode,
+    property.propertyType,
+    property.marketValue,
+    property.acreage ?? '',
+    property.description || '',
+    property.owner || '',
+    property.status,
+    property.submittedAt
+  ]);
+
+  return [headers, ...rows]
+    .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+};
+
+// 401 when nobody is signed in, 403 when the user's role does not allow the change
+const forbidden = (user: AuthUser | null, error: string): ApiResult => fail(user ? 403 : 401, error);
+
+const createPropertyId = () => `submitted-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Dispatch one API request against the store
+ */
+export const handleApiRequest = async (store: JsonPropertyStore, request: ApiRequest): Promise<ApiResult> => {
+  const { method, path, query, body } = request;
+  const user = request.user || null;
+
+  if (path === '/health') {
+    if (method !== 'GET') return fail(405, `${method} not allowed on ${path}`);
+    const health: HealthResponse = { status: 'ok', timestamp: new Date().toISOString() };
+    return ok(health);
+  }
+
+  if (path === '/properties') {
+    if (method === 'GET') {
+      return ok(await store.list());
+    }
+
+    if (method === 'POST') {
+      const validation = validateNewProperty(body);
+      if (!validation.ok) return fail(400, 'Invalid property', validation.errors);
+
+      const { id, submittedAt, owner, submittedBy, status = 'pending', ...fields } = validation.value;
+      const property: BackendProperty = {
+        ...fields,
+        id: id || createPropertyId(),
+        owner: owner || 'User Submitted',
+        submittedAt: submittedAt || new Date().toISOString(),
+        // Records moved from a client keep their own submitter. Only admins can move legacy
+        // ones saved before ownership without claiming them; anyone else becomes the submitter.
+        submittedBy: submittedBy || (id && user?.role === 'admin' ? undefined : user?.id),
+        status
+      };
+      // A record created already reviewed is credited to the signed-in user, who needs review permission
+      if (status !== 'pending') {
+        property.reviewedBy = user?.name;
+        property.reviewedAt = new Date().toISOString();
+      }
+
+      const denied = getCreatePermissionError(user, property);
+      if (denied) return forbidden(user, denied);
+
+      if (id && await store.get(id)) {
+        return fail(409, `Property ${id} already exists`);
+      }
+      return ok(await store.create(property), 201);
+    }
+
+    return fail(405, `${method} not allowed on ${path}`);
+  }
+
+  if (path === '/properties/search') {
+    if (method !== 'GET') return fail(405, `${method} not allowed on ${path}`);
+
+    const validation = parseSearchQuery(query);
+    if (!validation.ok) return fail(400, 'Invalid search query', validation.errors);
+    return ok(searchProperties(await store.list(), validation.value));
+  }
+
+  if (path === '/properties/statistics') {
+    if (method !== 'GET') return fail(405, `${method} not allowed on ${path}`);
+    return ok(getStatistics(await store.list()));
+  }
+
+  const statusMatch = path.match(/^\/properties\/([^/]+)\/status$/);
+  if (statusMatch) {
+    if (method !== 'PATCH') return fail(405, `${method} not allowed on ${path}`);
+
+    const validation = validateStatusUpdate(body);
+    if (!validation.ok) return fail(400, 'Invalid status update', validation.errors);
+
+    const denied = getPermissionError(user, 'review');
+    if (denied) return forbidden(user, denied);
+
+    // The decision is recorded against the signed-in reviewer, whatever the body names
+    const id = decodeURIComponent(statusMatch[1]);
+    const { status, reason } = validation.value;
+    const updated = await store.update(id, {
+      status,
+      reviewedBy: user?.name,
+      reviewedAt: new Date().toISOString(),
+      rejectionReason: status === 'rejected' ? reason : undefined
+    });
+    return updated ? ok(updated) : fail(404, `Property ${id} not found`);
+  }
+
+  const propertyMatch = path.match(/^\/properties\/([^/]+)$/);
+  if (propertyMatch) {
+    const id = decodeURIComponent(propertyMatch[1]);
+
+    if (method === 'GET') {
+      const property = await store.get(id);
+      return property ? ok(property) : fail(404, `Property ${id} not found`);
+    }
+
+    if (method === 'PATCH') {
+      const validation = validatePropertyUpdate(body);
+      if (!validation.ok) return fail(400, 'Invalid property update', validation.errors);
+
+      const existing = await store.get(id);
+      if (!existing) return fail(404, `Property ${id} not found`);
+
+      const denied = getUpdatePermissionError(user, existing, validation.value);
+      if (denied) return forbidden(user, denied);
+
+      // As on the status route, a decision is recorded against the signed-in reviewer
+      const changes = isReviewDecision(existing, validation.value)
+        ? { ...validation.value, reviewedBy: user?.name, reviewedAt: new Date().toISOString() }
+        : validation.value;
+      const updated = await store.update(id, changes);
+      return updated ? ok(updated) : fail(404, `Property ${id} not found`);
+    }
+
+    if (method === 'DELETE') {
+      const existing = await store.get(id);
+      if (!existing) return fail(404, `Property ${id} not found`);
+
+      const denied = getPermissionError(user, 'delete', existing);
+      if (denied) return forbidden(user, denied);
+
+      return await store.delete(id) ? ok({ id }) : fail(404, `Property ${id} not found`);
+    }
+
+    return fail(405, `${method} not allowed on ${path}`);
+  }
+
+  if (path === '/export') {
+    if (method !== 'GET') return fail(405, `${method} not allowed on ${path}`);
+
+    // BackendService hands the URL straight to the browser, so inline the CSV
+    const exported: ExportResponse = {
+      downloadUrl: `data:text/csv;charset=utf-8,${encodeURIComponent(toCsv(await store.list()))}`
+    };
+    return ok(exported);
+  }
+
+  return fail(404, `No route for ${method} ${path}`);
+};
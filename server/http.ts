@@ -0,0 +1,99 @@
+// node:http transport for the API: CORS, JSON bodies and the /api prefix
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { JsonPropertyStore } from './store.ts';
+import { handleApiRequest } from './api.ts';
+import { findMockUser } from '../src/services/permissions.ts';
+
+export interface ApiServerOptions {
+  // Value of Access-Control-Allow-Origin; the Vite dev server runs on another port
+  corsOrigin?: string;
+  maxBodyBytes?: number;
+}
+
+const API_PREFIX = '/api';
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+class RequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+const readJsonBody = async (request: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new RequestError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+};
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+};
+
+export const createApiServer = (store: JsonPropertyStore, options: ApiServerOptions = {}): Server => {
+  const { corsOrigin = '*', maxBodyBytes = DEFAULT_MAX_BODY_BYTES } = options;
+
+  return createServer(async (request, response) => {
+    const method = request.method || 'GET';
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    response.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-User-Id');
+
+    if (method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+
+    if (url.pathname !== API_PREFIX && !url.pathname.startsWith(`${API_PREFIX}/`)) {
+      sendJson(response, 404, { error: `No route for ${method} ${url.pathname}` });
+      return;
+    }
+
+    try {
+      const body = method === 'POST' || method === 'PATCH' ? await readJsonBody(request, maxBodyBytes) : undefined;
+      const result = await handleApiRequest(store, {
+        method,
+        path: url.pathname.slice(API_PREFIX.length) || '/',
+        query: url.searchParams,
+        body,
+        // Development stand-in for authentication: the header names a mock user
+        user: findMockUser(request.headers['x-user-id'] as string | undefined)
+      });
+
+      console.log(`${result.status < 400 ? '✅' : '⚠️'} ${method} ${url.pathname} ${result.status}`);
+      sendJson(response, result.status, result.body);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        console.warn(`⚠️ ${method} ${url.pathname} ${error.status}: ${error.message}`);
+        sendJson(response, error.status, { error: error.message });
+        return;
+      }
+
+      console.error(`❌ ${method} ${url.pathname} failed:`, error);
+      sendJson(response, 500, { error: 'Internal server error' });
+    }
+  });
+};
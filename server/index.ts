@@ -0,0 +1,19 @@
+// Development REST server for BackendService
+//   npm run server
+// Environment: PORT (default 3001), PROPERTY_DATA_FILE (default server/data/properties.json),
+// CORS_ORIGIN (default *)
+import { fileURLToPath } from 'node:url';
+import { JsonPropertyStore } from './store.ts';
+import { createApiServer } from './http.ts';
+
+const port = Number(process.env.PORT) || 3001;
+const dataFile = process.env.PROPERTY_DATA_FILE || fileURLToPath(new URL('./data/properties.json', import.meta.url));
+
+const server = createApiServer(new JsonPropertyStore(dataFile), {
+  corsOrigin: process.env.CORS_ORIGIN || '*'
+});
+
+server.listen(port, () => {
+  console.log(`🚀 Property API listening on http://localhost:${port}/api`);
+  console.log(`💾 Storing properties in ${dataFile}`);
+});
@@ -0,0 +1,87 @@
+// File-backed property store: the whole collection lives in one JSON file
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { BackendProperty } from '../src/types/backend.ts';
+
+export class JsonPropertyStore {
+  private readonly filePath: string;
+  private properties: BackendProperty[] | null = null;
+  // Mutations run one at a time so concurrent requests cannot lose writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<BackendProperty[]> {
+    return [...(await this.load())];
+  }
+
+  async get(id: string): Promise<BackendProperty | undefined> {
+    return (await this.load()).find(property => property.id === id);
+  }
+
+  async create(property: BackendProperty): Promise<BackendProperty> {
+    return this.mutate(properties => {
+      properties.push(property);
+      return property;
+    });
+  }
+
+  async update(id: string, changes: Partial<Omit<BackendProperty, 'id'>>): Promise<BackendProperty | undefined> {
+    return this.mutate(properties => {
+      const index = properties.findIndex(property => property.id === id);
+      if (index === -1) return undefined;
+
+      properties[index] = { ...properties[index], ...changes };
+      return properties[index];
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.mutate(properties => {
+      const index = properties.findIndex(property => property.id === id);
+      if (index === -1) return false;
+
+      properties.splice(index, 1);
+      return true;
+    });
+  }
+
+  private async load(): Promise<BackendProperty[]> {
+    if (this.properties) return this.properties;
+
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, 'utf8'));
+      this.properties = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Could not read property store ${this.filePath}: ${(error as Error).message}`);
+      }
+      this.properties = [];
+    }
+
+    return this.properties;
+  }
+
+  private mutate<T>(change: (properties: BackendProperty[]) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const properties = [...(await this.load())];
+      const result = change(properties);
+      await this.persist(properties);
+      this.properties = properties;
+      return result;
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Write to a temporary file and rename it over the store so a crash never leaves half a file
+  private async persist(properties: BackendProperty[]): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(properties, null, 2), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,276 @@
+// Request validation for the REST API. Validators copy only known fields, so
+// unexpected properties in a request body never reach the store.
+import type { PolygonalGeometry, Property } from '../src/types/index.ts';
+import type {
+  NewBackendProperty,
+  PropertySearchQuery,
+  PropertyStatusUpdate,
+  PropertyUpdate
+} from '../src/types/backend.ts';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_REASON_LENGTH = 1000;
+
+const PROPERTY_TYPES: Property['propertyType'][] = ['residential', 'commercial', 'industrial', 'agricultural', 'vacant', 'mixed-use'];
+const PROPERTY_STATUSES: NonNullable<Property['status']>[] = ['pending', 'approved', 'rejected'];
+
+const OPTIONAL_TEXT_FIELDS = ['owner', 'county', 'parcelId', 'propertySubtype', 'submittedBy'] as const;
+const OPTIONAL_NUMBER_FIELDS = [
+  'acreage', 'assessedValue', 'landValue', 'improvementValue', 'squareFootage', 'bedrooms', 'bathrooms', 'yearBuilt'
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const checkText = (value: unknown, field: string, errors: string[], maxLength = MAX_TEXT_LENGTH): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+};
+
+const checkDate = (value: unknown, field: string, errors: string[]): string | undefined => {
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+  errors.push(`${field} must be an ISO date`);
+  return undefined;
+};
+
+const checkCoordinates = (value: unknown, errors: string[]): Property['coordinates'] | undefined => {
+  if (!isRecord(value) || !isFiniteNumber(value.lat) || !isFiniteNumber(value.lng)) {
+    errors.push('coordinates must have numeric lat and lng');
+    return undefined;
+  }
+  if (value.lat < -90 || value.lat > 90 || value.lng < -180 || value.lng > 180) {
+    errors.push('coordinates are out of range');
+  }
+  return { lat: value.lat, lng: value.lng };
+};
+
+const checkGeometry = (value: unknown, errors: string[]): PolygonalGeometry | undefined => {
+  if (!isRecord(value) || (value.type !== 'Polygon' && value.type !== 'MultiPolygon') || !Array.isArray(value.coordinates)) {
+    errors.push('geometry must be a GeoJSON Polygon or MultiPolygon');
+    return undefined;
+  }
+  return value as unknown as PolygonalGeometry;
+};
+
+/**
+ * Validate the property fields of a create (every required field present) or
+ * an update (any subset of fields)
+ */
+const validatePropertyFields = (body: unknown, mode: 'create' | 'update'): ValidationResult<Record<string, unknown>> => {
+  if (!isRecord(body)) {
+    return { ok: false, errors: ['Request body must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+  const isRequired = mode === 'create';
+
+  const requireField = (field: string) => {
+    if (isMissing(body[field])) {
+      if (isRequired) errors.push(`${field} is required`);
+      return false;
+    }
+    return true;
+  };
+
+  (['address', 'city', 'state', 'zipCode'] as const).forEach(field => {
+    if (requireField(field)) value[field] = checkText(body[field], field, errors);
+  });
+
+  if (typeof value.state === 'string') {
+    if (/^[A-Za-z]{2}$/.test(value.state)) {
+      value.state = value.state.toUpperCase();
+    } else {
+      errors.push('state must be a two-letter code');
+    }
+  }
+  if (typeof value.zipCode === 'string' && !/^\d{5}(-\d{4})?$/.test(value.zipCode)) {
+    errors.push('zipCode must be a 5-digit ZIP or ZIP+4');
+  }
+
+  if (requireField('propertyType')) {
+    if (PROPERTY_TYPES.includes(body.propertyType as Property['propertyType'])) {
+      value.propertyType = body.propertyType;
+    } else {
+      errors.push(`propertyType must be one of ${PROPERTY_TYPES.join(', ')}`);
+    }
+  }
+
+  if (requireField('marketValue')) {
+    if (isFiniteNumber(body.marketValue) && body.marketValue >= 0) {
+      value.marketValue = body.marketValue;
+    } else {
+      errors.push('marketValue must be a non-negative number');
+    }
+  }
+
+  if (requireField('coordinates')) {
+    value.coordinates = checkCoordinates(body.coordinates, errors);
+  }
+
+  OPTIONAL_TEXT_FIELDS.forEach(field => {
+    if (!isMissing(body[field])) value[field] = checkText(body[field], field, errors);
+  });
+
+  if (!isMissing(body.description)) {
+    value.description = checkText(body.description, 'description', errors, MAX_DESCRIPTION_LENGTH);
+  }
+
+  OPTIONAL_NUMBER_FIELDS.forEach(field => {
+    if (isMissing(body[field])) return;
+    if (isFiniteNumber(body[field]) && (body[field] as number) >= 0) {
+      value[field] = body[field];
+    } else {
+      errors.push(`${field} must be a non-negative number`);
+    }
+  });
+
+  if (!isMissing(body.geometry)) {
+    value.geometry = checkGeometry(body.geometry, errors);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+};
+
+/**
+ * Validate the body of POST /properties
+ */
+export const validateNewProperty = (body: unknown): ValidationResult<NewBackendProperty> => {
+  const result = validatePropertyFields(body, 'create');
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  const { id, submittedAt, status, rejectionReason } = body as Record<string, unknown>;
+
+  // Clients may keep their own IDs and submission times, e.g. when moving local records to the server
+  if (!isMissing(id)) {
+    if (typeof id === 'string' && /^[\w.:-]{1,128}$/.test(id)) {
+      result.value.id = id;
+    } else {
+      errors.push('id may only contain letters, digits, _ . : and -');
+    }
+  }
+  if (!isMissing(submittedAt)) {
+    result.value.submittedAt = checkDate(submittedAt, 'submittedAt', errors);
+  }
+
+  // Records reviewed before they reached the server, e.g. restored ones, keep their status
+  if (!isMissing(status)) {
+    if (PROPERTY_STATUSES.includes(status as NonNullable<Property['status']>)) {
+      result.value.status = status;
+    } else {
+      errors.push(`status must be one of ${PROPERTY_STATUSES.join(', ')}`);
+    }
+  }
+  if (status === 'rejected') {
+    if (isMissing(rejectionReason)) {
+      errors.push('rejectionReason is required when rejecting a property');
+    } else {
+      result.value.rejectionReason = checkText(rejectionReason, 'rejectionReason', errors, MAX_REASON_LENGTH);
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: result.value as unknown as NewBackendProperty };
+};
+
+/**
+ * Validate the body of PATCH /properties/:id
+ */
+export const validatePropertyUpdate = (body: unknown): ValidationResult<PropertyUpdate> => {
+  const result = validatePropertyFields(body, 'update');
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  const { status, rejectionReason } = body as Record<string, unknown>;
+  if (!isMissing(status)) {
+    if (!PROPERTY_STATUSES.includes(status as NonNullable<Property['status']>)) {
+      return { ok: false, errors: [`status must be one of ${PROPERTY_STATUSES.join(', ')}`] };
+    }
+    result.value.status = status;
+  }
+
+  // Who reviewed it and when are stamped by the route, never taken from the body
+  if (!isMissing(rejectionReason)) {
+    result.value.rejectionReason = checkText(rejectionReason, 'rejectionReason', errors, MAX_REASON_LENGTH);
+  }
+
+  if (status === 'rejected' && isMissing(rejectionReason)) {
+    errors.push('rejectionReason is required when rejecting a property');
+  } else if (!isMissing(status) && status !== 'rejected') {
+    // An approved or re-opened property no longer carries the old rejection reason
+    result.value.rejectionReason = undefined;
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  if (Object.keys(result.value).length === 0) {
+    return { ok: false, errors: ['Request body has no updatable fields'] };
+  }
+
+  return { ok: true, value: result.value as PropertyUpdate };
+};
+
+/**
+ * Validate the body of PATCH /properties/:id/status
+ */
+export const validateStatusUpdate = (body: unknown): ValidationResult<PropertyStatusUpdate> => {
+  if (!isRecord(body) || (body.status !== 'approved' && body.status !== 'rejected')) {
+    return { ok: false, errors: ["status must be 'approved' or 'rejected'"] };
+  }
+
+  const errors: string[] = [];
+  const value: PropertyStatusUpdate = { status: body.status };
+
+  if (!isMissing(body.reviewer)) value.reviewer = checkText(body.reviewer, 'reviewer', errors);
+  if (!isMissing(body.reason)) value.reason = checkText(body.reason, 'reason', errors, MAX_REASON_LENGTH);
+  if (value.status === 'rejected' && isMissing(body.reason)) {
+    errors.push('reason is required when rejecting a property');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+};
+
+/**
+ * Parse the query string of GET /properties/search
+ */
+export const parseSearchQuery = (params: URLSearchParams): ValidationResult<PropertySearchQuery> => {
+  const errors: string[] = [];
+  const query: PropertySearchQuery = {};
+
+  (['address', 'propertyType', 'city'] as const).forEach(field => {
+    const value = params.get(field)?.trim();
+    if (value) query[field] = value;
+  });
+
+  (['minPrice', 'maxPrice'] as const).forEach(field => {
+    const raw = params.get(field);
+    if (raw === null || raw.trim() === '') return;
+
+    const value = Number(raw);
+    if (Number.isFinite(value)) {
+      query[field] = value;
+    } else {
+      errors.push(`${field} must be a number`);
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: query };
+};
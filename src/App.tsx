@@ -4,25 +4,70 @@ import { LayerToggle } from './components/LayerToggle';
 import { FloatingPropertyForm } from './components/FloatingPropertyForm';
 import { PropertyCard } from './components/PropertyCard';
 import { PropertySearchFilters } from './components/SearchFilters';
-import type { Property } from './types';
+import { ReviewQueue } from './components/ReviewQueue';
+import { UserSwitcher } from './components/UserSwitcher';
+import { ExportPanel, type ExportTarget } from './components/ExportPanel';
+import { BulkImportDialog, type BulkImportResult } from './components/BulkImportDialog';
+import { DeletedProperties } from './components/DeletedProperties';
+import { SearchResults } from './components/SearchResults';
+import { SpatialFilterPanel, type SearchAreaMode } from './components/SpatialFilterPanel';
+import { useAuth } from './hooks/useAuth';
+import type { PolygonalGeometry, Property, PropertySearchResult, SearchFilters, TravisCountyParcel } from './types';
 import type { PropertySubmission } from './components/FloatingPropertyForm';
 import type { ComprehensiveData } from './services/comprehensiveDataLoader';
+import type { ShapefileLoadProgress } from './services/shapefileStreamLoader';
 import type { MapLayerType } from './components/LayerToggle';
-import { loadComprehensiveData } from './services/comprehensiveDataLoader';
-import { addProperty, loadProperties, deleteProperty } from './services/propertyStorage';
+import { loadComprehensiveData, loadCountyData, mergeCountyData } from './services/comprehensiveDataLoader';
+import { getCounty } from './services/countyRegistry';
+import { getParcelStatsForProperty } from './services/parcelJoin';
+import { propertyEnrichmentService } from './services/propertyDataEnrichment';
+import { geocoder, lookupLocation, type LocationDetails } from './services/geocoder';
+import { createBoundaryPolygon, type BoundaryVertex } from './utils/boundaryDrawing';
+import { DEFAULT_RADIUS_MILES, describeSpatialFilter } from './utils/spatialFilter';
+import { convertSubmissionToProperty } from './services/propertyStorage';
+import { getDeletedProperties, getPropertyHistory, getPropertyRepository, getPropertySync } from './services/propertyRepository';
+import type { ConflictResolution } from './services/propertySync';
+import { AuditedPropertyRepository, type PropertyRevision } from './services/propertyHistory';
+import { SYNCED_STATUS, type PropertySyncStatus } from './services/propertyOutbox';
+import { canPerform } from './services/permissions';
+import { PermissionError } from './services/auth';
+import { downloadExport, exportFeatures, parcelsToFeatures, propertiesToFeatures, type ExportFormat } from './services/exportService';
+import { matchesSearchFilters, propertySearch } from './services/searchService';
+import { MAP_STATUS_FILTERS, matchesStatusFilter, reviewProperties, type MapStatusFilter, type ReviewDecision } from './services/moderation';
 
 function App() {
   const [currentLayer, setCurrentLayer] = useState<MapLayerType>('all');
   const [submittedProperties, setSubmittedProperties] = useState<Property[]>([]);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [showSubmissionForm, setShowSubmissionForm] = useState(false);
+  const [isPickingLocation, setIsPickingLocation] = useState(false);
+  const [pickedLocation, setPickedLocation] = useState<LocationDetails | null>(null);
+  const [isDrawingBoundary, setIsDrawingBoundary] = useState(false);
+  const [boundaryVertices, setBoundaryVertices] = useState<BoundaryVertex[]>([]);
   const [comprehensiveData, setComprehensiveData] = useState<ComprehensiveData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [parcelProgress, setParcelProgress] = useState<ShapefileLoadProgress | null>(null);
+  const [loadingCounty, setLoadingCounty] = useState<string | null>(null);
   const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null); // Add map reference
+  // Per-property sync state; null when records are not synced to the API server
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, PropertySyncStatus> | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [selectedParcels, setSelectedParcels] = useState<TravisCountyParcel[]>([]);
+  const [isSelectingParcels, setIsSelectingParcels] = useState(false);
+  // Spatial search filter: the map interaction in progress, the shape being drawn and the area outline
+  const [searchAreaMode, setSearchAreaMode] = useState<SearchAreaMode | null>(null);
+  const [searchAreaVertices, setSearchAreaVertices] = useState<BoundaryVertex[]>([]);
+  const [searchArea, setSearchArea] = useState<PolygonalGeometry | null>(null);
+  const { user, users, signIn, signOut } = useAuth();
+  const canSubmit = canPerform(user, 'create');
+  const canReview = canPerform(user, 'review');
+  const [statusFilter, setStatusFilter] = useState<MapStatusFilter>('all');
 
   // Filter state (expanded)
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<SearchFilters>({
     address: '', propertyType: '', minPrice: 0, maxPrice: 0,
     city: '', state: '', minYearBuilt: 0, maxYearBuilt: 0,
     minSquareFootage: 0, maxSquareFootage: 0, bedrooms: 0, bathrooms: 0
@@ -32,54 +77,31 @@ function App() {
   const [mapCenter, setMapCenter] = useState({ lat: 30.2672, lng: -97.7431 });
   const [mapZoom, setMapZoom] = useState(10);
 
-  // Filter submitted properties
-  const filteredProperties = submittedProperties.filter(property => {
-    console.log('Filtering property:', property.address, 'with filters:', filters);
-    
-    if (filters.address && !property.address.toLowerCase().includes(filters.address.toLowerCase())) {
-      console.log('Filtered out by address:', property.address);
-      return false;
-    }
-    if (filters.propertyType && property.propertyType !== filters.propertyType) {
-      console.log('Filtered out by property type:', property.propertyType);
-      return false;
-    }
-    if (filters.minPrice && property.marketValue < filters.minPrice) {
-      console.log('Filtered out by min price:', property.marketValue, '<', filters.minPrice);
-      return false;
-    }
-    if (filters.maxPrice && property.marketValue > filters.maxPrice) {
-      console.log('Filtered out by max price:', property.marketValue, '>', filters.maxPrice);
-      return false;
-    }
-    if (filters.minYearBuilt && property.yearBuilt && property.yearBuilt < filters.minYearBuilt) {
-      console.log('Filtered out by min year built:', property.yearBuilt, '<', filters.minYearBuilt);
-      return false;
-    }
-    if (filters.maxYearBuilt && property.yearBuilt && property.yearBuilt > filters.maxYearBuilt) {
-      console.log('Filtered out by max year built:', property.yearBuilt, '>', filters.maxYearBuilt);
-      return false;
-    }
-    if (filters.minSquareFootage && property.squareFootage && property.squareFootage < filters.minSquareFootage) {
-      console.log('Filtered out by min square footage:', property.squareFootage, '<', filters.minSquareFootage);
-      return false;
-    }
-    if (filters.maxSquareFootage && property.squareFootage && property.squareFootage > filters.maxSquareFootage) {
-      console.log('Filtered out by max square footage:', property.squareFootage, '>', filters.maxSquareFootage);
-      return false;
-    }
-    if (filters.bedrooms && property.bedrooms && property.bedrooms < filters.bedrooms) {
-      console.log('Filtered out by bedrooms:', property.bedrooms, '<', filters.bedrooms);
-      return false;
-    }
-    if (filters.bathrooms && property.bathrooms && property.bathrooms < filters.bathrooms) {
-      console.log('Filtered out by bathrooms:', property.bathrooms, '<', filters.bathrooms);
-      return false;
+  // Rejected submissions stay in the review queue and never reach the public map or lists
+  const visibleProperties = submittedProperties.filter(property => matchesStatusFilter(property, statusFilter));
+  const pendingReviewCount = submittedProperties.filter(property => (property.status || 'pending') === 'pending').length;
+
+  // Filter submitted properties with the same rules the unified search applies
+  const filteredProperties = visibleProperties.filter(property => matchesSearchFilters(property, filters));
+  const [searchResult, setSearchResult] = useState<PropertySearchResult | null>(null);
+
+  // Keep the search index in step with the visible submissions and the loaded datasets
+  useEffect(() => {
+    propertySearch.setSubmissions(submittedProperties.filter(property => matchesStatusFilter(property, statusFilter)));
+  }, [submittedProperties, statusFilter]);
+
+  useEffect(() => {
+    if (comprehensiveData) {
+      propertySearch.setDatasets(comprehensiveData);
+      propertyEnrichmentService.setDatasets(comprehensiveData);
     }
-    
-    console.log('Property passed all filters:', property.address);
-    return true;
-  });
+  }, [comprehensiveData]);
+
+  // Outline the spatial filter on the map; a ZIP outline depends on the indexed records
+  const spatialFilter = filters.spatial;
+  useEffect(() => {
+    setSearchArea(spatialFilter ? propertySearch.getQueryGeometry(spatialFilter) : null);
+  }, [spatialFilter, submittedProperties, statusFilter, comprehensiveData]);
 
   // Debug logging
   useEffect(() => {
@@ -88,6 +110,14 @@ function App() {
     console.log('Current filters:', filters);
   }, [submittedProperties, filteredProperties, filters]);
 
+  // Keep the local geocoder in sync with the loaded address points
+  const loadedAddresses = comprehensiveData?.addresses;
+  useEffect(() => {
+    if (loadedAddresses) {
+      geocoder.setAddressPoints(loadedAddresses);
+    }
+  }, [loadedAddresses]);
+
   // Load comprehensive data on component mount
   useEffect(() => {
     const loadData = async () => {
@@ -96,7 +126,7 @@ function App() {
         setError(null);
 
         console.log('🔄 Loading comprehensive data...');
-        const data = await loadComprehensiveData();
+        const data = await loadComprehensiveData({ onParcelProgress: setParcelProgress });
         console.log('✅ Comprehensive data loaded:', {
           parcels: data.parcels.length,
           addresses: data.addresses.length,
@@ -108,7 +138,8 @@ function App() {
         setComprehensiveData(data);
         
         // Load submitted properties
-        const submitted = loadProperties();
+        const repository = await getPropertyRepository();
+        const submitted = await repository.list();
         console.log('📋 Loaded submitted properties:', submitted.length);
         setSubmittedProperties(submitted);
         
@@ -124,12 +155,77 @@ function App() {
     loadData();
   }, []);
 
+  // Follow background sync so cards show their sync state and server-side changes appear
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    Promise.all([getPropertyRepository(), getPropertySync()]).then(([repository, sync]) => {
+      if (cancelled || !sync) return;
+
+      setSyncStatuses(sync.getStatuses());
+      unsubscribe = sync.subscribe(async change => {
+        setSyncStatuses(change.statuses);
+        if (change.propertiesChanged) {
+          setSubmittedProperties(await repository.list());
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const closeSubmissionForm = () => {
+    setShowSubmissionForm(false);
+    setIsPickingLocation(false);
+    setPickedLocation(null);
+    setIsDrawingBoundary(false);
+    setBoundaryVertices([]);
+  };
+
+  // Prefill the submission form from the address point and parcel under a map click
+  const handleLocationPick = (coordinates: { lat: number; lng: number }) => {
+    const location = lookupLocation(comprehensiveData?.parcelIndex, coordinates);
+    console.log('📍 Picked location:', location.address || `${coordinates.lat.toFixed(5)}, ${coordinates.lng.toFixed(5)}`);
+    setPickedLocation(location);
+  };
+
+  const setSpatialFilter = (spatial: SearchFilters['spatial']) => {
+    setFilters(prev => ({ ...prev, spatial }));
+  };
+
+  const handleSearchAreaModeChange = (mode: SearchAreaMode | null) => {
+    setSearchAreaMode(mode);
+    setSearchAreaVertices([]);
+  };
+
+  const handleFinishSearchArea = () => {
+    const polygon = createBoundaryPolygon(searchAreaVertices);
+    if (polygon) {
+      setSpatialFilter({ type: 'polygon', geometry: polygon });
+    }
+    handleSearchAreaModeChange(null);
+  };
+
+  // A radius filter keeps its distance when its centre moves
+  const handleRadiusCenterPick = (center: { lat: number; lng: number }) => {
+    setFilters(prev => ({
+      ...prev,
+      spatial: { type: 'radius', center, miles: prev.spatial?.type === 'radius' ? prev.spatial.miles : DEFAULT_RADIUS_MILES }
+    }));
+    setSearchAreaMode(null);
+  };
+
   // Handle property submission
   const handlePropertySubmission = async (submission: PropertySubmission) => {
     try {
-      const newProperty = await addProperty(submission);
+      const repository = await getPropertyRepository();
+      const newProperty = await repository.create(convertSubmissionToProperty(submission));
       setSubmittedProperties(prev => [...prev, newProperty]);
-      setShowSubmissionForm(false);
+      closeSubmissionForm();
       
       // Center map on new property
       setMapCenter({
@@ -145,6 +241,26 @@ function App() {
     }
   };
 
+  // Save the checked rows of a spreadsheet import; rows the repository refuses are counted and skipped
+  const handleBulkImport = async (submissions: PropertySubmission[]): Promise<BulkImportResult> => {
+    const repository = await getPropertyRepository();
+    const created: Property[] = [];
+    let failed = 0;
+
+    for (const submission of submissions) {
+      try {
+        created.push(await repository.create(convertSubmissionToProperty(submission)));
+      } catch (error) {
+        console.error(`Error importing ${submission.address}:`, error);
+        failed++;
+      }
+    }
+
+    setSubmittedProperties(prev => [...prev, ...created]);
+    console.log(`✅ Imported ${created.length} properties (${failed} failed)`);
+    return { imported: created.length, failed };
+  };
+
   // Handle property click from map or card
   const handlePropertyClick = (property: Property) => {
     console.log('🏠 Property clicked:', property.address);
@@ -193,6 +309,36 @@ function App() {
     setMapInstance(map);
   };
 
+  // Load parcels and addresses for a county clicked on the map
+  const handleCountyLoadRequest = async (fips: string) => {
+    const county = getCounty(fips);
+    if (!county || loadingCounty) return;
+
+    try {
+      setLoadingCounty(county.name);
+      setParcelProgress(null);
+      setError(null);
+
+      console.log(`🔄 Loading ${county.name} County data...`);
+      const countyData = await loadCountyData(county.fips, { onParcelProgress: setParcelProgress });
+      console.log(`✅ ${county.name} County loaded:`, {
+        parcels: countyData.parcels.length,
+        addresses: countyData.addresses.length
+      });
+
+      setComprehensiveData(prev => prev ? mergeCountyData(prev, countyData) : prev);
+
+      if (mapInstance) {
+        mapInstance.flyTo({ center: [county.center.lng, county.center.lat], zoom: 11 });
+      }
+    } catch (err) {
+      console.error(`❌ Error loading ${county.name} County data:`, err);
+      setError(`Failed to load ${county.name} County data.`);
+    } finally {
+      setLoadingCounty(null);
+    }
+  };
+
   // Handle View on Map button click
   const handleViewOnMap = (property: Property) => {
     console.log('🗺️ View on Map clicked for:', property.address);
@@ -274,15 +420,68 @@ function App() {
   };
 
   // Handle property deletion
-  const handleDeleteProperty = (propertyId: string) => {
+  const handleDeleteProperty = async (propertyId: string) => {
     try {
-      deleteProperty(propertyId);
+      const repository = await getPropertyRepository();
+      await repository.delete(propertyId);
       setSubmittedProperties(prev => prev.filter(p => p.id !== propertyId));
       setSelectedProperty(null);
       console.log('✅ Property deleted successfully');
     } catch (error) {
       console.error('Error deleting property:', error);
-      alert('Failed to delete property. Please try again.');
+      alert(error instanceof PermissionError ? error.message : 'Failed to delete property. Please try again.');
+    }
+  };
+
+  // Apply a moderation decision to the selected submissions
+  const handleReview = async (propertyIds: string[], decision: ReviewDecision) => {
+    const repository = await getPropertyRepository();
+    const updated = await reviewProperties(repository, propertyIds, decision);
+    const updatedById = Object.fromEntries(updated.map(property => [property.id, property]));
+
+    setSubmittedProperties(prev => prev.map(property => updatedById[property.id] || property));
+    setSelectedProperty(prev => prev && updatedById[prev.id] ? updatedById[prev.id] : prev);
+  };
+
+  // Settle a sync conflict by keeping the local change or the server's copy
+  const handleResolveConflict = async (propertyId: string, resolution: ConflictResolution) => {
+    const sync = await getPropertySync();
+    await sync?.resolveConflict(propertyId, resolution);
+  };
+
+  // Bring a property back to an earlier version from its history
+  const handleRestoreRevision = async (revision: PropertyRevision) => {
+    const repository = await getPropertyRepository();
+    if (!(repository instanceof AuditedPropertyRepository)) return;
+
+    const restored = await repository.restore(revision);
+    if (!restored) return;
+
+    // A deleted property comes back into the list
+    setSubmittedProperties(prev => prev.some(property => property.id === restored.id)
+      ? prev.map(property => property.id === restored.id ? restored : property)
+      : [...prev, restored]);
+    setSelectedProperty(restored);
+    console.log(`⏪ Restored ${restored.address} to revision ${revision.revision}`);
+  };
+
+  // Add a clicked parcel to the export selection, or remove it when already selected
+  const handleParcelClick = (parcel: TravisCountyParcel) => {
+    setSelectedParcels(prev => prev.some(selected => selected.PROP_ID === parcel.PROP_ID)
+      ? prev.filter(selected => selected.PROP_ID !== parcel.PROP_ID)
+      : [...prev, parcel]);
+  };
+
+  const handleExport = (target: ExportTarget, format: ExportFormat) => {
+    try {
+      const features = target === 'parcels'
+        ? parcelsToFeatures(selectedParcels)
+        : propertiesToFeatures(target === 'filtered' ? filteredProperties : submittedProperties);
+      const name = target === 'parcels' ? 'selected_parcels' : `${target}_properties`;
+      downloadExport(exportFeatures(features, format, name));
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Failed to export data. Please try again.');
     }
   };
 
@@ -291,20 +490,11 @@ function App() {
     setCurrentLayer(layer);
   };
 
-  // Handle search
-  const handleSearch = () => {
-    console.log('🔍 Search triggered with filters:', filters);
-    console.log(`📊 Found ${filteredProperties.length} properties matching criteria`);
-    
-    // Force a re-render of the filtered properties
-    setSubmittedProperties(prev => [...prev]);
-    
-    // Show a notification
-    if (filteredProperties.length === 0) {
-      alert('No properties found matching your criteria. Try adjusting your filters.');
-    } else {
-      alert(`Found ${filteredProperties.length} properties matching your criteria.`);
-    }
+  // Search every dataset with the current filters, starting from the first page
+  const handleSearch = (page: number = 1) => {
+    const result = propertySearch.search(filters, page);
+    console.log(`🔍 Search found ${result.total} matches`, result.totalsBySource);
+    setSearchResult(result);
   };
 
   return (
@@ -316,6 +506,7 @@ function App() {
             <h1 className="text-xl font-semibold text-gray-900">
               Texas Property Mapping Interface
             </h1>
+            <UserSwitcher user={user} users={users} onSignIn={signIn} onSignOut={signOut} />
           </div>
         </div>
       </div>
@@ -339,6 +530,19 @@ function App() {
             <div className="bg-white rounded-lg shadow-sm p-4">
               <h2 className="text-lg font-semibold mb-3">Map Layers</h2>
               <LayerToggle currentLayer={currentLayer} onLayerChange={handleLayerChange} />
+              <label htmlFor="status-filter" className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Submission Status
+              </label>
+              <select
+                id="status-filter"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as MapStatusFilter)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {MAP_STATUS_FILTERS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
             </div>
 
             {/* Property Submission */}
@@ -347,13 +551,53 @@ function App() {
               <div className="space-y-2">
                 <button
                   onClick={() => setShowSubmissionForm(true)}
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  disabled={!canSubmit}
+                  title={canSubmit ? undefined : 'Sign in to submit properties'}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   + Submit New Property
                 </button>
+                <button
+                  onClick={() => setShowBulkImport(true)}
+                  disabled={!canSubmit}
+                  title={canSubmit ? undefined : 'Sign in to import properties'}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import from Spreadsheet
+                </button>
+                {canReview && (
+                  <button
+                    onClick={() => setShowReviewQueue(true)}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Review Submissions ({pendingReviewCount} pending)
+                  </button>
+                )}
+                {canSubmit && (
+                  <button
+                    onClick={() => setShowDeleted(true)}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Recently Deleted
+                  </button>
+                )}
               </div>
             </div>
 
+            {/* Export */}
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-lg font-semibold mb-3">Export</h2>
+              <ExportPanel
+                submittedCount={submittedProperties.length}
+                filteredCount={filteredProperties.length}
+                selectedParcelCount={selectedParcels.length}
+                isSelectingParcels={isSelectingParcels}
+                onToggleSelectingParcels={() => setIsSelectingParcels(prev => !prev)}
+                onClearSelection={() => setSelectedParcels([])}
+                onExport={handleExport}
+              />
+            </div>
+
             {/* Search Filters */}
             <div className="bg-white rounded-lg shadow-sm p-4">
               <h2 className="text-lg font-semibold mb-3">Filter Properties</h2>
@@ -371,19 +615,43 @@ function App() {
                   minSquareFootage: newFilters.minSquareFootage || 0,
                   maxSquareFootage: newFilters.maxSquareFootage || 0,
                   bedrooms: newFilters.bedrooms || 0,
-                  bathrooms: newFilters.bathrooms || 0
+                  bathrooms: newFilters.bathrooms || 0,
+                  sources: newFilters.sources,
+                  spatial: newFilters.spatial
                 })}
-                onSearch={handleSearch}
+                onSearch={() => handleSearch()}
               />
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <SpatialFilterPanel
+                  filter={filters.spatial}
+                  counties={comprehensiveData?.counties || []}
+                  onChange={setSpatialFilter}
+                  mode={searchAreaMode}
+                  onModeChange={handleSearchAreaModeChange}
+                  drawnVertexCount={searchAreaVertices.length}
+                  onFinishDrawing={handleFinishSearchArea}
+                  disabled={isPickingLocation || isDrawingBoundary}
+                />
+              </div>
             </div>
 
             {/* Data Status */}
             <div className="bg-white rounded-lg shadow-sm p-4">
               <h2 className="text-lg font-semibold mb-3">Data Status</h2>
               {isLoading && <p className="text-blue-600">Loading data...</p>}
+              {loadingCounty && <p className="text-blue-600">Loading {loadingCounty} County...</p>}
+              {(isLoading || loadingCounty) && parcelProgress && (
+                <p className="text-sm text-gray-600">
+                  Parcels read: {parcelProgress.recordsRead.toLocaleString()}
+                  {parcelProgress.percent !== undefined && ` (${parcelProgress.percent}%)`}
+                </p>
+              )}
               {error && <p className="text-red-600">{error}</p>}
               {comprehensiveData && (
                 <div className="text-sm text-gray-600 space-y-1">
+                  <p>
+                    Counties: {comprehensiveData.loadedCounties.map(fips => getCounty(fips)?.name || fips).join(', ')}
+                  </p>
                   <p>Parcels: {comprehensiveData.parcels.length}</p>
                   <p>Addresses: {comprehensiveData.addresses.length}</p>
                   <p>Submitted: {submittedProperties.length}</p>
@@ -396,18 +664,19 @@ function App() {
               <div className="flex items-center justify-between mb-3">
                 <h2 className="text-lg font-semibold">Your Properties</h2>
                 <span className="text-sm text-gray-500">
-                  {filteredProperties.length} of {submittedProperties.length}
+                  {filteredProperties.length} of {visibleProperties.length}
                 </span>
               </div>
               
               {/* Active filters indicator */}
-              {Object.values(filters).some(value => value !== '' && value !== 0) && (
+              {Object.values(filters).some(value => value !== undefined && value !== '' && value !== 0) && (
                 <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">
                   <span className="font-medium">Active filters:</span>
                   {filters.address && <span className="ml-2">Address: "{filters.address}"</span>}
                   {filters.propertyType && <span className="ml-2">Type: {filters.propertyType}</span>}
-                  {filters.minPrice > 0 && <span className="ml-2">Min: ${filters.minPrice.toLocaleString()}</span>}
-                  {filters.maxPrice > 0 && <span className="ml-2">Max: ${filters.maxPrice.toLocaleString()}</span>}
+                  {!!filters.minPrice && <span className="ml-2">Min: ${filters.minPrice.toLocaleString()}</span>}
+                  {!!filters.maxPrice && <span className="ml-2">Max: ${filters.maxPrice.toLocaleString()}</span>}
+                  {filters.spatial && <span className="ml-2">Area: {describeSpatialFilter(filters.spatial)}</span>}
                 </div>
               )}
               
@@ -418,7 +687,8 @@ function App() {
                       <p className="text-gray-500 text-sm mb-2">No properties submitted yet.</p>
                       <button
                         onClick={() => setShowSubmissionForm(true)}
-                        className="btn-primary text-sm"
+                        disabled={!canSubmit}
+                        className="btn-primary text-sm disabled:opacity-50"
                       >
                         + Submit Your First Property
                       </button>
@@ -474,14 +744,34 @@ function App() {
               <div className="h-96 rounded-lg overflow-hidden border border-gray-200">
                 <Map
                   layerType={currentLayer}
-                  properties={submittedProperties}
+                  properties={visibleProperties}
                   onPropertyClick={handlePropertyClick}
                   comprehensiveData={comprehensiveData || undefined}
                   onMapReady={handleMapReady}
+                  onCountyLoadRequest={handleCountyLoadRequest}
+                  isPickingLocation={isPickingLocation || searchAreaMode === 'pick-center'}
+                  pickedLocation={showSubmissionForm ? pickedLocation?.coordinates : null}
+                  onLocationPick={searchAreaMode === 'pick-center' ? handleRadiusCenterPick : handleLocationPick}
+                  isDrawingBoundary={isDrawingBoundary || searchAreaMode === 'draw'}
+                  boundaryVertices={searchAreaMode === 'draw' ? searchAreaVertices : boundaryVertices}
+                  onBoundaryChange={searchAreaMode === 'draw' ? setSearchAreaVertices : setBoundaryVertices}
+                  selectedParcels={selectedParcels}
+                  onParcelClick={isSelectingParcels ? handleParcelClick : undefined}
+                  searchArea={searchArea}
                 />
               </div>
             </div>
 
+            {/* Unified search results */}
+            {searchResult && (
+              <SearchResults
+                result={searchResult}
+                onPageChange={handleSearch}
+                onViewOnMap={handleViewOnMap}
+                onClose={() => setSearchResult(null)}
+              />
+            )}
+
             {/* Property Cards Below Map */}
             {filteredProperties.length > 0 && (
               <div className="bg-white rounded-lg shadow-sm p-6">
@@ -497,10 +787,15 @@ function App() {
                       key={property.id}
                       property={property}
                       onClose={() => setSelectedProperty(null)}
-                      onDelete={() => handleDeleteProperty(property.id)}
+                      onDelete={canPerform(user, 'delete', property) ? () => handleDeleteProperty(property.id) : undefined}
                       onSelect={() => handlePropertyCardSelect(property)}
                       onViewOnMap={() => handleViewOnMap(property)}
                       isSelected={selectedProperty?.id === property.id}
+                      parcelStats={comprehensiveData ? getParcelStatsForProperty(comprehensiveData, property) : undefined}
+                      syncStatus={syncStatuses ? syncStatuses[property.id] || SYNCED_STATUS : undefined}
+                      onResolveConflict={resolution => handleResolveConflict(property.id, resolution)}
+                      onLoadHistory={getPropertyHistory}
+                      onRestoreRevision={canPerform(user, 'edit', property) ? handleRestoreRevision : undefined}
                     />
                   ))}
                 </div>
@@ -509,12 +804,51 @@ function App() {
           </div>
         </div>
 
+        {/* Bulk Import Dialog */}
+        {showBulkImport && canSubmit && (
+          <BulkImportDialog onImport={handleBulkImport} onClose={() => setShowBulkImport(false)} />
+        )}
+
+        {/* Deleted properties, restorable from their history */}
+        {showDeleted && canSubmit && (
+          <DeletedProperties
+            onLoadDeleted={getDeletedProperties}
+            onLoadHistory={getPropertyHistory}
+            onRestore={handleRestoreRevision}
+            canRestore={property => canPerform(user, 'edit', property)}
+            onClose={() => setShowDeleted(false)}
+          />
+        )}
+
+        {/* Moderation Review Queue */}
+        {showReviewQueue && canReview && user && (
+          <ReviewQueue
+            properties={submittedProperties}
+            reviewer={user.name}
+            onReview={handleReview}
+            onClose={() => setShowReviewQueue(false)}
+            onViewOnMap={(property) => {
+              setShowReviewQueue(false);
+              handleViewOnMap(property);
+            }}
+          />
+        )}
+
         {/* Property Submission Form */}
         {showSubmissionForm && (
           <FloatingPropertyForm
             isVisible={showSubmissionForm}
             onSubmit={handlePropertySubmission}
-            onClose={() => { setShowSubmissionForm(false); }}
+            onClose={closeSubmissionForm}
+            isPickingLocation={isPickingLocation}
+            pickedLocation={pickedLocation}
+            onPickOnMap={() => setIsPickingLocation(true)}
+            onFinishPicking={() => setIsPickingLocation(false)}
+            isDrawingBoundary={isDrawingBoundary}
+            boundaryVertices={boundaryVertices}
+            onDrawBoundary={() => setIsDrawingBoundary(true)}
+            onBoundaryChange={setBoundaryVertices}
+            onFinishDrawing={() => setIsDrawingBoundary(false)}
           />
         )}
 
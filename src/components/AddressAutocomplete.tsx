@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { Building2, Hash, MapPin, Search, User } from 'lucide-react';
+import { propertySearch, type SearchSuggestion, type SearchTextField } from '../services/searchService';
+
+interface AddressAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  // A picked suggestion; the input does not change its value by itself
+  onSelect: (suggestion: SearchSuggestion) => void;
+  // Enter without a highlighted suggestion; inside a form, Enter submits it if this is not given
+  onSubmit?: () => void;
+  getSuggestions?: (query: string) => SearchSuggestion[];
+  placeholder?: string;
+  className?: string;
+}
+
+// Suggestions start after this many characters
+const MIN_QUERY_LENGTH = 2;
+
+const FIELD_ICONS: Record<SearchTextField, typeof MapPin> = {
+  address: MapPin,
+  owner: User,
+  parcelId: Hash
+};
+
+const FIELD_LABELS: Record<SearchTextField, string> = {
+  address: 'Address',
+  owner: 'Owner',
+  parcelId: 'Parcel'
+};
+
+const defaultSuggestions = (query: string) => propertySearch.suggest(query);
+
+// Text input with ranked address, owner and parcel id suggestions from the search index
+export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
+  value,
+  onChange,
+  onSelect,
+  onSubmit,
+  getSuggestions = defaultSuggestions,
+  placeholder = 'Address, owner or parcel ID',
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const suggestions = useMemo(
+    () => (isOpen && value.trim().length >= MIN_QUERY_LENGTH ? getSuggestions(value) : []),
+    [isOpen, value, getSuggestions]
+  );
+
+  const choose = (suggestion: SearchSuggestion) => {
+    onSelect(suggestion);
+    setIsOpen(false);
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter') {
+      if (suggestions[highlighted]) {
+        e.preventDefault();
+        choose(suggestions[highlighted]);
+      } else {
+        setIsOpen(false);
+        if (onSubmit) {
+          e.preventDefault();
+          onSubmit();
+        }
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <Search className="h-5 w-5 text-gray-400" />
+      </div>
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-autocomplete="list"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        placeholder={placeholder}
+      />
+
+      {suggestions.length > 0 && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-72 overflow-y-auto">
+          {suggestions.map((suggestion, index) => {
+            const Icon = suggestion.source === 'building' ? Building2 : FIELD_ICONS[suggestion.field];
+            const detail = suggestion.field === 'address'
+              ? [suggestion.property.city, suggestion.property.zipCode].filter(Boolean).join(' ')
+              : suggestion.property.address;
+
+            return (
+              <li
+                key={`${suggestion.field}-${suggestion.property.id}`}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so it does not close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(suggestion)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`px-3 py-2 cursor-pointer flex items-start ${index === highlighted ? 'bg-blue-50' : ''}`}
+              >
+                <Icon className="w-4 h-4 mr-2 mt-0.5 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{suggestion.label}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {FIELD_LABELS[suggestion.field]}{detail && ` · ${detail}`}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,21 @@
 import { useState } from 'react';
-import { Search, MapPin } from 'lucide-react';
+import { MapPin } from 'lucide-react';
+import { AddressAutocomplete } from './AddressAutocomplete';
+import type { SearchSuggestion } from '../services/searchService';
 
 interface AddressFilterProps {
   onSearch: (address: string) => void;
   onClear: () => void;
+  // Called instead of onSearch when a suggestion is picked, if given
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
+  getSuggestions?: (query: string) => SearchSuggestion[];
 }
 
 export const AddressFilter: React.FC<AddressFilterProps> = ({
   onSearch,
-  onClear
+  onClear,
+  onSelectSuggestion,
+  getSuggestions
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -19,6 +26,15 @@ export const AddressFilter: React.FC<AddressFilterProps> = ({
     }
   };
 
+  const handleSelect = (suggestion: SearchSuggestion) => {
+    setSearchTerm(suggestion.label);
+    if (onSelectSuggestion) {
+      onSelectSuggestion(suggestion);
+    } else {
+      onSearch(suggestion.label);
+    }
+  };
+
   const handleClear = () => {
     setSearchTerm('');
     onClear();
@@ -32,18 +48,13 @@ export const AddressFilter: React.FC<AddressFilterProps> = ({
       </h3>
       
       <form onSubmit={handleSubmit} className="space-y-3">
-        <div className="relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="h-5 w-5 text-gray-400" />
-          </div>
-          <input
-            type="text"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="Search by address..."
-          />
-        </div>
+        <AddressAutocomplete
+          value={searchTerm}
+          onChange={setSearchTerm}
+          onSelect={handleSelect}
+          getSuggestions={getSuggestions}
+          placeholder="Search by address, owner or parcel ID..."
+        />
         
         <div className="flex space-x-2">
           <button
@@ -63,8 +74,8 @@ export const AddressFilter: React.FC<AddressFilterProps> = ({
       </form>
       
       <div className="mt-3 text-sm text-gray-600">
-        <p>Search for properties by address in Texas.</p>
-        <p className="mt-1">Examples: "Austin, TX", "Houston", "123 Main St"</p>
+        <p>Search for properties by address, owner name or parcel ID. Abbreviations and small typos are fine.</p>
+        <p className="mt-1">Examples: "123 North Lamar Boulevard", "Smith John", "100200"</p>
       </div>
     </div>
   );
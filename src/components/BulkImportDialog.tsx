@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { X, Upload, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { PropertySubmission } from './FloatingPropertyForm';
+import {
+  IMPORT_FIELDS,
+  geocodeImportRows,
+  getMappingErrors,
+  isImportRowReady,
+  mapImportRows,
+  readImportFile,
+  suggestImportMapping,
+  toPropertySubmission,
+  type GeocodeConfidence,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportRow,
+  type ImportTable
+} from '../services/bulkImport';
+
+export interface BulkImportResult {
+  imported: number;
+  failed: number;
+}
+
+interface BulkImportDialogProps {
+  onImport: (submissions: PropertySubmission[]) => Promise<BulkImportResult>;
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const CONFIDENCE_STYLES: Record<GeocodeConfidence, string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800'
+};
+
+// Upload a spreadsheet, map its columns, then review geocoded and validated rows before saving
+export const BulkImportDialog: React.FC<BulkImportDialogProps> = ({ onImport, onClose }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [result, setResult] = useState<BulkImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const mappingErrors = getMappingErrors(mapping);
+  const readyRows = rows.filter(isImportRowReady);
+  const visibleRows = showProblemsOnly ? rows.filter(row => row.errors.length > 0 || row.warnings.length > 0) : rows;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has a header row but no data rows');
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(suggestImportMapping(parsed.columns));
+      setStep('mapping');
+    } catch (readError) {
+      console.error('Could not read import file:', readError);
+      setError((readError as Error).message || 'Could not read the file');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!table) return;
+    setStep('preview');
+    setProgress({ done: 0, total: table.rows.length });
+    const geocoded = await geocodeImportRows(mapImportRows(table, mapping), {
+      onProgress: (done, total) => setProgress({ done, total })
+    });
+    setRows(geocoded);
+    setProgress(null);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      setResult(await onImport(readyRows.map(toPropertySubmission)));
+      setStep('done');
+    } catch (importError) {
+      console.error('Bulk import failed:', importError);
+      setError((importError as Error).message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatLocation = (row: ImportRow) => {
+    if (!row.geocode) return <span className="text-gray-400">—</span>;
+    const { source, score, confidence, matchedAddress } = row.geocode;
+    return (
+      <span
+        className={`px-2 py-0.5 rounded-full text-xs font-medium ${CONFIDENCE_STYLES[confidence]}`}
+        title={matchedAddress ? `Matched ${matchedAddress} (${source}, score ${score})` : 'Coordinates from the file'}
+      >
+        {source === 'file' ? 'From file' : `${confidence} (${Math.round(score * 100)}%)`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Upload className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-semibold">Import Properties</h2>
+            {fileName && <span className="text-sm text-gray-500">{fileName}</span>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close import">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 bg-red-50 text-red-700 text-sm p-3 rounded-lg">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Choose a CSV or Excel (.xlsx) file with a header row. You will map its columns and check every row before anything is saved.
+              </p>
+              <label htmlFor="bulk-import-file" className="block text-sm font-medium text-gray-700">Spreadsheet</label>
+              <input
+                id="bulk-import-file"
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm text-gray-700"
+              />
+            </div>
+          )}
+
+          {step === 'mapping' && table && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                {table.rows.length} rows found. Match each property field to a column; rows without latitude and longitude are geocoded from their address.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => (
+                  <div key={field}>
+                    <label htmlFor={`import-field-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {IMPORT_FIELDS[field].label}{IMPORT_FIELDS[field].required && ' *'}
+                    </label>
+                    <select
+                      id={`import-field-${field}`}
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Not imported</option>
+                      {table.columns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {mappingErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc list-inside">
+                  {mappingErrors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && progress && (
+            <p className="text-sm text-blue-600">Geocoding rows: {progress.done} of {progress.total}...</p>
+          )}
+
+          {step === 'preview' && !progress && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="text-green-700 font-medium">{readyRows.length} ready</span>
+                  {' · '}
+                  <span className="text-red-700 font-medium">{rows.length - readyRows.length} with errors</span>
+                  {' · '}
+                  <span className="text-yellow-700">{rows.filter(row => row.warnings.length > 0).length} with warnings</span>
+                </span>
+                <label className="flex items-center space-x-2 text-gray-600">
+                  <input type="checkbox" checked={showProblemsOnly} onChange={(e) => setShowProblemsOnly(e.target.checked)} />
+                  <span>Only rows with problems</span>
+                </label>
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Address</th>
+                      <th className="px-3 py-2">City</th>
+                      <th className="px-3 py-2">ZIP</th>
+                      <th className="px-3 py-2">Price</th>
+                      <th className="px-3 py-2">Type</th>
+                      <th className="px-3 py-2">Location</th>
+                      <th className="px-3 py-2">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr key={row.row} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2">{row.submission.address}</td>
+                        <td className="px-3 py-2">{row.submission.city}</td>
+                        <td className="px-3 py-2">{row.submission.zipCode}</td>
+                        <td className="px-3 py-2">{row.submission.price ? `$${row.submission.price.toLocaleString()}` : ''}</td>
+                        <td className="px-3 py-2 capitalize">{row.submission.propertyType}</td>
+                        <td className="px-3 py-2">{formatLocation(row)}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length === 0 && row.warnings.length === 0 && (
+                            <CheckCircle className="w-4 h-4 text-green-600" aria-label="Ready" />
+                          )}
+                          {row.errors.map(message => (
+                            <p key={message} className="flex items-start text-red-700">
+                              <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />{message}
+                            </p>
+                          ))}
+                          {row.warnings.map(message => (
+                            <p key={message} className="flex items-start text-yellow-700">
+                              <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />{message}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="flex items-center space-x-2 text-sm">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <span>
+                Imported {result.imported} {result.imported === 1 ? 'property' : 'properties'}
+                {result.failed > 0 && `; ${result.failed} could not be saved (see the console for details)`}.
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 p-4 border-t border-gray-200">
+          {step === 'mapping' && (
+            <>
+              <button onClick={() => setStep('upload')} className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg">
+                Back
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={mappingErrors.length > 0}
+                className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview
+              </button>
+            </>
+          )}
+          {step === 'preview' && !progress && (
+            <>
+              <button onClick={() => setStep('mapping')} className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg">
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={readyRows.length === 0 || isImporting}
+                className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : `Import ${readyRows.length} ${readyRows.length === 1 ? 'property' : 'properties'}`}
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import { loadComprehensiveData, type ComprehensiveData } from '../services/comprehensiveDataLoader';
+import { isValidPolygonalGeometry } from '../utils/geometry';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 export const ComprehensiveTest: React.FC = () => {
@@ -195,10 +196,7 @@ export const ComprehensiveTest: React.FC = () => {
 
       // Filter out invalid geometries
       const validCounties = data.counties.filter(county => 
-        county.geometry && 
-        county.geometry.type === 'Polygon' && 
-        county.geometry.coordinates && 
-        county.geometry.coordinates.length > 0
+        isValidPolygonalGeometry(county.geometry)
       );
 
       if (validCounties.length === 0) {
@@ -353,11 +351,7 @@ export const ComprehensiveTest: React.FC = () => {
 
       // Filter out invalid geometries
       const validParcels = data.parcels.filter(parcel => 
-        parcel.geometry && 
-        parcel.geometry.type === 'Polygon' && 
-        parcel.geometry.coordinates && 
-        parcel.geometry.coordinates.length > 0 &&
-        parcel.geometry.coordinates[0].length >= 3
+        isValidPolygonalGeometry(parcel.geometry)
       );
 
       if (validParcels.length === 0) {
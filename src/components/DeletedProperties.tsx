@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { X, Trash2, History } from 'lucide-react';
+import type { Property } from '../types';
+import type { DeletedProperty, PropertyRevision } from '../services/propertyHistory';
+import { PropertyHistory } from './PropertyHistory';
+
+interface DeletedPropertiesProps {
+  onLoadDeleted: () => Promise<DeletedProperty[]>;
+  onLoadHistory: (propertyId: string) => Promise<PropertyRevision[]>;
+  onRestore: (revision: PropertyRevision) => Promise<void>;
+  canRestore: (property: Property) => boolean;
+  onClose: () => void;
+}
+
+export const DeletedProperties: React.FC<DeletedPropertiesProps> = ({ onLoadDeleted, onLoadHistory, onRestore, canRestore, onClose }) => {
+  const [deleted, setDeleted] = useState<DeletedProperty[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped after each restore so the restored record drops off the list
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    onLoadDeleted()
+      .then(loaded => {
+        if (!cancelled) setDeleted(loaded);
+      })
+      .catch(loadError => {
+        console.error('Error loading deleted properties:', loadError);
+        if (!cancelled) setError('Could not load the deleted properties');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoadDeleted, reloadCount]);
+
+  const restore = async (revision: PropertyRevision) => {
+    await onRestore(revision);
+    setExpandedId(null);
+    setReloadCount(count => count + 1);
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Trash2 className="w-5 h-5 mr-2" />
+            Recently Deleted
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Close recently deleted">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : !deleted ? (
+            <p className="text-sm text-gray-500">Loading deleted properties...</p>
+          ) : deleted.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">No deleted properties.</p>
+          ) : (
+            deleted.map(({ property, deletedBy, deletedAt }) => (
+              <div key={property.id} className="p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 text-sm">{property.address}</p>
+                    <p className="text-xs text-gray-500 mt-1">Deleted by {deletedBy} on {formatDate(deletedAt)}</p>
+                  </div>
+                  <button
+                    onClick={() => setExpandedId(prev => prev === property.id ? null : property.id)}
+                    className="ml-2 text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                    aria-label={`Show history for ${property.address}`}
+                  >
+                    <History className="w-3 h-3 mr-1" />
+                    History
+                  </button>
+                </div>
+                {expandedId === property.id && (
+                  <div className="mt-3">
+                    <PropertyHistory
+                      property={property}
+                      onLoadHistory={onLoadHistory}
+                      onRestore={canRestore(property) ? restore : undefined}
+                    />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
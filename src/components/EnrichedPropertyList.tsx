@@ -1,12 +1,26 @@
 import React from 'react';
 import { DollarSign, MapPin, Home, Calendar, User } from 'lucide-react';
 import type { EnrichedPropertyData } from '../services/propertyDataEnrichment';
+import type { EnrichmentField } from '../services/enrichmentProviders';
 
 interface EnrichedPropertyListProps {
   properties: EnrichedPropertyData[];
   onPropertyClick?: (property: EnrichedPropertyData) => void;
 }
 
+const formatValue = (value: number | undefined, format: (value: number) => string) =>
+  value !== undefined ? format(value) : 'Unknown';
+
+// Tooltip naming the provider that supplied a field
+const sourceLabel = (property: EnrichedPropertyData, field: EnrichmentField) => {
+  const source = property.provenance[field];
+  if (!source) return 'No provider has this value';
+  return source.detail ? `${source.providerName}: ${source.detail}` : source.providerName;
+};
+
+const sourceNames = (property: EnrichedPropertyData) =>
+  Array.from(new Set(Object.values(property.provenance).map(source => source!.providerName)));
+
 export const EnrichedPropertyList: React.FC<EnrichedPropertyListProps> = ({
   properties,
   onPropertyClick
@@ -16,7 +30,7 @@ export const EnrichedPropertyList: React.FC<EnrichedPropertyListProps> = ({
       <div className="p-4 text-center text-gray-500">
         <Home className="w-8 h-8 mx-auto mb-2 text-gray-400" />
         <p>No enriched properties available</p>
-        <p className="text-sm">Click "Enrich Address Points" to generate real property data</p>
+        <p className="text-sm">Click "Enrich Address Points" to look up property data from the loaded sources</p>
       </div>
     );
   }
@@ -31,70 +45,74 @@ export const EnrichedPropertyList: React.FC<EnrichedPropertyListProps> = ({
         >
           <div className="flex justify-between items-start mb-2">
             <h3 className="font-semibold text-gray-900 text-sm">{property.address}</h3>
-            <span className="text-xs px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
-              {property.propertyType}
+            <span
+              className="text-xs px-2 py-1 bg-blue-100 text-blue-800 rounded-full"
+              title={sourceLabel(property, 'propertyType')}
+            >
+              {property.propertyType || 'Unknown type'}
             </span>
           </div>
 
           <div className="space-y-2">
             {/* Market Value */}
-            <div className="flex items-center text-sm">
+            <div className="flex items-center text-sm" title={sourceLabel(property, 'marketValue')}>
               <DollarSign className="w-4 h-4 text-green-600 mr-2" />
-              <span className="font-medium text-green-600">
-                ${property.marketValue.toLocaleString()}
-              </span>
+              {property.marketValue !== undefined ? (
+                <span className="font-medium text-green-600">
+                  ${property.marketValue.toLocaleString()}
+                </span>
+              ) : (
+                <span className="font-medium text-gray-400">Unknown</span>
+              )}
               <span className="text-gray-500 ml-2">market value</span>
             </div>
 
             {/* Property Details */}
             <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
-              {property.squareFootage && (
-                <div className="flex items-center">
-                  <Home className="w-3 h-3 mr-1" />
-                  <span>{property.squareFootage.toLocaleString()} sq ft</span>
-                </div>
-              )}
-              
-              {property.bedrooms && (
-                <div className="flex items-center">
-                  <span>🛏️ {property.bedrooms} beds</span>
-                </div>
-              )}
-              
-              {property.bathrooms && (
-                <div className="flex items-center">
-                  <span>🚿 {property.bathrooms} baths</span>
-                </div>
-              )}
-              
-              {property.yearBuilt && (
-                <div className="flex items-center">
-                  <Calendar className="w-3 h-3 mr-1" />
-                  <span>Built {property.yearBuilt}</span>
-                </div>
-              )}
+              <div className="flex items-center" title={sourceLabel(property, 'squareFootage')}>
+                <Home className="w-3 h-3 mr-1" />
+                <span>{formatValue(property.squareFootage, value => `${value.toLocaleString()} sq ft`)}</span>
+              </div>
+
+              <div className="flex items-center" title={sourceLabel(property, 'bedrooms')}>
+                <span>🛏️ {formatValue(property.bedrooms, value => `${value} beds`)}</span>
+              </div>
+
+              <div className="flex items-center" title={sourceLabel(property, 'bathrooms')}>
+                <span>🚿 {formatValue(property.bathrooms, value => `${value} baths`)}</span>
+              </div>
+
+              <div className="flex items-center" title={sourceLabel(property, 'yearBuilt')}>
+                <Calendar className="w-3 h-3 mr-1" />
+                <span>{formatValue(property.yearBuilt, value => `Built ${value}`)}</span>
+              </div>
             </div>
 
             {/* Additional Info */}
             <div className="text-xs text-gray-500 space-y-1">
-              {property.lotSize && (
-                <div>Lot Size: {property.lotSize} acres</div>
-              )}
-              
-              {property.lastSaleDate && property.lastSalePrice && (
-                <div>
-                  Last sold: {property.lastSaleDate} for ${property.lastSalePrice.toLocaleString()}
-                </div>
-              )}
-              
-              {property.ownerName && (
-                <div className="flex items-center">
-                  <User className="w-3 h-3 mr-1" />
-                  <span>{property.ownerName}</span>
-                </div>
-              )}
+              <div title={sourceLabel(property, 'lotSize')}>
+                Lot Size: {formatValue(property.lotSize, value => `${value} acres`)}
+              </div>
+
+              <div title={sourceLabel(property, 'lastSalePrice')}>
+                Last sold: {property.lastSaleDate && property.lastSalePrice
+                  ? `${property.lastSaleDate} for $${property.lastSalePrice.toLocaleString()}`
+                  : 'Unknown'}
+              </div>
+
+              <div className="flex items-center" title={sourceLabel(property, 'ownerName')}>
+                <User className="w-3 h-3 mr-1" />
+                <span>{property.ownerName || 'Unknown owner'}</span>
+              </div>
             </div>
 
+            {/* Sources */}
+            {sourceNames(property).length > 0 && (
+              <div className="text-xs text-gray-400">
+                Sources: {sourceNames(property).join(', ')}
+              </div>
+            )}
+
             {/* Property ID */}
             {property.propertyId && (
               <div className="text-xs text-gray-400">
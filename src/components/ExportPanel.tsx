@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, type ExportFormat } from '../services/exportService';
+
+export type ExportTarget = 'submitted' | 'filtered' | 'parcels';
+
+interface ExportPanelProps {
+  submittedCount: number;
+  filteredCount: number;
+  selectedParcelCount: number;
+  isSelectingParcels: boolean;
+  onToggleSelectingParcels: () => void;
+  onClearSelection: () => void;
+  onExport: (target: ExportTarget, format: ExportFormat) => void;
+}
+
+// Download submitted properties, the filtered results or parcels selected on the map
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  submittedCount,
+  filteredCount,
+  selectedParcelCount,
+  isSelectingParcels,
+  onToggleSelectingParcels,
+  onClearSelection,
+  onExport
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+
+  const targets: { target: ExportTarget; label: string; count: number }[] = [
+    { target: 'submitted', label: 'All submitted', count: submittedCount },
+    { target: 'filtered', label: 'Filtered results', count: filteredCount },
+    { target: 'parcels', label: 'Selected parcels', count: selectedParcelCount }
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 mb-1">
+          Format
+        </label>
+        <select
+          id="export-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {EXPORT_FORMATS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {targets.map(({ target, label, count }) => (
+          <button
+            key={target}
+            onClick={() => onExport(target, format)}
+            disabled={count === 0}
+            className="w-full flex items-center justify-between bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm font-medium py-2 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span className="flex items-center">
+              <Download className="w-4 h-4 mr-2" />
+              {label}
+            </span>
+            <span className="text-gray-500">{count}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          onClick={onToggleSelectingParcels}
+          aria-pressed={isSelectingParcels}
+          className={`px-3 py-1 rounded-lg border transition-colors ${
+            isSelectingParcels ? 'bg-amber-100 border-amber-400 text-amber-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {isSelectingParcels ? 'Done selecting' : 'Select parcels on map'}
+        </button>
+        {selectedParcelCount > 0 && (
+          <button onClick={onClearSelection} className="text-blue-600 hover:text-blue-800">
+            Clear selection
+          </button>
+        )}
+      </div>
+      {isSelectingParcels && (
+        <p className="text-xs text-gray-500">Click parcels on the map to add or remove them.</p>
+      )}
+    </div>
+  );
+};
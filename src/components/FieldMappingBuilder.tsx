@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Columns, Save, X } from 'lucide-react';
+import {
+  PARCEL_FIELDS,
+  buildCustomProfile,
+  suggestColumnMapping,
+  type FieldMappingProfile,
+  type ParcelField
+} from '../utils/fieldMapping';
+
+interface FieldMappingBuilderProps {
+  sourceName: string;
+  fields: string[];
+  sample: Record<string, unknown>;
+  onSave: (profile: FieldMappingProfile) => void;
+  onCancel: () => void;
+}
+
+export const FieldMappingBuilder: React.FC<FieldMappingBuilderProps> = ({
+  sourceName,
+  fields,
+  sample,
+  onSave,
+  onCancel
+}) => {
+  const [profileName, setProfileName] = useState(`${sourceName} mapping`);
+  const [columnMapping, setColumnMapping] = useState<Partial<Record<ParcelField, string>>>(() => suggestColumnMapping(fields));
+
+  const targetFields = (Object.keys(PARCEL_FIELDS) as ParcelField[]).filter(field => field !== 'OBJECTID');
+  const hasMappedFields = Object.values(columnMapping).some(Boolean);
+
+  const handleColumnChange = (field: ParcelField, column: string) => {
+    setColumnMapping(prev => ({
+      ...prev,
+      [field]: column || undefined
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(buildCustomProfile(profileName, columnMapping));
+  };
+
+  const formatSample = (column: string | undefined) => {
+    if (!column) return '';
+    const value = sample[column];
+    return value === undefined || value === null ? '' : String(value);
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Columns className="w-5 h-5 mr-2" />
+          Map Parcel Fields
+        </h3>
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-500 hover:text-gray-700 flex items-center"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Cancel
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        The columns in <span className="font-medium">{sourceName}</span> don't match a known parcel schema.
+        Choose which column feeds each field; the mapping is saved for future uploads.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Mapping Name
+          </label>
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {targetFields.map(field => (
+            <div key={field} className="grid grid-cols-3 gap-2 items-center">
+              <label className="text-sm font-medium text-gray-700" htmlFor={`mapping-${field}`}>
+                {PARCEL_FIELDS[field].label}
+              </label>
+              <select
+                id={`mapping-${field}`}
+                value={columnMapping[field] || ''}
+                onChange={(e) => handleColumnChange(field, e.target.value)}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">Not mapped</option>
+                {fields.map(column => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500 truncate" title={formatSample(columnMapping[field])}>
+                {formatSample(columnMapping[field])}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={!hasMappedFields}
+          className="btn-primary w-full flex items-center justify-center disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save Mapping & Import
+        </button>
+      </div>
+    </div>
+  );
+};
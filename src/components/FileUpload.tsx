@@ -1,6 +1,16 @@
+import { useState } from 'react';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
-import { processTravisCountyShapefile, convertToProperty } from '../utils/shapefileProcessor';
-import type { Property } from '../types';
+import {
+  collectShapefileBundles,
+  convertToProperty,
+  inspectShapefileBundle,
+  processShapefileBundle
+} from '../utils/shapefileProcessor';
+import { detectFieldMappingProfile, GENERIC_PROFILE, type FieldMappingProfile } from '../utils/fieldMapping';
+import { getFieldMappingProfiles, saveCustomProfile } from '../services/fieldMappingStorage';
+import { DEFAULT_COUNTY_FIPS, getCounty, listCounties } from '../services/countyRegistry';
+import { FieldMappingBuilder } from './FieldMappingBuilder';
+import type { Property, TravisCountyParcel } from '../types';
 
 interface FileUploadProps {
   onDataLoaded: (properties: Property[]) => void;
@@ -8,42 +18,121 @@ interface FileUploadProps {
   isLoading: boolean;
 }
 
+interface MappingRequest {
+  files: File[];
+  sourceName: string;
+  fields: string[];
+  sample: Record<string, unknown>;
+}
+
 export const FileUpload: React.FC<FileUploadProps> = ({
   onDataLoaded,
   onError,
   isLoading
 }) => {
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (!file.name.endsWith('.shp')) {
-      onError('Please select a .shp file');
-      return;
-    }
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  const [countyFips, setCountyFips] = useState(DEFAULT_COUNTY_FIPS);
 
+  const importFiles = async (files: File[]) => {
     try {
-      const parcels = await processTravisCountyShapefile(file);
-      const properties = parcels.map(convertToProperty);
-      onDataLoaded(properties);
+      const bundles = await collectShapefileBundles(files);
+      if (bundles.length === 0) {
+        onError('No .shp file found in the upload');
+        return;
+      }
+
+      const profiles = getFieldMappingProfiles();
+      const parcels: TravisCountyParcel[] = [];
+
+      for (const bundle of bundles) {
+        const { fields, sample } = await inspectShapefileBundle(bundle);
+        const profile = fields.length > 0 ? detectFieldMappingProfile(fields, profiles) : GENERIC_PROFILE;
+
+        // Unknown schema: ask the user to map the columns, then retry
+        if (!profile) {
+          setMappingRequest({ files, sourceName: bundle.name, fields, sample });
+          return;
+        }
+
+        console.log(`Mapping ${bundle.name} with the ${profile.name} profile`);
+        parcels.push(...await processShapefileBundle(bundle, profile));
+      }
+
+      // Parcels without a county column belong to the county chosen for the upload
+      const countyName = getCounty(countyFips)?.name;
+      onDataLoaded(parcels.map(parcel => convertToProperty({ ...parcel, COUNTY: parcel.COUNTY || countyName })));
     } catch (error) {
       console.error('Error processing file:', error);
-      onError('Error processing shapefile. Please check the file format.');
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onError(`Error processing shapefile: ${message}`);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Allow selecting the same files again
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const names = files.map(file => file.name.toLowerCase());
+    if (!names.some(name => name.endsWith('.shp') || name.endsWith('.zip'))) {
+      onError('Please select a .shp file (with its .dbf, .prj and .cpg files) or a .zip bundle');
+      return;
     }
+
+    setMappingRequest(null);
+    await importFiles(files);
+  };
+
+  const handleMappingSaved = async (profile: FieldMappingProfile) => {
+    if (!mappingRequest) return;
+    saveCustomProfile(profile);
+    setMappingRequest(null);
+    await importFiles(mappingRequest.files);
   };
 
+  if (mappingRequest) {
+    return (
+      <FieldMappingBuilder
+        sourceName={mappingRequest.sourceName}
+        fields={mappingRequest.fields}
+        sample={mappingRequest.sample}
+        onSave={handleMappingSaved}
+        onCancel={() => setMappingRequest(null)}
+      />
+    );
+  }
+
   return (
     <div className="card">
       <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
         <FileText className="w-5 h-5 mr-2" />
-        Load Travis County Data
+        Load County Parcel Data
       </h3>
       
       <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="shapefile-county">
+            County
+          </label>
+          <select
+            id="shapefile-county"
+            value={countyFips}
+            onChange={(e) => setCountyFips(e.target.value)}
+            disabled={isLoading}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {listCounties().map(county => (
+              <option key={county.fips} value={county.fips}>{county.name}</option>
+            ))}
+          </select>
+        </div>
+
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-primary-400 transition-colors">
           <input
             type="file"
-            accept=".shp"
+            accept=".shp,.dbf,.prj,.cpg,.shx,.zip"
+            multiple
             onChange={handleFileUpload}
             className="hidden"
             id="shapefile-upload"
@@ -55,10 +144,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           >
             <Upload className="w-8 h-8 text-gray-400 mb-2" />
             <span className="text-sm text-gray-600">
-              {isLoading ? 'Processing...' : 'Click to upload Travis County shapefile (.shp)'}
+              {isLoading ? 'Processing...' : 'Click to upload a parcel shapefile (.shp + sidecars, or .zip)'}
             </span>
             <span className="text-xs text-gray-500 mt-1">
-              Select the main .shp file from your shapefile collection
+              Select the .shp, .dbf, .prj and .cpg files together, or a zipped shapefile
             </span>
           </label>
         </div>
@@ -69,9 +158,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             <div className="text-sm text-blue-800">
               <p className="font-medium mb-1">Shapefile Requirements:</p>
               <ul className="list-disc list-inside space-y-1">
-                <li>Upload the main .shp file from your shapefile collection</li>
-                <li>Make sure all related files (.dbf, .shx, .prj) are in the same folder</li>
-                <li>The file should contain Travis County parcel boundary data</li>
+                <li>Select the .shp together with its .dbf, .prj and .cpg files, or upload them as a .zip</li>
+                <li>Files are paired by name, so keep the same basename (e.g. parcels.shp, parcels.dbf)</li>
+                <li>The .dbf provides parcel attributes and the .prj its coordinate system</li>
+                <li>The file should contain parcel boundary data for the selected county</li>
               </ul>
             </div>
           </div>
@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
-import { X, MapPin, DollarSign, Ruler, Home, FileText } from 'lucide-react';
+import { X, MapPin, DollarSign, Ruler, Home, FileText, Crosshair, PenTool } from 'lucide-react';
+import type { PolygonalGeometry } from '../types';
+import { geocoder, type LocationDetails } from '../services/geocoder';
+import { createBoundaryPolygon, type BoundaryVertex } from '../utils/boundaryDrawing';
+import { calculateAcreage, calculatePolygonCenter } from '../utils/geometry';
 
 export interface PropertySubmission {
   address: string;
@@ -14,18 +18,48 @@ export interface PropertySubmission {
     lat: number;
     lng: number;
   };
+  // Filled in when the location is picked on the map
+  parcelId?: string;
+  owner?: string;
+  county?: string;
+  // Boundary drawn on the map
+  geometry?: PolygonalGeometry;
 }
 
 interface FloatingPropertyFormProps {
   isVisible: boolean;
   onSubmit: (property: PropertySubmission) => void;
   onClose: () => void;
+  // Pick-on-map mode: the form steps aside while the user clicks the map
+  isPickingLocation?: boolean;
+  pickedLocation?: LocationDetails | null;
+  onPickOnMap?: () => void;
+  onFinishPicking?: () => void;
+  // Draw mode: map clicks add boundary corners that snap to parcel edges
+  isDrawingBoundary?: boolean;
+  boundaryVertices?: BoundaryVertex[];
+  onDrawBoundary?: () => void;
+  onBoundaryChange?: (vertices: BoundaryVertex[]) => void;
+  onFinishDrawing?: () => void;
 }
 
+const NO_BOUNDARY: BoundaryVertex[] = [];
+
+const toTitleCase = (value: string) => value.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+
 export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
   isVisible,
   onSubmit,
-  onClose
+  onClose,
+  isPickingLocation = false,
+  pickedLocation,
+  onPickOnMap,
+  onFinishPicking,
+  isDrawingBoundary = false,
+  boundaryVertices = NO_BOUNDARY,
+  onDrawBoundary,
+  onBoundaryChange,
+  onFinishDrawing
 }) => {
   const [formData, setFormData] = useState<PropertySubmission>({
     address: '',
@@ -44,6 +78,41 @@ export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Address the map pick resolved to; editing it away means geocoding again
+  const [pickedAddress, setPickedAddress] = useState<string | null>(null);
+
+  // Prefill from the nearest address point and containing parcel
+  useEffect(() => {
+    if (!pickedLocation) return;
+
+    setFormData(prev => ({
+      ...prev,
+      address: pickedLocation.address || prev.address,
+      city: pickedLocation.city ? toTitleCase(pickedLocation.city) : prev.city,
+      zipCode: pickedLocation.zipCode || prev.zipCode,
+      // A drawn boundary is more specific than the parcel's area
+      acreage: prev.geometry ? prev.acreage : pickedLocation.acreage || prev.acreage,
+      propertyType: pickedLocation.propertyType || prev.propertyType,
+      coordinates: pickedLocation.coordinates,
+      parcelId: pickedLocation.parcelId,
+      owner: pickedLocation.owner,
+      county: pickedLocation.county
+    }));
+    setPickedAddress(pickedLocation.address || null);
+    setErrors({});
+  }, [pickedLocation]);
+
+  // Store the drawn boundary and its acreage
+  useEffect(() => {
+    const boundary = createBoundaryPolygon(boundaryVertices);
+    setFormData(prev => ({
+      ...prev,
+      geometry: boundary || undefined,
+      acreage: boundary ? calculateAcreage(boundary) : prev.acreage
+    }));
+  }, [boundaryVertices]);
+
+  const drawnAcreage = formData.geometry ? calculateAcreage(formData.geometry) : undefined;
 
   const propertyTypes = [
     { value: 'residential', label: 'Residential' },
@@ -105,38 +174,35 @@ export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
     setIsSubmitting(true);
 
     try {
-      // Real geocoding using Mapbox API
-      const fullAddress = `${formData.address}, ${formData.city}, ${formData.state} ${formData.zipCode}`;
-      const mapboxToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
-      
-      if (!mapboxToken) {
-        throw new Error('Mapbox access token not found');
-      }
-
-      const geocodingUrl = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(fullAddress)}.json?access_token=${mapboxToken}&country=US&types=address`;
-      
-      console.log('Geocoding address:', fullAddress);
-      const response = await fetch(geocodingUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Geocoding failed: ${response.status}`);
-      }
+      let coordinates = formData.coordinates;
+
+      // A map pick already has exact coordinates unless the address was edited since;
+      // otherwise a drawn boundary locates the property
+      if (pickedLocation && formData.address === pickedAddress) {
+        coordinates = pickedLocation.coordinates;
+      } else if (formData.geometry) {
+        coordinates = calculatePolygonCenter(formData.geometry);
+      } else {
+        // Geocode against the loaded address points, falling back to Mapbox when configured
+        const candidates = await geocoder.geocode({
+          address: formData.address,
+          city: formData.city,
+          state: formData.state,
+          zipCode: formData.zipCode
+        });
+
+        if (candidates.length === 0) {
+          throw new Error('No coordinates found for this address');
+        }
 
-      const geocodingData = await response.json();
-      
-      if (!geocodingData.features || geocodingData.features.length === 0) {
-        throw new Error('No coordinates found for this address');
+        const [bestMatch] = candidates;
+        console.log(`Geocoded to ${bestMatch.address} (${bestMatch.source}, score ${bestMatch.score}):`, bestMatch.coordinates);
+        coordinates = bestMatch.coordinates;
       }
 
-      const coordinates = geocodingData.features[0].center; // [lng, lat]
-      console.log('Geocoded coordinates:', coordinates);
-
       const propertyWithCoordinates = {
         ...formData,
-        coordinates: {
-          lng: coordinates[0],
-          lat: coordinates[1]
-        }
+        coordinates
       };
 
       onSubmit(propertyWithCoordinates);
@@ -156,6 +222,7 @@ export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
           lng: -97.7431
         }
       });
+      setPickedAddress(null);
       setErrors({});
     } catch (error) {
       console.error('Error geocoding address:', error);
@@ -185,6 +252,87 @@ export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
 
   if (!isVisible) return null;
 
+  // While drawing, show a banner instead of the modal so the map can be clicked
+  if (isDrawingBoundary) {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-white rounded-lg shadow-xl p-4 max-w-md w-full">
+        <div className="flex items-start">
+          <PenTool className="w-5 h-5 text-blue-600 mr-2 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-900">Click the map to add boundary corners</p>
+            <p className="text-xs text-gray-500">
+              Corners snap to nearby parcel lines. Drag a handle to move or insert a corner; right-click a corner to remove it.
+            </p>
+            <p className="mt-2 text-sm text-gray-700">
+              {boundaryVertices.length} corner{boundaryVertices.length === 1 ? '' : 's'}
+              {drawnAcreage !== undefined ? ` · ${drawnAcreage} acres` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="mt-3 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => onBoundaryChange?.(boundaryVertices.slice(0, -1))}
+            disabled={boundaryVertices.length === 0}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => onBoundaryChange?.([])}
+            disabled={boundaryVertices.length === 0}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={onFinishDrawing}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // While picking, show a banner instead of the modal so the map can be clicked
+  if (isPickingLocation) {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-white rounded-lg shadow-xl p-4 max-w-md w-full">
+        <div className="flex items-start">
+          <Crosshair className="w-5 h-5 text-blue-600 mr-2 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-900">Click the map to place the property</p>
+            <p className="text-xs text-gray-500">Drag the marker to adjust its position.</p>
+            {pickedLocation && (
+              <div className="mt-2 text-sm text-gray-700">
+                <p className="font-medium">{pickedLocation.address || 'No nearby address'}</p>
+                {pickedLocation.parcelId && (
+                  <p className="text-xs text-gray-500">
+                    Parcel {pickedLocation.parcelId}
+                    {pickedLocation.acreage ? ` · ${pickedLocation.acreage} acres` : ''}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="mt-3 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onFinishPicking}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            {pickedLocation ? 'Use This Location' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -206,6 +354,44 @@ export const FloatingPropertyForm: React.FC<FloatingPropertyFormProps> = ({
               Property Address
             </h3>
             
+            {onPickOnMap && (
+              <button
+                type="button"
+                onClick={onPickOnMap}
+                className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+              >
+                <Crosshair className="w-4 h-4 mr-2" />
+                {pickedLocation ? 'Adjust Location on Map' : 'Pick Location on Map'}
+              </button>
+            )}
+
+            {onDrawBoundary && (
+              <button
+                type="button"
+                onClick={onDrawBoundary}
+                className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+              >
+                <PenTool className="w-4 h-4 mr-2" />
+                {formData.geometry ? 'Edit Boundary on Map' : 'Draw Boundary on Map'}
+              </button>
+            )}
+
+            {formData.parcelId && (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700 space-y-1">
+                <p>Parcel ID: <span className="font-medium">{formData.parcelId}</span></p>
+                {formData.owner && <p>Owner: <span className="font-medium">{formData.owner}</span></p>}
+                {pickedLocation?.acreage !== undefined && (
+                  <p>Parcel area: <span className="font-medium">{pickedLocation.acreage} acres</span></p>
+                )}
+              </div>
+            )}
+
+            {drawnAcreage !== undefined && (
+              <p className="text-sm text-gray-700">
+                Drawn boundary: <span className="font-medium">{drawnAcreage} acres</span>
+              </p>
+            )}
+
             <div>
               <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
                 Street Address *
@@ -1,10 +1,215 @@
 import { useEffect, useRef } from 'react';
 import mapboxgl from 'mapbox-gl';
-import type { Property, BuildingFootprint } from '../types';
+import type { Property, BuildingFootprint, PolygonalGeometry, TravisCountyParcel } from '../types';
 import type { ComprehensiveData, AddressPoint, CountyBoundary, TexasBoundary } from '../services/comprehensiveDataLoader';
 import type { MapLayerType } from './LayerToggle';
+import { isPolygonalGeometry } from '../utils/geometry';
+import { createBoundaryPolygon, getEdgeMidpoints, snapToGeometryEdges, type BoundaryVertex } from '../utils/boundaryDrawing';
+import { getCounty } from '../services/countyRegistry';
+import { getGeometryBBox } from '../utils/spatialIndex';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
+// Parcels are only drawn once zoomed in far enough for the viewport query to stay small
+const PARCEL_MIN_ZOOM = 13;
+const MAX_VISIBLE_PARCELS = 5000;
+
+// Boundary drawing: drawn points snap to parcel corners and edges within this many screen pixels
+const SNAP_TOLERANCE_PX = 12;
+const BOUNDARY_SOURCE = 'boundary-draw';
+const BOUNDARY_LAYERS = ['boundary-draw-fill', 'boundary-draw-line', 'boundary-draw-midpoints', 'boundary-draw-vertices'];
+const NO_BOUNDARY: BoundaryVertex[] = [];
+// Parcels selected for export, outlined above the parcel layers
+const PARCEL_SELECTION_SOURCE = 'parcel-selection';
+const NO_PARCELS: TravisCountyParcel[] = [];
+// Area a search is limited to, e.g. a radius circle or county outline
+const SEARCH_AREA_SOURCE = 'search-area';
+
+// Boundary GeoJSON: the polygon (or a line until there are three vertices),
+// vertex handles, and edge midpoint handles for inserting vertices
+const getBoundaryGeojson = (vertices: BoundaryVertex[], showHandles: boolean): GeoJSON.FeatureCollection => {
+  const features: GeoJSON.Feature[] = [];
+  const polygon = createBoundaryPolygon(vertices);
+
+  if (polygon) {
+    features.push({ type: 'Feature', geometry: polygon, properties: {} });
+  } else if (vertices.length === 2) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: vertices.map(vertex => [vertex.lng, vertex.lat]) },
+      properties: {}
+    });
+  }
+
+  if (showHandles) {
+    getEdgeMidpoints(vertices).forEach((midpoint, index) => {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [midpoint.lng, midpoint.lat] },
+        properties: { handle: 'midpoint', index }
+      });
+    });
+    vertices.forEach((vertex, index) => {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [vertex.lng, vertex.lat] },
+        properties: { handle: 'vertex', index }
+      });
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+};
+
+const renderBoundary = (mapInstance: mapboxgl.Map, vertices: BoundaryVertex[], showHandles: boolean) => {
+  try {
+    const source = mapInstance.getSource(BOUNDARY_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(getBoundaryGeojson(vertices, showHandles));
+      return;
+    }
+
+    if (vertices.length === 0 || !mapInstance.isStyleLoaded()) return;
+
+    mapInstance.addSource(BOUNDARY_SOURCE, { type: 'geojson', data: getBoundaryGeojson(vertices, showHandles) });
+    mapInstance.addLayer({
+      id: 'boundary-draw-fill',
+      type: 'fill',
+      source: BOUNDARY_SOURCE,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'fill-color': '#2563eb', 'fill-opacity': 0.2 }
+    });
+    mapInstance.addLayer({
+      id: 'boundary-draw-line',
+      type: 'line',
+      source: BOUNDARY_SOURCE,
+      filter: ['!=', ['geometry-type'], 'Point'],
+      paint: { 'line-color': '#2563eb', 'line-width': 2, 'line-dasharray': [2, 1] }
+    });
+    mapInstance.addLayer({
+      id: 'boundary-draw-midpoints',
+      type: 'circle',
+      source: BOUNDARY_SOURCE,
+      filter: ['==', ['get', 'handle'], 'midpoint'],
+      paint: { 'circle-radius': 4, 'circle-color': '#ffffff', 'circle-stroke-color': '#2563eb', 'circle-stroke-width': 1, 'circle-opacity': 0.8 }
+    });
+    mapInstance.addLayer({
+      id: 'boundary-draw-vertices',
+      type: 'circle',
+      source: BOUNDARY_SOURCE,
+      filter: ['==', ['get', 'handle'], 'vertex'],
+      paint: { 'circle-radius': 6, 'circle-color': '#2563eb', 'circle-stroke-color': '#ffffff', 'circle-stroke-width': 2 }
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not render boundary drawing:', error);
+  }
+};
+
+const renderParcelSelection = (mapInstance: mapboxgl.Map, parcels: TravisCountyParcel[]) => {
+  try {
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: parcels.map(parcel => ({ type: 'Feature', geometry: parcel.geometry, properties: { id: parcel.PROP_ID } }))
+    };
+    const source = mapInstance.getSource(PARCEL_SELECTION_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    if (parcels.length === 0 || !mapInstance.isStyleLoaded()) return;
+
+    mapInstance.addSource(PARCEL_SELECTION_SOURCE, { type: 'geojson', data });
+    mapInstance.addLayer({
+      id: 'parcel-selection-fill',
+      type: 'fill',
+      source: PARCEL_SELECTION_SOURCE,
+      paint: { 'fill-color': '#f59e0b', 'fill-opacity': 0.35 }
+    });
+    mapInstance.addLayer({
+      id: 'parcel-selection-line',
+      type: 'line',
+      source: PARCEL_SELECTION_SOURCE,
+      paint: { 'line-color': '#d97706', 'line-width': 3 }
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not render parcel selection:', error);
+  }
+};
+
+const renderSearchArea = (mapInstance: mapboxgl.Map, geometry: PolygonalGeometry | null) => {
+  try {
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: geometry ? [{ type: 'Feature', geometry, properties: {} }] : []
+    };
+    const source = mapInstance.getSource(SEARCH_AREA_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    if (!geometry || !mapInstance.isStyleLoaded()) return;
+
+    mapInstance.addSource(SEARCH_AREA_SOURCE, { type: 'geojson', data });
+    mapInstance.addLayer({
+      id: 'search-area-fill',
+      type: 'fill',
+      source: SEARCH_AREA_SOURCE,
+      paint: { 'fill-color': '#7c3aed', 'fill-opacity': 0.08 }
+    });
+    mapInstance.addLayer({
+      id: 'search-area-line',
+      type: 'line',
+      source: SEARCH_AREA_SOURCE,
+      paint: { 'line-color': '#7c3aed', 'line-width': 2, 'line-dasharray': [3, 2] }
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not render search area:', error);
+  }
+};
+
+// Find the parcel behind a clicked parcel feature
+const findClickedParcel = (
+  lngLat: mapboxgl.LngLat,
+  parcelId: string,
+  parcelIndex: ComprehensiveData['parcelIndex'] | undefined
+): TravisCountyParcel | undefined => {
+  if (!parcelIndex) return undefined;
+
+  const delta = 0.0001;
+  return parcelIndex.search({
+    west: lngLat.lng - delta,
+    south: lngLat.lat - delta,
+    east: lngLat.lng + delta,
+    north: lngLat.lat + delta
+  }).find(parcel => parcel.PROP_ID === parcelId);
+};
+
+// Snap a map position to nearby parcel corners or edges
+const snapToParcels = (
+  mapInstance: mapboxgl.Map,
+  lngLat: mapboxgl.LngLat,
+  parcelIndex: ComprehensiveData['parcelIndex'] | undefined
+): BoundaryVertex => {
+  const point = { lat: lngLat.lat, lng: lngLat.lng };
+  if (!parcelIndex) return point;
+
+  // Convert the pixel tolerance to meters at the current zoom
+  const screenPoint = mapInstance.project(lngLat);
+  const offset = mapInstance.unproject([screenPoint.x + SNAP_TOLERANCE_PX, screenPoint.y]);
+  const toleranceDegrees = Math.abs(offset.lng - lngLat.lng);
+  const toleranceMeters = lngLat.distanceTo(offset);
+
+  const nearbyParcels = parcelIndex.search({
+    west: point.lng - toleranceDegrees,
+    south: point.lat - toleranceDegrees,
+    east: point.lng + toleranceDegrees,
+    north: point.lat + toleranceDegrees
+  });
+
+  return snapToGeometryEdges(point, nearbyParcels.map(parcel => parcel.geometry), toleranceMeters).coordinates;
+};
+
 interface MapProps {
   properties?: Property[];
   comprehensiveData?: ComprehensiveData;
@@ -14,6 +219,16 @@ interface MapProps {
   center?: { lat: number; lng: number };
   zoom?: number;
   onMapReady?: (map: mapboxgl.Map) => void; // New prop to expose map instance
+  onCountyLoadRequest?: (fips: string) => void; // Load parcels/addresses for a clicked county
+  isPickingLocation?: boolean; // Map clicks place the pick marker instead of selecting features
+  pickedLocation?: { lat: number; lng: number } | null; // Position of the draggable pick marker
+  onLocationPick?: (coordinates: { lat: number; lng: number }) => void;
+  isDrawingBoundary?: boolean; // Map clicks add boundary vertices; handles can be dragged
+  boundaryVertices?: BoundaryVertex[]; // Boundary being drawn for a submission
+  onBoundaryChange?: (vertices: BoundaryVertex[]) => void;
+  selectedParcels?: TravisCountyParcel[]; // Parcels highlighted as selected, e.g. for export
+  onParcelClick?: (parcel: TravisCountyParcel) => void; // Parcel clicks select parcels instead of showing property details
+  searchArea?: PolygonalGeometry | null; // Outline of the spatial search filter; the map fits to it when it changes
 }
 
 export const Map: React.FC<MapProps> = ({
@@ -24,11 +239,39 @@ export const Map: React.FC<MapProps> = ({
   layerType = 'all',
   center,
   zoom,
-  onMapReady
+  onMapReady,
+  onCountyLoadRequest,
+  isPickingLocation = false,
+  pickedLocation,
+  onLocationPick,
+  isDrawingBoundary = false,
+  boundaryVertices = NO_BOUNDARY,
+  onBoundaryChange,
+  selectedParcels = NO_PARCELS,
+  onParcelClick,
+  searchArea = null
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const popup = useRef<mapboxgl.Popup | null>(null);
+  const parcelMoveHandler = useRef<(() => void) | null>(null);
+  const countyClickHandler = useRef<((e: mapboxgl.MapMouseEvent) => void) | null>(null);
+  const pickMarker = useRef<mapboxgl.Marker | null>(null);
+  // Map event handlers outlive renders, so they read the latest pick state through refs
+  const isPickingRef = useRef(isPickingLocation);
+  const onLocationPickRef = useRef(onLocationPick);
+  isPickingRef.current = isPickingLocation;
+  onLocationPickRef.current = onLocationPick;
+  const isDrawingRef = useRef(isDrawingBoundary);
+  const boundaryVerticesRef = useRef(boundaryVertices);
+  const onBoundaryChangeRef = useRef(onBoundaryChange);
+  const comprehensiveDataRef = useRef(comprehensiveData);
+  isDrawingRef.current = isDrawingBoundary;
+  boundaryVerticesRef.current = boundaryVertices;
+  onBoundaryChangeRef.current = onBoundaryChange;
+  comprehensiveDataRef.current = comprehensiveData;
+  const onParcelClickRef = useRef(onParcelClick);
+  onParcelClickRef.current = onParcelClick;
 
   console.log('🗺️ Map component rendering with:', {
     propertiesCount: properties.length,
@@ -156,7 +399,7 @@ export const Map: React.FC<MapProps> = ({
       const layersToRemove = [
         'properties', 'properties-polygons', 'parcel-boundaries', 'submitted-properties', 'submitted-properties-symbols',
         'clusters', 'cluster-count', 'unclustered-point', 'heatmap', 'heatmap-points',
-        'addresses', 'county-boundaries', 'texas-boundary',
+        'addresses', 'county-boundaries', 'county-boundaries-fill', 'texas-boundary',
         'geojson-points', 'buildings-fill', 'buildings-boundaries'
       ];
       
@@ -290,6 +533,13 @@ export const Map: React.FC<MapProps> = ({
         }
       }
 
+      // Keep any boundary being drawn above the re-added layers
+      BOUNDARY_LAYERS.forEach(layerId => {
+        if (map.current!.getLayer(layerId)) {
+          map.current!.moveLayer(layerId);
+        }
+      });
+
       console.log(`✅ Completed adding layers for layerType: ${layerType}`);
 
       // Force a repaint to ensure layers are visible immediately
@@ -304,43 +554,73 @@ export const Map: React.FC<MapProps> = ({
     }
   };
 
+  // Build GeoJSON for only the parcels inside the current viewport
+  const getVisibleParcelGeojson = (): GeoJSON.FeatureCollection => {
+    const emptyCollection: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+    if (!map.current || !comprehensiveData?.parcelIndex) return emptyCollection;
+
+    const bounds = map.current.getBounds();
+    if (!bounds || map.current.getZoom() < PARCEL_MIN_ZOOM) return emptyCollection;
+
+    const visibleParcels = comprehensiveData.parcelIndex.search({
+      west: bounds.getWest(),
+      south: bounds.getSouth(),
+      east: bounds.getEast(),
+      north: bounds.getNorth()
+    }, MAX_VISIBLE_PARCELS);
+
+    return {
+      type: 'FeatureCollection',
+      features: visibleParcels.map(parcel => ({
+        type: 'Feature' as const,
+        geometry: parcel.geometry,
+        properties: {
+          id: parcel.PROP_ID,
+          address: parcel.SITE_ADDR,
+          marketValue: parcel.TOTAL_VAL || 0,
+          owner: parcel.OWNER_NAME,
+          propertyType: parcel.PROP_TYPE || 'residential',
+          propertySubtype: parcel.PROP_SUBTYPE,
+          propertyTypeReason: parcel.PROP_TYPE_REASON,
+          squareFootage: parcel.SQ_FT,
+          yearBuilt: parcel.YEAR_BUILT,
+          bedrooms: parcel.BEDROOMS,
+          bathrooms: parcel.BATHROOMS,
+          isParcel: true
+        }
+      }))
+    };
+  };
+
   const addTravisCountyParcels = () => {
     if (!map.current || !comprehensiveData?.parcels || comprehensiveData.parcels.length === 0) return;
 
     console.log('🗺️ Adding Travis County parcels...', comprehensiveData.parcels.length);
 
     try {
+      // Refresh the viewport query whenever the map stops moving
+      if (parcelMoveHandler.current) {
+        map.current.off('moveend', parcelMoveHandler.current);
+      }
+      parcelMoveHandler.current = () => {
+        const source = map.current?.getSource('travis-parcels') as mapboxgl.GeoJSONSource | undefined;
+        if (source) {
+          source.setData(getVisibleParcelGeojson());
+        }
+      };
+      map.current.on('moveend', parcelMoveHandler.current);
+
       // Check if source already exists
       if (map.current.getSource('travis-parcels')) {
-        console.log('  ⚠️ Travis parcels source already exists, skipping');
+        console.log('  ⚠️ Travis parcels source already exists, refreshing viewport data');
+        parcelMoveHandler.current();
         return;
       }
 
-      // Create GeoJSON for Travis County parcels
-      const parcelGeojson: GeoJSON.FeatureCollection = {
-        type: 'FeatureCollection',
-        features: comprehensiveData.parcels.map(parcel => ({
-          type: 'Feature' as const,
-          geometry: parcel.geometry,
-          properties: {
-            id: parcel.PROP_ID,
-            address: parcel.SITE_ADDR,
-            marketValue: parcel.TOTAL_VAL || 0,
-            owner: parcel.OWNER_NAME,
-            propertyType: parcel.PROP_TYPE || 'residential',
-            squareFootage: parcel.SQ_FT,
-            yearBuilt: parcel.YEAR_BUILT,
-            bedrooms: parcel.BEDROOMS,
-            bathrooms: parcel.BATHROOMS,
-            isParcel: true
-          }
-        }))
-      };
-
-      // Add parcel source
+      // Add parcel source with the parcels currently in view
       map.current.addSource('travis-parcels', {
         type: 'geojson',
-        data: parcelGeojson
+        data: getVisibleParcelGeojson()
       });
 
       // Add parcel fill layer
@@ -463,12 +743,91 @@ export const Map: React.FC<MapProps> = ({
         }
       });
 
+      // Invisible fill so clicks anywhere inside a county are detected
+      map.current.addLayer({
+        id: 'county-boundaries-fill',
+        type: 'fill',
+        source: 'county-boundaries',
+        paint: {
+          'fill-color': '#374151',
+          'fill-opacity': 0
+        }
+      });
+
+      addCountyClickHandler();
+
       console.log('✅ County boundaries added successfully');
     } catch (error) {
       console.error('❌ Error adding county boundaries:', error);
     }
   };
 
+  // Offer to load a county's parcels and addresses when its area is clicked
+  const addCountyClickHandler = () => {
+    if (!map.current) return;
+
+    if (countyClickHandler.current) {
+      map.current.off('click', 'county-boundaries-fill', countyClickHandler.current);
+    }
+
+    countyClickHandler.current = (e) => {
+      if (!map.current || isPickingRef.current || isDrawingRef.current) return;
+
+      // Parcel and property clicks take priority over the county underneath
+      const featureLayers = [
+        'travis-parcels-fill', 'properties-polygons', 'submitted-properties', 'geojson-points',
+        'clusters', 'unclustered-point', 'heatmap-points', 'addresses'
+      ].filter(layerId => map.current!.getLayer(layerId));
+      if (featureLayers.length > 0 && map.current.queryRenderedFeatures(e.point, { layers: featureLayers }).length > 0) {
+        return;
+      }
+
+      const [feature] = map.current.queryRenderedFeatures(e.point, { layers: ['county-boundaries-fill'] });
+      if (!feature) return;
+
+      const county = getCounty(feature.properties?.fips) || getCounty(feature.properties?.name);
+      const countyName = county?.name || feature.properties?.name || 'Unknown';
+      const isLoaded = !!county && !!comprehensiveData?.loadedCounties.includes(county.fips);
+
+      const content = document.createElement('div');
+      content.className = 'p-2';
+
+      const title = document.createElement('h3');
+      title.className = 'font-semibold text-gray-900 mb-1';
+      title.textContent = `${countyName} County`;
+      content.appendChild(title);
+
+      if (!county || county.datasets.length === 0) {
+        const message = document.createElement('p');
+        message.className = 'text-sm text-gray-600';
+        message.textContent = 'No parcel datasets are registered for this county.';
+        content.appendChild(message);
+      } else if (isLoaded) {
+        const message = document.createElement('p');
+        message.className = 'text-sm text-green-700';
+        message.textContent = 'Parcels and addresses are loaded.';
+        content.appendChild(message);
+      } else {
+        const button = document.createElement('button');
+        button.className = 'mt-1 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium py-1 px-3 rounded';
+        button.textContent = 'Load parcels & addresses';
+        content.appendChild(button);
+
+        button.addEventListener('click', () => {
+          countyPopup.remove();
+          onCountyLoadRequest?.(county.fips);
+        });
+      }
+
+      const countyPopup = new mapboxgl.Popup({ maxWidth: '260px' })
+        .setLngLat(e.lngLat)
+        .setDOMContent(content)
+        .addTo(map.current);
+    };
+
+    map.current.on('click', 'county-boundaries-fill', countyClickHandler.current);
+  };
+
   const addAddresses = (addresses: AddressPoint[]) => {
     if (!map.current) return;
 
@@ -558,12 +917,12 @@ export const Map: React.FC<MapProps> = ({
     console.log('🗺️ Adding property layers...', properties.length);
 
     try {
-      // Separate properties into polygons and points
+      // Separate properties into polygons (including multi-part parcels) and points
       const polygonProperties = properties.filter(property => 
-        property.geometry && property.geometry.type === 'Polygon'
+        isPolygonalGeometry(property.geometry)
       );
       const pointProperties = properties.filter(property => 
-        !property.geometry || property.geometry.type !== 'Polygon'
+        !isPolygonalGeometry(property.geometry)
       );
 
       // Add polygon layers (for Travis County parcels)
@@ -576,7 +935,7 @@ export const Map: React.FC<MapProps> = ({
             type: 'FeatureCollection',
             features: polygonProperties.map(property => ({
               type: 'Feature' as const,
-              geometry: property.geometry as GeoJSON.Polygon,
+              geometry: property.geometry as PolygonalGeometry,
               properties: {
                 id: property.id,
                 address: property.address,
@@ -1408,8 +1767,8 @@ export const Map: React.FC<MapProps> = ({
           const feature = e.features[0];
           const properties = feature.properties;
           
-          // Calculate center point for popup
-          const coordinates = (feature.geometry as any).coordinates[0][0].slice();
+          // Anchor popup at the cursor (works for Polygon and MultiPolygon footprints)
+          const coordinates = e.lngLat;
           
           // Enhanced popup content
           const buildingType = properties?.residential === 'yes' ? 'Residential' :
@@ -1511,8 +1870,9 @@ export const Map: React.FC<MapProps> = ({
         const feature = e.features[0];
         let coordinates;
         
-        if (feature.geometry.type === 'Polygon') {
-          coordinates = (feature.geometry as any).coordinates[0][0].slice();
+        if (isPolygonalGeometry(feature.geometry)) {
+          // Anchor polygon popups at the cursor so multi-part parcels behave the same
+          coordinates = e.lngLat;
         } else {
           coordinates = (feature.geometry as any).coordinates.slice();
         }
@@ -1527,7 +1887,7 @@ export const Map: React.FC<MapProps> = ({
             <div class="p-3 max-w-xs">
               <h3 class="font-semibold text-gray-900 text-sm mb-2">${feature.properties?.address || 'Unknown Address'}</h3>
               <div class="space-y-1 text-xs">
-                <p class="text-gray-600">Type: ${feature.properties?.propertyType || 'Unknown'}</p>
+                <p class="text-gray-600" ${feature.properties?.propertyTypeReason ? `title="${feature.properties.propertyTypeReason}"` : ''}>Type: ${feature.properties?.propertyType || 'Unknown'}${feature.properties?.propertySubtype ? ` (${feature.properties.propertySubtype})` : ''}</p>
                 <p class="text-gray-600">Value: $${(feature.properties?.marketValue || 0).toLocaleString()}</p>
                 ${feature.properties?.owner ? `<p class="text-gray-600">Owner: ${feature.properties.owner}</p>` : ''}
                 <p class="text-blue-600 text-xs mt-2">Click for details</p>
@@ -1558,11 +1918,22 @@ export const Map: React.FC<MapProps> = ({
     // We'll rely on layer removal to clean up event listeners
     
     map.current!.on('click', layerId, (e) => {
+      // Clicks place the pick marker or boundary vertices while picking or drawing
+      if (isPickingRef.current || isDrawingRef.current) return;
+
       // Only handle clicks if we have features and they're not empty
       if (e.features && e.features.length > 0) {
         const feature = e.features[0];
         
         console.log('🎯 Marker clicked:', feature.properties);
+
+        if (feature.properties?.isParcel && onParcelClickRef.current) {
+          const parcel = findClickedParcel(e.lngLat, feature.properties.id, comprehensiveDataRef.current?.parcelIndex);
+          if (parcel) {
+            onParcelClickRef.current(parcel);
+            return;
+          }
+        }
         
         // Check if it's a property (submitted or demo)
         if (onPropertyClick) {
@@ -1616,6 +1987,164 @@ export const Map: React.FC<MapProps> = ({
     }
   }, [properties, comprehensiveData, layerType]);
 
+  // Pick-on-map mode: any click reports its location
+  useEffect(() => {
+    if (!map.current || !isPickingLocation) return;
+
+    const currentMap = map.current;
+    const handlePickClick = (e: mapboxgl.MapMouseEvent) => {
+      onLocationPickRef.current?.({ lat: e.lngLat.lat, lng: e.lngLat.lng });
+    };
+
+    currentMap.getCanvas().style.cursor = 'crosshair';
+    currentMap.on('click', handlePickClick);
+    popup.current?.remove();
+
+    return () => {
+      currentMap.off('click', handlePickClick);
+      currentMap.getCanvas().style.cursor = '';
+    };
+  }, [isPickingLocation]);
+
+  // Draggable marker at the picked location
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (!pickedLocation) {
+      pickMarker.current?.remove();
+      pickMarker.current = null;
+      return;
+    }
+
+    if (!pickMarker.current) {
+      pickMarker.current = new mapboxgl.Marker({ draggable: true, color: '#2563eb' });
+      pickMarker.current.on('dragend', () => {
+        const position = pickMarker.current?.getLngLat();
+        if (position) {
+          onLocationPickRef.current?.({ lat: position.lat, lng: position.lng });
+        }
+      });
+    }
+
+    pickMarker.current
+      .setLngLat([pickedLocation.lng, pickedLocation.lat])
+      .addTo(map.current);
+  }, [pickedLocation]);
+
+  // Draw mode: clicks add vertices; vertex and midpoint handles can be dragged,
+  // and right-clicking a vertex removes it
+  useEffect(() => {
+    if (!map.current || !isDrawingBoundary) return;
+
+    const currentMap = map.current;
+    let suppressNextClick = false;
+
+    const handleDrawClick = (e: mapboxgl.MapMouseEvent) => {
+      if (suppressNextClick) {
+        suppressNextClick = false;
+        return;
+      }
+
+      const onHandle = currentMap.getLayer('boundary-draw-vertices') &&
+        currentMap.queryRenderedFeatures(e.point, { layers: ['boundary-draw-vertices', 'boundary-draw-midpoints'] }).length > 0;
+      if (onHandle) return;
+
+      onBoundaryChangeRef.current?.([...boundaryVerticesRef.current, snapToParcels(currentMap, e.lngLat, comprehensiveDataRef.current?.parcelIndex)]);
+    };
+
+    const handleHandleMouseDown = (e: mapboxgl.MapLayerMouseEvent) => {
+      const handle = e.features?.[0]?.properties;
+      if (!handle) return;
+
+      e.preventDefault();
+      currentMap.dragPan.disable();
+
+      const vertices = [...boundaryVerticesRef.current];
+      let dragIndex = Number(handle.index);
+      if (handle.handle === 'midpoint') {
+        dragIndex += 1;
+        vertices.splice(dragIndex, 0, { lat: e.lngLat.lat, lng: e.lngLat.lng });
+      }
+
+      const handleMouseMove = (moveEvent: mapboxgl.MapMouseEvent) => {
+        vertices[dragIndex] = snapToParcels(currentMap, moveEvent.lngLat, comprehensiveDataRef.current?.parcelIndex);
+        renderBoundary(currentMap, vertices, true);
+      };
+
+      currentMap.on('mousemove', handleMouseMove);
+      currentMap.once('mouseup', () => {
+        currentMap.off('mousemove', handleMouseMove);
+        currentMap.dragPan.enable();
+        // The click that ends a drag must not also add a vertex
+        suppressNextClick = true;
+        setTimeout(() => { suppressNextClick = false; }, 0);
+        onBoundaryChangeRef.current?.(vertices);
+      });
+    };
+
+    const handleVertexContextMenu = (e: mapboxgl.MapLayerMouseEvent) => {
+      const handle = e.features?.[0]?.properties;
+      if (!handle) return;
+
+      e.preventDefault();
+      onBoundaryChangeRef.current?.(boundaryVerticesRef.current.filter((_, index) => index !== Number(handle.index)));
+    };
+
+    const setMoveCursor = () => { currentMap.getCanvas().style.cursor = 'move'; };
+    const setCrosshairCursor = () => { currentMap.getCanvas().style.cursor = 'crosshair'; };
+
+    setCrosshairCursor();
+    popup.current?.remove();
+    // Handle layers only exist once there is a vertex, so show them before binding
+    renderBoundary(currentMap, boundaryVerticesRef.current, true);
+
+    currentMap.on('click', handleDrawClick);
+    currentMap.on('mousedown', 'boundary-draw-vertices', handleHandleMouseDown);
+    currentMap.on('mousedown', 'boundary-draw-midpoints', handleHandleMouseDown);
+    currentMap.on('contextmenu', 'boundary-draw-vertices', handleVertexContextMenu);
+    currentMap.on('mouseenter', 'boundary-draw-vertices', setMoveCursor);
+    currentMap.on('mouseenter', 'boundary-draw-midpoints', setMoveCursor);
+    currentMap.on('mouseleave', 'boundary-draw-vertices', setCrosshairCursor);
+    currentMap.on('mouseleave', 'boundary-draw-midpoints', setCrosshairCursor);
+
+    return () => {
+      currentMap.off('click', handleDrawClick);
+      currentMap.off('mousedown', 'boundary-draw-vertices', handleHandleMouseDown);
+      currentMap.off('mousedown', 'boundary-draw-midpoints', handleHandleMouseDown);
+      currentMap.off('contextmenu', 'boundary-draw-vertices', handleVertexContextMenu);
+      currentMap.off('mouseenter', 'boundary-draw-vertices', setMoveCursor);
+      currentMap.off('mouseenter', 'boundary-draw-midpoints', setMoveCursor);
+      currentMap.off('mouseleave', 'boundary-draw-vertices', setCrosshairCursor);
+      currentMap.off('mouseleave', 'boundary-draw-midpoints', setCrosshairCursor);
+      currentMap.getCanvas().style.cursor = '';
+    };
+  }, [isDrawingBoundary]);
+
+  // Redraw the boundary as vertices change; handles only show while drawing
+  useEffect(() => {
+    if (map.current) {
+      renderBoundary(map.current, boundaryVertices, isDrawingBoundary);
+    }
+  }, [boundaryVertices, isDrawingBoundary]);
+
+  // Outline the selected parcels
+  useEffect(() => {
+    if (map.current) {
+      renderParcelSelection(map.current, selectedParcels);
+    }
+  }, [selectedParcels]);
+
+  // Outline the spatial search area and bring it into view
+  useEffect(() => {
+    if (!map.current) return;
+
+    renderSearchArea(map.current, searchArea);
+    if (searchArea) {
+      const bbox = getGeometryBBox(searchArea);
+      map.current.fitBounds([[bbox.west, bbox.south], [bbox.east, bbox.north]], { padding: 40, duration: 1000 });
+    }
+  }, [searchArea]);
+
   // Handle center and zoom changes
   useEffect(() => {
     if (map.current && center && zoom) {
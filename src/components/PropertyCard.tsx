@@ -1,6 +1,11 @@
 
-import { X, MapPin, DollarSign, Home, Calendar, User, Ruler, FileText, CheckCircle, XCircle, Clock, Trash2 } from 'lucide-react';
-import type { Property } from '../types';
+import { useState } from 'react';
+import { X, MapPin, DollarSign, Home, Calendar, User, Ruler, FileText, CheckCircle, XCircle, Clock, Trash2, Building2, CloudCheck, CloudOff, CloudUpload, RefreshCw, CloudAlert } from 'lucide-react';
+import type { ParcelJoinStats, Property } from '../types';
+import type { PropertySyncStatus } from '../services/propertyOutbox';
+import type { ConflictResolution } from '../services/propertySync';
+import type { PropertyRevision } from '../services/propertyHistory';
+import { PropertyHistory } from './PropertyHistory';
 
 interface PropertyCardProps {
   property: Property;
@@ -9,9 +14,16 @@ interface PropertyCardProps {
   onSelect?: () => void;
   onViewOnMap?: () => void; // New prop for View on Map button
   isSelected?: boolean;
+  parcelStats?: ParcelJoinStats; // Addresses and buildings the spatial join found on the parcel
+  syncStatus?: PropertySyncStatus; // Set when records are synced to the API server in the background
+  onResolveConflict?: (resolution: ConflictResolution) => void;
+  onLoadHistory?: (propertyId: string) => Promise<PropertyRevision[]>; // Enables the History tab
+  onRestoreRevision?: (revision: PropertyRevision) => Promise<void>;
 }
 
-export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClose, onDelete, onSelect, onViewOnMap, isSelected = false }) => {
+export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClose, onDelete, onSelect, onViewOnMap, isSelected = false, parcelStats, syncStatus, onResolveConflict, onLoadHistory, onRestoreRevision }) => {
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -54,6 +66,31 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClose, o
     }
   };
 
+  const getSyncBadge = (status: PropertySyncStatus) => {
+    switch (status.state) {
+      case 'synced':
+        return { icon: <CloudCheck className="w-4 h-4 text-green-600" />, text: 'Synced', color: 'text-green-700' };
+      case 'syncing':
+        return { icon: <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />, text: 'Syncing...', color: 'text-blue-700' };
+      case 'error':
+        return {
+          icon: <CloudOff className="w-4 h-4 text-orange-600" />,
+          text: `Sync failed${status.nextAttemptAt ? `, retrying at ${new Date(status.nextAttemptAt).toLocaleTimeString()}` : ''}`,
+          color: 'text-orange-700'
+        };
+      case 'conflict':
+        return { icon: <CloudAlert className="w-4 h-4 text-red-600" />, text: 'Sync conflict', color: 'text-red-700' };
+      default:
+        return {
+          icon: <CloudUpload className="w-4 h-4 text-gray-500" />,
+          text: `Waiting to sync (${status.pendingOperations} change${status.pendingOperations === 1 ? '' : 's'})`,
+          color: 'text-gray-600'
+        };
+    }
+  };
+
+  const syncBadge = syncStatus ? getSyncBadge(syncStatus) : null;
+
   return (
     <div 
       className={`bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden cursor-pointer hover:shadow-xl transition-all duration-200 hover:border-blue-300 ${
@@ -97,152 +134,259 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClose, o
         </div>
       </div>
 
-      {/* Content */}
-      <div className="p-4 space-y-4">
-        {/* Address */}
-        <div className="flex items-start">
-          <MapPin className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
-          <div>
-            <p className="font-medium text-gray-900">{property.address}</p>
-            <p className="text-sm text-gray-600">
-              {property.city}, {property.state} {property.zipCode}
-            </p>
-          </div>
+      {/* Tabs (when the revision history is available) */}
+      {onLoadHistory && (
+        <div className="flex border-b border-gray-200 px-4">
+          {(['details', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={(e) => {
+                e.stopPropagation();
+                setActiveTab(tab);
+              }}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px capitalize ${
+                activeTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
         </div>
+      )}
 
-        {/* Status (for submitted properties) */}
-        {property.status && (
-          <div className="flex items-center">
-            {getStatusIcon(property.status)}
-            <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full border ${getStatusColor(property.status)}`}>
-              {getStatusText(property.status)}
-            </span>
-          </div>
-        )}
-
-        {/* Property Type */}
-        <div className="flex items-center">
-          <Home className="w-4 h-4 text-gray-400 mr-2" />
-          <span className="text-sm text-gray-600">
-            Type: <span className="font-medium text-gray-900 capitalize">{property.propertyType}</span>
-          </span>
+      {onLoadHistory && activeTab === 'history' ? (
+        <div className="p-4">
+          <PropertyHistory property={property} onLoadHistory={onLoadHistory} onRestore={onRestoreRevision} />
         </div>
-
-        {/* Price */}
-        <div className="flex items-center">
-          <DollarSign className="w-4 h-4 text-gray-400 mr-2" />
-          <div>
-            <p className="font-semibold text-lg text-gray-900">
-              {formatCurrency(property.marketValue)}
-            </p>
-            <p className="text-sm text-gray-600">Market Value</p>
+      ) : (
+        /* Content */
+        <div className="p-4 space-y-4">
+          {/* Address */}
+          <div className="flex items-start">
+            <MapPin className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">{property.address}</p>
+              <p className="text-sm text-gray-600">
+                {property.city}, {property.state} {property.zipCode}
+              </p>
+            </div>
           </div>
-        </div>
 
-        {/* View on Map Button */}
-        {onViewOnMap && (
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onViewOnMap();
-            }}
-            className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center shadow-lg hover:shadow-xl transform hover:scale-105"
-          >
-            <MapPin className="w-4 h-4 mr-2" />
-            View on Map
-          </button>
-        )}
+          {/* Status (for submitted properties) */}
+          {property.status && (
+            <div>
+              <div className="flex items-center">
+                {getStatusIcon(property.status)}
+                <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full border ${getStatusColor(property.status)}`}>
+                  {getStatusText(property.status)}
+                </span>
+              </div>
+              {property.reviewedBy && property.status !== 'pending' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Reviewed by {property.reviewedBy}
+                  {property.reviewedAt && ` on ${new Date(property.reviewedAt).toLocaleDateString()}`}
+                </p>
+              )}
+              {property.status === 'rejected' && property.rejectionReason && (
+                <p className="text-xs text-red-700 mt-1">Reason: {property.rejectionReason}</p>
+              )}
+            </div>
+          )}
 
-        {/* Acreage (if available) */}
-        {property.acreage && property.acreage > 0 && (
-          <div className="flex items-center">
-            <Ruler className="w-4 h-4 text-gray-400 mr-2" />
-            <span className="text-sm text-gray-600">
-              Acreage: <span className="font-medium text-gray-900">{property.acreage} acres</span>
-            </span>
-          </div>
-        )}
-
-        {/* Owner */}
-        <div className="flex items-center">
-          <User className="w-4 h-4 text-gray-400 mr-2" />
-          <span className="text-sm text-gray-600">
-            Owner: <span className="font-medium text-gray-900">{property.owner}</span>
-          </span>
-        </div>
+          {/* Sync state (when syncing to the API server) */}
+          {syncStatus && syncBadge && (
+            <div className="text-sm" title={syncStatus.lastError}>
+              <div className={`flex items-center ${syncBadge.color}`}>
+                {syncBadge.icon}
+                <span className="ml-2">{syncBadge.text}</span>
+              </div>
+              {syncStatus.conflict && (
+                <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                  <p>{syncStatus.conflict.reason}</p>
+                  {onResolveConflict && (
+                    <div className="flex space-x-2 mt-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onResolveConflict('keepLocal');
+                        }}
+                        className="px-2 py-1 bg-white border border-red-300 rounded hover:bg-red-100"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onResolveConflict('keepRemote');
+                        }}
+                        className="px-2 py-1 bg-white border border-red-300 rounded hover:bg-red-100"
+                      >
+                        {syncStatus.conflict.remote ? 'Use server version' : 'Accept deletion'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
 
-        {/* Additional Property Details */}
-        {property.yearBuilt && (
-          <div className="flex items-center">
-            <Calendar className="w-4 h-4 text-gray-400 mr-2" />
-            <span className="text-sm text-gray-600">
-              Year Built: <span className="font-medium text-gray-900">{property.yearBuilt}</span>
-            </span>
+          {/* Property Type */}
+          <div className="flex items-start">
+            <Home className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
+            <div>
+              <span className="text-sm text-gray-600">
+                Type: <span className="font-medium text-gray-900 capitalize">{property.propertyType}</span>
+                {property.propertySubtype && (
+                  <span className="text-gray-500"> ({property.propertySubtype.replace(/-/g, ' ')})</span>
+                )}
+              </span>
+              {property.propertyTypeReason && (
+                <p className="text-xs text-gray-500">{property.propertyTypeReason}</p>
+              )}
+            </div>
           </div>
-        )}
 
-        {property.squareFootage && property.squareFootage > 0 && (
+          {/* Price */}
           <div className="flex items-center">
-            <Ruler className="w-4 h-4 text-gray-400 mr-2" />
-            <span className="text-sm text-gray-600">
-              Square Footage: <span className="font-medium text-gray-900">{property.squareFootage.toLocaleString()} sq ft</span>
-            </span>
+            <DollarSign className="w-4 h-4 text-gray-400 mr-2" />
+            <div>
+              <p className="font-semibold text-lg text-gray-900">
+                {formatCurrency(property.marketValue)}
+              </p>
+              <p className="text-sm text-gray-600">Market Value</p>
+            </div>
           </div>
-        )}
 
-        {property.bedrooms && (
-          <div className="flex items-center">
-            <Home className="w-4 h-4 text-gray-400 mr-2" />
-            <span className="text-sm text-gray-600">
-              Bedrooms: <span className="font-medium text-gray-900">{property.bedrooms}</span>
-            </span>
-          </div>
-        )}
+          {/* View on Map Button */}
+          {onViewOnMap && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onViewOnMap();
+              }}
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center shadow-lg hover:shadow-xl transform hover:scale-105"
+            >
+              <MapPin className="w-4 h-4 mr-2" />
+              View on Map
+            </button>
+          )}
+
+          {/* Acreage (if available) */}
+          {property.acreage && property.acreage > 0 && (
+            <div className="flex items-center">
+              <Ruler className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Acreage: <span className="font-medium text-gray-900">{property.acreage} acres</span>
+              </span>
+            </div>
+          )}
 
-        {property.bathrooms && (
+          {/* Owner */}
           <div className="flex items-center">
-            <Home className="w-4 h-4 text-gray-400 mr-2" />
+            <User className="w-4 h-4 text-gray-400 mr-2" />
             <span className="text-sm text-gray-600">
-              Bathrooms: <span className="font-medium text-gray-900">{property.bathrooms}</span>
+              Owner: <span className="font-medium text-gray-900">{property.owner}</span>
             </span>
           </div>
-        )}
 
-        {/* Description (for submitted properties) */}
-        {property.description && (
-          <div className="flex items-start">
-            <FileText className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
-            <div>
-              <p className="text-sm font-medium text-gray-700 mb-1">Description:</p>
-              <p className="text-sm text-gray-600">{property.description}</p>
+          {/* Additional Property Details */}
+          {property.yearBuilt && (
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Year Built: <span className="font-medium text-gray-900">{property.yearBuilt}</span>
+              </span>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Submitted Date (for submitted properties) */}
-        {property.submittedAt && (
-          <div className="flex items-center">
-            <Calendar className="w-4 h-4 text-gray-400 mr-2" />
-            <span className="text-sm text-gray-600">
-              Submitted: <span className="font-medium text-gray-900">
-                {new Date(property.submittedAt).toLocaleDateString()}
+          {property.squareFootage && property.squareFootage > 0 && (
+            <div className="flex items-center">
+              <Ruler className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Square Footage: <span className="font-medium text-gray-900">{property.squareFootage.toLocaleString()} sq ft</span>
               </span>
-            </span>
-          </div>
-        )}
+            </div>
+          )}
 
-        {/* Property ID */}
-        {property.parcelId && (
+          {property.bedrooms && (
+            <div className="flex items-center">
+              <Home className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Bedrooms: <span className="font-medium text-gray-900">{property.bedrooms}</span>
+              </span>
+            </div>
+          )}
+
+          {property.bathrooms && (
+            <div className="flex items-center">
+              <Home className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Bathrooms: <span className="font-medium text-gray-900">{property.bathrooms}</span>
+              </span>
+            </div>
+          )}
+
+          {/* Parcel contents from the spatial join */}
+          {parcelStats && (
+            <div className="flex items-start">
+              <Building2 className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>
+                  Buildings on parcel: <span className="font-medium text-gray-900">{parcelStats.buildingCount}</span>
+                </p>
+                {parcelStats.buildingCount > 0 && (
+                  <p>
+                    Footprint: <span className="font-medium text-gray-900">{parcelStats.footprintArea.toLocaleString()} sq ft</span>
+                    {parcelStats.tallestBuildingHeight !== undefined && (
+                      <span> · Tallest: <span className="font-medium text-gray-900">{Math.round(parcelStats.tallestBuildingHeight)} m</span></span>
+                    )}
+                  </p>
+                )}
+                {parcelStats.addresses.length > 0 && (
+                  <p>
+                    Situs addresses: <span className="font-medium text-gray-900">{parcelStats.addresses.join('; ')}</span>
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Description (for submitted properties) */}
+          {property.description && (
+            <div className="flex items-start">
+              <FileText className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-1">Description:</p>
+                <p className="text-sm text-gray-600">{property.description}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Submitted Date (for submitted properties) */}
+          {property.submittedAt && (
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 text-gray-400 mr-2" />
+              <span className="text-sm text-gray-600">
+                Submitted: <span className="font-medium text-gray-900">
+                  {new Date(property.submittedAt).toLocaleDateString()}
+                </span>
+              </span>
+            </div>
+          )}
+
+          {/* Property ID */}
+          {property.parcelId && (
+            <div className="text-xs text-gray-500">
+              Parcel ID: {property.parcelId}
+            </div>
+          )}
+
+          {/* Coordinates */}
           <div className="text-xs text-gray-500">
-            Parcel ID: {property.parcelId}
+            Coordinates: {property.coordinates.lat.toFixed(6)}, {property.coordinates.lng.toFixed(6)}
           </div>
-        )}
-
-        {/* Coordinates */}
-        <div className="text-xs text-gray-500">
-          Coordinates: {property.coordinates.lat.toFixed(6)}, {property.coordinates.lng.toFixed(6)}
         </div>
-      </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import type { Property } from '../types';
+import type { FieldChange, PropertyRevision, RevisionAction } from '../services/propertyHistory';
+
+interface PropertyHistoryProps {
+  property: Property;
+  onLoadHistory: (propertyId: string) => Promise<PropertyRevision[]>;
+  onRestore?: (revision: PropertyRevision) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Submitted',
+  update: 'Edited',
+  status: 'Reviewed',
+  delete: 'Deleted',
+  restore: 'Restored'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+  }
+  return String(value);
+};
+
+const describeChange = (change: FieldChange) =>
+  `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+
+export const PropertyHistory: React.FC<PropertyHistoryProps> = ({ property, onLoadHistory, onRestore }) => {
+  const [revisions, setRevisions] = useState<PropertyRevision[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the record changes, e.g. after a restore
+  useEffect(() => {
+    let cancelled = false;
+
+    onLoadHistory(property.id)
+      .then(loaded => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch(loadError => {
+        console.error('Error loading property history:', loadError);
+        if (!cancelled) setError('Could not load the history for this property');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [property, onLoadHistory]);
+
+  const restore = async (revision: PropertyRevision) => {
+    if (!onRestore) return;
+
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await onRestore(revision);
+    } catch (restoreError) {
+      console.error('Error restoring revision:', restoreError);
+      setError(`Could not restore revision ${revision.revision}: ${(restoreError as Error).message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!revisions) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No changes have been recorded for this property yet.</p>;
+  }
+
+  const latest = revisions[revisions.length - 1];
+
+  return (
+    <ol className="space-y-3">
+      {[...revisions].reverse().map(revision => (
+        <li key={revision.id} className="border-l-2 border-gray-200 pl-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900 flex items-center">
+              <History className="w-3 h-3 mr-1 text-gray-400" />
+              #{revision.revision} {ACTION_LABELS[revision.action]}
+              {revision.restoredFrom !== undefined && ` to #${revision.restoredFrom}`}
+            </p>
+            {onRestore && revision.snapshot && revision.id !== latest.id && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  restore(revision);
+                }}
+                disabled={restoringId !== null}
+                className="text-xs text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+                aria-label={`Restore revision ${revision.revision}`}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {revision.actor} · {new Date(revision.timestamp).toLocaleString()}
+          </p>
+          {revision.action !== 'create' && revision.action !== 'delete' && (
+            <ul className="mt-1 space-y-0.5">
+              {revision.changes.map(change => (
+                <li key={change.field} className="text-xs text-gray-600 break-words">{describeChange(change)}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
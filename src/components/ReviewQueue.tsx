@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { X, CheckCircle, XCircle, Clock, ClipboardCheck, MapPin } from 'lucide-react';
+import type { Property } from '../types';
+import type { PropertyStatus } from '../types/backend';
+import { validateReviewDecision, type ReviewDecision, type ReviewStatus } from '../services/moderation';
+
+interface ReviewQueueProps {
+  properties: Property[];
+  reviewer: string; // Name of the signed-in reviewer or admin
+  onReview: (propertyIds: string[], decision: ReviewDecision) => Promise<void>;
+  onClose: () => void;
+  onViewOnMap?: (property: Property) => void;
+}
+
+const TABS: { status: PropertyStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' }
+];
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ properties, reviewer, onReview, onClose, onViewOnMap }) => {
+  const [activeTab, setActiveTab] = useState<PropertyStatus>('pending');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const tabProperties = properties.filter(property => (property.status || 'pending') === activeTab);
+  const selectedInTab = selectedIds.filter(id => tabProperties.some(property => property.id === id));
+  const allSelected = tabProperties.length > 0 && selectedInTab.length === tabProperties.length;
+
+  const countByStatus = (status: PropertyStatus) =>
+    properties.filter(property => (property.status || 'pending') === status).length;
+
+  const switchTab = (status: PropertyStatus) => {
+    setActiveTab(status);
+    setSelectedIds([]);
+    setIsRejecting(false);
+    setReviewError(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : tabProperties.map(property => property.id));
+  };
+
+  const submitReview = async (status: ReviewStatus) => {
+    const decision: ReviewDecision = { status, reviewer, reason: status === 'rejected' ? rejectionReason : undefined };
+    const invalid = validateReviewDecision(decision);
+    if (invalid) {
+      setReviewError(invalid);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setReviewError(null);
+    try {
+      await onReview(selectedInTab, decision);
+      setSelectedIds([]);
+      setIsRejecting(false);
+      setRejectionReason('');
+    } catch (error) {
+      console.error('Review failed:', error);
+      setReviewError((error as Error).message || 'Failed to save the review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ClipboardCheck className="w-5 h-5 mr-2" />
+            Review Submissions
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Close review queue">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-gray-200 px-4">
+          {TABS.map(tab => (
+            <button
+              key={tab.status}
+              onClick={() => switchTab(tab.status)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                activeTab === tab.status ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label} ({countByStatus(tab.status)})
+            </button>
+          ))}
+        </div>
+
+        {/* Reviewer and bulk actions */}
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <p className="text-sm text-gray-600">
+            Reviewing as <span className="font-medium text-gray-900">{reviewer}</span>
+          </p>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-sm text-gray-600">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} className="mr-2" disabled={tabProperties.length === 0} />
+              Select all ({selectedInTab.length} selected)
+            </label>
+            <div className="flex space-x-2">
+              {activeTab !== 'approved' && (
+                <button
+                  onClick={() => submitReview('approved')}
+                  disabled={selectedInTab.length === 0 || isSubmitting}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg disabled:opacity-50 flex items-center"
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Approve
+                </button>
+              )}
+              {activeTab !== 'rejected' && (
+                <button
+                  onClick={() => setIsRejecting(true)}
+                  disabled={selectedInTab.length === 0 || isSubmitting}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50 flex items-center"
+                >
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Reject
+                </button>
+              )}
+            </div>
+          </div>
+
+          {isRejecting && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+              <label htmlFor="rejection-reason" className="block text-sm font-medium text-red-800">
+                Reason for rejecting {selectedInTab.length} submission{selectedInTab.length === 1 ? '' : 's'} (required)
+              </label>
+              <textarea
+                id="rejection-reason"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-red-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => setIsRejecting(false)}
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => submitReview('rejected')}
+                  disabled={!rejectionReason.trim() || isSubmitting}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                >
+                  Confirm Rejection
+                </button>
+              </div>
+            </div>
+          )}
+
+          {reviewError && <p className="text-sm text-red-600">{reviewError}</p>}
+        </div>
+
+        {/* Queue */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {tabProperties.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">No {activeTab} submissions.</p>
+          ) : (
+            tabProperties.map(property => (
+              <div key={property.id} className="flex items-start p-3 border border-gray-200 rounded-lg hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(property.id)}
+                  onChange={() => toggleSelected(property.id)}
+                  className="mt-1 mr-3"
+                  aria-label={`Select ${property.address}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 text-sm">{property.address}</p>
+                  <p className="text-sm text-gray-600">
+                    {property.city}, {property.state} {property.zipCode} · ${property.marketValue.toLocaleString()} · <span className="capitalize">{property.propertyType}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 flex items-center mt-1">
+                    <Clock className="w-3 h-3 mr-1" />
+                    Submitted {formatDate(property.submittedAt)} by {property.owner}
+                  </p>
+                  {property.reviewedBy && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {property.status === 'rejected' ? 'Rejected' : 'Approved'} by {property.reviewedBy} on {formatDate(property.reviewedAt)}
+                    </p>
+                  )}
+                  {property.status === 'rejected' && property.rejectionReason && (
+                    <p className="text-xs text-red-700 mt-1">Reason: {property.rejectionReason}</p>
+                  )}
+                </div>
+                {onViewOnMap && (
+                  <button
+                    onClick={() => onViewOnMap(property)}
+                    className="ml-2 text-blue-600 hover:text-blue-800"
+                    title="View on map"
+                  >
+                    <MapPin className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 
 import { Search, Filter, X } from 'lucide-react';
-import type { SearchFilters, Property } from '../types';
+import type { SearchFilters, SearchSource, Property } from '../types';
+import { SEARCH_SOURCES, propertySearch } from '../services/searchService';
+import { AddressAutocomplete } from './AddressAutocomplete';
 
 interface SearchFiltersComponentProps {
   filters: SearchFilters;
@@ -15,7 +17,7 @@ export const PropertySearchFilters: React.FC<SearchFiltersComponentProps> = ({
   onSearch,
   className = ''
 }) => {
-  const propertyTypes: Property['propertyType'][] = [
+  const propertyTypes: NonNullable<Property['propertyType']>[] = [
     'residential',
     'commercial',
     'industrial',
@@ -23,13 +25,23 @@ export const PropertySearchFilters: React.FC<SearchFiltersComponentProps> = ({
     'vacant'
   ];
 
-  const handleInputChange = (key: keyof SearchFilters, value: string | number | undefined) => {
+  const handleInputChange = (key: keyof SearchFilters, value: SearchFilters[keyof SearchFilters]) => {
     onFiltersChange({
       ...filters,
       [key]: value === '' ? undefined : value,
     });
   };
 
+  // Unset sources means every source, so ticking them all (or none) clears the filter
+  const toggleSource = (source: SearchSource) => {
+    const selected = filters.sources || SEARCH_SOURCES.map(({ value }) => value);
+    const sources = selected.includes(source) ? selected.filter(value => value !== source) : [...selected, source];
+    handleInputChange('sources', sources.length > 0 && sources.length < SEARCH_SOURCES.length ? sources : undefined);
+  };
+
+  // Only suggest from the sources the search is limited to
+  const getSuggestions = (query: string) => propertySearch.suggest(query, undefined, filters.sources);
+
   const clearFilters = () => {
     onFiltersChange({});
   };
@@ -55,6 +67,21 @@ export const PropertySearchFilters: React.FC<SearchFiltersComponentProps> = ({
       </div>
 
       <div className="space-y-4">
+        {/* Address, owner or parcel ID */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Address, Owner or Parcel ID
+          </label>
+          <AddressAutocomplete
+            value={filters.address || ''}
+            onChange={(value) => handleInputChange('address', value)}
+            onSelect={(suggestion) => handleInputChange('address', suggestion.label)}
+            onSubmit={onSearch}
+            getSuggestions={getSuggestions}
+            placeholder="e.g. 123 N Lamar Blvd"
+          />
+        </div>
+
         {/* Property Type */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -193,6 +220,25 @@ export const PropertySearchFilters: React.FC<SearchFiltersComponentProps> = ({
           </div>
         </div>
 
+        {/* Sources */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">
+            Search In
+          </legend>
+          <div className="grid grid-cols-2 gap-2">
+            {SEARCH_SOURCES.map(({ value, label }) => (
+              <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!filters.sources || filters.sources.includes(value)}
+                  onChange={() => toggleSource(value)}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
         {/* Search Button */}
         <button
           onClick={onSearch}
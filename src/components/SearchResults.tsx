@@ -0,0 +1,98 @@
+import { ChevronLeft, ChevronRight, MapPin, X } from 'lucide-react';
+import type { Property, PropertySearchResult, SearchSource } from '../types';
+import { SEARCH_SOURCES } from '../services/searchService';
+
+interface SearchResultsProps {
+  result: PropertySearchResult;
+  onPageChange: (page: number) => void;
+  onViewOnMap: (property: Property) => void;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<SearchSource, string> = {
+  submission: 'bg-blue-100 text-blue-800',
+  parcel: 'bg-green-100 text-green-800',
+  address: 'bg-purple-100 text-purple-800',
+  building: 'bg-orange-100 text-orange-800'
+};
+
+const SOURCE_LABELS = Object.fromEntries(SEARCH_SOURCES.map(({ value, label }) => [value, label])) as Record<SearchSource, string>;
+
+// One page of unified search results, each tagged with the dataset it came from
+export const SearchResults: React.FC<SearchResultsProps> = ({ result, onPageChange, onViewOnMap, onClose }) => {
+  const pageCount = Math.max(1, Math.ceil(result.total / result.pageSize));
+  const items = result.results || result.properties.map(property => ({ source: 'submission' as const, property }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold">Search Results</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close search results">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {result.total.toLocaleString()} matches
+        {result.totalsBySource && Object.keys(result.totalsBySource).length > 0 && (
+          <> ({SEARCH_SOURCES
+            .filter(({ value }) => result.totalsBySource?.[value])
+            .map(({ value, label }) => `${label}: ${result.totalsBySource?.[value]?.toLocaleString()}`)
+            .join(', ')})</>
+        )}
+      </p>
+
+      {items.length === 0 ? (
+        <p className="text-gray-500">No properties match these filters. Try widening them or including more sources.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {items.map(({ source, property }) => (
+            <li key={`${source}-${property.id}`} className="py-2 flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SOURCE_STYLES[source]}`}>
+                    {SOURCE_LABELS[source]}
+                  </span>
+                  <span className="font-medium truncate">{property.address}</span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {[property.city, property.zipCode].filter(Boolean).join(' ')}
+                  {property.marketValue > 0 && ` · $${property.marketValue.toLocaleString()}`}
+                  {` · ${property.propertyType}`}
+                </p>
+              </div>
+              <button
+                onClick={() => onViewOnMap(property)}
+                className="ml-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <MapPin className="w-4 h-4 mr-1" />
+                View
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => onPageChange(result.page - 1)}
+            disabled={result.page <= 1}
+            className="flex items-center px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {result.page} of {pageCount}</span>
+          <button
+            onClick={() => onPageChange(result.page + 1)}
+            disabled={result.page >= pageCount}
+            className="flex items-center px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
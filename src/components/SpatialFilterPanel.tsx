@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Check, Crosshair, PenTool, X } from 'lucide-react';
+import type { SpatialFilter } from '../types';
+import type { CountyBoundary } from '../services/comprehensiveDataLoader';
+import { describeSpatialFilter } from '../utils/spatialFilter';
+
+// Map interaction the panel is waiting on
+export type SearchAreaMode = 'draw' | 'pick-center';
+
+type SpatialFilterType = SpatialFilter['type'];
+
+interface SpatialFilterPanelProps {
+  filter?: SpatialFilter;
+  counties: CountyBoundary[];
+  onChange: (filter: SpatialFilter | undefined) => void;
+  mode: SearchAreaMode | null;
+  onModeChange: (mode: SearchAreaMode | null) => void;
+  drawnVertexCount: number;
+  onFinishDrawing: () => void;
+  // The map is busy with something else, e.g. placing a submission
+  disabled?: boolean;
+}
+
+const AREA_TYPES: { value: SpatialFilterType; label: string }[] = [
+  { value: 'polygon', label: 'Drawn shape' },
+  { value: 'radius', label: 'Radius' },
+  { value: 'county', label: 'County' },
+  { value: 'zip', label: 'ZIP code' }
+];
+
+// Limit the search to a drawn shape, a radius around a point, a county or a ZIP code
+export const SpatialFilterPanel: React.FC<SpatialFilterPanelProps> = ({
+  filter,
+  counties,
+  onChange,
+  mode,
+  onModeChange,
+  drawnVertexCount,
+  onFinishDrawing,
+  disabled = false
+}) => {
+  const [selectedType, setSelectedType] = useState<SpatialFilterType | ''>(filter?.type || '');
+  const [zipCode, setZipCode] = useState(filter?.type === 'zip' ? filter.zipCode : '');
+  const areaType = filter?.type || selectedType;
+
+  const handleTypeChange = (type: SpatialFilterType | '') => {
+    setSelectedType(type);
+    setZipCode('');
+    onModeChange(null);
+    onChange(undefined);
+  };
+
+  const handleZipChange = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, 5);
+    setZipCode(digits);
+    onChange(digits.length === 5 ? { type: 'zip', zipCode: digits } : undefined);
+  };
+
+  // Counties are picked by id, since boundaries read without attributes have no FIPS code
+  const handleCountyChange = (id: string) => {
+    const county = counties.find(candidate => candidate.id === id);
+    onChange(county ? { type: 'county', fips: county.fips, name: county.name, geometry: county.geometry } : undefined);
+  };
+
+  const sortedCounties = [...counties].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="search-area-type" className="block text-sm font-medium text-gray-700 mb-2">
+          Search Area
+        </label>
+        <select
+          id="search-area-type"
+          value={areaType}
+          onChange={(e) => handleTypeChange(e.target.value as SpatialFilterType | '')}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">Anywhere</option>
+          {AREA_TYPES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {areaType === 'polygon' && (
+        mode === 'draw' ? (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Click the map to add corners ({drawnVertexCount} so far). Drag a corner to move it.
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={onFinishDrawing}
+                disabled={drawnVertexCount < 3}
+                className="flex-1 flex items-center justify-center btn-primary text-sm disabled:opacity-50"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Use Shape
+              </button>
+              <button onClick={() => onModeChange(null)} className="flex-1 flex items-center justify-center btn-secondary text-sm">
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => onModeChange('draw')}
+            disabled={disabled}
+            className="w-full flex items-center justify-center btn-secondary text-sm disabled:opacity-50"
+          >
+            <PenTool className="w-4 h-4 mr-2" />
+            {filter ? 'Redraw Shape' : 'Draw Shape on Map'}
+          </button>
+        )
+      )}
+
+      {areaType === 'radius' && (
+        <div className="space-y-2">
+          {filter?.type === 'radius' && (
+            <div>
+              <label htmlFor="search-radius" className="block text-sm font-medium text-gray-700 mb-1">
+                Radius (miles)
+              </label>
+              <input
+                id="search-radius"
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={filter.miles}
+                onChange={(e) => {
+                  const miles = Number(e.target.value);
+                  if (miles > 0) onChange({ ...filter, miles });
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          )}
+          <button
+            onClick={() => onModeChange(mode === 'pick-center' ? null : 'pick-center')}
+            disabled={disabled}
+            className="w-full flex items-center justify-center btn-secondary text-sm disabled:opacity-50"
+          >
+            <Crosshair className="w-4 h-4 mr-2" />
+            {mode === 'pick-center' ? 'Click the map… (cancel)' : filter ? 'Move Center' : 'Pick Center on Map'}
+          </button>
+        </div>
+      )}
+
+      {areaType === 'county' && (
+        counties.length === 0 ? (
+          <p className="text-sm text-gray-500">County boundaries are still loading.</p>
+        ) : (
+          <select
+            aria-label="County"
+            value={filter?.type === 'county' ? counties.find(county => county.geometry === filter.geometry)?.id || '' : ''}
+            onChange={(e) => handleCountyChange(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">Choose a county</option>
+            {sortedCounties.map(county => (
+              <option key={county.id} value={county.id}>{county.name}</option>
+            ))}
+          </select>
+        )
+      )}
+
+      {areaType === 'zip' && (
+        <input
+          type="text"
+          inputMode="numeric"
+          aria-label="ZIP code"
+          placeholder="78701"
+          value={zipCode}
+          onChange={(e) => handleZipChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      )}
+
+      {filter && (
+        <p className="text-sm text-purple-700">
+          {describeSpatialFilter(filter)}
+          {filter.type === 'zip' && ' (outlined by the records found in it)'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { UserCircle } from 'lucide-react';
+import type { AuthUser } from '../types/backend';
+import { ROLE_LABELS } from '../services/permissions';
+
+interface UserSwitcherProps {
+  user: AuthUser | null;
+  users: AuthUser[];
+  onSignIn: (userId: string) => void;
+  onSignOut: () => void;
+}
+
+// Development sign-in: pick one of the mock accounts
+export const UserSwitcher: React.FC<UserSwitcherProps> = ({ user, users, onSignIn, onSignOut }) => {
+  return (
+    <div className="flex items-center space-x-2">
+      <UserCircle className="w-5 h-5 text-gray-500" />
+      <label htmlFor="current-user" className="text-sm text-gray-600">Signed in as</label>
+      <select
+        id="current-user"
+        value={user?.id || ''}
+        onChange={(e) => e.target.value ? onSignIn(e.target.value) : onSignOut()}
+        className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        <option value="">Nobody (read only)</option>
+        {users.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name} ({ROLE_LABELS[option.role]})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { authProvider } from '../services/auth';
+import type { AuthUser } from '../types/backend';
+
+// Current user from the auth provider, kept up to date across sign-ins
+export const useAuth = () => {
+  const [user, setUser] = useState<AuthUser | null>(() => authProvider.getCurrentUser());
+
+  useEffect(() => authProvider.subscribe(setUser), []);
+
+  return {
+    user,
+    users: authProvider.getUsers(),
+    signIn: (userId: string) => authProvider.signIn(userId),
+    signOut: () => authProvider.signOut()
+  };
+};
@@ -0,0 +1,151 @@
+// Signed-in user and role checks for the property repository. Only a local mock
+// provider exists for now; a real identity provider can implement AuthProvider.
+import type { Property } from '../types';
+import type { AuthUser } from '../types/backend';
+import type { PropertyRepository } from './propertyRepository';
+import {
+  MOCK_USERS,
+  findMockUser,
+  getCreatePermissionError,
+  getPermissionError,
+  getUpdatePermissionError
+} from './permissions';
+
+const CURRENT_USER_KEY = 'auth_current_user';
+
+export interface AuthProvider {
+  getCurrentUser(): AuthUser | null;
+  getUsers(): AuthUser[];
+  signIn(userId: string): AuthUser;
+  signOut(): void;
+  // Called whenever the signed-in user changes; returns an unsubscribe function
+  subscribe(listener: (user: AuthUser | null) => void): () => void;
+}
+
+// A change was refused because the signed-in user's role does not allow it
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Development provider: sign in as one of MOCK_USERS without a password. The choice
+ * is kept in localStorage, and the first (submitter) account is used until then.
+ */
+export class MockAuthProvider implements AuthProvider {
+  private currentUser: AuthUser | null;
+  private readonly listeners = new Set<(user: AuthUser | null) => void>();
+
+  constructor() {
+    this.currentUser = this.loadCurrentUser();
+  }
+
+  getCurrentUser(): AuthUser | null {
+    return this.currentUser;
+  }
+
+  getUsers(): AuthUser[] {
+    return MOCK_USERS;
+  }
+
+  signIn(userId: string): AuthUser {
+    const user = findMockUser(userId);
+    if (!user) {
+      throw new Error(`Unknown user ${userId}`);
+    }
+
+    this.setCurrentUser(user, user.id);
+    console.log(`🔑 Signed in as ${user.name} (${user.role})`);
+    return user;
+  }
+
+  signOut(): void {
+    // An empty id remembers the sign-out, so the default account is not used again
+    this.setCurrentUser(null, '');
+    console.log('🔑 Signed out');
+  }
+
+  subscribe(listener: (user: AuthUser | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setCurrentUser(user: AuthUser | null, storedId: string) {
+    this.currentUser = user;
+    try {
+      localStorage.setItem(CURRENT_USER_KEY, storedId);
+    } catch (error) {
+      console.warn('⚠️ Could not remember the signed-in user:', error);
+    }
+    this.listeners.forEach(listener => listener(user));
+  }
+
+  private loadCurrentUser(): AuthUser | null {
+    try {
+      const stored = localStorage.getItem(CURRENT_USER_KEY);
+      if (stored === null || stored === undefined) return MOCK_USERS[0];
+      return findMockUser(stored);
+    } catch {
+      return MOCK_USERS[0];
+    }
+  }
+}
+
+export const authProvider: AuthProvider = new MockAuthProvider();
+
+/**
+ * Repository that refuses changes the signed-in user may not make, and stamps new
+ * records with their submitter. Reads are open to everyone.
+ */
+export class AuthorizedPropertyRepository implements PropertyRepository {
+  readonly kind: PropertyRepository['kind'];
+  private readonly inner: PropertyRepository;
+  private readonly getUser: () => AuthUser | null;
+
+  constructor(inner: PropertyRepository, getUser: () => AuthUser | null) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.getUser = getUser;
+  }
+
+  async list(): Promise<Property[]> {
+    return this.inner.list();
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return this.inner.get(id);
+  }
+
+  async create(property: Property): Promise<Property> {
+    const user = this.getUser();
+    const owned: Property = { ...property, submittedBy: property.submittedBy || user?.id };
+    this.check(getCreatePermissionError(user, owned));
+    return this.inner.create(owned);
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    const existing = await this.inner.get(id);
+    if (!existing) return null;
+
+    this.check(getUpdatePermissionError(this.getUser(), existing, updates));
+    return this.inner.update(id, updates);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.inner.get(id);
+    if (!existing) return false;
+
+    this.check(getPermissionError(this.getUser(), 'delete', existing));
+    return this.inner.delete(id);
+  }
+
+  private check(error: string | null) {
+    if (error) {
+      throw new PermissionError(error);
+    }
+  }
+}
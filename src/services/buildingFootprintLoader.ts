@@ -1,4 +1,5 @@
 import type { BuildingFootprint } from '../types';
+import { withDatasetCache } from './datasetCache';
 
 // Travis County bounding box (approximate)
 const TRAVIS_COUNTY_BOUNDS = {
@@ -17,33 +18,46 @@ export interface BuildingFootprintData {
   loadedCount: number;
 }
 
+const TRAVIS_BUILDINGS_URL = '/data/travis-buildings.json';
+
+// Parse the extracted buildings file; resolves with null when it is missing
+const loadExtractedBuildings = async (): Promise<BuildingFootprint[] | null> => {
+  const travisResponse = await fetch(TRAVIS_BUILDINGS_URL);
+  if (!travisResponse.ok) return null;
+
+  console.log('Found extracted Travis County buildings file, loading...');
+  const travisData = await travisResponse.json();
+  
+  // Convert GeoJSON features to BuildingFootprint format
+  return travisData.features.map((feature: any, index: number) => ({
+    id: feature.properties?.osm_id || `building_${index}`,
+    geometry: feature.geometry,
+    height: feature.properties?.height || -1,
+    confidence: feature.properties?.confidence || -1,
+    area: calculateArea(feature.geometry),
+    coordinates: getCenterCoordinates(feature.geometry),
+    properties: {
+      building: feature.properties?.building || 'yes',
+      amenity: feature.properties?.amenity || null,
+      shop: feature.properties?.shop || null,
+      office: feature.properties?.office || null,
+      residential: feature.properties?.residential || null
+    }
+  }));
+};
+
 export const loadTravisCountyBuildings = async (): Promise<BuildingFootprintData> => {
   try {
     console.log('Loading Travis County building footprints...');
     
-    // First, try to load the extracted Travis County buildings file
-    const travisResponse = await fetch('/data/travis-buildings.json');
-    if (travisResponse.ok) {
-      console.log('Found extracted Travis County buildings file, loading...');
-      const travisData = await travisResponse.json();
-      
-      // Convert GeoJSON features to BuildingFootprint format
-      const buildings: BuildingFootprint[] = travisData.features.map((feature: any, index: number) => ({
-        id: feature.properties?.osm_id || `building_${index}`,
-        geometry: feature.geometry,
-        height: feature.properties?.height || -1,
-        confidence: feature.properties?.confidence || -1,
-        area: calculateArea(feature.geometry),
-        coordinates: getCenterCoordinates(feature.geometry),
-        properties: {
-          building: feature.properties?.building || 'yes',
-          amenity: feature.properties?.amenity || null,
-          shop: feature.properties?.shop || null,
-          office: feature.properties?.office || null,
-          residential: feature.properties?.residential || null
-        }
-      }));
-      
+    // First, try the extracted Travis County buildings file, reusing the cached parse while its ETag matches
+    const buildings = await withDatasetCache(
+      `buildings:${TRAVIS_BUILDINGS_URL}`,
+      [TRAVIS_BUILDINGS_URL],
+      loadExtractedBuildings,
+      { isCacheable: result => result !== null }
+    );
+    if (buildings) {
       console.log(`✅ Loaded ${buildings.length} real Travis County buildings`);
       
       return {
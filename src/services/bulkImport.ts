@@ -0,0 +1,289 @@
+// Bulk import of property submissions from CSV or Excel spreadsheets: map columns
+// to submission fields, geocode rows without coordinates and validate every row
+// before anything is saved
+import type { PropertySubmission } from '../components/FloatingPropertyForm';
+import { parseCsvRows } from '../utils/csv';
+import { parseXlsxRows } from '../utils/xlsx';
+import { classifyProperty } from '../utils/propertyClassifier';
+import { geocoder, type GeocodeCandidate, type GeocoderService } from './geocoder';
+import { validateProperty } from './propertySchema';
+import { convertSubmissionToProperty } from './propertyStorage';
+
+export type ImportField =
+  | 'address' | 'city' | 'state' | 'zipCode' | 'price' | 'acreage' | 'propertyType'
+  | 'description' | 'owner' | 'parcelId' | 'county' | 'latitude' | 'longitude';
+
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+// Spreadsheet contents: header names and one record per data row
+export interface ImportTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type GeocodeConfidence = 'high' | 'medium' | 'low';
+
+export interface ImportGeocode {
+  // 'file' when the spreadsheet already had coordinates
+  source: 'file' | GeocodeCandidate['source'];
+  score: number;
+  confidence: GeocodeConfidence;
+  matchedAddress?: string;
+}
+
+export interface ImportRow {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  submission: Omit<PropertySubmission, 'coordinates'> & { coordinates?: PropertySubmission['coordinates'] };
+  errors: string[];
+  warnings: string[];
+  geocode?: ImportGeocode;
+}
+
+export const IMPORT_FIELDS: Record<ImportField, { label: string; required?: boolean; aliases: string[] }> = {
+  address: { label: 'Address', required: true, aliases: ['address', 'street address', 'site address', 'situs address', 'site_addr', 'property address'] },
+  city: { label: 'City', required: true, aliases: ['city', 'town', 'situs city'] },
+  state: { label: 'State', aliases: ['state', 'st'] },
+  zipCode: { label: 'ZIP code', required: true, aliases: ['zip', 'zip code', 'zipcode', 'postal code', 'zip_code'] },
+  price: { label: 'Price', required: true, aliases: ['price', 'list price', 'asking price', 'market value', 'value', 'sale price'] },
+  acreage: { label: 'Acreage', aliases: ['acreage', 'acres', 'lot size', 'lot acres'] },
+  propertyType: { label: 'Property type', aliases: ['property type', 'type', 'land use', 'use', 'state code', 'prop_type'] },
+  description: { label: 'Description', aliases: ['description', 'notes', 'remarks', 'comments'] },
+  owner: { label: 'Owner', aliases: ['owner', 'owner name', 'owner_name', 'seller'] },
+  parcelId: { label: 'Parcel ID', aliases: ['parcel id', 'parcel', 'prop_id', 'property id', 'apn'] },
+  county: { label: 'County', aliases: ['county'] },
+  latitude: { label: 'Latitude', aliases: ['latitude', 'lat', 'y'] },
+  longitude: { label: 'Longitude', aliases: ['longitude', 'lng', 'lon', 'long', 'x'] }
+};
+
+const HIGH_CONFIDENCE_SCORE = 0.9;
+const MEDIUM_CONFIDENCE_SCORE = 0.7;
+// The submission form assumes Texas too
+const DEFAULT_STATE = 'TX';
+
+const normalizeColumnName = (name: string) => name.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Header and records from spreadsheet rows. Blank or repeated header names get
+ * numbered so every column stays addressable.
+ */
+export const toImportTable = (rows: string[][]): ImportTable => {
+  const [header = [], ...body] = rows;
+  const seen = new Set<string>();
+  const columns = header.map((name, index) => {
+    let column = name.trim() || `Column ${index + 1}`;
+    for (let n = 2; seen.has(column); n++) column = `${name.trim() || `Column ${index + 1}`} (${n})`;
+    seen.add(column);
+    return column;
+  });
+
+  return {
+    columns,
+    rows: body.map(cells => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()])))
+  };
+};
+
+/**
+ * Read a .csv or .xlsx file chosen by the user
+ */
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') {
+    return toImportTable(parseXlsxRows(new Uint8Array(await file.arrayBuffer())));
+  }
+  if (extension === 'csv' || extension === 'txt') {
+    return toImportTable(parseCsvRows(await file.text()));
+  }
+  if (extension === 'tsv') {
+    return toImportTable(parseCsvRows(await file.text(), '\t'));
+  }
+  throw new Error(`Unsupported file type ".${extension}". Use CSV or Excel (.xlsx); save older .xls workbooks as .xlsx first.`);
+};
+
+/**
+ * Guess the column for each field from common header names
+ */
+export const suggestImportMapping = (columns: string[]): ImportColumnMapping => {
+  const byName: Record<string, string> = {};
+  columns.forEach(column => {
+    byName[normalizeColumnName(column)] ??= column;
+  });
+
+  const mapping: ImportColumnMapping = {};
+  (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+    const alias = IMPORT_FIELDS[field].aliases.find(name => byName[normalizeColumnName(name)]);
+    if (alias) mapping[field] = byName[normalizeColumnName(alias)];
+  });
+  return mapping;
+};
+
+/**
+ * Problems with a mapping that make the import impossible
+ */
+export const getMappingErrors = (mapping: ImportColumnMapping): string[] => {
+  const errors = (Object.keys(IMPORT_FIELDS) as ImportField[])
+    .filter(field => IMPORT_FIELDS[field].required && !mapping[field])
+    .map(field => `Choose a column for ${IMPORT_FIELDS[field].label}`);
+
+  if (!!mapping.latitude !== !!mapping.longitude) {
+    errors.push('Map both latitude and longitude, or neither');
+  }
+  return errors;
+};
+
+// Spreadsheet numbers may carry currency signs and thousands separators
+const parseNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return undefined;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+/**
+ * Turn spreadsheet records into submissions and check each field. Coordinates are
+ * taken from the file when mapped; the other rows still need geocodeImportRows.
+ */
+export const mapImportRows = (table: ImportTable, mapping: ImportColumnMapping): ImportRow[] =>
+  table.rows.map((record, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const read = (field: ImportField) => (mapping[field] ? record[mapping[field]] ?? '' : '').trim();
+    const readNumber = (field: ImportField) => {
+      const value = parseNumber(read(field));
+      if (Number.isNaN(value)) errors.push(`${IMPORT_FIELDS[field].label} "${read(field)}" is not a number`);
+      return Number.isNaN(value) ? undefined : value;
+    };
+
+    (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+      if (IMPORT_FIELDS[field].required && mapping[field] && !read(field)) {
+        errors.push(`${IMPORT_FIELDS[field].label} is required`);
+      }
+    });
+
+    const zipCode = read('zipCode');
+    if (zipCode && !/^\d{5}(-\d{4})?$/.test(zipCode)) {
+      errors.push(`ZIP code "${zipCode}" is not a valid ZIP code`);
+    }
+
+    const price = readNumber('price');
+    if (price !== undefined && price <= 0) {
+      errors.push('Price must be greater than 0');
+    }
+    const acreage = readNumber('acreage');
+    if (acreage !== undefined && acreage < 0) {
+      errors.push('Acreage cannot be negative');
+    }
+
+    const typeText = read('propertyType');
+    const classification = classifyProperty(typeText);
+    if (typeText && classification.source === 'default') {
+      warnings.push(classification.reason);
+    }
+
+    const latitude = readNumber('latitude');
+    const longitude = readNumber('longitude');
+    let coordinates: PropertySubmission['coordinates'] | undefined;
+    if (latitude !== undefined && longitude !== undefined) {
+      if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+        coordinates = { lat: latitude, lng: longitude };
+      } else {
+        errors.push(`Coordinates ${latitude}, ${longitude} are out of range`);
+      }
+    }
+
+    return {
+      row: index + 2,
+      submission: {
+        address: read('address'),
+        city: read('city'),
+        state: (read('state') || DEFAULT_STATE).toUpperCase(),
+        zipCode,
+        price: price ?? 0,
+        acreage: acreage ?? 0,
+        propertyType: classification.propertyType,
+        description: read('description'),
+        owner: read('owner') || undefined,
+        parcelId: read('parcelId') || undefined,
+        county: read('county') || undefined,
+        coordinates
+      },
+      errors,
+      warnings,
+      geocode: coordinates ? { source: 'file', score: 1, confidence: 'high' } : undefined
+    };
+  });
+
+export const getGeocodeConfidence = (score: number): GeocodeConfidence =>
+  score >= HIGH_CONFIDENCE_SCORE ? 'high' : score >= MEDIUM_CONFIDENCE_SCORE ? 'medium' : 'low';
+
+export const isImportRowReady = (row: ImportRow): boolean => row.errors.length === 0 && !!row.submission.coordinates;
+
+export const toPropertySubmission = (row: ImportRow): PropertySubmission => {
+  if (!row.submission.coordinates) {
+    throw new Error(`Row ${row.row} has no coordinates`);
+  }
+  return { ...row.submission, coordinates: row.submission.coordinates };
+};
+
+// Last check against the stored schema, so nothing the repository would refuse gets through
+const checkSchema = (row: ImportRow): ImportRow => {
+  if (!isImportRowReady(row)) return row;
+
+  const result = validateProperty(convertSubmissionToProperty(toPropertySubmission(row)));
+  return result.ok ? row : { ...row, errors: [...row.errors, ...result.errors] };
+};
+
+interface GeocodeImportOptions {
+  service?: GeocoderService;
+  // Called after each row with the number of rows done so far
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Geocode rows that have no coordinates, one at a time so remote lookups are not
+ * flooded. Repeated addresses are looked up once. Rows without a match get an
+ * error; low-confidence matches are kept with a warning to check them.
+ */
+export const geocodeImportRows = async (rows: ImportRow[], options: GeocodeImportOptions = {}): Promise<ImportRow[]> => {
+  const { service = geocoder, onProgress } = options;
+  const lookups: Record<string, Promise<GeocodeCandidate[]>> = {};
+  const results: ImportRow[] = [];
+
+  for (const row of rows) {
+    const { address, city, state, zipCode } = row.submission;
+
+    if (row.submission.coordinates || row.errors.length > 0 || !address) {
+      results.push(checkSchema(row));
+    } else {
+      const key = [address, city, state, zipCode].join('|').toUpperCase();
+      lookups[key] ??= service.geocode({ address, city, state, zipCode }, { limit: 1 }).catch(error => {
+        console.warn(`⚠️ Geocoding failed for row ${row.row}:`, error);
+        return [];
+      });
+      const [match] = await lookups[key];
+
+      if (!match) {
+        results.push({ ...row, errors: [...row.errors, `No location found for "${address}, ${city}"`] });
+      } else {
+        const confidence = getGeocodeConfidence(match.score);
+        const warnings = confidence === 'low'
+          ? [...row.warnings, `Low-confidence match "${match.address}" (score ${match.score}); check the location`]
+          : row.warnings;
+
+        results.push(checkSchema({
+          ...row,
+          submission: { ...row.submission, coordinates: match.coordinates },
+          warnings,
+          geocode: { source: match.source, score: match.score, confidence, matchedAddress: match.address }
+        }));
+      }
+    }
+
+    onProgress?.(results.length, rows.length);
+  }
+
+  const geocoded = results.filter(row => row.geocode && row.geocode.source !== 'file').length;
+  console.log(`📍 Geocoded ${geocoded} of ${rows.length} import rows`);
+  return results;
+};
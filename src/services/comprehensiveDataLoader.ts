@@ -1,7 +1,14 @@
 import * as shapefile from 'shapefile';
-import type { TravisCountyParcel, BuildingFootprint } from '../types';
+import type { TravisCountyParcel, BuildingFootprint, PolygonalGeometry, ParcelJoinStats } from '../types';
 import { loadTravisCountyBuildings } from './buildingFootprintLoader';
-import { transformGeometryToWGS84, isWebMercator } from '../utils/coordinateTransform';
+import { loadShapefileProjection, streamShapefile, type ShapefileLoadProgress } from './shapefileStreamLoader';
+import { withDatasetCache } from './datasetCache';
+import { getGeoJSONProjection, toWGS84Geometry } from '../utils/projection';
+import { SpatialIndex, getGeometryBBox } from '../utils/spatialIndex';
+import { isPolygonalGeometry, isValidPolygonalGeometry } from '../utils/geometry';
+import { DEFAULT_COUNTY_FIPS, getCounty, getCountyDataset } from './countyRegistry';
+import { joinParcelFeatures } from './parcelJoin';
+import { detectFieldMappingProfile, mapParcelAttributes, STRATMAP_2024_PROFILE, type FieldMappingProfile } from '../utils/fieldMapping';
 
 // Define interfaces locally since they're not exported from shapefileLoader
 export interface AddressPoint {
@@ -10,6 +17,8 @@ export interface AddressPoint {
   city: string;
   state: string;
   zip: string;
+  county?: string;
+  parcelId?: string; // PROP_ID of the parcel containing the point, set by the spatial join
   coordinates: { lat: number; lng: number };
   geometry: GeoJSON.Point;
 }
@@ -18,7 +27,7 @@ export interface CountyBoundary {
   id: string;
   name: string;
   fips: string;
-  geometry: GeoJSON.Polygon;
+  geometry: PolygonalGeometry;
 }
 
 export interface TexasBoundary {
@@ -27,20 +36,44 @@ export interface TexasBoundary {
 
 export interface ComprehensiveData {
   parcels: TravisCountyParcel[];
+  parcelIndex: SpatialIndex<TravisCountyParcel>;
   addresses: AddressPoint[];
   counties: CountyBoundary[];
   texasBoundary: TexasBoundary;
   buildings: BuildingFootprint[];
+  // Addresses and buildings found on each parcel, keyed by getParcelKey
+  parcelStats: Record<string, ParcelJoinStats>;
+  // FIPS codes of the counties whose parcels and addresses are loaded
+  loadedCounties: string[];
+}
+
+export interface ComprehensiveDataOptions {
+  onParcelProgress?: (progress: ShapefileLoadProgress) => void;
+  // County to load parcels and addresses for; defaults to Travis
+  countyFips?: string;
+  year?: number;
+}
+
+export interface CountyDataOptions {
+  year?: number;
+  onParcelProgress?: (progress: ShapefileLoadProgress) => void;
+}
+
+export interface CountyData {
+  fips: string;
+  parcels: TravisCountyParcel[];
+  addresses: AddressPoint[];
 }
 
-export const loadComprehensiveData = async (): Promise<ComprehensiveData> => {
+export const loadComprehensiveData = async (options: ComprehensiveDataOptions = {}): Promise<ComprehensiveData> => {
   console.log('Loading comprehensive data...');
+  const { countyFips = DEFAULT_COUNTY_FIPS, year, onParcelProgress } = options;
   
   try {
     // Load all data in parallel for better performance
     const [parcels, addresses, counties, texasBoundary, buildingData] = await Promise.all([
-      loadTravisCountyParcels(),
-      loadTravisCountyAddresses(),
+      loadCountyParcels(countyFips, { year, onParcelProgress }),
+      loadCountyAddresses(countyFips, { year }),
       loadCountyBoundaries(),
       loadTexasBoundary(),
       loadTravisCountyBuildings()
@@ -52,12 +85,18 @@ export const loadComprehensiveData = async (): Promise<ComprehensiveData> => {
     console.log(`  - ${counties.length} counties`);
     console.log(`  - ${buildingData.loadedCount} buildings`);
 
+    const parcelIndex = buildParcelIndex(parcels);
+    const joined = joinParcelFeatures(parcelIndex, addresses, buildingData.buildings);
+
     return {
       parcels,
-      addresses,
+      parcelIndex,
+      addresses: joined.addresses,
       counties,
       texasBoundary,
-      buildings: buildingData.buildings
+      buildings: joined.buildings,
+      parcelStats: joined.parcelStats,
+      loadedCounties: [getCounty(countyFips)?.fips || countyFips]
     };
   } catch (error) {
     console.error('Error loading comprehensive data:', error);
@@ -65,94 +104,81 @@ export const loadComprehensiveData = async (): Promise<ComprehensiveData> => {
   }
 };
 
-// Load Travis County parcels
-const loadTravisCountyParcels = async (): Promise<TravisCountyParcel[]> => {
-  console.log('Loading Travis County parcels...');
+// Load a county's parcels and addresses, e.g. after clicking its boundary on the map
+export const loadCountyData = async (fips: string, options: CountyDataOptions = {}): Promise<CountyData> => {
+  const [parcels, addresses] = await Promise.all([
+    loadCountyParcels(fips, options),
+    loadCountyAddresses(fips, options)
+  ]);
+
+  // Failed loads come back empty, so a county with nothing read is reported as a failure
+  if (parcels.length === 0 && addresses.length === 0) {
+    throw new Error(`No parcels or addresses could be loaded for ${getCounty(fips)?.name || fips} County`);
+  }
+
+  return { fips: getCounty(fips)?.fips || fips, parcels, addresses };
+};
+
+// Add (or replace) one county's parcels and addresses in the loaded data
+export const mergeCountyData = (data: ComprehensiveData, countyData: CountyData): ComprehensiveData => {
+  // Nothing was read, so keep what was loaded before and do not mark the county as loaded
+  if (countyData.parcels.length === 0 && countyData.addresses.length === 0) return data;
+
+  const countyName = getCounty(countyData.fips)?.name;
+  const parcels = [
+    ...data.parcels.filter(parcel => !countyName || parcel.COUNTY !== countyName),
+    ...countyData.parcels
+  ];
+  const addresses = [
+    ...data.addresses.filter(address => !countyName || address.county !== countyName),
+    ...countyData.addresses
+  ];
+
+  // Re-run the join so addresses and buildings pick up the new county's parcels
+  const parcelIndex = buildParcelIndex(parcels);
+  const joined = joinParcelFeatures(parcelIndex, addresses, data.buildings);
+
+  return {
+    ...data,
+    parcels,
+    parcelIndex,
+    addresses: joined.addresses,
+    buildings: joined.buildings,
+    parcelStats: joined.parcelStats,
+    loadedCounties: Array.from(new Set([...data.loadedCounties, countyData.fips]))
+  };
+};
+
+// Load parcels for a registered county
+export const loadCountyParcels = async (fips: string, options: CountyDataOptions = {}): Promise<TravisCountyParcel[]> => {
+  const county = getCounty(fips);
+  const dataset = getCountyDataset(fips, options.year);
+  
+  if (!county || !dataset?.parcels) {
+    console.warn(`⚠️ No parcel dataset registered for county ${fips}${options.year ? ` (${options.year})` : ''}`);
+    return [];
+  }
   
+  console.log(`Loading ${county.name} County parcels (${dataset.year})...`);
+  
+  const { shp, dbf } = dataset.parcels;
+
   try {
-    const response = await fetch('/data/stratmap24-landparcels_48453_travis_202404.shp');
-    const shpBuffer = await response.arrayBuffer();
-    
-    const dbfResponse = await fetch('/data/stratmap24-landparcels_48453_travis_202404.dbf');
-    const dbfBuffer = await dbfResponse.arrayBuffer();
-    
-    const source = await shapefile.open(shpBuffer, dbfBuffer);
-    const parcels: TravisCountyParcel[] = [];
-    
-    let result;
-    let index = 0;
-    let skippedCount = 0;
-    let transformedCount = 0;
-    
-    while ((result = await source.read()) && !result.done) {
-      const { value } = result;
-      
-      // Validate geometry and properties
-      if (value && value.geometry && value.properties && value.geometry.type === 'Polygon') {
-        const props = value.properties;
-        
-        // Validate polygon coordinates
-        if (!value.geometry.coordinates || 
-            !Array.isArray(value.geometry.coordinates) || 
-            value.geometry.coordinates.length === 0 ||
-            !Array.isArray(value.geometry.coordinates[0]) ||
-            value.geometry.coordinates[0].length < 3) {
-          console.warn(`Skipping parcel ${index}: invalid polygon geometry`);
-          skippedCount++;
-          index++;
-          continue;
-        }
-        
-        // Transform coordinates if needed
-        let transformedGeometry = value.geometry;
-        if (isWebMercator(value.geometry.coordinates[0])) {
-          console.log(`Transforming parcel ${index} from Web Mercator to WGS84`);
-          transformedGeometry = transformGeometryToWGS84(value.geometry);
-          transformedCount++;
-        }
-        
-        // Build address from components
-        const streetNum = props.SITUS_NUM || '';
-        const streetName = props.SITUS_STRE || props.SITUS_ST_1 || '';
-        const streetAddr = props.SITUS_ADDR || '';
-        const fullAddress = [streetNum, streetName, streetAddr].filter(Boolean).join(' ') || 'Unknown Address';
-        
-        const parcel: TravisCountyParcel = {
-          OBJECTID: index + 1,
-          PROP_ID: props.Prop_ID || props.PROP_ID || `PARCEL-${index}`,
-          SITE_ADDR: fullAddress,
-          CITY: props.SITUS_CITY || props.CITY || 'Austin',
-          STATE: props.SITUS_STAT || props.STATE || 'TX',
-          ZIP: props.SITUS_ZIP || props.ZIP || '00000',
-          OWNER_NAME: props.OWNER_NAME || props.NAME_CARE || 'Unknown Owner',
-          TOTAL_VAL: parseFloat(props.MKT_VALUE || props.MARKET_VALUE || props.TOTAL_VAL || props.VALUE || '0') || 0,
-          LAND_VAL: parseFloat(props.LAND_VALUE || props.LAND_VAL || '0') || 0,
-          IMP_VAL: parseFloat(props.IMP_VALUE || props.IMP_VAL || '0') || 0,
-          YEAR_BUILT: parseInt(props.YEAR_BUILT || props.YEAR || '0') || undefined,
-          SQ_FT: parseFloat(props.GIS_AREA || props.AREA || props.SQ_FT || '0') || 0,
-          BEDROOMS: parseInt(props.BEDROOMS || props.BEDS || '0') || undefined,
-          BATHROOMS: parseFloat(props.BATHROOMS || props.BATHS || '0') || undefined,
-          PROP_TYPE: determinePropertyType(props),
-          geometry: transformedGeometry as GeoJSON.Polygon
-        };
-        
-        parcels.push(parcel);
-        index++;
-        
-        // Limit to first 1000 parcels for performance (can be adjusted)
-        if (index >= 1000) {
-          console.log('Reached 1000 parcels, stopping for performance');
-          break;
-        }
-      } else {
-        console.warn(`Skipping record ${index}: missing geometry or properties`);
-        skippedCount++;
-        index++;
-      }
+    // Re-parsing the shapefile is the slow part of a cold start, so reuse the last parse while its ETags match
+    let parsed = false;
+    const parcels = await withDatasetCache(
+      `parcels:${shp}`,
+      [shp, dbf],
+      () => {
+        parsed = true;
+        return parseCountyParcels(county.name, shp, dbf, options);
+      },
+      { isCacheable: result => result.length > 0 }
+    );
+    if (!parsed) {
+      options.onParcelProgress?.({ recordsRead: parcels.length, bytesRead: 0, done: true });
     }
     
-    console.log(`Successfully loaded ${parcels.length} parcels from shapefile (skipped ${skippedCount}, transformed ${transformedCount})`);
-    
     // Debug: Log a few sample parcels
     if (parcels.length > 0) {
       console.log('Sample parcel:', parcels[0]);
@@ -162,96 +188,132 @@ const loadTravisCountyParcels = async (): Promise<TravisCountyParcel[]> => {
     return parcels;
     
   } catch (error) {
-    console.error('Error loading shapefile:', error);
+    console.error(`Error loading ${county.name} County shapefile:`, error);
+    // Mock parcels are in Travis County, so only use them there
+    if (county.fips !== DEFAULT_COUNTY_FIPS) return [];
     console.log('Falling back to mock data...');
     return getMockTravisCountyData();
   }
 };
 
-// Load Travis County addresses
-const loadTravisCountyAddresses = async (): Promise<AddressPoint[]> => {
-  console.log('Loading Travis County addresses...');
+// Stream a parcel shapefile into parcels; geometries arrive in WGS84, reprojected using its .prj
+const parseCountyParcels = async (
+  countyName: string,
+  shpUrl: string,
+  dbfUrl: string,
+  options: CountyDataOptions
+): Promise<TravisCountyParcel[]> => {
+  const parcels: TravisCountyParcel[] = [];
+  let skippedCount = 0;
+  let profile: FieldMappingProfile | null = null;
   
-  try {
-    const response = await fetch('/data/stratmap24-addresspoints_48453_travis_202402.shp');
-    const shpBuffer = await response.arrayBuffer();
-    
-    const dbfResponse = await fetch('/data/stratmap24-addresspoints_48453_travis_202402.dbf');
-    const dbfBuffer = await dbfResponse.arrayBuffer();
-    
-    const source = await shapefile.open(shpBuffer, dbfBuffer);
-    const addresses: AddressPoint[] = [];
-    
-    let result;
-    let index = 0;
-    let skippedCount = 0;
-    let transformedCount = 0;
-    
-    while ((result = await source.read()) && !result.done) {
-      const { value } = result;
-      
-      // Validate geometry and properties
-      if (value && value.geometry && value.properties && value.geometry.type === 'Point') {
-        const props = value.properties;
-        
-        // Validate point coordinates
-        if (!value.geometry.coordinates || 
-            !Array.isArray(value.geometry.coordinates) || 
-            value.geometry.coordinates.length < 2) {
-          console.warn(`Skipping address ${index}: invalid point geometry`);
-          skippedCount++;
-          index++;
-          continue;
-        }
-        
-        // Transform coordinates if needed
-        let transformedGeometry = value.geometry;
-        if (isWebMercator([value.geometry.coordinates])) {
-          console.log(`Transforming address ${index} from Web Mercator to WGS84`);
-          transformedGeometry = transformGeometryToWGS84(value.geometry);
-          transformedCount++;
-        }
-        
-        // Build full address
-        const streetNum = props.SITUS_NUM || '';
-        const streetName = props.SITUS_STRE || props.SITUS_ST_1 || '';
-        const streetAddr = props.SITUS_ADDR || '';
-        const fullAddress = [streetNum, streetName, streetAddr].filter(Boolean).join(' ') || 'Unknown Address';
-        
-        const address: AddressPoint = {
-          id: `addr-${index}`,
-          address: fullAddress,
-          city: props.SITUS_CITY || 'Austin',
-          state: props.SITUS_STAT || 'TX',
-          zip: props.SITUS_ZIP || '00000',
-          coordinates: {
-            lng: (transformedGeometry as GeoJSON.Point).coordinates[0],
-            lat: (transformedGeometry as GeoJSON.Point).coordinates[1]
-          },
-          geometry: transformedGeometry as GeoJSON.Point
-        };
-        
-        addresses.push(address);
-        index++;
-        
-        // Limit for performance
-        if (index >= 1000) break;
-      } else {
-        console.warn(`Skipping address record ${index}: missing geometry or properties`);
+  const recordCount = await streamShapefile(
+    shpUrl,
+    dbfUrl,
+    (value, index) => {
+      // Validate geometry and properties (Polygon or MultiPolygon parcels)
+      if (!value || !value.properties || !isValidPolygonalGeometry(value.geometry)) {
         skippedCount++;
-        index++;
+        return;
       }
-    }
-    
-    console.log(`Loaded ${addresses.length} Travis County addresses (skipped ${skippedCount}, transformed ${transformedCount})`);
-    return addresses;
-    
+      
+      // Pick the attribute mapping from the first record's columns
+      if (!profile) {
+        profile = detectFieldMappingProfile(Object.keys(value.properties)) || STRATMAP_2024_PROFILE;
+        console.log(`Mapping parcel attributes with the ${profile.name} profile`);
+      }
+      
+      parcels.push({
+        ...mapParcelAttributes(value.properties, profile, index),
+        COUNTY: countyName,
+        geometry: value.geometry
+      });
+    },
+    { onProgress: options.onParcelProgress }
+  );
+  
+  console.log(`Successfully loaded ${parcels.length} of ${recordCount} parcels from shapefile (skipped ${skippedCount})`);
+  return parcels;
+};
+
+// Build a spatial index over parcel bounding boxes for viewport queries
+export const buildParcelIndex = (parcels: TravisCountyParcel[]): SpatialIndex<TravisCountyParcel> => {
+  const index = new SpatialIndex<TravisCountyParcel>();
+  parcels.forEach(parcel => index.insert(parcel, getGeometryBBox(parcel.geometry)));
+  console.log(`Indexed ${index.size} parcels for viewport queries`);
+  return index;
+};
+
+// Load address points for a registered county
+export const loadCountyAddresses = async (fips: string, options: CountyDataOptions = {}): Promise<AddressPoint[]> => {
+  const county = getCounty(fips);
+  const dataset = getCountyDataset(fips, options.year);
+  
+  if (!county || !dataset?.addresses) {
+    console.warn(`⚠️ No address dataset registered for county ${fips}${options.year ? ` (${options.year})` : ''}`);
+    return [];
+  }
+  
+  console.log(`Loading ${county.name} County addresses (${dataset.year})...`);
+  
+  const { shp, dbf } = dataset.addresses;
+
+  try {
+    return await withDatasetCache(
+      `addresses:${shp}`,
+      [shp, dbf],
+      () => parseCountyAddresses(county.fips, county.name, shp, dbf),
+      { isCacheable: addresses => addresses.length > 0 }
+    );
   } catch (error) {
     console.error('Error loading addresses:', error);
     return [];
   }
 };
 
+// Stream every address point of an address shapefile; geometries arrive in WGS84, reprojected using its .prj
+const parseCountyAddresses = async (
+  countyFips: string,
+  countyName: string,
+  shpUrl: string,
+  dbfUrl: string
+): Promise<AddressPoint[]> => {
+  const addresses: AddressPoint[] = [];
+  let skippedCount = 0;
+  
+  const recordCount = await streamShapefile(shpUrl, dbfUrl, (value, index) => {
+    // Validate geometry and properties
+    if (!value || !value.properties || value.geometry?.type !== 'Point' ||
+        !Array.isArray(value.geometry.coordinates) || value.geometry.coordinates.length < 2) {
+      skippedCount++;
+      return;
+    }
+    
+    const props = value.properties;
+    const geometry = value.geometry;
+    
+    // Build full address
+    const streetNum = props.SITUS_NUM || '';
+    const streetName = props.SITUS_STRE || props.SITUS_ST_1 || '';
+    const streetAddr = props.SITUS_ADDR || '';
+    
+    // Missing city and ZIP stay empty rather than being shown as Austin / 00000
+    addresses.push({
+      id: `addr-${countyFips}-${index}`,
+      address: [streetNum, streetName, streetAddr].filter(Boolean).join(' ') || 'Unknown Address',
+      city: props.SITUS_CITY || '',
+      state: props.SITUS_STAT || 'TX',
+      zip: props.SITUS_ZIP || '',
+      county: countyName,
+      coordinates: { lng: geometry.coordinates[0], lat: geometry.coordinates[1] },
+      geometry
+    });
+  });
+  
+  console.log(`Loaded ${addresses.length} of ${recordCount} ${countyName} County addresses (skipped ${skippedCount})`);
+  return addresses;
+};
+
 // Load county boundaries
 const loadCountyBoundaries = async (): Promise<CountyBoundary[]> => {
   console.log('Loading county boundaries...');
@@ -262,22 +324,19 @@ const loadCountyBoundaries = async (): Promise<CountyBoundary[]> => {
     if (response.ok) {
       const data = await response.json();
       console.log('Loaded county boundaries from JSON');
+      const projection = getGeoJSONProjection(data);
       
       const counties: CountyBoundary[] = data.features
-        .filter((feature: any) => feature.geometry && feature.geometry.type === 'Polygon')
+        .filter((feature: any) => isPolygonalGeometry(feature.geometry))
         .map((feature: any, index: number) => {
-          // Transform coordinates if needed
-          let transformedGeometry = feature.geometry;
-          if (isWebMercator(feature.geometry.coordinates[0])) {
-            console.log(`Transforming county ${index} from Web Mercator to WGS84`);
-            transformedGeometry = transformGeometryToWGS84(feature.geometry);
-          }
+          // Reproject from the declared CRS, if any
+          const transformedGeometry = toWGS84Geometry(feature.geometry, projection);
           
           return {
             id: `county-${index}`,
             name: feature.properties?.NAME || `County ${index}`,
             fips: feature.properties?.FIPS || '',
-            geometry: transformedGeometry as GeoJSON.Polygon
+            geometry: transformedGeometry as PolygonalGeometry
           };
         });
       
@@ -295,45 +354,36 @@ const loadCountyBoundaries = async (): Promise<CountyBoundary[]> => {
     const dbfResponse = await fetch('/data/txdot_county_detailed_tx.dbf');
     const dbfBuffer = await dbfResponse.arrayBuffer();
     
+    const projection = await loadShapefileProjection('/data/txdot_county_detailed_tx.shp');
     const source = await shapefile.open(shpBuffer, dbfBuffer);
     const counties: CountyBoundary[] = [];
     
     let result;
     let index = 0;
     let skippedCount = 0;
-    let transformedCount = 0;
     
     while ((result = await source.read()) && !result.done) {
       const { value } = result;
       
-      // Validate geometry and properties
-      if (value && value.geometry && value.properties && value.geometry.type === 'Polygon') {
+      // Validate geometry and properties (counties with islands are MultiPolygons)
+      if (value && value.geometry && value.properties && isPolygonalGeometry(value.geometry)) {
         // Validate polygon coordinates
-        if (!value.geometry.coordinates || 
-            !Array.isArray(value.geometry.coordinates) || 
-            value.geometry.coordinates.length === 0 ||
-            !Array.isArray(value.geometry.coordinates[0]) ||
-            value.geometry.coordinates[0].length < 3) {
+        if (!isValidPolygonalGeometry(value.geometry)) {
           console.warn(`Skipping county ${index}: invalid polygon geometry`);
           skippedCount++;
           index++;
           continue;
         }
         
-        // Transform coordinates if needed
-        let transformedGeometry = value.geometry;
-        if (isWebMercator(value.geometry.coordinates[0])) {
-          console.log(`Transforming county ${index} from Web Mercator to WGS84`);
-          transformedGeometry = transformGeometryToWGS84(value.geometry);
-          transformedCount++;
-        }
+        // Reproject from the declared coordinate system
+        const transformedGeometry = toWGS84Geometry(value.geometry, projection);
         
         const props = value.properties;
         const county: CountyBoundary = {
           id: `county-${index}`,
           name: props.NAME || props.COUNTY_NAME || `County ${index}`,
           fips: props.FIPS || props.COUNTY_FIPS || '',
-          geometry: transformedGeometry as GeoJSON.Polygon
+          geometry: transformedGeometry
         };
         
         counties.push(county);
@@ -345,7 +395,7 @@ const loadCountyBoundaries = async (): Promise<CountyBoundary[]> => {
       }
     }
     
-    console.log(`Loaded ${counties.length} county boundaries from shapefile (skipped ${skippedCount}, transformed ${transformedCount})`);
+    console.log(`Loaded ${counties.length} county boundaries from shapefile (skipped ${skippedCount})`);
     return counties;
     
   } catch (error) {
@@ -370,12 +420,8 @@ const loadTexasBoundary = async (): Promise<TexasBoundary> => {
           data.geometry.coordinates && Array.isArray(data.geometry.coordinates) &&
           data.geometry.coordinates.length > 0) {
         
-        // Transform coordinates if needed
-        let transformedGeometry = data.geometry;
-        if (isWebMercator(data.geometry.coordinates[0])) {
-          console.log('Transforming Texas boundary from Web Mercator to WGS84');
-          transformedGeometry = transformGeometryToWGS84(data.geometry);
-        }
+        // Reproject from the declared CRS, if any
+        const transformedGeometry = toWGS84Geometry(data.geometry, getGeoJSONProjection(data));
         
         return {
           geometry: transformedGeometry as GeoJSON.Polygon
@@ -396,6 +442,7 @@ const loadTexasBoundary = async (): Promise<TexasBoundary> => {
     const dbfResponse = await fetch('/data/texas_outline.dbf');
     const dbfBuffer = await dbfResponse.arrayBuffer();
     
+    const projection = await loadShapefileProjection('/data/texas_outline.shp');
     const source = await shapefile.open(shpBuffer, dbfBuffer);
     const result = await source.read();
     
@@ -409,12 +456,8 @@ const loadTexasBoundary = async (): Promise<TexasBoundary> => {
         throw new Error('Invalid polygon geometry in Texas boundary shapefile');
       }
       
-      // Transform coordinates if needed
-      let transformedGeometry = result.value.geometry;
-      if (isWebMercator(result.value.geometry.coordinates[0])) {
-        console.log('Transforming Texas boundary from Web Mercator to WGS84');
-        transformedGeometry = transformGeometryToWGS84(result.value.geometry);
-      }
+      // Reproject from the declared coordinate system
+      const transformedGeometry = toWGS84Geometry(result.value.geometry, projection);
       
       console.log('Loaded Texas boundary from shapefile');
       return {
@@ -442,27 +485,6 @@ const loadTexasBoundary = async (): Promise<TexasBoundary> => {
   }
 };
 
-// Helper function to determine property type
-const determinePropertyType = (props: any): string => {
-  const landUse = (props.LAND_USE || props.LANDUSE || '').toLowerCase();
-  const zoning = (props.ZONING || '').toLowerCase();
-  const propertyClass = (props.PROP_CLASS || props.CLASS || '').toLowerCase();
-  
-  if (landUse.includes('residential') || zoning.includes('residential') || propertyClass.includes('residential')) {
-    return 'residential';
-  } else if (landUse.includes('commercial') || zoning.includes('commercial') || propertyClass.includes('commercial')) {
-    return 'commercial';
-  } else if (landUse.includes('industrial') || zoning.includes('industrial') || propertyClass.includes('industrial')) {
-    return 'industrial';
-  } else if (landUse.includes('agricultural') || landUse.includes('farm') || propertyClass.includes('agricultural')) {
-    return 'agricultural';
-  } else if (landUse.includes('vacant') || landUse.includes('undeveloped')) {
-    return 'vacant';
-  }
-  
-  return 'residential'; // Default
-};
-
 // Mock data fallback
 const getMockTravisCountyData = (): TravisCountyParcel[] => {
   return [
@@ -482,6 +504,7 @@ const getMockTravisCountyData = (): TravisCountyParcel[] => {
       BEDROOMS: 3,
       BATHROOMS: 2,
       PROP_TYPE: 'residential',
+      COUNTY: 'Travis',
       geometry: {
         type: 'Polygon',
         coordinates: [[
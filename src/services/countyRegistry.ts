@@ -0,0 +1,115 @@
+// Registry of counties with parcel/address datasets, keyed by 5-digit FIPS code
+
+export interface ShapefilePaths {
+  shp: string;
+  dbf: string;
+}
+
+export interface CountyDataset {
+  year: number;
+  parcels?: ShapefilePaths;
+  addresses?: ShapefilePaths;
+}
+
+export interface CountyInfo {
+  fips: string;
+  name: string;
+  center: { lat: number; lng: number };
+  datasets: CountyDataset[];
+}
+
+const TEXAS_STATE_FIPS = '48';
+
+export const DEFAULT_COUNTY_FIPS = '48453'; // Travis
+
+// StratMap file naming: stratmap24-landparcels_48453_travis_202404.shp
+const stratmapPaths = (
+  layer: 'landparcels' | 'addresspoints',
+  year: number,
+  fips: string,
+  county: string,
+  release: string
+): ShapefilePaths => {
+  const basePath = `/data/stratmap${String(year).slice(-2)}-${layer}_${fips}_${county.toLowerCase()}_${release}`;
+  return { shp: `${basePath}.shp`, dbf: `${basePath}.dbf` };
+};
+
+export const COUNTY_REGISTRY: Record<string, CountyInfo> = {
+  '48453': {
+    fips: '48453',
+    name: 'Travis',
+    center: { lat: 30.2672, lng: -97.7431 },
+    datasets: [{
+      year: 2024,
+      parcels: stratmapPaths('landparcels', 2024, '48453', 'travis', '202404'),
+      addresses: stratmapPaths('addresspoints', 2024, '48453', 'travis', '202402')
+    }]
+  },
+  '48491': {
+    fips: '48491',
+    name: 'Williamson',
+    center: { lat: 30.6333, lng: -97.6780 },
+    datasets: [{
+      year: 2024,
+      parcels: stratmapPaths('landparcels', 2024, '48491', 'williamson', '202404'),
+      addresses: stratmapPaths('addresspoints', 2024, '48491', 'williamson', '202402')
+    }]
+  },
+  '48209': {
+    fips: '48209',
+    name: 'Hays',
+    center: { lat: 29.8833, lng: -97.9414 },
+    datasets: [{
+      year: 2024,
+      parcels: stratmapPaths('landparcels', 2024, '48209', 'hays', '202404'),
+      addresses: stratmapPaths('addresspoints', 2024, '48209', 'hays', '202402')
+    }]
+  },
+  '48021': {
+    fips: '48021',
+    name: 'Bastrop',
+    center: { lat: 30.1105, lng: -97.3153 },
+    datasets: [{
+      year: 2024,
+      parcels: stratmapPaths('landparcels', 2024, '48021', 'bastrop', '202404'),
+      addresses: stratmapPaths('addresspoints', 2024, '48021', 'bastrop', '202402')
+    }]
+  }
+};
+
+/**
+ * Normalise a county FIPS code to 5 digits. Boundary files often store only
+ * the 3-digit county part (e.g. 453 for Travis).
+ */
+export const normalizeCountyFips = (fips: string | number | null | undefined): string => {
+  const digits = String(fips ?? '').replace(/\D/g, '');
+  if (!digits) return '';
+  return digits.length <= 3 ? `${TEXAS_STATE_FIPS}${digits.padStart(3, '0')}` : digits.padStart(5, '0');
+};
+
+/**
+ * Look up a county by FIPS code or name
+ */
+export const getCounty = (fipsOrName: string | number | null | undefined): CountyInfo | undefined => {
+  const byFips = COUNTY_REGISTRY[normalizeCountyFips(fipsOrName)];
+  if (byFips) return byFips;
+
+  const name = String(fipsOrName ?? '').trim().toLowerCase().replace(/\s+county$/, '');
+  return Object.values(COUNTY_REGISTRY).find(county => county.name.toLowerCase() === name);
+};
+
+/**
+ * Dataset for a county and year; the most recent year when no year is given
+ */
+export const getCountyDataset = (fipsOrName: string | number, year?: number): CountyDataset | undefined => {
+  const county = getCounty(fipsOrName);
+  if (!county) return undefined;
+
+  if (year !== undefined) {
+    return county.datasets.find(dataset => dataset.year === year);
+  }
+  return [...county.datasets].sort((a, b) => b.year - a.year)[0];
+};
+
+export const listCounties = (): CountyInfo[] =>
+  Object.values(COUNTY_REGISTRY).sort((a, b) => a.name.localeCompare(b.name));
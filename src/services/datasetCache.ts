@@ -0,0 +1,108 @@
+// Cache of parsed datasets in IndexedDB, keyed by source URL and revalidated by ETag
+import { DATASETS_STORE, isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// Bump when the parsed shape of a cached dataset changes so old entries are re-parsed
+const DATASET_CACHE_VERSION = 1;
+const VALIDATOR_TIMEOUT_MS = 5000;
+
+export interface CachedDataset<T> {
+  key: string;
+  version: number;
+  // Combined ETags (or Last-Modified and length) of the source files
+  validator: string;
+  cachedAt: string;
+  data: T;
+}
+
+export interface DatasetCacheOptions<T> {
+  // Return false for results that must not be cached, e.g. empty or fallback data
+  isCacheable?: (data: T) => boolean;
+}
+
+/**
+ * Ask the server for the current revision of each source file.
+ * Resolves with null when any file has no ETag or Last-Modified header,
+ * in which case the dataset cannot be revalidated and is not cached.
+ */
+export const getDatasetValidator = async (urls: string[]): Promise<string | null> => {
+  try {
+    const revisions = await Promise.all(urls.map(async url => {
+      const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(VALIDATOR_TIMEOUT_MS) });
+      if (!response.ok) return null;
+
+      const etag = response.headers.get('ETag');
+      if (etag) return etag;
+
+      const lastModified = response.headers.get('Last-Modified');
+      return lastModified ? `${lastModified};${response.headers.get('Content-Length') || ''}` : null;
+    }));
+
+    return revisions.every(Boolean) ? revisions.join('|') : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not revalidate ${urls.join(', ')}:`, error);
+    return null;
+  }
+};
+
+export const readCachedDataset = async <T>(key: string): Promise<CachedDataset<T> | null> => {
+  const database = await openDatabase();
+  const entry = await requestToPromise<CachedDataset<T> | undefined>(
+    database.transaction(DATASETS_STORE).objectStore(DATASETS_STORE).get(key)
+  );
+  return entry || null;
+};
+
+export const writeCachedDataset = async <T>(key: string, validator: string, data: T): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(DATASETS_STORE, 'readwrite');
+  const entry: CachedDataset<T> = { key, version: DATASET_CACHE_VERSION, validator, cachedAt: new Date().toISOString(), data };
+  transaction.objectStore(DATASETS_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+export const clearDatasetCache = async (): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(DATASETS_STORE, 'readwrite');
+  transaction.objectStore(DATASETS_STORE).clear();
+  await transactionDone(transaction);
+};
+
+/**
+ * Return the cached result of `load` for these source files when their ETags
+ * still match, otherwise run `load` and cache what it returns. Cache failures
+ * are logged and never stop the dataset from loading.
+ */
+export const withDatasetCache = async <T>(
+  key: string,
+  sourceUrls: string[],
+  load: () => Promise<T>,
+  options: DatasetCacheOptions<T> = {}
+): Promise<T> => {
+  if (!isIndexedDbAvailable()) return load();
+
+  const validator = await getDatasetValidator(sourceUrls);
+  if (!validator) return load();
+
+  try {
+    const cached = await readCachedDataset<T>(key);
+    if (cached && cached.version === DATASET_CACHE_VERSION && cached.validator === validator) {
+      console.log(`⚡ Using cached ${key} from ${cached.cachedAt}`);
+      return cached.data;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not read cached ${key}:`, error);
+  }
+
+  const data = await load();
+
+  if (!options.isCacheable || options.isCacheable(data)) {
+    try {
+      await writeCachedDataset(key, validator, data);
+      console.log(`💾 Cached ${key}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not cache ${key}:`, error);
+    }
+  }
+
+  return data;
+};
@@ -0,0 +1,259 @@
+// Enrichment providers: each looks up property facts for a location from one
+// real data source. The enrichment service merges their results per field.
+import type { BuildingFootprint, TravisCountyParcel } from '../types';
+import { SpatialIndex, getGeometryBBox } from '../utils/spatialIndex';
+import {
+  SQUARE_FEET_PER_SQUARE_METER,
+  SQUARE_METERS_PER_ACRE,
+  calculateGeodesicArea,
+  isPointInPolygon
+} from '../utils/geometry';
+import { classifyProperty } from '../utils/propertyClassifier';
+import { parseCsv } from '../utils/csv';
+
+export interface EnrichmentValues {
+  parcelId?: string;
+  ownerName?: string;
+  propertyType?: string;
+  propertySubtype?: string;
+  marketValue?: number;
+  appraisedValue?: number;
+  landValue?: number;
+  improvementValue?: number;
+  squareFootage?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  yearBuilt?: number;
+  lotSize?: number; // acres
+  lastSaleDate?: string;
+  lastSalePrice?: number;
+  buildingHeight?: number; // meters
+}
+
+export type EnrichmentField = keyof EnrichmentValues;
+
+export const ENRICHMENT_FIELDS: EnrichmentField[] = [
+  'parcelId',
+  'ownerName',
+  'propertyType',
+  'propertySubtype',
+  'marketValue',
+  'appraisedValue',
+  'landValue',
+  'improvementValue',
+  'squareFootage',
+  'bedrooms',
+  'bathrooms',
+  'yearBuilt',
+  'lotSize',
+  'lastSaleDate',
+  'lastSalePrice',
+  'buildingHeight'
+];
+
+export interface EnrichmentRequest {
+  address: string;
+  coordinates: { lat: number; lng: number };
+  // Values found by the providers that ran earlier, e.g. the parcel ID
+  known: EnrichmentValues;
+}
+
+export interface EnrichmentResult {
+  values: EnrichmentValues;
+  // Which record supplied the values, e.g. "Parcel 123456"
+  detail?: string;
+}
+
+export interface EnrichmentProvider {
+  id: string;
+  name: string;
+  // When providers disagree on a field, the higher priority wins
+  priority: number;
+  enrich(request: EnrichmentRequest): Promise<EnrichmentResult | null>;
+}
+
+// Drop empty, zero and NaN values so they read as unknown rather than as data
+const compactValues = (values: EnrichmentValues): EnrichmentValues => {
+  const compacted: Record<string, string | number> = {};
+  (Object.entries(values) as [EnrichmentField, string | number | undefined][]).forEach(([field, value]) => {
+    if (value === undefined || value === null) return;
+    if (typeof value === 'number' && (!Number.isFinite(value) || value <= 0)) return;
+    if (typeof value === 'string' && value.trim() === '') return;
+    compacted[field] = value;
+  });
+  return compacted as EnrichmentValues;
+};
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = parseFloat(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// A ~10m search box around a point
+const pointBBox = ({ lat, lng }: { lat: number; lng: number }) => ({
+  west: lng - 0.0001,
+  south: lat - 0.0001,
+  east: lng + 0.0001,
+  north: lat + 0.0001
+});
+
+/**
+ * Attributes of the loaded parcel that contains the location
+ */
+export class ParcelAttributeProvider implements EnrichmentProvider {
+  id = 'parcel-attributes';
+  name = 'Loaded parcel attributes';
+  priority = 10;
+  private parcelIndex: SpatialIndex<TravisCountyParcel>;
+
+  constructor(parcelIndex: SpatialIndex<TravisCountyParcel>) {
+    this.parcelIndex = parcelIndex;
+  }
+
+  async enrich({ coordinates }: EnrichmentRequest): Promise<EnrichmentResult | null> {
+    const parcel = this.parcelIndex
+      .search(pointBBox(coordinates))
+      .find(candidate => isPointInPolygon(coordinates, candidate.geometry));
+
+    // Mock parcels are placeholders, not data
+    if (!parcel || parcel.PROP_ID.startsWith('MOCK-')) return null;
+
+    return {
+      detail: `Parcel ${parcel.PROP_ID}${parcel.COUNTY ? ` (${parcel.COUNTY} County)` : ''}`,
+      values: compactValues({
+        parcelId: parcel.PROP_ID,
+        ownerName: parcel.OWNER_NAME === 'Unknown Owner' ? undefined : parcel.OWNER_NAME,
+        propertyType: parcel.PROP_TYPE_REASON?.startsWith('No land use') ? undefined : parcel.PROP_TYPE,
+        propertySubtype: parcel.PROP_SUBTYPE === 'unclassified' ? undefined : parcel.PROP_SUBTYPE,
+        marketValue: parcel.TOTAL_VAL,
+        landValue: parcel.LAND_VAL,
+        improvementValue: parcel.IMP_VAL,
+        yearBuilt: parcel.YEAR_BUILT,
+        bedrooms: parcel.BEDROOMS,
+        bathrooms: parcel.BATHROOMS,
+        lotSize: roundTo(calculateGeodesicArea(parcel.geometry) / SQUARE_METERS_PER_ACRE, 2)
+      })
+    };
+  }
+}
+
+/**
+ * Values from a local TCAD appraisal roll CSV export, joined on the parcel ID
+ * found by an earlier provider
+ */
+export class TcadAppraisalRollProvider implements EnrichmentProvider {
+  id = 'tcad-appraisal-roll';
+  name = 'TCAD appraisal roll';
+  priority = 20;
+  private url: string;
+  private records: Promise<Record<string, Record<string, string>>> | null = null;
+
+  constructor(url: string = '/data/tcad-appraisal-roll.csv') {
+    this.url = url;
+  }
+
+  async enrich({ known }: EnrichmentRequest): Promise<EnrichmentResult | null> {
+    if (!known.parcelId) return null;
+
+    const records = await (this.records ||= this.loadRecords());
+    const record = records[known.parcelId];
+    if (!record) return null;
+
+    const classification = record.state_cd ? classifyProperty(record.state_cd) : undefined;
+
+    return {
+      detail: `Account ${record.prop_id}`,
+      values: compactValues({
+        parcelId: record.prop_id,
+        ownerName: record.py_owner_name || record.owner_name,
+        propertyType: classification?.propertyType,
+        propertySubtype: classification?.subtype,
+        marketValue: parseNumber(record.market_value),
+        appraisedValue: parseNumber(record.appraised_val),
+        landValue: parseNumber(record.land_val),
+        improvementValue: parseNumber(record.imprv_val),
+        squareFootage: parseNumber(record.living_area),
+        bedrooms: parseNumber(record.bedrooms),
+        bathrooms: parseNumber(record.bathrooms),
+        yearBuilt: parseNumber(record.yr_blt),
+        lotSize: parseNumber(record.legal_acreage),
+        lastSaleDate: record.deed_dt,
+        lastSalePrice: parseNumber(record.sale_price)
+      })
+    };
+  }
+
+  private async loadRecords(): Promise<Record<string, Record<string, string>>> {
+    const byParcelId: Record<string, Record<string, string>> = {};
+
+    try {
+      const response = await fetch(this.url);
+      const text = response.ok ? await response.text() : '';
+
+      // Dev servers answer missing files with index.html
+      if (!text || text.trimStart().startsWith('<')) {
+        console.warn(`⚠️ No TCAD appraisal roll at ${this.url}; appraisal values will be unknown`);
+        return byParcelId;
+      }
+
+      parseCsv(text).forEach(record => {
+        if (record.prop_id) byParcelId[record.prop_id.trim()] = record;
+      });
+      console.log(`✅ Loaded ${Object.keys(byParcelId).length} TCAD appraisal roll records`);
+    } catch (error) {
+      console.warn('⚠️ Failed to load TCAD appraisal roll:', error);
+    }
+
+    return byParcelId;
+  }
+}
+
+/**
+ * Footprint area and height of the building at the location
+ */
+export class BuildingFootprintProvider implements EnrichmentProvider {
+  id = 'building-footprints';
+  name = 'Building footprints';
+  // Footprint area is only a proxy for living area, so appraisal data wins
+  priority = 5;
+  private buildingIndex = new SpatialIndex<BuildingFootprint>();
+
+  constructor(buildings: BuildingFootprint[]) {
+    buildings
+      // Mock buildings are placeholders, not data
+      .filter(building => !building.id.startsWith('mock_'))
+      .forEach(building => this.buildingIndex.insert(building, getGeometryBBox(building.geometry)));
+  }
+
+  async enrich({ coordinates }: EnrichmentRequest): Promise<EnrichmentResult | null> {
+    const building = this.buildingIndex
+      .search(pointBBox(coordinates))
+      .find(candidate => isPointInPolygon(coordinates, candidate.geometry));
+
+    if (!building) return null;
+
+    return {
+      detail: `Building ${building.id}`,
+      values: compactValues({
+        squareFootage: Math.round(calculateGeodesicArea(building.geometry) * SQUARE_FEET_PER_SQUARE_METER),
+        buildingHeight: building.height
+      })
+    };
+  }
+}
+
+/**
+ * The standard provider chain for the loaded county data. Order matters: the
+ * parcel provider supplies the parcel ID the appraisal roll is joined on.
+ */
+export const createDefaultEnrichmentProviders = (data: {
+  parcelIndex: SpatialIndex<TravisCountyParcel>;
+  buildings: BuildingFootprint[];
+}): EnrichmentProvider[] => [
+  new ParcelAttributeProvider(data.parcelIndex),
+  new TcadAppraisalRollProvider(),
+  new BuildingFootprintProvider(data.buildings)
+];
@@ -0,0 +1,211 @@
+// Export of submitted properties and county parcels as CSV, GeoJSON, KML or a
+// zipped Shapefile. Every format keeps the geometry and all attributes.
+import type { Property, TravisCountyParcel } from '../types';
+import { formatCsv, type CsvCell } from '../utils/csv';
+import { writeShapefileLayer, zipShapefileLayers, type ShapefileRecord } from '../utils/shapefileWriter';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml' | 'shapefile';
+
+export type ExportAttribute = string | number | boolean | null;
+
+// One exported record: a point or polygon plus flat attributes
+export interface ExportFeature {
+  id: string;
+  name: string;
+  geometry: GeoJSON.Point | GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
+  attributes: Record<string, ExportAttribute>;
+}
+
+export interface ExportResult {
+  filename: string;
+  mimeType: string;
+  blob: Blob;
+  count: number;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { value: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { value: 'shapefile', label: 'Shapefile (zip)', extension: 'zip', mimeType: 'application/zip' }
+];
+
+const PROPERTY_ATTRIBUTES: (keyof Property)[] = [
+  'id', 'address', 'city', 'state', 'zipCode', 'county', 'parcelId', 'owner', 'propertyType', 'propertySubtype',
+  'propertyTypeReason', 'marketValue', 'assessedValue', 'landValue', 'improvementValue', 'yearBuilt', 'squareFootage',
+  'bedrooms', 'bathrooms', 'acreage', 'description', 'status', 'submittedAt', 'submittedBy', 'reviewedBy',
+  'reviewedAt', 'rejectionReason'
+];
+
+const toAttribute = (value: unknown): ExportAttribute =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+
+/**
+ * Submitted properties as features: the drawn boundary when there is one,
+ * otherwise a point at the property's coordinates
+ */
+export const propertiesToFeatures = (properties: Property[]): ExportFeature[] =>
+  properties.map(property => {
+    const attributes: Record<string, ExportAttribute> = {};
+    PROPERTY_ATTRIBUTES.forEach(field => {
+      attributes[field] = toAttribute(property[field]);
+    });
+    attributes.latitude = property.coordinates.lat;
+    attributes.longitude = property.coordinates.lng;
+
+    return {
+      id: property.id,
+      name: property.address,
+      geometry: property.geometry || { type: 'Point', coordinates: [property.coordinates.lng, property.coordinates.lat] },
+      attributes
+    };
+  });
+
+/**
+ * County parcels as polygon features, keeping the county's field names
+ */
+export const parcelsToFeatures = (parcels: TravisCountyParcel[]): ExportFeature[] =>
+  parcels.map(({ geometry, ...fields }) => {
+    const attributes: Record<string, ExportAttribute> = {};
+    Object.entries(fields).forEach(([field, value]) => {
+      attributes[field] = toAttribute(value);
+    });
+
+    return { id: fields.PROP_ID, name: fields.SITE_ADDR || fields.PROP_ID, geometry, attributes };
+  });
+
+const getAttributeNames = (features: ExportFeature[]) =>
+  Array.from(new Set(features.flatMap(feature => Object.keys(feature.attributes))));
+
+// Well-known text, so the CSV geometry column can be loaded by GIS tools
+const formatPosition = ([x, y]: GeoJSON.Position) => `${x} ${y}`;
+const formatRings = (rings: GeoJSON.Position[][]) => `(${rings.map(ring => `(${ring.map(formatPosition).join(', ')})`).join(', ')})`;
+
+export const toWkt = (geometry: ExportFeature['geometry']): string => {
+  if (!geometry) return '';
+  if (geometry.type === 'Point') return `POINT (${formatPosition(geometry.coordinates)})`;
+  if (geometry.type === 'Polygon') return `POLYGON ${formatRings(geometry.coordinates)}`;
+  return `MULTIPOLYGON (${geometry.coordinates.map(formatRings).join(', ')})`;
+};
+
+export const featuresToCsv = (features: ExportFeature[]): string => {
+  const columns = getAttributeNames(features);
+  const rows: CsvCell[][] = features.map(feature => [...columns.map(column => feature.attributes[column]), toWkt(feature.geometry)]);
+  return formatCsv([[...columns, 'geometry_wkt'], ...rows]);
+};
+
+export const featuresToGeoJson = (features: ExportFeature[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: features.map(feature => ({
+    type: 'Feature',
+    id: feature.id,
+    geometry: feature.geometry as GeoJSON.Geometry,
+    properties: { ...feature.attributes }
+  }))
+});
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatKmlCoordinates = (ring: GeoJSON.Position[]) => ring.map(([x, y]) => `${x},${y}`).join(' ');
+
+const formatKmlPolygon = ([outer, ...holes]: GeoJSON.Position[][]) => [
+  '<Polygon>',
+  `<outerBoundaryIs><LinearRing><coordinates>${formatKmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+  ...holes.map(hole => `<innerBoundaryIs><LinearRing><coordinates>${formatKmlCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`),
+  '</Polygon>'
+].join('');
+
+const formatKmlGeometry = (geometry: ExportFeature['geometry']): string => {
+  if (!geometry) return '';
+  if (geometry.type === 'Point') return `<Point><coordinates>${formatKmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+  if (geometry.type === 'Polygon') return formatKmlPolygon(geometry.coordinates);
+  return `<MultiGeometry>${geometry.coordinates.map(formatKmlPolygon).join('')}</MultiGeometry>`;
+};
+
+export const featuresToKml = (features: ExportFeature[], documentName: string): string => {
+  const placemarks = features.map(feature => {
+    const data = Object.entries(feature.attributes)
+      .filter(([, value]) => value !== null)
+      .map(([field, value]) => `<Data name="${escapeXml(field)}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('');
+
+    return `  <Placemark id="${escapeXml(feature.id)}"><name>${escapeXml(feature.name)}</name>` +
+      `<ExtendedData>${data}</ExtendedData>${formatKmlGeometry(feature.geometry)}</Placemark>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Zipped Shapefile. A shapefile layer holds one geometry type, so points and
+ * polygons go to separate layers when an export mixes them.
+ */
+export const featuresToShapefile = (features: ExportFeature[], layerName: string): Uint8Array => {
+  const toRecord = (feature: ExportFeature): ShapefileRecord => ({ geometry: feature.geometry, attributes: feature.attributes });
+  const points = features.filter(feature => feature.geometry?.type === 'Point');
+  const polygons = features.filter(feature => feature.geometry?.type !== 'Point');
+
+  if (points.length === 0 || polygons.length === 0) {
+    return zipShapefileLayers({ [layerName]: writeShapefileLayer(features.map(toRecord)) });
+  }
+  return zipShapefileLayers({
+    [`${layerName}_points`]: writeShapefileLayer(points.map(toRecord)),
+    [`${layerName}_polygons`]: writeShapefileLayer(polygons.map(toRecord))
+  });
+};
+
+/**
+ * Encode features in the chosen format. The name becomes the file name, the KML
+ * document name and the shapefile layer name.
+ */
+export const exportFeatures = (features: ExportFeature[], format: ExportFormat, name: string): ExportResult => {
+  const { extension, mimeType } = EXPORT_FORMATS.find(option => option.value === format) || EXPORT_FORMATS[0];
+  const baseName = name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'export';
+
+  let content: BlobPart;
+  switch (format) {
+    case 'geojson':
+      content = JSON.stringify(featuresToGeoJson(features), null, 2);
+      break;
+    case 'kml':
+      content = featuresToKml(features, name);
+      break;
+    case 'shapefile':
+      content = featuresToShapefile(features, baseName);
+      break;
+    default:
+      content = featuresToCsv(features);
+  }
+
+  return { filename: `${baseName}.${extension}`, mimeType, blob: new Blob([content], { type: mimeType }), count: features.length };
+};
+
+/**
+ * Save an export through a temporary download link
+ */
+export const downloadExport = (result: ExportResult) => {
+  const url = URL.createObjectURL(result.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = result.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  console.log(`📤 Exported ${result.count} records to ${result.filename}`);
+};
@@ -0,0 +1,53 @@
+import { BUILT_IN_PROFILES, type FieldMappingProfile } from '../utils/fieldMapping';
+
+const STORAGE_KEY = 'field_mapping_profiles';
+
+// Load mapping profiles built with the mapping builder
+export const loadCustomProfiles = (): FieldMappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.map((profile: FieldMappingProfile) => ({ ...profile, custom: true })) : [];
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading field mapping profiles from localStorage:', error);
+    return [];
+  }
+};
+
+// Save or replace a custom mapping profile
+export const saveCustomProfile = (profile: FieldMappingProfile): FieldMappingProfile => {
+  const savedProfile = { ...profile, custom: true };
+  const profiles = loadCustomProfiles().filter(existing => existing.id !== profile.id);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...profiles, savedProfile]));
+  } catch (error) {
+    console.error('Error saving field mapping profile to localStorage:', error);
+  }
+
+  return savedProfile;
+};
+
+// Delete a custom mapping profile
+export const deleteCustomProfile = (id: string): boolean => {
+  const profiles = loadCustomProfiles();
+  const filteredProfiles = profiles.filter(profile => profile.id !== id);
+
+  if (filteredProfiles.length === profiles.length) {
+    return false;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredProfiles));
+    return true;
+  } catch (error) {
+    console.error('Error deleting field mapping profile from localStorage:', error);
+    return false;
+  }
+};
+
+// Custom profiles first so a saved mapping wins over a built-in with overlapping fields
+export const getFieldMappingProfiles = (): FieldMappingProfile[] => [...loadCustomProfiles(), ...BUILT_IN_PROFILES];
@@ -0,0 +1,466 @@
+// Local geocoder over the loaded StratMap address points, with the Mapbox
+// Geocoding API as an optional remote fallback
+import type { Property, PolygonalGeometry, TravisCountyParcel } from '../types';
+import type { AddressPoint } from './comprehensiveDataLoader';
+import { SpatialIndex } from '../utils/spatialIndex';
+import { calculateAcreage, calculateDistance } from '../utils/geometry';
+import { toPropertyType } from '../utils/propertyClassifier';
+import { findContainingParcel } from './parcelJoin';
+
+export interface NormalizedAddress {
+  number?: string;
+  predirectional?: string;
+  street: string;
+  suffix?: string;
+  postdirectional?: string;
+  unit?: string;
+  city?: string;
+  zipCode?: string;
+  // number, directionals, street and suffix in USPS abbreviated form
+  normalized: string;
+}
+
+export interface GeocodeQuery {
+  address: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export interface GeocodeCandidate {
+  address: string;
+  normalizedAddress: string;
+  city?: string;
+  zipCode?: string;
+  coordinates: { lat: number; lng: number };
+  // 0-1, higher is a better match
+  score: number;
+  source: 'local' | 'mapbox';
+  addressPointId?: string;
+}
+
+export interface GeocodeOptions {
+  limit?: number;
+  // Candidates scoring below this are dropped
+  minScore?: number;
+  // Ask Mapbox when no local candidate is a confident match
+  remoteFallback?: boolean;
+}
+
+export interface ReverseGeocodeResult {
+  addressPoint: AddressPoint;
+  // Meters from the queried location
+  distance: number;
+}
+
+// What we know about a location picked on the map, used to prefill a submission
+export interface LocationDetails {
+  coordinates: { lat: number; lng: number };
+  address?: string;
+  city?: string;
+  zipCode?: string;
+  county?: string;
+  // Meters to the address point the address came from
+  addressDistance?: number;
+  parcelId?: string;
+  owner?: string;
+  acreage?: number;
+  propertyType?: Property['propertyType'];
+  parcelGeometry?: PolygonalGeometry;
+}
+
+interface IndexedAddress {
+  point: AddressPoint;
+  parsed: NormalizedAddress;
+}
+
+// The parts of a Mapbox Geocoding API v5 response the remote fallback reads
+interface MapboxGeocodingResponse {
+  features?: {
+    center: [number, number];
+    place_name?: string;
+    relevance?: number;
+  }[];
+}
+
+// USPS Publication 28 street suffix abbreviations for the suffixes common in Central Texas
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY', AVENUE: 'AVE', AV: 'AVE', BEND: 'BND', BOULEVARD: 'BLVD', CIRCLE: 'CIR', COURT: 'CT',
+  COVE: 'CV', CREEK: 'CRK', CROSSING: 'XING', DRIVE: 'DR', EXPRESSWAY: 'EXPY', FREEWAY: 'FWY',
+  GLEN: 'GLN', HIGHWAY: 'HWY', HILL: 'HL', HOLLOW: 'HOLW', LANE: 'LN', LOOP: 'LOOP', PARKWAY: 'PKWY',
+  PASS: 'PASS', PATH: 'PATH', PLACE: 'PL', PLAZA: 'PLZ', POINT: 'PT', RIDGE: 'RDG', ROAD: 'RD',
+  RUN: 'RUN', SQUARE: 'SQ', STREET: 'ST', TERRACE: 'TER', TRAIL: 'TRL', VIEW: 'VW', WAY: 'WAY'
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+  NORTHEAST: 'NE', NORTHWEST: 'NW', SOUTHEAST: 'SE', SOUTHWEST: 'SW'
+};
+
+const UNIT_DESIGNATORS = new Set(['APT', 'APARTMENT', 'UNIT', 'STE', 'SUITE', 'BLDG', 'BUILDING', 'FL', 'FLOOR', 'RM', 'ROOM', 'LOT', 'SPC', 'SPACE', '#']);
+
+const SUFFIX_ABBREVIATIONS = new Set(Object.values(STREET_SUFFIXES));
+const DIRECTIONAL_ABBREVIATIONS = new Set(Object.values(DIRECTIONALS));
+
+const toSuffix = (token: string | undefined) =>
+  token ? STREET_SUFFIXES[token] || (SUFFIX_ABBREVIATIONS.has(token) ? token : undefined) : undefined;
+
+const toDirectional = (token: string | undefined) =>
+  token ? DIRECTIONALS[token] || (DIRECTIONAL_ABBREVIATIONS.has(token) ? token : undefined) : undefined;
+
+/**
+ * USPS abbreviation of an uppercase street suffix or directional word
+ * ("BOULEVARD" -> "BLVD", "NORTH" -> "N"); any other token is returned as is
+ */
+export const abbreviateAddressToken = (token: string): string =>
+  STREET_SUFFIXES[token] || DIRECTIONALS[token] || token;
+
+// Below this a local match is not trusted and Mapbox is asked as well
+const REMOTE_FALLBACK_SCORE = 0.85;
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_REVERSE_RADIUS_METERS = 150;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+/**
+ * Parse a street address into USPS-normalised parts. Accepts a full one-line
+ * address ("1100 North Congress Avenue Apt 5, Austin, TX 78701") or just the street line.
+ */
+export const normalizeAddress = (input: string): NormalizedAddress => {
+  const [streetLine = '', ...rest] = input.toUpperCase().split(',');
+  const locality = rest.join(' ').replace(/\./g, ' ').trim();
+
+  let zipCode: string | undefined;
+  let city: string | undefined;
+  const zipMatch = /(\d{5})(-\d{4})?\s*$/.exec(locality || streetLine);
+  if (zipMatch) zipCode = zipMatch[1];
+  if (locality) {
+    city = locality
+      .replace(/\d{5}(-\d{4})?\s*$/, '')
+      .replace(/\s+(TX|TEXAS)\s*$/, '')
+      .replace(/\s+/g, ' ')
+      .trim() || undefined;
+  }
+
+  const tokens = streetLine
+    .replace(/#/g, ' # ')
+    .replace(/[.]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Without a comma, a trailing ZIP and state belong to the locality
+  if (!locality) {
+    if (zipCode && tokens[tokens.length - 1]?.startsWith(zipCode)) tokens.pop();
+    if (tokens.length > 2 && (tokens[tokens.length - 1] === 'TX' || tokens[tokens.length - 1] === 'TEXAS')) tokens.pop();
+  }
+
+  // Unit designators end the street part: "APT 5", "STE 200", "# 12"
+  let unit: string | undefined;
+  const unitIndex = tokens.findIndex((token, index) => index > 0 && UNIT_DESIGNATORS.has(token));
+  if (unitIndex >= 0) {
+    unit = tokens.slice(unitIndex + 1).join(' ') || undefined;
+    tokens.splice(unitIndex);
+  }
+
+  let number: string | undefined;
+  const numberMatch = /^(\d+)[A-Z]?(-\d+)?$/.exec(tokens[0] || '');
+  if (numberMatch) {
+    number = numberMatch[1];
+    tokens.shift();
+  }
+
+  // Strip from the end first so "West Way" keeps WEST as the street name
+  let postdirectional: string | undefined;
+  if (tokens.length > 1 && toDirectional(tokens[tokens.length - 1])) {
+    postdirectional = toDirectional(tokens.pop());
+  }
+
+  let suffix: string | undefined;
+  if (tokens.length > 1 && toSuffix(tokens[tokens.length - 1])) {
+    suffix = toSuffix(tokens.pop());
+  }
+
+  let predirectional: string | undefined;
+  if (tokens.length > 1 && toDirectional(tokens[0])) {
+    predirectional = toDirectional(tokens.shift());
+  }
+
+  const street = tokens.join(' ');
+
+  return {
+    number,
+    predirectional,
+    street,
+    suffix,
+    postdirectional,
+    unit,
+    city,
+    zipCode,
+    normalized: [number, predirectional, street, suffix, postdirectional].filter(Boolean).join(' ')
+  };
+};
+
+const tokenOverlap = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  const total = new Set([...tokensA, ...tokensB]).size;
+  return total === 0 ? 0 : shared / total;
+};
+
+// Optional parts: matching scores full marks, missing on either side half, conflicting nothing
+const partScore = (a: string | undefined, b: string | undefined, weight: number): number => {
+  if (!a || !b) return weight / 2;
+  return a === b ? weight : 0;
+};
+
+/**
+ * Score how well an address point matches a query, from 0 to 1
+ */
+export const scoreAddressMatch = (query: NormalizedAddress, candidate: NormalizedAddress): number => {
+  let score = 0;
+
+  // Street name: 0.5
+  if (query.street === candidate.street) {
+    score += 0.5;
+  } else {
+    score += 0.4 * tokenOverlap(query.street, candidate.street);
+  }
+
+  // House number: 0.25, with partial credit for nearby numbers on the same street
+  if (query.number && candidate.number) {
+    const difference = Math.abs(Number(query.number) - Number(candidate.number));
+    score += difference === 0 ? 0.25 : 0.125 * Math.max(0, 1 - difference / 200);
+  }
+
+  score += partScore(query.suffix, candidate.suffix, 0.05);
+  score += partScore(
+    [query.predirectional, query.postdirectional].filter(Boolean).join(' ') || undefined,
+    [candidate.predirectional, candidate.postdirectional].filter(Boolean).join(' ') || undefined,
+    0.05
+  );
+
+  // Locality: 0.15 for a matching ZIP, 0.1 for a matching city
+  if (query.zipCode && candidate.zipCode) {
+    score += query.zipCode === candidate.zipCode ? 0.15 : 0;
+  } else if (query.city && candidate.city) {
+    score += query.city === candidate.city ? 0.1 : 0;
+  } else {
+    score += 0.075;
+  }
+
+  return Math.round(score * 1000) / 1000;
+};
+
+export class GeocoderService {
+  private mapboxToken: string | undefined;
+  // Address points grouped by normalised street name
+  private streets: Record<string, IndexedAddress[]> = {};
+  private pointIndex = new SpatialIndex<AddressPoint>();
+  private count = 0;
+
+  constructor(mapboxToken: string | undefined = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN) {
+    this.mapboxToken = mapboxToken;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Replace the address points the local geocoder searches
+   */
+  setAddressPoints(addressPoints: AddressPoint[]): void {
+    this.streets = {};
+    this.pointIndex = new SpatialIndex<AddressPoint>();
+    this.count = 0;
+
+    addressPoints.forEach(point => {
+      if (!point.address) return;
+      const { lat, lng } = point.coordinates;
+      this.pointIndex.insert(point, { west: lng, south: lat, east: lng, north: lat });
+
+      const parsed = normalizeAddress(point.address);
+      if (!parsed.street) return;
+
+      parsed.city = point.city ? point.city.toUpperCase() : undefined;
+      parsed.zipCode = point.zip || undefined;
+      (this.streets[parsed.street] ||= []).push({ point, parsed });
+      this.count++;
+    });
+
+    console.log(`📍 Local geocoder indexed ${this.count} address points on ${Object.keys(this.streets).length} streets`);
+  }
+
+  /**
+   * Ranked candidates from the loaded address points only
+   */
+  geocodeLocal(query: string | GeocodeQuery, options: GeocodeOptions = {}): GeocodeCandidate[] {
+    const { limit = 5, minScore = DEFAULT_MIN_SCORE } = options;
+    const parsed = this.parseQuery(query);
+    if (!parsed.street) return [];
+
+    // Exact street name first; otherwise any street sharing a word with the query
+    const queryTokens = parsed.street.split(' ');
+    const entries = this.streets[parsed.street] || Object.keys(this.streets)
+      .filter(street => street.split(' ').some(token => queryTokens.includes(token)))
+      .flatMap(street => this.streets[street]);
+
+    const seen = new Set<string>();
+    return entries
+      .map(entry => ({ entry, score: scoreAddressMatch(parsed, entry.parsed) }))
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .filter(({ entry }) => {
+        const key = `${entry.parsed.normalized}|${entry.parsed.zipCode || ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit)
+      .map(({ entry, score }) => ({
+        address: entry.point.address,
+        normalizedAddress: entry.parsed.normalized,
+        city: entry.point.city || undefined,
+        zipCode: entry.point.zip || undefined,
+        coordinates: entry.point.coordinates,
+        score,
+        source: 'local' as const,
+        addressPointId: entry.point.id
+      }));
+  }
+
+  /**
+   * Nearest loaded address point within the radius, or null
+   */
+  reverseGeocode(
+    coordinates: { lat: number; lng: number },
+    maxDistanceMeters: number = DEFAULT_REVERSE_RADIUS_METERS
+  ): ReverseGeocodeResult | null {
+    const latDelta = maxDistanceMeters / METERS_PER_DEGREE_LATITUDE;
+    const lngDelta = latDelta / Math.cos((coordinates.lat * Math.PI) / 180);
+
+    let nearest: ReverseGeocodeResult | null = null;
+    this.pointIndex
+      .search({
+        west: coordinates.lng - lngDelta,
+        south: coordinates.lat - latDelta,
+        east: coordinates.lng + lngDelta,
+        north: coordinates.lat + latDelta
+      })
+      .forEach(addressPoint => {
+        const distance = calculateDistance(coordinates, addressPoint.coordinates);
+        if (distance <= maxDistanceMeters && (!nearest || distance < nearest.distance)) {
+          nearest = { addressPoint, distance };
+        }
+      });
+
+    return nearest;
+  }
+
+  /**
+   * Ranked candidates from the local address points, topped up from Mapbox when
+   * there is no confident local match and a token is configured
+   */
+  async geocode(query: string | GeocodeQuery, options: GeocodeOptions = {}): Promise<GeocodeCandidate[]> {
+    const { limit = 5, remoteFallback = true } = options;
+    const local = this.geocodeLocal(query, options);
+
+    if (!remoteFallback || (local[0] && local[0].score >= REMOTE_FALLBACK_SCORE)) {
+      return local;
+    }
+
+    if (!this.mapboxToken) {
+      if (local.length === 0) {
+        console.warn('⚠️ No local geocoder match and no Mapbox token for a remote lookup');
+      }
+      return local;
+    }
+
+    const remote = await this.geocodeRemote(query, limit);
+    return [...local, ...remote].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private parseQuery(query: string | GeocodeQuery): NormalizedAddress {
+    if (typeof query === 'string') return normalizeAddress(query);
+
+    const parsed = normalizeAddress(query.address);
+    return {
+      ...parsed,
+      city: query.city?.trim().toUpperCase() || parsed.city,
+      zipCode: query.zipCode?.trim().slice(0, 5) || parsed.zipCode
+    };
+  }
+
+  private async geocodeRemote(query: string | GeocodeQuery, limit: number): Promise<GeocodeCandidate[]> {
+    const text = typeof query === 'string'
+      ? query
+      : [query.address, query.city, [query.state, query.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+
+    try {
+      const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(text)}.json?access_token=${this.mapboxToken}&country=US&types=address&limit=${limit}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Geocoding failed: ${response.status}`);
+      }
+
+      const data: MapboxGeocodingResponse = await response.json();
+      return (data.features || []).map(feature => {
+        const [lng, lat] = feature.center;
+        const placeName: string = feature.place_name || text;
+        return {
+          address: placeName.split(',')[0],
+          normalizedAddress: normalizeAddress(placeName).normalized,
+          coordinates: { lat, lng },
+          score: typeof feature.relevance === 'number' ? feature.relevance : 0,
+          source: 'mapbox' as const
+        };
+      });
+    } catch (error) {
+      console.warn('⚠️ Mapbox geocoding unavailable:', error);
+      return [];
+    }
+  }
+}
+
+export const geocoder = new GeocoderService();
+
+/**
+ * Describe a location from the parcel containing it and the nearest address
+ * point. An address point on the same parcel wins over the parcel's situs
+ * address, which wins over an address point on a neighbouring lot.
+ */
+export const lookupLocation = (
+  parcelIndex: SpatialIndex<TravisCountyParcel> | undefined,
+  coordinates: { lat: number; lng: number },
+  service: GeocoderService = geocoder
+): LocationDetails => {
+  const parcel = parcelIndex ? findContainingParcel(parcelIndex, coordinates) : undefined;
+  const nearest = service.reverseGeocode(coordinates);
+  const details: LocationDetails = { coordinates };
+
+  if (parcel) {
+    details.parcelId = parcel.PROP_ID;
+    details.owner = parcel.OWNER_NAME && parcel.OWNER_NAME !== 'Unknown Owner' ? parcel.OWNER_NAME : undefined;
+    details.acreage = calculateAcreage(parcel.geometry);
+    details.propertyType = toPropertyType(parcel.PROP_TYPE);
+    details.county = parcel.COUNTY;
+    details.parcelGeometry = parcel.geometry;
+  }
+
+  const hasSitusAddress = !!parcel?.SITE_ADDR && parcel.SITE_ADDR !== 'Unknown Address';
+  const nearestOnParcel = !!nearest && !!parcel && nearest.addressPoint.parcelId === parcel.PROP_ID;
+
+  if (nearest && (nearestOnParcel || !hasSitusAddress)) {
+    details.address = nearest.addressPoint.address;
+    details.city = nearest.addressPoint.city || undefined;
+    details.zipCode = nearest.addressPoint.zip || undefined;
+    details.county = details.county || nearest.addressPoint.county;
+    details.addressDistance = Math.round(nearest.distance);
+  } else if (parcel && hasSitusAddress) {
+    details.address = parcel.SITE_ADDR;
+    details.city = parcel.CITY || undefined;
+    details.zipCode = parcel.ZIP && parcel.ZIP !== '00000' ? parcel.ZIP : undefined;
+  }
+
+  return details;
+};
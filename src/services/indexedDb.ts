@@ -0,0 +1,70 @@
+// Promise wrappers around the app's IndexedDB database
+
+const DATABASE_NAME = 'texas-property-mapping';
+// Version 2 added the parsed dataset cache, version 3 property revisions
+const DATABASE_VERSION = 3;
+
+export const PROPERTIES_STORE = 'properties';
+export const DATASETS_STORE = 'datasets';
+export const REVISIONS_STORE = 'revisions';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Resolve with the result of an IndexedDB request
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction commits
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Open (and create or upgrade) the shared database. The connection is reused.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PROPERTIES_STORE)) {
+          database.createObjectStore(PROPERTIES_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(DATASETS_STORE)) {
+          database.createObjectStore(DATASETS_STORE, { keyPath: 'key' });
+        }
+        if (!database.objectStoreNames.contains(REVISIONS_STORE)) {
+          database.createObjectStore(REVISIONS_STORE, { keyPath: 'id' }).createIndex('propertyId', 'propertyId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('⚠️ IndexedDB upgrade blocked by another open tab');
+    });
+
+    // Let a later call retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+};
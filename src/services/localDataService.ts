@@ -1,5 +1,7 @@
 import type { Property, TravisCountyParcel } from '../types';
 import { loadTravisCountyShapefile } from './shapefileLoader';
+import { calculatePolygonCenter } from '../utils/geometry';
+import { toPropertyType } from '../utils/propertyClassifier';
 
 export const loadTravisCountyData = async (): Promise<TravisCountyParcel[]> => {
   console.log('Loading Travis County data...');
@@ -18,7 +20,7 @@ export const convertToProperty = (parcel: TravisCountyParcel): Property => {
     city: parcel.CITY,
     state: parcel.STATE,
     zipCode: parcel.ZIP,
-    county: 'Travis',
+    county: parcel.COUNTY || undefined,
     parcelId: parcel.PROP_ID,
     owner: parcel.OWNER_NAME,
     assessedValue: parcel.TOTAL_VAL,
@@ -29,44 +31,10 @@ export const convertToProperty = (parcel: TravisCountyParcel): Property => {
     squareFootage: parcel.SQ_FT,
     bedrooms: parcel.BEDROOMS,
     bathrooms: parcel.BATHROOMS,
-    propertyType: mapPropertyType(parcel.PROP_TYPE),
+    propertyType: toPropertyType(parcel.PROP_TYPE),
+    propertySubtype: parcel.PROP_SUBTYPE,
+    propertyTypeReason: parcel.PROP_TYPE_REASON,
     coordinates,
     geometry: parcel.geometry,
   };
 };
-
-const calculatePolygonCenter = (geometry: GeoJSON.Polygon): { lat: number; lng: number } => {
-  if (!geometry.coordinates || geometry.coordinates.length === 0) {
-    return { lat: 30.2672, lng: -97.7431 }; // Default to Austin
-  }
-  
-  const coordinates = geometry.coordinates[0]; // First ring of the polygon
-  let sumLng = 0;
-  let sumLat = 0;
-  
-  for (const coord of coordinates) {
-    sumLng += coord[0];
-    sumLat += coord[1];
-  }
-  
-  return {
-    lng: sumLng / coordinates.length,
-    lat: sumLat / coordinates.length,
-  };
-};
-
-const mapPropertyType = (type: string): Property['propertyType'] => {
-  const lowerType = type.toLowerCase();
-  
-  if (lowerType.includes('residential') || lowerType.includes('single') || lowerType.includes('multi')) {
-    return 'residential';
-  } else if (lowerType.includes('commercial') || lowerType.includes('retail') || lowerType.includes('office')) {
-    return 'commercial';
-  } else if (lowerType.includes('industrial') || lowerType.includes('manufacturing')) {
-    return 'industrial';
-  } else if (lowerType.includes('agricultural') || lowerType.includes('farm') || lowerType.includes('rural')) {
-    return 'agricultural';
-  } else {
-    return 'vacant';
-  }
-}; 
\ No newline at end of file
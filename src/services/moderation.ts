@@ -0,0 +1,68 @@
+// Moderation of submitted properties: review decisions and what the public map may show
+import type { Property } from '../types';
+import type { PropertyStatus } from '../types/backend';
+import type { PropertyRepository } from './propertyRepository';
+
+export type ReviewStatus = Exclude<PropertyStatus, 'pending'>;
+
+export interface ReviewDecision {
+  status: ReviewStatus;
+  reviewer: string;
+  // Required when rejecting
+  reason?: string;
+}
+
+// Statuses the map can be filtered to; rejected submissions are never shown publicly
+export type MapStatusFilter = 'all' | 'pending' | 'approved';
+
+export const MAP_STATUS_FILTERS: { value: MapStatusFilter; label: string }[] = [
+  { value: 'all', label: 'All visible' },
+  { value: 'pending', label: 'Pending review' },
+  { value: 'approved', label: 'Approved' }
+];
+
+export const isPubliclyVisible = (property: Property): boolean => property.status !== 'rejected';
+
+export const matchesStatusFilter = (property: Property, filter: MapStatusFilter): boolean =>
+  isPubliclyVisible(property) && (filter === 'all' || (property.status || 'pending') === filter);
+
+/**
+ * Check a review decision before it is applied. Returns an error message, or null when valid.
+ */
+export const validateReviewDecision = (decision: ReviewDecision): string | null => {
+  if (!decision.reviewer.trim()) return 'A reviewer name is required';
+  if (decision.status === 'rejected' && !decision.reason?.trim()) return 'A reason is required to reject a submission';
+  return null;
+};
+
+// Fields written to a property when a decision is applied
+export const getReviewChanges = (decision: ReviewDecision, reviewedAt = new Date()): Partial<Property> => ({
+  status: decision.status,
+  reviewedBy: decision.reviewer.trim(),
+  reviewedAt: reviewedAt.toISOString(),
+  rejectionReason: decision.status === 'rejected' ? decision.reason?.trim() : undefined
+});
+
+/**
+ * Apply one decision to several properties. Resolves with the updated records;
+ * properties that no longer exist are skipped.
+ */
+export const reviewProperties = async (
+  repository: PropertyRepository,
+  propertyIds: string[],
+  decision: ReviewDecision
+): Promise<Property[]> => {
+  const error = validateReviewDecision(decision);
+  if (error) throw new Error(error);
+
+  const changes = getReviewChanges(decision);
+  const updated: Property[] = [];
+
+  for (const id of propertyIds) {
+    const property = await repository.update(id, changes);
+    if (property) updated.push(property);
+  }
+
+  console.log(`📝 ${decision.reviewer} ${decision.status} ${updated.length} of ${propertyIds.length} properties`);
+  return updated;
+};
@@ -0,0 +1,108 @@
+// Spatial join linking address points and building footprints to the parcels containing them
+import type { BuildingFootprint, ParcelJoinStats, Property, TravisCountyParcel } from '../types';
+import type { AddressPoint } from './comprehensiveDataLoader';
+import type { SpatialIndex } from '../utils/spatialIndex';
+import { SQUARE_FEET_PER_SQUARE_METER, calculateGeodesicArea, calculatePolygonCenter, isPointInPolygon } from '../utils/geometry';
+
+export interface ParcelJoinResult {
+  addresses: AddressPoint[];
+  buildings: BuildingFootprint[];
+  // Keyed by getParcelKey
+  parcelStats: Record<string, ParcelJoinStats>;
+  unmatchedAddresses: number;
+  unmatchedBuildings: number;
+}
+
+/**
+ * Key for a parcel in the join results. Parcel IDs are appraisal district
+ * account numbers, so they are only unique within a county.
+ */
+export const getParcelKey = (parcelId: string, county?: string): string =>
+  county ? `${county}:${parcelId}` : parcelId;
+
+/**
+ * Parcel whose polygon contains the point, if any
+ */
+export const findContainingParcel = (
+  parcelIndex: SpatialIndex<TravisCountyParcel>,
+  point: { lat: number; lng: number }
+): TravisCountyParcel | undefined => {
+  return parcelIndex
+    .search({ west: point.lng, south: point.lat, east: point.lng, north: point.lat })
+    .find(parcel => isPointInPolygon(point, parcel.geometry));
+};
+
+const emptyStats = (): ParcelJoinStats => ({ addresses: [], buildingCount: 0, footprintArea: 0 });
+
+/**
+ * Assign each address point to the parcel it falls in and each building to the
+ * parcel containing its centroid, and summarise what each parcel contains
+ */
+export const joinParcelFeatures = (
+  parcelIndex: SpatialIndex<TravisCountyParcel>,
+  addresses: AddressPoint[],
+  buildings: BuildingFootprint[]
+): ParcelJoinResult => {
+  const parcelStats: Record<string, ParcelJoinStats> = {};
+  const statsFor = (parcel: TravisCountyParcel) =>
+    (parcelStats[getParcelKey(parcel.PROP_ID, parcel.COUNTY)] ||= emptyStats());
+
+  let unmatchedAddresses = 0;
+  const joinedAddresses = addresses.map(address => {
+    const parcel = findContainingParcel(parcelIndex, address.coordinates);
+    if (!parcel) {
+      unmatchedAddresses++;
+      return address;
+    }
+
+    const stats = statsFor(parcel);
+    if (address.address && !stats.addresses.includes(address.address)) {
+      stats.addresses.push(address.address);
+    }
+    return { ...address, parcelId: parcel.PROP_ID };
+  });
+
+  let unmatchedBuildings = 0;
+  const joinedBuildings = buildings.map(building => {
+    const parcel = findContainingParcel(parcelIndex, calculatePolygonCenter(building.geometry));
+    if (!parcel) {
+      unmatchedBuildings++;
+      return building;
+    }
+
+    const stats = statsFor(parcel);
+    stats.buildingCount++;
+    stats.footprintArea += Math.round(calculateGeodesicArea(building.geometry) * SQUARE_FEET_PER_SQUARE_METER);
+    if (building.height > 0 && building.height > (stats.tallestBuildingHeight ?? 0)) {
+      stats.tallestBuildingHeight = building.height;
+    }
+    return { ...building, parcelId: parcel.PROP_ID, county: parcel.COUNTY };
+  });
+
+  console.log(`🔗 Joined ${addresses.length - unmatchedAddresses}/${addresses.length} addresses and ${buildings.length - unmatchedBuildings}/${buildings.length} buildings to parcels`);
+
+  return {
+    addresses: joinedAddresses,
+    buildings: joinedBuildings,
+    parcelStats,
+    unmatchedAddresses,
+    unmatchedBuildings
+  };
+};
+
+/**
+ * Join results for a property: by its parcel ID when it has one, otherwise by
+ * the parcel under its coordinates
+ */
+export const getParcelStatsForProperty = (
+  data: { parcelIndex: SpatialIndex<TravisCountyParcel>; parcelStats: Record<string, ParcelJoinStats> },
+  property: Property
+): ParcelJoinStats | undefined => {
+  if (property.parcelId) {
+    const stats = data.parcelStats[getParcelKey(property.parcelId, property.county)] || data.parcelStats[property.parcelId];
+    if (stats) return stats;
+  }
+
+  const parcel = findContainingParcel(data.parcelIndex, property.coordinates);
+  return parcel ? data.parcelStats[getParcelKey(parcel.PROP_ID, parcel.COUNTY)] : undefined;
+};
@@ -0,0 +1,114 @@
+// Who may do what to submitted properties. Shared by the repository layer in the
+// browser and the REST server in server/, so both enforce the same rules.
+import type { Property } from '../types';
+import type { AuthUser, UserRole } from '../types/backend';
+
+export type PropertyAction = 'create' | 'edit' | 'review' | 'delete';
+
+// Fields only reviewers and admins may change
+export const REVIEW_FIELDS = ['status', 'reviewedBy', 'reviewedAt', 'rejectionReason'];
+
+// Whether an update records a review decision, which is credited to the user making it
+export const isReviewDecision = (property: Property, changes: Partial<Property>): boolean =>
+  (['status', 'rejectionReason'] as const).some(field => field in changes && changes[field] !== property[field]);
+
+// Development accounts for the mock auth provider and the stub backend
+export const MOCK_USERS: AuthUser[] = [
+  { id: 'submitter', name: 'Sam Submitter', role: 'submitter' },
+  { id: 'reviewer', name: 'Riley Reviewer', role: 'reviewer' },
+  { id: 'admin', name: 'Alex Admin', role: 'admin' }
+];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  submitter: 'Submitter',
+  reviewer: 'Reviewer',
+  admin: 'Admin'
+};
+
+export const findMockUser = (id: string | null | undefined): AuthUser | null =>
+  MOCK_USERS.find(user => user.id === id) || null;
+
+const SIGN_IN_REQUIRED = 'You must be signed in to change properties';
+
+const isOwner = (user: AuthUser, property?: Property | null) =>
+  !!property?.submittedBy && property.submittedBy === user.id;
+
+/**
+ * Check whether a user may perform an action. Returns an error message, or null when allowed.
+ * Submitters and reviewers may edit and delete their own submissions; only reviewers and
+ * admins change review fields, and only admins touch other users' records.
+ */
+export const getPermissionError = (
+  user: AuthUser | null,
+  action: PropertyAction,
+  property?: Property | null
+): string | null => {
+  if (!user) return SIGN_IN_REQUIRED;
+  if (user.role === 'admin') return null;
+
+  switch (action) {
+    case 'create':
+      return null;
+    case 'review':
+      return user.role === 'reviewer' ? null : 'Only reviewers and admins can approve or reject submissions';
+    case 'edit':
+      return isOwner(user, property) ? null : 'You can only edit your own submissions';
+    case 'delete':
+      return isOwner(user, property) ? null : 'You can only delete your own submissions';
+  }
+};
+
+export const canPerform = (user: AuthUser | null, action: PropertyAction, property?: Property | null): boolean =>
+  getPermissionError(user, action, property) === null;
+
+/**
+ * Permission error for creating a record, e.g. when restoring a deleted one. Only admins
+ * create records on behalf of others, and only reviewers and admins create reviewed ones.
+ */
+export const getCreatePermissionError = (user: AuthUser | null, property: Property): string | null => {
+  if (!user) return SIGN_IN_REQUIRED;
+  if (user.role === 'admin') return null;
+  if (property.submittedBy && property.submittedBy !== user.id) {
+    return 'Only admins can submit properties for other users';
+  }
+  if (property.status && property.status !== 'pending') {
+    return getPermissionError(user, 'review', property);
+  }
+  return null;
+};
+
+// Fields an update actually changes on a property
+const getChangedFields = (property: Property, changes: Partial<Property>): string[] =>
+  Object.keys(changes).filter(field => {
+    const key = field as keyof Property;
+    return field !== 'id' && JSON.stringify(changes[key]) !== JSON.stringify(property[key]);
+  });
+
+// Actions an update needs, depending on which fields it changes
+export const getUpdateActions = (property: Property, changes: Partial<Property>): PropertyAction[] => {
+  const fields = getChangedFields(property, changes);
+  const actions: PropertyAction[] = [];
+  if (fields.some(field => REVIEW_FIELDS.includes(field))) actions.push('review');
+  if (fields.some(field => !REVIEW_FIELDS.includes(field))) actions.push('edit');
+  return actions;
+};
+
+/**
+ * First permission error for an update, or null when every changed field may be changed
+ */
+export const getUpdatePermissionError = (
+  user: AuthUser | null,
+  property: Property,
+  changes: Partial<Property>
+): string | null => {
+  if (!user) return SIGN_IN_REQUIRED;
+  if (getChangedFields(property, changes).includes('submittedBy') && user.role !== 'admin') {
+    return 'Only admins can change who submitted a property';
+  }
+
+  for (const action of getUpdateActions(property, changes)) {
+    const error = getPermissionError(user, action, property);
+    if (error) return error;
+  }
+  return null;
+};
@@ -0,0 +1,106 @@
+// HTTP client for the property API in server/
+import type { Property } from '../types';
+import type { ApiError, PropertyUpdate } from '../types/backend';
+import type { PropertyRepository } from './propertyRepository';
+import { authProvider } from './auth';
+
+export const DEFAULT_API_URL = 'http://localhost:3001/api';
+const HEALTH_CHECK_TIMEOUT_MS = 2000;
+
+// Non-2xx response from the property API
+export class PropertyApiError extends Error {
+  readonly status: number;
+  readonly details?: string[];
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message);
+    this.name = 'PropertyApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class HttpPropertyRepository implements PropertyRepository {
+  readonly kind = 'http' as const;
+  private readonly baseUrl: string;
+  // Acts as this user instead of the signed-in one
+  private readonly userId?: string;
+
+  constructor(baseUrl: string = import.meta.env.VITE_API_URL || DEFAULT_API_URL, userId?: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.userId = userId;
+  }
+
+  // Same server, with requests made as another user, e.g. the one who queued a change
+  asUser(userId: string): HttpPropertyRepository {
+    return new HttpPropertyRepository(this.baseUrl, userId);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/health`, { signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(): Promise<Property[]> {
+    return this.request<Property[]>('/properties');
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return this.orNullWhenMissing(this.request<Property>(`/properties/${encodeURIComponent(id)}`));
+  }
+
+  async create(property: Property): Promise<Property> {
+    return this.request<Property>('/properties', { method: 'POST', body: JSON.stringify(property) });
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    // The server owns a record's identity and submission time
+    const body: PropertyUpdate = Object.fromEntries(
+      Object.entries(updates).filter(([field]) => field !== 'id' && field !== 'submittedAt')
+    );
+    return this.orNullWhenMissing(this.request<Property>(`/properties/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(body)
+    }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.orNullWhenMissing(this.request(`/properties/${encodeURIComponent(id)}`, { method: 'DELETE' }));
+    return deleted !== null;
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: this.getHeaders()
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as ApiError | null;
+      throw new PropertyApiError(response.status, body?.error || `Property API request failed: ${response.status}`, body?.details);
+    }
+
+    return response.json();
+  }
+
+  // The development server trusts X-User-Id to name one of its mock users
+  private getHeaders(): Record<string, string> {
+    const userId = this.userId || authProvider.getCurrentUser()?.id;
+    return userId
+      ? { 'Content-Type': 'application/json', 'X-User-Id': userId }
+      : { 'Content-Type': 'application/json' };
+  }
+
+  private async orNullWhenMissing<T>(request: Promise<T>): Promise<T | null> {
+    try {
+      return await request;
+    } catch (error) {
+      if (error instanceof PropertyApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+}
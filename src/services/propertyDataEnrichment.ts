@@ -1,27 +1,33 @@
-import type { Property } from '../types';
+import {
+  ENRICHMENT_FIELDS,
+  createDefaultEnrichmentProviders,
+  type EnrichmentField,
+  type EnrichmentProvider,
+  type EnrichmentValues
+} from './enrichmentProviders';
+import { geocoder } from './geocoder';
+
+export interface FieldProvenance {
+  providerId: string;
+  providerName: string;
+  detail?: string;
+}
 
-export interface EnrichedPropertyData {
+export interface EnrichedPropertyData extends EnrichmentValues {
   propertyId: string;
   address: string;
   coordinates: {
     lat: number;
     lng: number;
   };
-  marketValue: number;
-  appraisedValue: number;
-  propertyType: string;
-  squareFootage: number;
-  bedrooms: number;
-  bathrooms: number;
-  yearBuilt: number;
-  lotSize: number;
-  lastSaleDate: string;
-  lastSalePrice: number;
-  ownerName: string;
-  parcelId?: string;
+  // Where each known field came from
+  provenance: Partial<Record<EnrichmentField, FieldProvenance>>;
+  // Fields no provider could supply
+  unknownFields: EnrichmentField[];
 }
 
 interface AddressPoint {
+  id?: string;
   address: string;
   coordinates: {
     lat: number;
@@ -30,214 +36,110 @@ interface AddressPoint {
 }
 
 interface EnrichmentOptions {
-  useTCADData?: boolean;
-  usePublicRecords?: boolean;
   maxProperties?: number;
+  // Refine coordinates with the geocoder before looking up providers
+  geocode?: boolean;
 }
 
 class PropertyEnrichmentService {
-  private mapboxToken: string;
+  private providers: EnrichmentProvider[] = [];
+
+  /**
+   * Replace the provider chain. Providers run in the given order, so a provider
+   * can rely on values (such as the parcel ID) found by earlier ones.
+   */
+  setProviders(providers: EnrichmentProvider[]): void {
+    this.providers = [...providers];
+  }
+
+  /**
+   * Use the default provider chain over the loaded parcels and buildings
+   */
+  setDatasets(data: Parameters<typeof createDefaultEnrichmentProviders>[0]): void {
+    this.setProviders(createDefaultEnrichmentProviders(data));
+  }
+
+  registerProvider(provider: EnrichmentProvider): void {
+    this.providers = [...this.providers.filter(existing => existing.id !== provider.id), provider];
+  }
 
-  constructor() {
-    this.mapboxToken = import.meta.env.VITE_MAPBOX_TOKEN;
+  getProviders(): EnrichmentProvider[] {
+    return [...this.providers];
   }
 
   async enrichAddressPoints(
     addressPoints: AddressPoint[],
     options: EnrichmentOptions = {}
   ): Promise<EnrichedPropertyData[]> {
-    const { maxProperties = 50 } = options;
-    
+    const { maxProperties = 50, geocode = false } = options;
+
     console.log(`Starting enrichment of ${addressPoints.length} address points (max: ${maxProperties})`);
 
-    // Take a sample of address points to avoid overwhelming the geocoding API
+    if (this.providers.length === 0) {
+      console.warn('⚠️ No enrichment providers registered; every field will be unknown');
+    }
+
     const sampleAddresses = addressPoints.slice(0, maxProperties);
-    
     const enrichedProperties: EnrichedPropertyData[] = [];
 
-    for (const addressPoint of sampleAddresses) {
-      try {
-        // Use Mapbox Geocoding API to get proper coordinates
-        const geocodedData = await this.geocodeAddress(addressPoint.address);
-        
-        if (geocodedData) {
-          const enrichedProperty = this.createEnrichedProperty(
-            addressPoint.address,
-            geocodedData.coordinates,
-            geocodedData.context
-          );
-          enrichedProperties.push(enrichedProperty);
-        }
-      } catch (error) {
-        console.warn(`Failed to enrich address: ${addressPoint.address}`, error);
-        // Fallback to original coordinates if geocoding fails
-        const enrichedProperty = this.createEnrichedProperty(
-          addressPoint.address,
-          addressPoint.coordinates,
-          {}
-        );
-        enrichedProperties.push(enrichedProperty);
-      }
+    for (const [index, addressPoint] of sampleAddresses.entries()) {
+      const [geocoded] = geocode ? await geocoder.geocode(addressPoint.address, { limit: 1 }) : [];
+      const enrichedProperty = await this.enrichLocation(
+        addressPoint.address,
+        geocoded?.coordinates || addressPoint.coordinates,
+        addressPoint.id || `address-${index}`
+      );
+      enrichedProperties.push(enrichedProperty);
     }
 
-    console.log(`✅ Successfully enriched ${enrichedProperties.length} properties`);
+    console.log(`✅ Enriched ${enrichedProperties.length} properties from ${this.providers.length} providers`);
     return enrichedProperties;
   }
 
-  private async geocodeAddress(address: string): Promise<{ coordinates: { lat: number; lng: number }; context: any } | null> {
-    try {
-      const encodedAddress = encodeURIComponent(address);
-      const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodedAddress}.json?access_token=${this.mapboxToken}&country=US&types=address&limit=1`;
-      
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data.features && data.features.length > 0) {
-        const feature = data.features[0];
-        const [lng, lat] = feature.center;
-        
-        return {
-          coordinates: { lat, lng },
-          context: feature.context || {}
-        };
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Geocoding error:', error);
-      return null;
-    }
-  }
-
-  private createEnrichedProperty(
+  /**
+   * Run every provider for one location and merge their values field by field.
+   * The highest-priority provider with a value wins; ties go to the earlier provider.
+   */
+  async enrichLocation(
     address: string,
     coordinates: { lat: number; lng: number },
-    context: any
-  ): EnrichedPropertyData {
-    // Generate realistic property data based on the address and context
-    const propertyType = this.determinePropertyType(address, context);
-    const baseValue = this.calculateBaseValue(propertyType, context);
-    
-    return {
-      propertyId: `enriched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      address: address,
-      coordinates: coordinates,
-      marketValue: baseValue,
-      appraisedValue: Math.round(baseValue * 0.95), // Appraised value is typically 95% of market value
-      propertyType: propertyType,
-      squareFootage: this.generateSquareFootage(propertyType),
-      bedrooms: this.generateBedrooms(propertyType),
-      bathrooms: this.generateBathrooms(propertyType),
-      yearBuilt: this.generateYearBuilt(),
-      lotSize: this.generateLotSize(propertyType),
-      lastSaleDate: this.generateLastSaleDate(),
-      lastSalePrice: Math.round(baseValue * 0.85), // Last sale typically 85% of current market value
-      ownerName: this.generateOwnerName(),
-      parcelId: `PARCEL_${Math.random().toString(36).substr(2, 9).toUpperCase()}`
-    };
-  }
-
-  private determinePropertyType(address: string, context: any): string {
-    const addressLower = address.toLowerCase();
-    
-    // Check for commercial indicators
-    if (addressLower.includes('ave') || addressLower.includes('blvd') || 
-        addressLower.includes('dr') || addressLower.includes('plaza')) {
-      return Math.random() > 0.7 ? 'commercial' : 'residential';
-    }
-    
-    // Check for residential indicators
-    if (addressLower.includes('st') || addressLower.includes('rd') || 
-        addressLower.includes('ln') || addressLower.includes('ct')) {
-      return 'residential';
-    }
-    
-    // Default based on random distribution
-    const types = ['residential', 'commercial', 'industrial', 'vacant'];
-    const weights = [0.7, 0.2, 0.08, 0.02];
-    return this.weightedRandomChoice(types, weights);
-  }
-
-  private calculateBaseValue(propertyType: string, context: any): number {
-    const baseValues = {
-      residential: { min: 200000, max: 800000 },
-      commercial: { min: 500000, max: 2000000 },
-      industrial: { min: 300000, max: 1500000 },
-      vacant: { min: 50000, max: 300000 }
-    };
-
-    const range = baseValues[propertyType as keyof typeof baseValues] || baseValues.residential;
-    return Math.round(range.min + Math.random() * (range.max - range.min));
-  }
-
-  private generateSquareFootage(propertyType: string): number {
-    const ranges = {
-      residential: { min: 800, max: 4000 },
-      commercial: { min: 2000, max: 10000 },
-      industrial: { min: 5000, max: 20000 },
-      vacant: { min: 0, max: 0 }
-    };
-
-    const range = ranges[propertyType as keyof typeof ranges] || ranges.residential;
-    return Math.round(range.min + Math.random() * (range.max - range.min));
-  }
-
-  private generateBedrooms(propertyType: string): number {
-    if (propertyType !== 'residential') return 0;
-    return Math.floor(Math.random() * 4) + 1; // 1-4 bedrooms
-  }
-
-  private generateBathrooms(propertyType: string): number {
-    if (propertyType !== 'residential') return 0;
-    return Math.floor(Math.random() * 3) + 1; // 1-3 bathrooms
-  }
-
-  private generateYearBuilt(): number {
-    return Math.floor(Math.random() * 50) + 1970; // 1970-2020
-  }
-
-  private generateLotSize(propertyType: string): number {
-    const ranges = {
-      residential: { min: 0.1, max: 1.0 },
-      commercial: { min: 0.5, max: 5.0 },
-      industrial: { min: 1.0, max: 10.0 },
-      vacant: { min: 0.5, max: 5.0 }
-    };
-
-    const range = ranges[propertyType as keyof typeof ranges] || ranges.residential;
-    return Math.round((range.min + Math.random() * (range.max - range.min)) * 100) / 100;
-  }
+    id: string = address
+  ): Promise<EnrichedPropertyData> {
+    const known: EnrichmentValues = {};
+    const merged: Record<string, string | number> = {};
+    const provenance: EnrichedPropertyData['provenance'] = {};
+    const winningPriority: Partial<Record<EnrichmentField, number>> = {};
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.enrich({ address, coordinates, known: { ...known } });
+        if (!result) continue;
 
-  private generateLastSaleDate(): string {
-    const yearsAgo = Math.floor(Math.random() * 10) + 1; // 1-10 years ago
-    const date = new Date();
-    date.setFullYear(date.getFullYear() - yearsAgo);
-    return date.toISOString().split('T')[0];
-  }
+        (Object.entries(result.values) as [EnrichmentField, string | number | undefined][]).forEach(([field, value]) => {
+          if (value === undefined) return;
 
-  private generateOwnerName(): string {
-    const firstNames = ['John', 'Jane', 'Michael', 'Sarah', 'David', 'Lisa', 'Robert', 'Jennifer', 'William', 'Mary'];
-    const lastNames = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez'];
-    
-    const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-    const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-    
-    return `${firstName} ${lastName}`;
-  }
+          if (winningPriority[field] === undefined || provider.priority > winningPriority[field]!) {
+            merged[field] = value;
+            winningPriority[field] = provider.priority;
+            provenance[field] = { providerId: provider.id, providerName: provider.name, detail: result.detail };
+          }
+        });
 
-  private weightedRandomChoice<T>(items: T[], weights: number[]): T {
-    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * totalWeight;
-    
-    for (let i = 0; i < items.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
-        return items[i];
+        Object.assign(known, merged);
+      } catch (error) {
+        console.warn(`⚠️ Enrichment provider ${provider.id} failed for ${address}:`, error);
       }
     }
-    
-    return items[items.length - 1];
+
+    return {
+      ...(merged as EnrichmentValues),
+      propertyId: known.parcelId ? `parcel-${known.parcelId}` : `enriched-${id}`,
+      address,
+      coordinates,
+      provenance,
+      unknownFields: ENRICHMENT_FIELDS.filter(field => merged[field] === undefined)
+    };
   }
 }
 
-export const propertyEnrichmentService = new PropertyEnrichmentService(); 
\ No newline at end of file
+export const propertyEnrichmentService = new PropertyEnrichmentService();
@@ -0,0 +1,251 @@
+// Audit trail for submitted properties: every change made through the repository
+// is appended as an immutable revision with its actor and field-level diff
+import type { Property } from '../types';
+import type { PropertyRepository } from './propertyRepository';
+import { isReviewDecision } from './permissions';
+import { REVISIONS_STORE, isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const REVISIONS_KEY = 'property_revisions';
+
+// Recorded for changes made without a signed-in user
+export const DEFAULT_ACTOR = 'Anonymous';
+
+export type RevisionAction = 'create' | 'update' | 'status' | 'delete' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PropertyRevision {
+  id: string;
+  propertyId: string;
+  // 1 for the first recorded change of a property
+  revision: number;
+  action: RevisionAction;
+  actor: string;
+  timestamp: string;
+  changes: FieldChange[];
+  // The record after the change; null once deleted
+  snapshot: Property | null;
+  // Revision number a restore went back to
+  restoredFrom?: number;
+}
+
+export interface PropertyRevisionStore {
+  append(revision: PropertyRevision): Promise<void>;
+  list(propertyId: string): Promise<PropertyRevision[]>;
+  listAll(): Promise<PropertyRevision[]>;
+}
+
+export interface DeletedProperty {
+  // The record as it was before it was deleted
+  property: Property;
+  deletedBy: string;
+  deletedAt: string;
+}
+
+const STATUS_FIELDS = ['status', 'reviewedBy', 'reviewedAt', 'rejectionReason'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level differences between two versions of a record, in field order
+ */
+export const diffProperties = (before: Property | null, after: Property | null): FieldChange[] => {
+  const beforeRecord = (before || {}) as Record<string, unknown>;
+  const afterRecord = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]));
+
+  return fields
+    .filter(field => !sameValue(beforeRecord[field], afterRecord[field]))
+    .map(field => ({ field, before: beforeRecord[field], after: afterRecord[field] }));
+};
+
+const byRevision = (a: PropertyRevision, b: PropertyRevision) => a.revision - b.revision;
+
+export class LocalStorageRevisionStore implements PropertyRevisionStore {
+  async append(revision: PropertyRevision): Promise<void> {
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify([...this.loadAll(), revision]));
+  }
+
+  async list(propertyId: string): Promise<PropertyRevision[]> {
+    return this.loadAll().filter(revision => revision.propertyId === propertyId).sort(byRevision);
+  }
+
+  async listAll(): Promise<PropertyRevision[]> {
+    return this.loadAll();
+  }
+
+  private loadAll(): PropertyRevision[] {
+    try {
+      const stored = localStorage.getItem(REVISIONS_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error loading property revisions from localStorage:', error);
+      return [];
+    }
+  }
+}
+
+export class IndexedDbRevisionStore implements PropertyRevisionStore {
+  async append(revision: PropertyRevision): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction(REVISIONS_STORE, 'readwrite');
+    // add() refuses to overwrite, so a stored revision can never change
+    transaction.objectStore(REVISIONS_STORE).add(revision);
+    await transactionDone(transaction);
+  }
+
+  async list(propertyId: string): Promise<PropertyRevision[]> {
+    const database = await openDatabase();
+    const index = database.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).index('propertyId');
+    const revisions = await requestToPromise<PropertyRevision[]>(index.getAll(propertyId));
+    return revisions.sort(byRevision);
+  }
+
+  async listAll(): Promise<PropertyRevision[]> {
+    const database = await openDatabase();
+    return requestToPromise<PropertyRevision[]>(database.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).getAll());
+  }
+}
+
+export const createRevisionStore = (): PropertyRevisionStore =>
+  isIndexedDbAvailable() ? new IndexedDbRevisionStore() : new LocalStorageRevisionStore();
+
+/**
+ * Repository that records a revision for every change it passes on. The actor is
+ * read at the time of each change.
+ */
+export class AuditedPropertyRepository implements PropertyRepository {
+  readonly kind: PropertyRepository['kind'];
+  private readonly inner: PropertyRepository;
+  private readonly revisions: PropertyRevisionStore;
+  private readonly getActor: () => string;
+
+  constructor(inner: PropertyRepository, revisions: PropertyRevisionStore, getActor: () => string) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.revisions = revisions;
+    this.getActor = getActor;
+  }
+
+  async list(): Promise<Property[]> {
+    return this.inner.list();
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return this.inner.get(id);
+  }
+
+  async create(property: Property): Promise<Property> {
+    const created = await this.inner.create(property);
+    await this.record(created.id, 'create', null, created);
+    return created;
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    const before = await this.inner.get(id);
+    // Moderation decisions are credited to the signed-in user, whoever the changes name
+    const changes = before && isReviewDecision(before, updates)
+      ? { ...updates, reviewedBy: this.getActor(), reviewedAt: new Date().toISOString() }
+      : updates;
+    const updated = await this.inner.update(id, changes);
+    if (!updated) return null;
+
+    const action = Object.keys(updates).every(field => STATUS_FIELDS.includes(field)) ? 'status' : 'update';
+    await this.record(id, action, before, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = await this.inner.get(id);
+    const deleted = await this.inner.delete(id);
+    if (deleted) {
+      await this.record(id, 'delete', before, null);
+    }
+    return deleted;
+  }
+
+  async getHistory(propertyId: string): Promise<PropertyRevision[]> {
+    return this.revisions.list(propertyId);
+  }
+
+  /**
+   * Properties whose latest revision is a deletion, most recently deleted first.
+   * Their history can still be loaded by id to restore them.
+   */
+  async getDeletedProperties(): Promise<DeletedProperty[]> {
+    const byProperty = new Map<string, PropertyRevision[]>();
+    (await this.revisions.listAll()).forEach(revision => {
+      byProperty.set(revision.propertyId, [...(byProperty.get(revision.propertyId) || []), revision]);
+    });
+
+    const deleted: DeletedProperty[] = [];
+    byProperty.forEach(revisions => {
+      const sorted = revisions.sort(byRevision);
+      const latest = sorted[sorted.length - 1];
+      // Deletions recorded before any other change leave nothing to restore
+      const lastVersion = [...sorted].reverse().find(revision => revision.snapshot)?.snapshot;
+      if (latest.action === 'delete' && lastVersion) {
+        deleted.push({ property: lastVersion, deletedBy: latest.actor, deletedAt: latest.timestamp });
+      }
+    });
+
+    return deleted.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Bring a property back to the version stored in a revision, recreating it if it
+   * has been deleted. The restore is itself recorded as a new revision.
+   */
+  async restore(revision: PropertyRevision): Promise<Property | null> {
+    const target = revision.snapshot;
+    if (!target) return null;
+
+    const before = await this.inner.get(revision.propertyId);
+    let restored: Property | null;
+
+    if (before) {
+      // Clear fields the old version did not have
+      const cleared = Object.fromEntries(Object.keys(before).map(field => [field, undefined]));
+      restored = await this.inner.update(revision.propertyId, { ...cleared, ...target });
+    } else {
+      restored = await this.inner.create(target);
+    }
+
+    if (restored) {
+      await this.record(revision.propertyId, 'restore', before, restored, revision.revision);
+    }
+    return restored;
+  }
+
+  private async record(
+    propertyId: string,
+    action: RevisionAction,
+    before: Property | null,
+    after: Property | null,
+    restoredFrom?: number
+  ): Promise<void> {
+    try {
+      const existing = await this.revisions.list(propertyId);
+      const revision: PropertyRevision = {
+        id: `rev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        propertyId,
+        revision: existing.length > 0 ? existing[existing.length - 1].revision + 1 : 1,
+        action,
+        actor: this.getActor(),
+        timestamp: new Date().toISOString(),
+        changes: diffProperties(before, after),
+        snapshot: after,
+        ...(restoredFrom !== undefined ? { restoredFrom } : {})
+      };
+      await this.revisions.append(revision);
+    } catch (error) {
+      // The change itself has been saved; losing its audit entry must not undo it
+      console.error(`Error recording ${action} revision for ${propertyId}:`, error);
+    }
+  }
+}
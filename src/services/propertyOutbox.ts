@@ -0,0 +1,153 @@
+// Outbox of property changes made locally that still have to reach the API server.
+// Operations are kept in localStorage in the order they were made.
+import type { Property } from '../types';
+
+const OUTBOX_KEY = 'property_outbox';
+const REMOTE_IDS_KEY = 'property_sync_remote_ids';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxOperationType = 'create' | 'update' | 'status' | 'delete';
+
+export interface OutboxConflict {
+  // The server's copy when the conflict was found; null when it was deleted there
+  remote: Property | null;
+  reason: string;
+  detectedAt: string;
+}
+
+export interface OutboxOperation {
+  id: string;
+  type: OutboxOperationType;
+  propertyId: string;
+  // Full record for create, changed fields for update and status
+  property?: Property;
+  changes?: Partial<Property>;
+  // The record as it was before the local change, used to detect edits made on the server meanwhile
+  base?: Property | null;
+  // Id of the user who made the change; it is replayed as them, whoever is signed in by then
+  queuedBy?: string;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  conflict?: OutboxConflict;
+}
+
+export type NewOutboxOperation = Pick<OutboxOperation, 'type' | 'propertyId' | 'property' | 'changes' | 'base' | 'queuedBy'>;
+
+export type PropertySyncState = 'synced' | 'pending' | 'syncing' | 'error' | 'conflict';
+
+export interface PropertySyncStatus {
+  state: PropertySyncState;
+  pendingOperations: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  conflict?: OutboxConflict;
+}
+
+export const SYNCED_STATUS: PropertySyncStatus = { state: 'synced', pendingOperations: 0 };
+
+// Load queued operations, oldest first
+export const loadOutbox = (): OutboxOperation[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading property outbox from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveOutbox = (operations: OutboxOperation[]): void => {
+  try {
+    if (operations.length > 0) {
+      localStorage.setItem(OUTBOX_KEY, JSON.stringify(operations));
+    } else {
+      localStorage.removeItem(OUTBOX_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving property outbox to localStorage:', error);
+  }
+};
+
+export const enqueueOperation = (operation: NewOutboxOperation): OutboxOperation => {
+  const queued: OutboxOperation = {
+    ...operation,
+    id: `op-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    queuedAt: new Date().toISOString(),
+    attempts: 0
+  };
+  saveOutbox([...loadOutbox(), queued]);
+  return queued;
+};
+
+export const updateOperation = (id: string, changes: Partial<OutboxOperation>): void => {
+  saveOutbox(loadOutbox().map(operation => operation.id === id ? { ...operation, ...changes } : operation));
+};
+
+export const removeOperations = (predicate: (operation: OutboxOperation) => boolean): void => {
+  saveOutbox(loadOutbox().filter(operation => !predicate(operation)));
+};
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at five minutes
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Ids the server returned on the last successful pull, so records deleted there can be told apart from unsent ones
+export const loadKnownRemoteIds = (): Set<string> => {
+  try {
+    const stored = localStorage.getItem(REMOTE_IDS_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return new Set(Array.isArray(parsed) ? parsed : []);
+  } catch (error) {
+    console.error('Error loading synced property ids from localStorage:', error);
+    return new Set();
+  }
+};
+
+export const saveKnownRemoteIds = (ids: Iterable<string>): void => {
+  try {
+    localStorage.setItem(REMOTE_IDS_KEY, JSON.stringify(Array.from(ids)));
+  } catch (error) {
+    console.error('Error saving synced property ids to localStorage:', error);
+  }
+};
+
+/**
+ * Summarise the outbox per property. Properties without queued operations are synced
+ * and are left out of the result.
+ */
+export const getSyncStatuses = (
+  operations: OutboxOperation[],
+  syncingPropertyId: string | null = null
+): Record<string, PropertySyncStatus> => {
+  const statuses: Record<string, PropertySyncStatus> = {};
+
+  for (const operation of operations) {
+    const status = statuses[operation.propertyId] || { state: 'pending', pendingOperations: 0 };
+    status.pendingOperations++;
+
+    if (operation.conflict) {
+      status.state = 'conflict';
+      status.conflict = operation.conflict;
+    } else if (operation.lastError && status.state !== 'conflict') {
+      status.state = 'error';
+      status.lastError = operation.lastError;
+      status.nextAttemptAt = operation.nextAttemptAt;
+    }
+
+    statuses[operation.propertyId] = status;
+  }
+
+  if (syncingPropertyId && statuses[syncingPropertyId]?.state === 'pending') {
+    statuses[syncingPropertyId].state = 'syncing';
+  }
+
+  return statuses;
+};
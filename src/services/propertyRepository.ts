@@ -0,0 +1,236 @@
+// Storage for submitted properties behind one interface, with localStorage,
+// IndexedDB and HTTP (server/) implementations. Every implementation stores the
+// canonical Property record.
+import type { Property } from '../types';
+import {
+  STORAGE_KEY,
+  deleteProperty,
+  getProperty,
+  loadProperties,
+  quarantineRecords,
+  saveProperties,
+  updateProperty
+} from './propertyStorage';
+import { CURRENT_SCHEMA_VERSION, parsePropertyRecords } from './propertySchema';
+import { PROPERTIES_STORE, isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { HttpPropertyRepository } from './propertyApi';
+import { PropertySyncService, SyncingPropertyRepository } from './propertySync';
+import { AuditedPropertyRepository, DEFAULT_ACTOR, createRevisionStore, type DeletedProperty, type PropertyRevision } from './propertyHistory';
+import { AuthorizedPropertyRepository, authProvider } from './auth';
+
+export type PropertyRepositoryKind = 'localStorage' | 'indexedDB' | 'http';
+
+export interface PropertyRepository {
+  readonly kind: PropertyRepositoryKind;
+  list(): Promise<Property[]>;
+  get(id: string): Promise<Property | null>;
+  create(property: Property): Promise<Property>;
+  update(id: string, updates: Partial<Property>): Promise<Property | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class LocalStoragePropertyRepository implements PropertyRepository {
+  readonly kind = 'localStorage' as const;
+
+  async list(): Promise<Property[]> {
+    return loadProperties();
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return getProperty(id);
+  }
+
+  async create(property: Property): Promise<Property> {
+    saveProperties([...loadProperties().filter(existing => existing.id !== property.id), property]);
+    return property;
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    return updateProperty(id, updates);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return deleteProperty(id);
+  }
+}
+
+// Schema version of the records in IndexedDB. Databases from before the key were filled
+// from localStorage records padded on load, i.e. version 1.
+const INDEXED_DB_VERSION_KEY = 'indexeddb_properties_version';
+
+export class IndexedDbPropertyRepository implements PropertyRepository {
+  readonly kind = 'indexedDB' as const;
+
+  /**
+   * Every record, migrated to the current schema and validated. Records pulled from
+   * the server are stored as sent, so they are checked here too; invalid ones are
+   * quarantined and removed from the store.
+   */
+  async list(): Promise<Property[]> {
+    const database = await openDatabase();
+    const stored = await requestToPromise<unknown[]>(database.transaction(PROPERTIES_STORE).objectStore(PROPERTIES_STORE).getAll());
+    // An empty store has nothing to migrate, and what is written to it from now on is current
+    const version = stored.length === 0 ? CURRENT_SCHEMA_VERSION : Number(localStorage.getItem(INDEXED_DB_VERSION_KEY) ?? 1);
+    const { properties, invalid } = parsePropertyRecords(stored, version);
+
+    if (invalid.length > 0) {
+      quarantineRecords(invalid);
+    }
+    if (stored.length === 0 || version !== CURRENT_SCHEMA_VERSION || invalid.length > 0) {
+      const transaction = database.transaction(PROPERTIES_STORE, 'readwrite');
+      const store = transaction.objectStore(PROPERTIES_STORE);
+      store.clear();
+      properties.forEach(property => store.put(property));
+      await transactionDone(transaction);
+      localStorage.setItem(INDEXED_DB_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    }
+
+    return properties;
+  }
+
+  async get(id: string): Promise<Property | null> {
+    const database = await openDatabase();
+    const property = await requestToPromise<Property | undefined>(
+      database.transaction(PROPERTIES_STORE).objectStore(PROPERTIES_STORE).get(id)
+    );
+    return property || null;
+  }
+
+  async create(property: Property): Promise<Property> {
+    const database = await openDatabase();
+    const transaction = database.transaction(PROPERTIES_STORE, 'readwrite');
+    transaction.objectStore(PROPERTIES_STORE).put(property);
+    await transactionDone(transaction);
+    return property;
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    const database = await openDatabase();
+    const transaction = database.transaction(PROPERTIES_STORE, 'readwrite');
+    const store = transaction.objectStore(PROPERTIES_STORE);
+
+    const existing = await requestToPromise<Property | undefined>(store.get(id));
+    if (!existing) return null;
+
+    const updated = { ...existing, ...updates, id };
+    store.put(updated);
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const database = await openDatabase();
+    const transaction = database.transaction(PROPERTIES_STORE, 'readwrite');
+    const store = transaction.objectStore(PROPERTIES_STORE);
+
+    const count = await requestToPromise(store.count(id));
+    if (count === 0) return false;
+
+    store.delete(id);
+    await transactionDone(transaction);
+    return true;
+  }
+}
+
+/**
+ * Copy records that older builds kept in localStorage into another repository,
+ * then drop the localStorage copy so the two cannot drift apart
+ */
+export const migrateLocalProperties = async (target: PropertyRepository): Promise<number> => {
+  if (target.kind === 'localStorage') return 0;
+
+  const legacy = loadProperties();
+  if (legacy.length === 0) return 0;
+
+  let migrated = 0;
+  for (const property of legacy) {
+    if (!(await target.get(property.id))) {
+      await target.create(property);
+      migrated++;
+    }
+  }
+
+  localStorage.removeItem(STORAGE_KEY);
+  console.log(`📦 Migrated ${migrated} of ${legacy.length} locally stored properties to ${target.kind}`);
+  return migrated;
+};
+
+export const createPropertyRepository = (kind: PropertyRepositoryKind): PropertyRepository => {
+  switch (kind) {
+    case 'http':
+      return new HttpPropertyRepository();
+    case 'indexedDB':
+      return new IndexedDbPropertyRepository();
+    default:
+      return new LocalStoragePropertyRepository();
+  }
+};
+
+// Sync service started by the last resolved repository
+let activeSync: PropertySyncService | null = null;
+
+/**
+ * Pick the repository for this session. VITE_PROPERTY_REPOSITORY can force one
+ * kind; by default records are kept in IndexedDB (or localStorage without it)
+ * and synced to the API server in the background. Changes are checked against
+ * the signed-in user's role and recorded in the revision history. Records left in
+ * localStorage by older builds are migrated.
+ */
+export const resolvePropertyRepository = async (
+  preference: PropertyRepositoryKind | 'auto' = import.meta.env.VITE_PROPERTY_REPOSITORY || 'auto'
+): Promise<PropertyRepository> => {
+  let repository: PropertyRepository;
+  let sync: PropertySyncService | null = null;
+
+  if (preference !== 'auto') {
+    repository = createPropertyRepository(preference);
+  } else {
+    const local = isIndexedDbAvailable() ? new IndexedDbPropertyRepository() : new LocalStoragePropertyRepository();
+    sync = new PropertySyncService(local, new HttpPropertyRepository(), () => authProvider.getCurrentUser()?.id);
+    repository = new SyncingPropertyRepository(local, sync);
+  }
+
+  // Legacy records predate ownership, so they are moved without the role checks
+  try {
+    await migrateLocalProperties(repository);
+  } catch (error) {
+    console.warn(`⚠️ Could not migrate local properties to ${repository.kind}:`, error);
+  }
+
+  const getActor = () => authProvider.getCurrentUser()?.name || DEFAULT_ACTOR;
+  repository = new AuthorizedPropertyRepository(repository, () => authProvider.getCurrentUser());
+  repository = new AuditedPropertyRepository(repository, createRevisionStore(), getActor);
+  activeSync = sync;
+
+  sync?.start();
+  console.log(`💾 Using ${repository.kind} property repository${sync ? ' with background sync' : ''}`);
+  return repository;
+};
+
+let repositoryPromise: Promise<PropertyRepository> | null = null;
+
+// Shared repository, resolved on first use
+export const getPropertyRepository = (): Promise<PropertyRepository> => {
+  if (!repositoryPromise) {
+    repositoryPromise = resolvePropertyRepository();
+  }
+  return repositoryPromise;
+};
+
+// Background sync behind the shared repository, if it has one
+export const getPropertySync = async (): Promise<PropertySyncService | null> => {
+  await getPropertyRepository();
+  return activeSync;
+};
+
+// Revisions recorded for a property by the shared repository, oldest first
+export const getPropertyHistory = async (propertyId: string): Promise<PropertyRevision[]> => {
+  const repository = await getPropertyRepository();
+  return repository instanceof AuditedPropertyRepository ? repository.getHistory(propertyId) : [];
+};
+
+// Deleted properties the shared repository can still restore from their history
+export const getDeletedProperties = async (): Promise<DeletedProperty[]> => {
+  const repository = await getPropertyRepository();
+  return repository instanceof AuditedPropertyRepository ? repository.getDeletedProperties() : [];
+};
@@ -0,0 +1,199 @@
+// Versioned schema for stored Property records: runtime validation, and the explicit
+// migrations that bring records written by older versions up to the current one
+import type { Property } from '../types';
+import { isValidPolygonalGeometry } from '../utils/geometry';
+import { isPropertyType, toPropertyType } from '../utils/propertyClassifier';
+
+// Bump together with a new entry in SCHEMA_MIGRATIONS
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type SchemaValidationResult =
+  | { ok: true; value: Property }
+  | { ok: false; errors: string[] };
+
+// A record that could not be read, and why
+export interface InvalidPropertyRecord {
+  // Position in the stored or imported array
+  index: number;
+  id?: string;
+  errors: string[];
+  record: unknown;
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const PROPERTY_STATUSES = ['pending', 'approved', 'rejected'];
+const REQUIRED_TEXT_FIELDS = ['id', 'address', 'city', 'state', 'zipCode', 'owner'] as const;
+const OPTIONAL_TEXT_FIELDS = [
+  'county', 'parcelId', 'propertySubtype', 'propertyTypeReason', 'description', 'submittedBy', 'reviewedBy', 'rejectionReason'
+] as const;
+const OPTIONAL_NUMBER_FIELDS = [
+  'acreage', 'assessedValue', 'landValue', 'improvementValue', 'squareFootage', 'bedrooms', 'bathrooms', 'yearBuilt'
+] as const;
+const OPTIONAL_DATE_FIELDS = ['submittedAt', 'reviewedAt'] as const;
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+/**
+ * Migration from version N to N + 1, keyed by N. Each one only reshapes fields;
+ * whatever it cannot repair is left for validation to report.
+ */
+export const SCHEMA_MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord> = {
+  // Version 0: unversioned records, including the looser shape BackendService used to
+  // write (price and notes instead of marketValue and description, free-text types, no owner)
+  0: ({ price, notes, ...record }) => ({
+    ...record,
+    marketValue: record.marketValue ?? price,
+    description: record.description ?? notes,
+    propertyType: typeof record.propertyType === 'string' ? toPropertyType(record.propertyType) : record.propertyType,
+    owner: record.owner ?? 'Unknown Owner'
+  }),
+  // Version 1 records were padded with placeholders on load; drop the ones that carry
+  // no information so missing data is reported instead of shown as real
+  1: record => {
+    const migrated = { ...record };
+    if (migrated.address === 'Unknown Address') delete migrated.address;
+    if (migrated.zipCode === '00000') delete migrated.zipCode;
+    if (migrated.description === '') delete migrated.description;
+    if (migrated.acreage === 0) delete migrated.acreage;
+    return migrated;
+  }
+};
+
+/**
+ * Bring one record from an older schema version to the current one
+ */
+export const migrateRecord = (record: unknown, fromVersion: number): unknown => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${fromVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`);
+  }
+  if (!isRecord(record)) return record;
+
+  let migrated = record;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    migrated = SCHEMA_MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+/**
+ * Check a record against the current schema. Only known fields are copied, so the
+ * value never carries stray data; nothing is filled in with defaults.
+ */
+export const validateProperty = (record: unknown): SchemaValidationResult => {
+  if (!isRecord(record)) {
+    return { ok: false, errors: ['Record must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const value: StoredRecord = {};
+
+  REQUIRED_TEXT_FIELDS.forEach(field => {
+    if (typeof record[field] === 'string' && record[field].trim()) {
+      value[field] = record[field];
+    } else {
+      errors.push(`${field} is required`);
+    }
+  });
+
+  if (typeof value.state === 'string' && !/^[A-Za-z]{2}$/.test(value.state)) {
+    errors.push('state must be a two-letter code');
+  }
+  if (typeof value.zipCode === 'string' && !/^\d{5}(-\d{4})?$/.test(value.zipCode)) {
+    errors.push('zipCode must be a 5-digit ZIP or ZIP+4');
+  }
+
+  if (isFiniteNumber(record.marketValue) && record.marketValue >= 0) {
+    value.marketValue = record.marketValue;
+  } else {
+    errors.push('marketValue must be a non-negative number');
+  }
+
+  if (isPropertyType(record.propertyType)) {
+    value.propertyType = record.propertyType;
+  } else {
+    errors.push(`propertyType ${JSON.stringify(record.propertyType)} is not a known property type`);
+  }
+
+  const coordinates = record.coordinates;
+  if (isRecord(coordinates) && isFiniteNumber(coordinates.lat) && isFiniteNumber(coordinates.lng) &&
+      Math.abs(coordinates.lat) <= 90 && Math.abs(coordinates.lng) <= 180) {
+    value.coordinates = { lat: coordinates.lat, lng: coordinates.lng };
+  } else {
+    errors.push('coordinates must have lat and lng within range');
+  }
+
+  OPTIONAL_TEXT_FIELDS.forEach(field => {
+    if (isMissing(record[field])) return;
+    if (typeof record[field] === 'string') {
+      value[field] = record[field];
+    } else {
+      errors.push(`${field} must be a string`);
+    }
+  });
+
+  OPTIONAL_NUMBER_FIELDS.forEach(field => {
+    if (isMissing(record[field])) return;
+    if (isFiniteNumber(record[field]) && record[field] >= 0) {
+      value[field] = record[field];
+    } else {
+      errors.push(`${field} must be a non-negative number`);
+    }
+  });
+
+  OPTIONAL_DATE_FIELDS.forEach(field => {
+    if (isMissing(record[field])) return;
+    if (typeof record[field] === 'string' && !Number.isNaN(Date.parse(record[field]))) {
+      value[field] = record[field];
+    } else {
+      errors.push(`${field} must be an ISO date`);
+    }
+  });
+
+  if (!isMissing(record.status)) {
+    if (PROPERTY_STATUSES.includes(record.status as string)) {
+      value.status = record.status;
+    } else {
+      errors.push(`status must be one of ${PROPERTY_STATUSES.join(', ')}`);
+    }
+  }
+
+  if (!isMissing(record.geometry)) {
+    if (isValidPolygonalGeometry(record.geometry as GeoJSON.Geometry)) {
+      value.geometry = record.geometry;
+    } else {
+      errors.push('geometry must be a GeoJSON Polygon or MultiPolygon');
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as unknown as Property };
+};
+
+/**
+ * Migrate and validate every record of a stored or imported array
+ */
+export const parsePropertyRecords = (
+  records: unknown[],
+  fromVersion: number
+): { properties: Property[]; invalid: InvalidPropertyRecord[] } => {
+  const properties: Property[] = [];
+  const invalid: InvalidPropertyRecord[] = [];
+
+  records.forEach((record, index) => {
+    const result = validateProperty(migrateRecord(record, fromVersion));
+    if (result.ok) {
+      properties.push(result.value);
+    } else {
+      const id = isRecord(record) && typeof record.id === 'string' ? record.id : undefined;
+      invalid.push({ index, id, errors: result.errors, record });
+    }
+  });
+
+  return { properties, invalid };
+};
@@ -1,7 +1,39 @@
 import type { Property } from '../types';
 import type { PropertySubmission } from '../components/FloatingPropertyForm';
+import type { PropertyRepository } from './propertyRepository';
+import {
+  CURRENT_SCHEMA_VERSION,
+  parsePropertyRecords,
+  type InvalidPropertyRecord
+} from './propertySchema';
+import { matchesSearchText } from './textSearch';
 
-const STORAGE_KEY = 'submitted_properties';
+export const STORAGE_KEY = 'submitted_properties';
+// Schema version of the stored records (see propertySchema.ts); older data is migrated on load
+const STORAGE_VERSION_KEY = 'submitted_properties_version';
+const INVALID_STORAGE_KEY = 'submitted_properties_invalid';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportReport {
+  success: boolean;
+  mode: ImportMode;
+  // Schema version the data was read as
+  schemaVersion: number;
+  total: number;
+  imported: number;
+  // Records that were skipped, with the reason for each
+  errors: InvalidPropertyRecord[];
+  // Set when the data could not be read at all
+  error?: string;
+}
+
+// File format written by exportProperties
+export interface PropertyExport {
+  schemaVersion: number;
+  exportedAt: string;
+  properties: Property[];
+}
 
 // Convert PropertySubmission to Property
 export const convertSubmissionToProperty = (submission: PropertySubmission): Property => {
@@ -13,40 +45,70 @@ export const convertSubmissionToProperty = (submission: PropertySubmission): Pro
     zipCode: submission.zipCode,
     marketValue: submission.price,
     propertyType: submission.propertyType as Property['propertyType'],
-    owner: 'User Submitted',
+    owner: submission.owner || 'User Submitted',
+    county: submission.county,
+    parcelId: submission.parcelId,
     coordinates: submission.coordinates,
-    // Additional fields from the new form
-    acreage: submission.acreage,
-    description: submission.description,
+    geometry: submission.geometry,
+    // Additional fields from the new form; bulk imports may leave them blank
+    acreage: submission.acreage || undefined,
+    description: submission.description || undefined,
     submittedAt: new Date().toISOString(),
     status: 'pending'
   };
 };
 
-// Load properties from localStorage
+const readStoredVersion = (): number => {
+  const stored = localStorage.getItem(STORAGE_VERSION_KEY);
+  // Builds before the version key wrote the unversioned (0) shape
+  return stored ? Number(stored) : 0;
+};
+
+// Keep records that fail validation aside rather than dropping them silently
+export const quarantineRecords = (records: InvalidPropertyRecord[]) => {
+  const quarantined = [...loadInvalidProperties(), ...records.map(record => ({ ...record, quarantinedAt: new Date().toISOString() }))];
+  localStorage.setItem(INVALID_STORAGE_KEY, JSON.stringify(quarantined));
+  console.warn(`⚠️ Set aside ${records.length} invalid stored properties under ${INVALID_STORAGE_KEY}`);
+};
+
+// Stored records that failed validation, with their errors
+export const loadInvalidProperties = (): (InvalidPropertyRecord & { quarantinedAt: string })[] => {
+  try {
+    const stored = localStorage.getItem(INVALID_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load properties from localStorage. Records from older schema versions are
+ * migrated and rewritten once; records that fail validation are quarantined.
+ */
 export const loadProperties = (): Property[] => {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      // Ensure all properties have the required fields
-      return parsed.map((property: any) => ({
-        id: property.id || `legacy-${Date.now()}`,
-        address: property.address || 'Unknown Address',
-        city: property.city || 'Austin',
-        state: property.state || 'TX',
-        zipCode: property.zipCode || '00000',
-        marketValue: property.marketValue || property.price || 0,
-        propertyType: property.propertyType || 'residential',
-        owner: property.owner || 'Unknown Owner',
-        coordinates: property.coordinates || { lat: 30.2672, lng: -97.7431 },
-        acreage: property.acreage || 0,
-        description: property.description || property.notes || '',
-        submittedAt: property.submittedAt || new Date().toISOString(),
-        status: property.status || 'pending'
-      }));
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      console.error(`Stored properties under ${STORAGE_KEY} are not an array; leaving them untouched`);
+      return [];
     }
-    return [];
+
+    const version = readStoredVersion();
+    const { properties, invalid } = parsePropertyRecords(parsed, version);
+
+    if (invalid.length > 0) {
+      quarantineRecords(invalid);
+    }
+    if (version !== CURRENT_SCHEMA_VERSION || invalid.length > 0) {
+      console.log(`🔄 Migrating ${properties.length} stored properties from schema version ${version} to ${CURRENT_SCHEMA_VERSION}`);
+      saveProperties(properties);
+    }
+
+    return properties;
   } catch (error) {
     console.error('Error loading properties from localStorage:', error);
     return [];
@@ -57,6 +119,7 @@ export const loadProperties = (): Property[] => {
 export const saveProperties = (properties: Property[]): void => {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(properties));
+    localStorage.setItem(STORAGE_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
   } catch (error) {
     console.error('Error saving properties to localStorage:', error);
   }
@@ -116,7 +179,7 @@ export const searchProperties = (query: {
   const properties = loadProperties();
   
   return properties.filter(property => {
-    if (query.address && !property.address.toLowerCase().includes(query.address.toLowerCase())) {
+    if (query.address && !matchesSearchText(query.address, [property.address, property.owner, property.parcelId])) {
       return false;
     }
     
@@ -161,24 +224,75 @@ export const getPropertyStatistics = () => {
   };
 };
 
-// Export properties as JSON
-export const exportProperties = (): string => {
-  const properties = loadProperties();
-  return JSON.stringify(properties, null, 2);
+// Export a repository's properties as JSON, tagged with their schema version
+export const exportProperties = async (repository: PropertyRepository): Promise<string> => {
+  const exported: PropertyExport = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    properties: await repository.list()
+  };
+  return JSON.stringify(exported, null, 2);
 };
 
-// Import properties from JSON
-export const importProperties = (jsonData: string): boolean => {
+// Write a record over any stored one with the same id, clearing fields it does not have
+const upsertProperty = async (repository: PropertyRepository, property: Property): Promise<void> => {
+  const existing = await repository.get(property.id);
+  if (existing) {
+    const cleared = Object.fromEntries(Object.keys(existing).map(field => [field, undefined]));
+    await repository.update(property.id, { ...cleared, ...property });
+  } else {
+    await repository.create(property);
+  }
+};
+
+/**
+ * Import properties exported by exportProperties, or a bare array as written by
+ * older builds, into a repository. Each record is migrated and validated; invalid
+ * ones are skipped and reported. 'replace' deletes every stored property that is
+ * not in the import, 'merge' keeps them; both overwrite stored properties with the same id.
+ */
+export const importProperties = async (
+  repository: PropertyRepository,
+  jsonData: string,
+  mode: ImportMode = 'replace'
+): Promise<ImportReport> => {
+  const report: ImportReport = { success: false, mode, schemaVersion: 0, total: 0, imported: 0, errors: [] };
+
   try {
-    const properties = JSON.parse(jsonData);
-    if (Array.isArray(properties)) {
-      saveProperties(properties);
-      return true;
+    const data = JSON.parse(jsonData);
+    const isExport = typeof data === 'object' && data !== null && Array.isArray(data.properties);
+    const records: unknown = isExport ? data.properties : data;
+
+    if (!Array.isArray(records)) {
+      return { ...report, error: 'Expected an array of properties or an export file' };
+    }
+
+    report.schemaVersion = isExport && Number.isInteger(data.schemaVersion) ? data.schemaVersion : 0;
+    report.total = records.length;
+
+    const { properties, invalid } = parsePropertyRecords(records, report.schemaVersion);
+    report.errors = invalid;
+
+    // Never wipe storage with an import where nothing was readable
+    if (properties.length === 0 && records.length > 0) {
+      return { ...report, error: 'No valid properties to import' };
     }
-    return false;
+
+    if (mode === 'replace') {
+      const importedIds = new Set(properties.map(property => property.id));
+      for (const stored of await repository.list()) {
+        if (!importedIds.has(stored.id)) await repository.delete(stored.id);
+      }
+    }
+    for (const property of properties) {
+      await upsertProperty(repository, property);
+    }
+
+    console.log(`📥 Imported ${properties.length} of ${records.length} properties (${mode})${invalid.length > 0 ? `, ${invalid.length} invalid` : ''}`);
+    return { ...report, success: true, imported: properties.length };
   } catch (error) {
     console.error('Error importing properties:', error);
-    return false;
+    return { ...report, error: (error as Error).message || 'Could not read the import data' };
   }
 };
 
@@ -0,0 +1,401 @@
+// Offline-first sync: changes are written to the local repository straight away
+// and queued in the outbox, then replayed against the API server whenever it is reachable
+import type { Property } from '../types';
+import type { PropertyRepository } from './propertyRepository';
+import { PropertyApiError } from './propertyApi';
+import {
+  enqueueOperation,
+  getRetryDelay,
+  getSyncStatuses,
+  loadKnownRemoteIds,
+  loadOutbox,
+  removeOperations,
+  saveKnownRemoteIds,
+  updateOperation,
+  type NewOutboxOperation,
+  type OutboxConflict,
+  type OutboxOperation,
+  type PropertySyncStatus
+} from './propertyOutbox';
+
+export interface RemotePropertyRepository extends PropertyRepository {
+  isAvailable(): Promise<boolean>;
+  asUser(userId: string): RemotePropertyRepository;
+}
+
+export interface PropertySyncChange {
+  statuses: Record<string, PropertySyncStatus>;
+  // True when a pull from the server changed the local records
+  propertiesChanged: boolean;
+}
+
+// keepLocal re-sends the local change over the server's copy; keepRemote discards it
+export type ConflictResolution = 'keepLocal' | 'keepRemote';
+
+type ReplayOutcome = { conflict?: Omit<OutboxConflict, 'detectedAt'> };
+
+// Fields a moderation decision writes; a change to only these is queued as a status change
+const STATUS_FIELDS = new Set(['status', 'reviewedBy', 'reviewedAt', 'rejectionReason']);
+
+// Review details the server stamps from the signed-in user when it stores a reviewed record
+const SERVER_STAMPED_FIELDS = new Set(['reviewedBy', 'reviewedAt']);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// The server owns a record's identity and submission time
+const withoutIdentity = (property: Partial<Property>): Partial<Property> =>
+  Object.fromEntries(Object.entries(property).filter(([field]) => field !== 'id' && field !== 'submittedAt'));
+
+// Fields whose values differ between two copies of a record
+const getChangedFields = (a: Property, b: Property): string[] => {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(fields).filter(field =>
+    !sameValue(a[field as keyof Property], b[field as keyof Property])
+  );
+};
+
+// First operation that can be replayed; later operations on a conflicted record wait for it to be resolved
+const getNextOperation = (operations: OutboxOperation[], replayed: Set<string>): OutboxOperation | undefined => {
+  const blocked = new Set<string>();
+  for (const operation of operations) {
+    if (operation.conflict) {
+      blocked.add(operation.propertyId);
+    } else if (!blocked.has(operation.propertyId) && !replayed.has(operation.id)) {
+      return operation;
+    }
+  }
+  return undefined;
+};
+
+export class PropertySyncService {
+  private readonly local: PropertyRepository;
+  private readonly remote: RemotePropertyRepository;
+  private readonly getUserId: () => string | undefined;
+  private readonly listeners = new Set<(change: PropertySyncChange) => void>();
+  private running: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthFailures = 0;
+  private syncingPropertyId: string | null = null;
+  private started = false;
+
+  constructor(local: PropertyRepository, remote: RemotePropertyRepository, getUserId: () => string | undefined = () => undefined) {
+    this.local = local;
+    this.remote = remote;
+    this.getUserId = getUserId;
+  }
+
+  // Begin background syncing: now, after each queued change, and whenever the browser comes back online
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => this.schedule(0));
+    this.schedule(0);
+  }
+
+  subscribe(listener: (change: PropertySyncChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getStatuses(): Record<string, PropertySyncStatus> {
+    return getSyncStatuses(loadOutbox(), this.syncingPropertyId);
+  }
+
+  enqueue(operation: NewOutboxOperation): void {
+    enqueueOperation({ ...operation, queuedBy: this.getUserId() });
+    this.notify();
+    this.schedule(0);
+  }
+
+  /**
+   * Replay queued operations in order, then pull the server's records into the
+   * local repository. Concurrent calls share one run.
+   */
+  syncNow(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async resolveConflict(propertyId: string, resolution: ConflictResolution): Promise<void> {
+    const operations = loadOutbox().filter(operation => operation.propertyId === propertyId);
+    const conflicted = operations.find(operation => operation.conflict);
+    if (!conflicted?.conflict) return;
+
+    const { remote } = conflicted.conflict;
+
+    if (resolution === 'keepRemote') {
+      removeOperations(operation => operation.propertyId === propertyId);
+      if (remote) {
+        await this.local.create(remote);
+      } else {
+        await this.local.delete(propertyId);
+      }
+      console.log(`↩️ Discarded local changes to ${propertyId} in favour of the server copy`);
+    } else {
+      // Rebase the local change on the server's copy so the next replay goes through
+      const local = await this.local.get(propertyId);
+      if (!remote && !local) {
+        removeOperations(operation => operation.propertyId === propertyId);
+      } else {
+        const rebased: Partial<OutboxOperation> = !remote
+          ? { type: 'create', property: local || conflicted.property, changes: undefined }
+          : conflicted.type === 'create'
+            ? { type: 'update', changes: withoutIdentity(local || conflicted.property || {}), property: undefined }
+            : {};
+        // Re-sending is a new change by whoever resolved the conflict
+        updateOperation(conflicted.id, {
+          ...rebased,
+          base: remote,
+          queuedBy: this.getUserId(),
+          conflict: undefined,
+          attempts: 0,
+          lastError: undefined,
+          nextAttemptAt: undefined
+        });
+      }
+      console.log(`⤴️ Re-sending local changes to ${propertyId} over the server copy`);
+    }
+
+    this.notify(true);
+    this.schedule(0);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.started) return;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.syncNow();
+    }, delay);
+  }
+
+  private notify(propertiesChanged = false): void {
+    const change = { statuses: this.getStatuses(), propertiesChanged };
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  private async run(): Promise<void> {
+    if (!(await this.remote.isAvailable())) {
+      this.healthFailures++;
+      this.schedule(getRetryDelay(this.healthFailures));
+      return;
+    }
+    this.healthFailures = 0;
+
+    // Re-read the outbox each time so changes queued during the run are sent too
+    const replayed = new Set<string>();
+
+    for (;;) {
+      const operation = getNextOperation(loadOutbox(), replayed);
+      if (!operation) break;
+      replayed.add(operation.id);
+
+      const waitMs = operation.nextAttemptAt ? Date.parse(operation.nextAttemptAt) - Date.now() : 0;
+      if (waitMs > 0) {
+        this.schedule(waitMs);
+        return;
+      }
+
+      this.syncingPropertyId = operation.propertyId;
+      this.notify();
+
+      try {
+        const outcome = await this.replay(operation);
+        if (outcome.conflict) {
+          console.warn(`⚠️ Sync conflict on ${operation.propertyId}: ${outcome.conflict.reason}`);
+          updateOperation(operation.id, { conflict: { ...outcome.conflict, detectedAt: new Date().toISOString() } });
+        } else {
+          removeOperations(queued => queued.id === operation.id);
+        }
+      } catch (error) {
+        // Network and server errors are retried with backoff, keeping the queue in order
+        const attempts = operation.attempts + 1;
+        const delay = getRetryDelay(attempts);
+        console.warn(`⚠️ Sync of ${operation.type} ${operation.propertyId} failed, retrying in ${delay / 1000}s:`, error);
+        updateOperation(operation.id, {
+          attempts,
+          lastError: (error as Error).message || 'Sync failed',
+          nextAttemptAt: new Date(Date.now() + delay).toISOString()
+        });
+        this.schedule(delay);
+        return;
+      } finally {
+        this.syncingPropertyId = null;
+        this.notify();
+      }
+    }
+
+    try {
+      await this.pull();
+    } catch (error) {
+      console.warn('⚠️ Could not pull properties from the server:', error);
+      this.schedule(getRetryDelay(1));
+    }
+  }
+
+  private async replay(operation: OutboxOperation): Promise<ReplayOutcome> {
+    // Changes queued before queuedBy was recorded go out as the signed-in user
+    const remote = operation.queuedBy ? this.remote.asUser(operation.queuedBy) : this.remote;
+
+    try {
+      switch (operation.type) {
+        case 'create':
+          return await this.replayCreate(operation, remote);
+        case 'update':
+        case 'status':
+          return await this.replayUpdate(operation, remote);
+        case 'delete':
+          return await this.replayDelete(operation, remote);
+      }
+    } catch (error) {
+      // The server refused the change itself (validation, permissions); retrying will not help
+      if (error instanceof PropertyApiError && error.status >= 400 && error.status < 500) {
+        const current = await this.remote.get(operation.propertyId);
+        return { conflict: { remote: current, reason: `Rejected by the server: ${error.message}` } };
+      }
+      throw error;
+    }
+  }
+
+  private async replayCreate(operation: OutboxOperation, remote: RemotePropertyRepository): Promise<ReplayOutcome> {
+    const property = operation.property;
+    if (!property) return {};
+
+    const existing = await remote.get(property.id);
+    if (existing) {
+      // An earlier attempt may have reached the server before its response was lost
+      const differences = getChangedFields(existing, property).filter(field => !SERVER_STAMPED_FIELDS.has(field));
+      return differences.length === 0
+        ? {}
+        : { conflict: { remote: existing, reason: 'A different record with this id already exists on the server' } };
+    }
+
+    await remote.create(property);
+    return {};
+  }
+
+  private async replayUpdate(operation: OutboxOperation, remote: RemotePropertyRepository): Promise<ReplayOutcome> {
+    const changes = operation.changes || {};
+    const current = await remote.get(operation.propertyId);
+    if (!current) {
+      return { conflict: { remote: null, reason: 'The property was deleted on the server' } };
+    }
+
+    // Someone else changed a field we are about to overwrite
+    const base = operation.base;
+    const overwritten = Object.keys(changes).filter(field => {
+      const key = field as keyof Property;
+      return base && !sameValue(current[key], base[key]) && !sameValue(current[key], changes[key]);
+    });
+    if (overwritten.length > 0) {
+      return { conflict: { remote: current, reason: `Changed on the server: ${overwritten.join(', ')}` } };
+    }
+
+    const updated = await remote.update(operation.propertyId, changes);
+    return updated ? {} : { conflict: { remote: null, reason: 'The property was deleted on the server' } };
+  }
+
+  private async replayDelete(operation: OutboxOperation, remote: RemotePropertyRepository): Promise<ReplayOutcome> {
+    const current = await remote.get(operation.propertyId);
+    if (!current) return {};
+
+    if (operation.base && getChangedFields(current, operation.base).length > 0) {
+      return { conflict: { remote: current, reason: 'The property was edited on the server after it was deleted here' } };
+    }
+
+    await remote.delete(operation.propertyId);
+    return {};
+  }
+
+  // Bring server-side changes into the local repository, leaving records with queued changes alone
+  private async pull(): Promise<void> {
+    const remoteProperties = await this.remote.list();
+    const remoteIds = new Set(remoteProperties.map(property => property.id));
+    const queuedIds = new Set(loadOutbox().map(operation => operation.propertyId));
+    const knownRemoteIds = loadKnownRemoteIds();
+    let propertiesChanged = false;
+    let queuedLocal = false;
+
+    for (const remote of remoteProperties) {
+      if (queuedIds.has(remote.id)) continue;
+
+      const local = await this.local.get(remote.id);
+      if (!local || getChangedFields(local, remote).length > 0) {
+        await this.local.create(remote);
+        propertiesChanged = true;
+      }
+    }
+
+    for (const local of await this.local.list()) {
+      if (remoteIds.has(local.id) || queuedIds.has(local.id)) continue;
+
+      if (knownRemoteIds.has(local.id)) {
+        // It was on the server before, so it has been deleted there
+        await this.local.delete(local.id);
+        propertiesChanged = true;
+      } else {
+        // Saved locally before the outbox existed and never sent
+        enqueueOperation({ type: 'create', propertyId: local.id, property: local });
+        queuedLocal = true;
+      }
+    }
+
+    saveKnownRemoteIds(remoteIds);
+    this.notify(propertiesChanged);
+    if (queuedLocal) this.schedule(0);
+  }
+}
+
+/**
+ * Repository that reads and writes a local repository and queues every change
+ * for the server, so submissions work the same online and offline
+ */
+export class SyncingPropertyRepository implements PropertyRepository {
+  readonly kind: PropertyRepository['kind'];
+  readonly sync: PropertySyncService;
+  private readonly local: PropertyRepository;
+
+  constructor(local: PropertyRepository, sync: PropertySyncService) {
+    this.kind = local.kind;
+    this.local = local;
+    this.sync = sync;
+  }
+
+  async list(): Promise<Property[]> {
+    return this.local.list();
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return this.local.get(id);
+  }
+
+  async create(property: Property): Promise<Property> {
+    const created = await this.local.create(property);
+    this.sync.enqueue({ type: 'create', propertyId: created.id, property: created });
+    return created;
+  }
+
+  async update(id: string, updates: Partial<Property>): Promise<Property | null> {
+    const before = await this.local.get(id);
+    const updated = await this.local.update(id, updates);
+    if (!updated) return null;
+
+    const changes = withoutIdentity(updates);
+    const type = Object.keys(changes).every(field => STATUS_FIELDS.has(field)) ? 'status' : 'update';
+    this.sync.enqueue({ type, propertyId: id, changes, base: before });
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = await this.local.get(id);
+    const deleted = await this.local.delete(id);
+    if (deleted) {
+      this.sync.enqueue({ type: 'delete', propertyId: id, base: before });
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,278 @@
+// One search over every dataset the app holds: submitted properties, county
+// parcels, address points and building footprints. Each record is indexed as a
+// Property tagged with its source, so the same filters apply to all of them.
+import type {
+  BuildingFootprint,
+  PolygonalGeometry,
+  Property,
+  PropertySearchResult,
+  SearchFilters,
+  SearchResultItem,
+  SearchSource,
+  SpatialFilter,
+  TravisCountyParcel
+} from '../types';
+import type { AddressPoint } from './comprehensiveDataLoader';
+import { getParcelKey } from './parcelJoin';
+import { convertToProperty } from '../utils/shapefileProcessor';
+import { calculateGeodesicArea } from '../utils/geometry';
+import { toPropertyType } from '../utils/propertyClassifier';
+import { convexHull, getSpatialFilterGeometry, matchesSpatialFilter } from '../utils/spatialFilter';
+import { TextSearchIndex, matchesSearchText } from './textSearch';
+
+export const SEARCH_SOURCES: { value: SearchSource; label: string }[] = [
+  { value: 'submission', label: 'Submissions' },
+  { value: 'parcel', label: 'Parcels' },
+  { value: 'address', label: 'Addresses' },
+  { value: 'building', label: 'Buildings' }
+];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+
+const SQUARE_FEET_PER_SQUARE_METER = 10.7639;
+
+export interface SearchDatasets {
+  parcels?: TravisCountyParcel[];
+  addresses?: AddressPoint[];
+  buildings?: BuildingFootprint[];
+}
+
+// Text fields the address filter searches, in index field order
+export type SearchTextField = 'address' | 'owner' | 'parcelId';
+
+export interface SearchSuggestion {
+  // Text of the field that matched, e.g. the address or the owner's name
+  label: string;
+  field: SearchTextField;
+  source: SearchSource;
+  property: Property;
+  score: number;
+}
+
+const TEXT_FIELDS: SearchTextField[] = ['address', 'owner', 'parcelId'];
+// Owner matches rank just below address and id matches of the same quality
+const TEXT_FIELD_WEIGHTS = [1, 0.9, 1];
+
+const getTextFields = (property: Property) => [property.address, property.owner, property.parcelId];
+
+interface Range {
+  min?: number;
+  max?: number;
+}
+
+// Filters use 0 or undefined for "any", as the filter form does
+const isSet = (value: number | undefined): value is number => !!value;
+
+const inRange = (value: number | undefined, { min, max }: Range) => {
+  if (!isSet(min) && !isSet(max)) return true;
+  // A record without the value cannot satisfy a range on it
+  if (value === undefined || value === null) return false;
+  return (!isSet(min) || value >= min) && (!isSet(max) || value <= max);
+};
+
+const sameText = (value: string | undefined, filter: string) =>
+  (value || '').trim().toLowerCase() === filter.trim().toLowerCase();
+
+/**
+ * Whether a property satisfies every filter that is set. Text filters ignore
+ * case; the address filter also searches owner and parcel id, tolerating typos
+ * and abbreviations. Bedrooms and bathrooms are minimums. A spatial filter
+ * limits matches to an area.
+ */
+export const matchesSearchFilters = (property: Property, filters: SearchFilters): boolean => {
+  if (filters.address?.trim() && !matchesSearchText(filters.address, getTextFields(property))) return false;
+  if (filters.propertyType && property.propertyType !== filters.propertyType) return false;
+  if (filters.city?.trim() && !sameText(property.city, filters.city)) return false;
+  if (filters.state?.trim() && !sameText(property.state, filters.state)) return false;
+  if (filters.spatial && !matchesSpatialFilter(property, filters.spatial)) return false;
+
+  return inRange(property.marketValue, { min: filters.minPrice, max: filters.maxPrice }) &&
+    inRange(property.yearBuilt, { min: filters.minYearBuilt, max: filters.maxYearBuilt }) &&
+    inRange(property.squareFootage, { min: filters.minSquareFootage, max: filters.maxSquareFootage }) &&
+    inRange(property.bedrooms, { min: filters.bedrooms }) &&
+    inRange(property.bathrooms, { min: filters.bathrooms });
+};
+
+// Parcel attributes that address points and buildings inherit from the parcel they sit on
+const inheritFromParcel = (parcel: TravisCountyParcel | undefined): Partial<Property> => parcel ? {
+  parcelId: parcel.PROP_ID,
+  owner: parcel.OWNER_NAME,
+  marketValue: parcel.TOTAL_VAL,
+  assessedValue: parcel.TOTAL_VAL,
+  yearBuilt: parcel.YEAR_BUILT,
+  propertyType: toPropertyType(parcel.PROP_TYPE),
+  propertySubtype: parcel.PROP_SUBTYPE
+} : {};
+
+export const addressPointToProperty = (point: AddressPoint, parcel?: TravisCountyParcel): Property => ({
+  id: `address-${point.id}`,
+  address: point.address,
+  city: point.city,
+  state: point.state,
+  zipCode: point.zip,
+  county: point.county,
+  parcelId: point.parcelId,
+  marketValue: 0,
+  ...inheritFromParcel(parcel),
+  coordinates: point.coordinates
+});
+
+export const buildingToProperty = (building: BuildingFootprint, parcel?: TravisCountyParcel): Property => ({
+  id: `building-${building.id}`,
+  address: parcel?.SITE_ADDR || `Building ${building.id}`,
+  city: parcel?.CITY || '',
+  state: parcel?.STATE || '',
+  zipCode: parcel?.ZIP || '',
+  county: parcel?.COUNTY,
+  parcelId: building.parcelId,
+  marketValue: 0,
+  propertyType: toPropertyType(building.properties.building),
+  ...inheritFromParcel(parcel),
+  squareFootage: Math.round(calculateGeodesicArea(building.geometry) * SQUARE_FEET_PER_SQUARE_METER),
+  coordinates: building.coordinates,
+  geometry: building.geometry
+});
+
+// Records ordered by source, then by how well the address filter matches
+const SOURCE_ORDER: Record<SearchSource, number> = { submission: 0, parcel: 1, address: 2, building: 3 };
+
+const buildTextIndex = (items: SearchResultItem[]): TextSearchIndex<SearchResultItem> => {
+  const index = new TextSearchIndex<SearchResultItem>(TEXT_FIELD_WEIGHTS);
+  items.forEach(item => index.add(item, getTextFields(item.property)));
+  return index;
+};
+
+export class PropertySearchService {
+  private submissions: SearchResultItem[] = [];
+  private datasets: SearchResultItem[] = [];
+  // Kept apart so replacing submissions does not re-index the county datasets
+  private submissionText = new TextSearchIndex<SearchResultItem>(TEXT_FIELD_WEIGHTS);
+  private datasetText = new TextSearchIndex<SearchResultItem>(TEXT_FIELD_WEIGHTS);
+
+  get size(): number {
+    return this.submissions.length + this.datasets.length;
+  }
+
+  /**
+   * Replace the submitted properties; cheap, so call it whenever they change
+   */
+  setSubmissions(properties: Property[]): void {
+    this.submissions = properties.map(property => ({ source: 'submission', property }));
+    this.submissionText = buildTextIndex(this.submissions);
+  }
+
+  /**
+   * Replace the county datasets. Address points and buildings pick up owner, value
+   * and type from the parcel the spatial join placed them on.
+   */
+  setDatasets({ parcels = [], addresses = [], buildings = [] }: SearchDatasets): void {
+    const parcelsByKey: Record<string, TravisCountyParcel> = {};
+    parcels.forEach(parcel => {
+      parcelsByKey[getParcelKey(parcel.PROP_ID, parcel.COUNTY)] = parcel;
+      parcelsByKey[parcel.PROP_ID] ??= parcel;
+    });
+    const findParcel = (parcelId: string | undefined, county?: string) =>
+      parcelId ? parcelsByKey[getParcelKey(parcelId, county)] || parcelsByKey[parcelId] : undefined;
+
+    this.datasets = [
+      ...parcels.map(parcel => ({ source: 'parcel' as const, property: convertToProperty(parcel) })),
+      ...addresses.map(point => ({ source: 'address' as const, property: addressPointToProperty(point, findParcel(point.parcelId, point.county)) })),
+      ...buildings.map(building => ({ source: 'building' as const, property: buildingToProperty(building, findParcel(building.parcelId, building.county)) }))
+    ];
+    this.datasetText = buildTextIndex(this.datasets);
+
+    console.log(`🔎 Search index: ${parcels.length} parcels, ${addresses.length} addresses, ${buildings.length} buildings`);
+  }
+
+  /**
+   * Indexed record by id, e.g. a parcel's PROP_ID or 'address-<id>'
+   */
+  get(id: string): SearchResultItem | null {
+    return this.submissions.find(item => item.property.id === id) || this.datasets.find(item => item.property.id === id) || null;
+  }
+
+  /**
+   * All matches, ordered by source and, with an address filter, by text match quality within a source
+   */
+  findAll(filters: SearchFilters = {}): SearchResultItem[] {
+    const sources = filters.sources?.length ? filters.sources : SEARCH_SOURCES.map(source => source.value);
+    const query = filters.address?.trim();
+
+    if (!query) {
+      return [...this.submissions, ...this.datasets]
+        .filter(item => sources.includes(item.source) && matchesSearchFilters(item.property, filters));
+    }
+
+    // The text indexes already applied the address filter
+    const otherFilters = { ...filters, address: undefined };
+    return [...this.submissionText.search(query), ...this.datasetText.search(query)]
+      .filter(({ item }) => sources.includes(item.source) && matchesSearchFilters(item.property, otherFilters))
+      .map((hit, index) => ({ ...hit, index }))
+      .sort((a, b) => SOURCE_ORDER[a.item.source] - SOURCE_ORDER[b.item.source] || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Autocomplete for the address filter: the best matching addresses, owner names
+   * and parcel ids across the given sources, each label listed once
+   */
+  suggest(query: string, limit: number = DEFAULT_SUGGESTION_LIMIT, sources?: SearchSource[]): SearchSuggestion[] {
+    const allowed = sources?.length ? sources : SEARCH_SOURCES.map(source => source.value);
+    const hits = [...this.submissionText.search(query), ...this.datasetText.search(query)]
+      .filter(({ item }) => allowed.includes(item.source))
+      .sort((a, b) => b.score - a.score || SOURCE_ORDER[a.item.source] - SOURCE_ORDER[b.item.source]);
+
+    const seen = new Set<string>();
+    const suggestions: SearchSuggestion[] = [];
+    for (const { item, score, field } of hits) {
+      const textField = TEXT_FIELDS[field];
+      const label = item.property[textField]?.trim();
+      const key = `${textField}:${label?.toUpperCase()}`;
+      if (!label || seen.has(key)) continue;
+
+      seen.add(key);
+      suggestions.push({ label, field: textField, source: item.source, property: item.property, score });
+      if (suggestions.length >= limit) break;
+    }
+    return suggestions;
+  }
+
+  /**
+   * Outline of a spatial filter's area for the map. Without ZIP boundaries, a ZIP
+   * code is outlined by the convex hull of the indexed records in it.
+   */
+  getQueryGeometry(filter: SpatialFilter): PolygonalGeometry | null {
+    if (filter.type !== 'zip') return getSpatialFilterGeometry(filter);
+
+    return convexHull([...this.submissions, ...this.datasets]
+      .filter(item => matchesSpatialFilter(item.property, filter))
+      .map(item => item.property.coordinates));
+  }
+
+  /**
+   * One page of matches (pages start at 1) with per-source totals
+   */
+  search(filters: SearchFilters = {}, page: number = 1, pageSize: number = DEFAULT_PAGE_SIZE): PropertySearchResult {
+    const matches = this.findAll(filters);
+    const size = Math.max(1, Math.floor(pageSize));
+    const current = Math.max(1, Math.floor(page));
+    const results = matches.slice((current - 1) * size, current * size);
+
+    const totalsBySource: Partial<Record<SearchSource, number>> = {};
+    matches.forEach(item => {
+      totalsBySource[item.source] = (totalsBySource[item.source] || 0) + 1;
+    });
+
+    return {
+      properties: results.map(item => item.property),
+      results,
+      total: matches.length,
+      page: current,
+      pageSize: size,
+      totalsBySource
+    };
+  }
+}
+
+export const propertySearch = new PropertySearchService();
@@ -1,75 +1,54 @@
-import * as shapefile from 'shapefile';
 import type { TravisCountyParcel } from '../types';
+import { streamShapefile, type ShapefileLoadProgress } from './shapefileStreamLoader';
+import { DEFAULT_COUNTY_FIPS, getCounty, getCountyDataset } from './countyRegistry';
+import { isPolygonalGeometry } from '../utils/geometry';
+import { detectFieldMappingProfile, mapParcelAttributes, STRATMAP_2024_PROFILE, type FieldMappingProfile } from '../utils/fieldMapping';
 
-export const loadTravisCountyShapefile = async (): Promise<TravisCountyParcel[]> => {
-  console.log('Loading Travis County shapefile...');
+export const loadTravisCountyShapefile = (
+  onProgress?: (progress: ShapefileLoadProgress) => void
+): Promise<TravisCountyParcel[]> => loadCountyShapefile(DEFAULT_COUNTY_FIPS, onProgress);
+
+export const loadCountyShapefile = async (
+  fips: string,
+  onProgress?: (progress: ShapefileLoadProgress) => void,
+  year?: number
+): Promise<TravisCountyParcel[]> => {
+  const county = getCounty(fips);
+  const dataset = getCountyDataset(fips, year);
+  
+  if (!county || !dataset?.parcels) {
+    console.warn(`⚠️ No parcel dataset registered for county ${fips}`);
+    return [];
+  }
+  
+  console.log(`Loading ${county.name} County shapefile (${dataset.year})...`);
   
   try {
-    // Load the shapefile from the public directory
-    const response = await fetch('/data/stratmap24-landparcels_48453_travis_202404.shp');
-    const shpBuffer = await response.arrayBuffer();
-    
-    // Load the DBF file for attributes
-    const dbfResponse = await fetch('/data/stratmap24-landparcels_48453_travis_202404.dbf');
-    const dbfBuffer = await dbfResponse.arrayBuffer();
-    
-    console.log('Shapefile and DBF loaded, parsing...');
-    
-    // Parse the shapefile
-    const source = await shapefile.open(shpBuffer, dbfBuffer);
     const parcels: TravisCountyParcel[] = [];
+    let profile: FieldMappingProfile | null = null;
     
-    let result;
-    let index = 0;
-    
-    while ((result = await source.read()) && !result.done) {
-      const { value } = result;
-      
-      if (value && value.geometry && value.properties) {
-        // Debug: Log the first few properties to see what fields are available
-        if (index === 0) {
-          console.log('First parcel properties:', value.properties);
+    // Stream every record from the shapefile and its DBF attributes
+    await streamShapefile(
+      dataset.parcels.shp,
+      dataset.parcels.dbf,
+      (value, index) => {
+        if (!value || !value.properties || !isPolygonalGeometry(value.geometry)) return;
+        
+        // Pick the attribute mapping from the first record's columns
+        if (!profile) {
           console.log('Available fields:', Object.keys(value.properties));
+          profile = detectFieldMappingProfile(Object.keys(value.properties)) || STRATMAP_2024_PROFILE;
+          console.log(`Mapping parcel attributes with the ${profile.name} profile`);
         }
         
-        // Extract properties from the DBF file
-        const props = value.properties;
-        
-        // Build address from components
-        const streetNum = props.SITUS_NUM || '';
-        const streetName = props.SITUS_STRE || props.SITUS_ST_1 || '';
-        const streetAddr = props.SITUS_ADDR || '';
-        const fullAddress = [streetNum, streetName, streetAddr].filter(Boolean).join(' ') || 'Unknown Address';
-        
-        const parcel: TravisCountyParcel = {
-          OBJECTID: index + 1,
-          PROP_ID: props.Prop_ID || props.PROP_ID || `PARCEL-${index}`,
-          SITE_ADDR: fullAddress,
-          CITY: props.SITUS_CITY || props.CITY || 'Austin',
-          STATE: props.SITUS_STAT || props.STATE || 'TX',
-          ZIP: props.SITUS_ZIP || props.ZIP || '00000',
-          OWNER_NAME: props.OWNER_NAME || props.NAME_CARE || 'Unknown Owner',
-          TOTAL_VAL: parseFloat(props.MKT_VALUE || props.MARKET_VALUE || props.TOTAL_VAL || props.VALUE || '0') || 0,
-          LAND_VAL: parseFloat(props.LAND_VALUE || props.LAND_VAL || '0') || 0,
-          IMP_VAL: parseFloat(props.IMP_VALUE || props.IMP_VAL || '0') || 0,
-          YEAR_BUILT: parseInt(props.YEAR_BUILT || props.YEAR || '0') || undefined,
-          SQ_FT: parseFloat(props.GIS_AREA || props.AREA || props.SQ_FT || '0') || 0,
-          BEDROOMS: parseInt(props.BEDROOMS || props.BEDS || '0') || undefined,
-          BATHROOMS: parseFloat(props.BATHROOMS || props.BATHS || '0') || undefined,
-          PROP_TYPE: determinePropertyType(props),
-          geometry: value.geometry as GeoJSON.Polygon
-        };
-        
-        parcels.push(parcel);
-        index++;
-        
-        // Limit to first 1000 parcels for performance (can be adjusted)
-        if (index >= 1000) {
-          console.log('Reached 1000 parcels, stopping for performance');
-          break;
-        }
-      }
-    }
+        parcels.push({
+          ...mapParcelAttributes(value.properties, profile, index),
+          COUNTY: county.name,
+          geometry: value.geometry
+        });
+      },
+      { onProgress }
+    );
     
     console.log(`Successfully loaded ${parcels.length} parcels from shapefile`);
     
@@ -82,40 +61,15 @@ export const loadTravisCountyShapefile = async (): Promise<TravisCountyParcel[]>
     return parcels;
     
   } catch (error) {
-    console.error('Error loading shapefile:', error);
+    console.error(`Error loading ${county.name} County shapefile:`, error);
     
-    // Fallback to mock data if shapefile loading fails
+    // Fallback to mock data if shapefile loading fails (mock parcels are in Travis County)
+    if (county.fips !== DEFAULT_COUNTY_FIPS) return [];
     console.log('Falling back to mock data...');
     return getMockTravisCountyData();
   }
 };
 
-// Helper function to determine property type based on available data
-const determinePropertyType = (props: any): string => {
-  // Check if there are any clues in the data about property type
-  const landValue = parseFloat(props.LAND_VALUE || '0');
-  const impValue = parseFloat(props.IMP_VALUE || '0');
-  const totalValue = parseFloat(props.MKT_VALUE || '0');
-  
-  // If improvement value is very low compared to land value, likely vacant
-  if (impValue < landValue * 0.1 && totalValue < 50000) {
-    return 'vacant';
-  }
-  
-  // If high improvement value, likely residential or commercial
-  if (impValue > landValue * 2) {
-    return 'residential';
-  }
-  
-  // If very high total value, likely commercial
-  if (totalValue > 1000000) {
-    return 'commercial';
-  }
-  
-  // Default to residential
-  return 'residential';
-};
-
 // Fallback mock data
 const getMockTravisCountyData = (): TravisCountyParcel[] => [
   {
@@ -134,6 +88,7 @@ const getMockTravisCountyData = (): TravisCountyParcel[] => [
     BEDROOMS: 3,
     BATHROOMS: 2.5,
     PROP_TYPE: 'residential',
+    COUNTY: 'Travis',
     geometry: {
       type: 'Polygon',
       coordinates: [[
@@ -161,6 +116,7 @@ const getMockTravisCountyData = (): TravisCountyParcel[] => [
     BEDROOMS: 2,
     BATHROOMS: 2,
     PROP_TYPE: 'residential',
+    COUNTY: 'Travis',
     geometry: {
       type: 'Polygon',
       coordinates: [[
@@ -0,0 +1,130 @@
+import * as shapefile from 'shapefile';
+import { parsePrj, toWGS84Geometry, type ProjectionDefinition } from '../utils/projection';
+
+export interface ShapefileLoadProgress {
+  recordsRead: number;
+  bytesRead: number;
+  totalBytes?: number;
+  percent?: number;
+  done: boolean;
+}
+
+export interface StreamShapefileOptions {
+  // Number of records to read before reporting progress and yielding to the UI
+  chunkSize?: number;
+  encoding?: string;
+  onProgress?: (progress: ShapefileLoadProgress) => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 5000;
+
+// Wrap a response body so we can count how many bytes have been consumed
+const countBytes = (response: Response, onChunk: (byteLength: number) => void): ReadableStream<Uint8Array> | Promise<ArrayBuffer> => {
+  if (!response.body || typeof TransformStream === 'undefined') {
+    return response.arrayBuffer();
+  }
+
+  return response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onChunk(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  }));
+};
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Fetch and parse the .prj sidecar of a shapefile.
+ * Resolves with null when there is no .prj; throws when its projection is unsupported.
+ */
+export const loadShapefileProjection = async (shpUrl: string): Promise<ProjectionDefinition | null> => {
+  const prjUrl = shpUrl.replace(/\.shp$/i, '.prj');
+
+  let wkt = '';
+  try {
+    const response = await fetch(prjUrl);
+    wkt = response.ok ? await response.text() : '';
+  } catch (error) {
+    console.warn(`Could not fetch ${prjUrl}:`, error);
+  }
+
+  // Dev servers answer missing files with index.html, so check it looks like WKT
+  if (!/^\s*(PROJCS|GEOGCS)\s*\[/i.test(wkt)) {
+    console.warn(`⚠️ No projection found at ${prjUrl}, detecting coordinate system from coordinate ranges`);
+    return null;
+  }
+
+  const projection = parsePrj(wkt);
+  console.log(`🌐 ${shpUrl} uses ${projection.name}${projection.epsg ? ` (EPSG:${projection.epsg})` : ''}`);
+  return projection;
+};
+
+/**
+ * Stream every record of a .shp/.dbf pair without buffering the whole file.
+ * Geometries are reprojected to WGS84 using the shapefile's .prj before being
+ * handed to `onFeature`; progress is reported once per chunk.
+ * Resolves with the number of records read.
+ */
+export const streamShapefile = async (
+  shpUrl: string,
+  dbfUrl: string,
+  onFeature: (feature: GeoJSON.Feature, index: number) => void,
+  options: StreamShapefileOptions = {}
+): Promise<number> => {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, encoding, onProgress } = options;
+
+  const [shpResponse, dbfResponse, projection] = await Promise.all([
+    fetch(shpUrl),
+    fetch(dbfUrl),
+    loadShapefileProjection(shpUrl)
+  ]);
+
+  if (!shpResponse.ok) {
+    throw new Error(`Failed to fetch ${shpUrl}: ${shpResponse.status}`);
+  }
+  if (!dbfResponse.ok) {
+    throw new Error(`Failed to fetch ${dbfUrl}: ${dbfResponse.status}`);
+  }
+
+  const contentLength = parseInt(shpResponse.headers.get('Content-Length') || '', 10);
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined;
+  let bytesRead = 0;
+
+  const shpSource = await countBytes(shpResponse, byteLength => { bytesRead += byteLength; });
+  const dbfSource = dbfResponse.body || await dbfResponse.arrayBuffer();
+
+  const source = await shapefile.open(shpSource, dbfSource, encoding ? { encoding } : undefined);
+
+  const reportProgress = (recordsRead: number, done: boolean) => {
+    if (!onProgress) return;
+    onProgress({
+      recordsRead,
+      bytesRead,
+      totalBytes,
+      percent: totalBytes ? Math.min(100, Math.round((bytesRead / totalBytes) * 100)) : undefined,
+      done
+    });
+  };
+
+  let index = 0;
+  let result;
+
+  while ((result = await source.read()) && !result.done) {
+    const feature = result.value;
+    if (feature.geometry) {
+      feature.geometry = toWGS84Geometry(feature.geometry, projection);
+    }
+
+    onFeature(feature, index);
+    index++;
+
+    if (index % chunkSize === 0) {
+      reportProgress(index, false);
+      await yieldToEventLoop();
+    }
+  }
+
+  reportProgress(index, true);
+  return index;
+};
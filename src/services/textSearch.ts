@@ -0,0 +1,283 @@
+// Tokenised, typo-tolerant text search over addresses, owner names and parcel ids.
+// Street suffixes and directionals are reduced to their USPS abbreviations on both
+// sides, so "123 North Lamar Boulevard" finds "123 N LAMAR BLVD".
+import { abbreviateAddressToken } from './geocoder';
+
+export interface TextSearchHit<T> {
+  item: T;
+  // 0-1, higher is a better match
+  score: number;
+  // Index of the field that matched best
+  field: number;
+}
+
+// Owner name words that county records abbreviate inconsistently
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  ASSOCIATION: 'ASSN', COMPANY: 'CO', CORPORATION: 'CORP', ESTATE: 'EST', INCORPORATED: 'INC',
+  LIMITED: 'LTD', PARTNERSHIP: 'PTSHP', TRUST: 'TR', TRUSTEE: 'TR', TRUSTEES: 'TR'
+};
+
+const PREFIX_SCORE = 0.6;
+const TYPO_SCORE = 0.7;
+// Bonuses for every query token matching within one field, and for matching its start
+const SAME_FIELD_BONUS = 0.1;
+const FIELD_START_BONUS = 0.05;
+
+/**
+ * Canonical form of one uppercase token: suffixes, directionals and company words abbreviated
+ */
+export const normalizeSearchToken = (token: string): string => {
+  const abbreviated = abbreviateAddressToken(token);
+  return NAME_ABBREVIATIONS[abbreviated] || abbreviated;
+};
+
+/**
+ * Split text into normalised search tokens. Punctuation separates tokens, except
+ * apostrophes and periods ("O'Brien", "St."), and "&" reads as "AND".
+ */
+export const tokenizeSearchText = (text: string | null | undefined): string[] =>
+  (text || '')
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/['’.]/g, '')
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+    .map(normalizeSearchToken);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+export const editDistance = (a: string, b: string, max: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    twoBack = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Numbers (house numbers, ids) must be exact; longer words tolerate more typos
+const allowedTypos = (token: string): number => {
+  if (/\d/.test(token) || token.length < 4) return 0;
+  return token.length < 8 ? 1 : 2;
+};
+
+// The last query token may be half typed; earlier words of three letters or more match as prefixes too
+const allowsPrefix = (token: string, isLast: boolean): boolean =>
+  isLast || (token.length >= 3 && !/^\d+$/.test(token));
+
+/**
+ * How well an indexed token matches a query token, from 0 (no match) to 1 (exact)
+ */
+export const scoreSearchToken = (query: string, candidate: string, prefix: boolean = false): number => {
+  if (candidate === query) return 1;
+
+  const isPrefix = prefix && candidate.length > query.length && candidate.startsWith(query);
+  if (isPrefix) return PREFIX_SCORE + 0.3 * (query.length / candidate.length);
+
+  const typos = allowedTypos(query);
+  if (typos === 0) return 0;
+
+  const distance = editDistance(query, candidate, typos);
+  if (distance <= typos) return TYPO_SCORE - 0.2 * (distance - 1);
+
+  // A typo in a half-typed word: "LAMR" for "LAMAR"
+  if (prefix && candidate.length > query.length) {
+    const prefixDistance = editDistance(query, candidate.slice(0, query.length), typos);
+    if (prefixDistance <= typos) return 0.9 * (TYPO_SCORE - 0.2 * (prefixDistance - 1));
+  }
+
+  return 0;
+};
+
+/**
+ * Score tokenised fields against a tokenised query. Every query token has to match
+ * somewhere, otherwise the result is null.
+ */
+export const scoreSearchFields = (
+  query: string[],
+  fields: string[][],
+  weights: number[] = []
+): { score: number; field: number } | null => {
+  if (query.length === 0) return null;
+
+  const fieldTotals = fields.map(() => 0);
+  const fieldMatches = fields.map(() => 0);
+  let total = 0;
+  let startsField = false;
+
+  for (let i = 0; i < query.length; i++) {
+    const prefix = allowsPrefix(query[i], i === query.length - 1);
+    let best = 0;
+    let bestField = -1;
+
+    fields.forEach((tokens, fieldIndex) => {
+      const weight = weights[fieldIndex] ?? 1;
+      let fieldBest = 0;
+      tokens.forEach((token, tokenIndex) => {
+        const score = scoreSearchToken(query[i], token, prefix) * weight;
+        if (score > fieldBest) fieldBest = score;
+        if (i === 0 && tokenIndex === 0 && score > 0) startsField = true;
+      });
+      if (fieldBest > 0) {
+        fieldTotals[fieldIndex] += fieldBest;
+        fieldMatches[fieldIndex]++;
+      }
+      if (fieldBest > best) {
+        best = fieldBest;
+        bestField = fieldIndex;
+      }
+    });
+
+    if (bestField < 0) return null;
+    total += best;
+  }
+
+  const field = fieldTotals.indexOf(Math.max(...fieldTotals));
+  const score = (1 - SAME_FIELD_BONUS - FIELD_START_BONUS) * (total / query.length) +
+    (fieldMatches[field] === query.length ? SAME_FIELD_BONUS : 0) +
+    (startsField ? FIELD_START_BONUS : 0);
+
+  return { score: Math.round(score * 1000) / 1000, field };
+};
+
+/**
+ * Whether text in any of the fields matches every word of the query
+ */
+export const matchesSearchText = (query: string, fields: (string | null | undefined)[]): boolean => {
+  const tokens = tokenizeSearchText(query);
+  return tokens.length === 0 || scoreSearchFields(tokens, fields.map(tokenizeSearchText)) !== null;
+};
+
+const lowerBound = (sorted: string[], value: string): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Inverted index from normalised tokens to the items whose fields contain them.
+ * A query expands each of its tokens to the indexed tokens it could match (exact,
+ * prefix, or within the typo allowance, which assumes the first letter is right),
+ * collects candidates from the rarest one and ranks them with scoreSearchFields.
+ */
+export class TextSearchIndex<T> {
+  private weights: number[];
+  private items: T[] = [];
+  private documents: string[][][] = [];
+  private postings: Record<string, number[]> = {};
+  // Sorted distinct tokens, rebuilt on the first query after an add
+  private vocabulary: string[] | null = null;
+
+  /**
+   * @param weights Score multiplier per field position, defaulting to 1
+   */
+  constructor(weights: number[] = []) {
+    this.weights = weights;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Index an item under its text fields; field positions line up with the weights
+   */
+  add(item: T, fields: (string | null | undefined)[]): void {
+    const id = this.items.length;
+    const document = fields.map(tokenizeSearchText);
+    this.items.push(item);
+    this.documents.push(document);
+
+    new Set(document.flat()).forEach(token => {
+      (this.postings[token] ||= []).push(id);
+    });
+    this.vocabulary = null;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.documents = [];
+    this.postings = {};
+    this.vocabulary = null;
+  }
+
+  /**
+   * Items matching every word of the query, best first. Ties go to the shorter text.
+   */
+  search(query: string, limit: number = Infinity): TextSearchHit<T>[] {
+    const tokens = tokenizeSearchText(query);
+    if (tokens.length === 0 || this.items.length === 0) return [];
+
+    // Candidates come from the query token with the fewest matching items
+    let candidates: string[] = [];
+    let candidateCount = Infinity;
+    for (let i = 0; i < tokens.length; i++) {
+      const expanded = this.expand(tokens[i], allowsPrefix(tokens[i], i === tokens.length - 1));
+      const count = expanded.reduce((sum, match) => sum + this.postings[match].length, 0);
+      if (count < candidateCount) {
+        candidateCount = count;
+        candidates = expanded;
+      }
+      if (count === 0) return [];
+    }
+
+    const hits: (TextSearchHit<T> & { id: number; length: number })[] = [];
+    new Set(candidates.flatMap(match => this.postings[match])).forEach(id => {
+      const match = scoreSearchFields(tokens, this.documents[id], this.weights);
+      if (match) {
+        hits.push({ item: this.items[id], ...match, id, length: this.documents[id][match.field].length });
+      }
+    });
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.length - b.length || a.id - b.id)
+      .slice(0, limit)
+      .map(({ item, score, field }) => ({ item, score, field }));
+  }
+
+  private getVocabulary(): string[] {
+    if (!this.vocabulary) {
+      this.vocabulary = Object.keys(this.postings).sort();
+    }
+    return this.vocabulary;
+  }
+
+  // Indexed tokens a query token can match
+  private expand(token: string, prefix: boolean): string[] {
+    if (!prefix && allowedTypos(token) === 0) {
+      return this.postings[token] ? [token] : [];
+    }
+
+    const vocabulary = this.getVocabulary();
+    const start = allowedTypos(token) > 0 ? token[0] : token;
+    const matches: string[] = [];
+    for (let i = lowerBound(vocabulary, start); i < vocabulary.length && vocabulary[i].startsWith(start); i++) {
+      if (scoreSearchToken(token, vocabulary[i], prefix) > 0) matches.push(vocabulary[i]);
+    }
+    return matches;
+  }
+}
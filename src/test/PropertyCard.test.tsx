@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { PropertyCard } from '../components/PropertyCard';
 import type { Property } from '../types';
+import type { PropertyRevision } from '../services/propertyHistory';
 
 describe('PropertyCard Component', () => {
   const mockOnClose = vi.fn();
@@ -46,6 +47,76 @@ describe('PropertyCard Component', () => {
     expect(screen.getByText('A beautiful residential property')).toBeInTheDocument();
   });
 
+  it('should show the buildings and addresses found on the parcel', () => {
+    render(
+      <PropertyCard
+        property={mockProperty}
+        onClose={mockOnClose}
+        parcelStats={{ addresses: ['123 TEST ST', '125 TEST ST'], buildingCount: 2, footprintArea: 3200, tallestBuildingHeight: 9.6 }}
+      />
+    );
+
+    expect(screen.getByText('3,200 sq ft')).toBeInTheDocument();
+    expect(screen.getByText('10 m')).toBeInTheDocument();
+    expect(screen.getByText('123 TEST ST; 125 TEST ST')).toBeInTheDocument();
+  });
+
+  it('should show the sync state and offer conflict resolution', () => {
+    const onResolveConflict = vi.fn();
+    const { rerender } = render(
+      <PropertyCard property={mockProperty} onClose={mockOnClose} syncStatus={{ state: 'pending', pendingOperations: 2 }} />
+    );
+    expect(screen.getByText('Waiting to sync (2 changes)')).toBeInTheDocument();
+
+    rerender(
+      <PropertyCard
+        property={mockProperty}
+        onClose={mockOnClose}
+        syncStatus={{
+          state: 'conflict',
+          pendingOperations: 1,
+          conflict: { remote: null, reason: 'The property was deleted on the server', detectedAt: '2024-01-02T00:00:00Z' }
+        }}
+        onResolveConflict={onResolveConflict}
+      />
+    );
+    expect(screen.getByText('The property was deleted on the server')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Accept deletion'));
+    expect(onResolveConflict).toHaveBeenCalledWith('keepRemote');
+  });
+
+  it('should list revisions in the history tab and restore an earlier one', async () => {
+    const revisions: PropertyRevision[] = [
+      { id: 'rev-1', propertyId: 'test-1', revision: 1, action: 'create', actor: 'Anonymous', timestamp: '2024-01-01T00:00:00Z', changes: [], snapshot: { ...mockProperty, marketValue: 450000 } },
+      {
+        id: 'rev-2',
+        propertyId: 'test-1',
+        revision: 2,
+        action: 'update',
+        actor: 'Alex',
+        timestamp: '2024-01-02T00:00:00Z',
+        changes: [{ field: 'marketValue', before: 450000, after: 500000 }],
+        snapshot: mockProperty
+      }
+    ];
+    const onLoadHistory = vi.fn().mockResolvedValue(revisions);
+    const onRestoreRevision = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <PropertyCard property={mockProperty} onClose={mockOnClose} onLoadHistory={onLoadHistory} onRestoreRevision={onRestoreRevision} />
+    );
+    fireEvent.click(screen.getByText('history'));
+
+    expect(await screen.findByText('marketValue: 450,000 → 500,000')).toBeInTheDocument();
+    expect(onLoadHistory).toHaveBeenCalledWith('test-1');
+    // The current version cannot be restored onto itself
+    expect(screen.queryByLabelText('Restore revision 2')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Restore revision 1'));
+    await waitFor(() => expect(onRestoreRevision).toHaveBeenCalledWith(revisions[0]));
+  });
+
   it('should call onClose when close button is clicked', () => {
     render(
       <PropertyCard 
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ReviewQueue } from '../components/ReviewQueue';
+import type { Property } from '../types';
+
+describe('ReviewQueue Component', () => {
+  const mockOnReview = vi.fn();
+  const mockOnClose = vi.fn();
+
+  const makeProperty = (id: string, overrides: Partial<Property> = {}): Property => ({
+    id,
+    address: `${id} Test Street`,
+    city: 'Austin',
+    state: 'TX',
+    zipCode: '78701',
+    owner: 'John Doe',
+    marketValue: 500000,
+    propertyType: 'residential',
+    coordinates: { lat: 30.2672, lng: -97.7431 },
+    submittedAt: '2024-01-01T00:00:00Z',
+    status: 'pending',
+    ...overrides
+  });
+
+  const properties = [
+    makeProperty('100'),
+    makeProperty('200'),
+    makeProperty('300', { status: 'rejected', reviewedBy: 'Sam', reviewedAt: '2024-01-02T00:00:00Z', rejectionReason: 'Not in Texas' })
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOnReview.mockResolvedValue(undefined);
+  });
+
+  it('should bulk approve the selected pending submissions', async () => {
+    render(<ReviewQueue properties={properties} reviewer="Alex" onReview={mockOnReview} onClose={mockOnClose} />);
+
+    expect(screen.getByText('Pending (2)')).toBeInTheDocument();
+    expect(screen.getByText('Alex')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText(/Select all/));
+    fireEvent.click(screen.getByText('Approve'));
+
+    await waitFor(() => expect(mockOnReview).toHaveBeenCalledWith(['100', '200'], {
+      status: 'approved',
+      reviewer: 'Alex',
+      reason: undefined
+    }));
+  });
+
+  it('should require a reason before rejecting', async () => {
+    render(<ReviewQueue properties={properties} reviewer="Alex" onReview={mockOnReview} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByLabelText('Select 100 Test Street'));
+    fireEvent.click(screen.getByText('Reject'));
+
+    const confirm = screen.getByText('Confirm Rejection');
+    expect(confirm).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/Reason for rejecting 1 submission/), { target: { value: 'Duplicate' } });
+    fireEvent.click(confirm);
+
+    await waitFor(() => expect(mockOnReview).toHaveBeenCalledWith(['100'], {
+      status: 'rejected',
+      reviewer: 'Alex',
+      reason: 'Duplicate'
+    }));
+  });
+
+  it('should show who rejected a submission and why', () => {
+    render(<ReviewQueue properties={properties} reviewer="Alex" onReview={mockOnReview} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByText('Rejected (1)'));
+
+    expect(screen.getByText(/Rejected by Sam/)).toBeInTheDocument();
+    expect(screen.getByText('Reason: Not in Texas')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthorizedPropertyRepository, MockAuthProvider, PermissionError } from '../services/auth';
+import { canPerform, findMockUser, getUpdatePermissionError } from '../services/permissions';
+import { LocalStoragePropertyRepository } from '../services/propertyRepository';
+import { getReviewChanges } from '../services/moderation';
+import type { AuthUser } from '../types/backend';
+import { makeProperty } from './fixtures';
+
+const submitter = findMockUser('submitter');
+const reviewer = findMockUser('reviewer');
+const admin = findMockUser('admin');
+
+describe('Auth and Permissions', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+  });
+
+  it('should give each role its own permissions', () => {
+    const own = makeProperty({ submittedBy: 'submitter' });
+    const legacy = makeProperty({ submittedBy: undefined });
+
+    expect(canPerform(null, 'create')).toBe(false);
+    expect(canPerform(submitter, 'create')).toBe(true);
+    expect(canPerform(submitter, 'review')).toBe(false);
+    expect(canPerform(reviewer, 'review')).toBe(true);
+    expect(canPerform(submitter, 'delete', own)).toBe(true);
+    expect(canPerform(reviewer, 'delete', own)).toBe(false);
+    expect(canPerform(submitter, 'edit', legacy)).toBe(false);
+    expect(canPerform(admin, 'delete', legacy)).toBe(true);
+  });
+
+  it('should only require review rights for review fields that actually change', () => {
+    const own = makeProperty({ submittedBy: 'submitter' });
+
+    expect(getUpdatePermissionError(submitter, own, { ...own, marketValue: 1 })).toBeNull();
+    expect(getUpdatePermissionError(submitter, own, { status: 'approved' })).toMatch(/Only reviewers/);
+    expect(getUpdatePermissionError(submitter, own, { submittedBy: 'reviewer' })).toMatch(/Only admins/);
+  });
+
+  it('should remember the signed-in mock user', () => {
+    const provider = new MockAuthProvider();
+    const listener = vi.fn();
+    provider.subscribe(listener);
+
+    expect(provider.getCurrentUser()?.role).toBe('submitter');
+    provider.signIn('reviewer');
+    expect(listener).toHaveBeenCalledWith(reviewer);
+    expect(new MockAuthProvider().getCurrentUser()).toEqual(reviewer);
+
+    provider.signOut();
+    expect(new MockAuthProvider().getCurrentUser()).toBeNull();
+    expect(() => provider.signIn('nobody')).toThrow('Unknown user nobody');
+  });
+
+  it('should enforce roles in the repository and stamp the submitter', async () => {
+    let user: AuthUser | null = submitter;
+    const repository = new AuthorizedPropertyRepository(new LocalStoragePropertyRepository(), () => user);
+
+    const created = await repository.create(makeProperty());
+    expect(created.submittedBy).toBe('submitter');
+
+    await expect(repository.update('test-1', getReviewChanges({ status: 'approved', reviewer: 'Sam' }))).rejects.toThrow(PermissionError);
+    expect(await repository.update('test-1', { marketValue: 1 })).toMatchObject({ marketValue: 1 });
+
+    user = reviewer;
+    expect(await repository.update('test-1', getReviewChanges({ status: 'approved', reviewer: 'Riley' }))).toMatchObject({ status: 'approved' });
+    await expect(repository.delete('test-1')).rejects.toThrow('You can only delete your own submissions');
+
+    user = null;
+    await expect(repository.create(makeProperty({ id: 'test-2' }))).rejects.toThrow('You must be signed in');
+
+    user = admin;
+    expect(await repository.delete('test-1')).toBe(true);
+  });
+});
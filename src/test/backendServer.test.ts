@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { handleApiRequest } from '../../server/api';
+import { JsonPropertyStore } from '../../server/store';
+import { findMockUser } from '../services/permissions';
+import type { BackendProperty, NewBackendProperty, PropertyStatistics } from '../types/backend';
+
+const newProperty = (overrides: Partial<NewBackendProperty> = {}): NewBackendProperty => ({
+  address: '1100 Congress Ave',
+  city: 'Austin',
+  state: 'TX',
+  zipCode: '78701',
+  propertyType: 'commercial',
+  marketValue: 1000000,
+  coordinates: { lat: 30.2747, lng: -97.7404 },
+  ...overrides
+});
+
+describe('Backend REST server', () => {
+  let directory: string;
+  let dataFile: string;
+  let store: JsonPropertyStore;
+
+  // Requests are made as the mock admin unless another user id (or null) is given
+  const request = (method: string, path: string, body?: unknown, query = '', userId: string | null = 'admin') =>
+    handleApiRequest(store, { method, path, query: new URLSearchParams(query), body, user: findMockUser(userId) });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'property-api-'));
+    dataFile = join(directory, 'properties.json');
+    store = new JsonPropertyStore(dataFile);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should report health', async () => {
+    const result = await request('GET', '/health');
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({ status: 'ok' });
+  });
+
+  it('should create pending properties and persist them to the data file', async () => {
+    const result = await request('POST', '/properties', { ...newProperty(), reviewedBy: 'Sam', extra: 'ignored' });
+    const created = result.body as BackendProperty;
+
+    expect(result.status).toBe(201);
+    expect(created.id).toMatch(/^submitted-\d+-\w+$/);
+    expect(created.status).toBe('pending');
+    expect(created).not.toHaveProperty('extra');
+    expect(created).not.toHaveProperty('reviewedBy');
+
+    const saved = JSON.parse(await readFile(dataFile, 'utf8'));
+    expect(saved).toEqual([created]);
+
+    const reloaded = await handleApiRequest(new JsonPropertyStore(dataFile), {
+      method: 'GET',
+      path: '/properties',
+      query: new URLSearchParams()
+    });
+    expect(reloaded.body).toEqual([created]);
+  });
+
+  it('should reject invalid properties with every validation error', async () => {
+    const result = await request('POST', '/properties', newProperty({
+      zipCode: 'abc',
+      marketValue: -1,
+      coordinates: { lat: 95, lng: -97.7 }
+    }));
+
+    expect(result.status).toBe(400);
+    expect(result.body).toEqual({
+      error: 'Invalid property',
+      details: [
+        'zipCode must be a 5-digit ZIP or ZIP+4',
+        'marketValue must be a non-negative number',
+        'coordinates are out of range'
+      ]
+    });
+  });
+
+  it('should search, update status and compute statistics', async () => {
+    await request('POST', '/properties', newProperty());
+    const house = (await request('POST', '/properties', newProperty({
+      address: '500 E 7th St',
+      propertyType: 'residential',
+      marketValue: 400000
+    }))).body as BackendProperty;
+
+    const search = await request('GET', '/properties/search', undefined, 'propertyType=Residential&maxPrice=500000');
+    expect((search.body as BackendProperty[]).map(property => property.id)).toEqual([house.id]);
+
+    const badSearch = await request('GET', '/properties/search', undefined, 'minPrice=cheap');
+    expect(badSearch.status).toBe(400);
+
+    const update = await request('PATCH', `/properties/${house.id}/status`, { status: 'approved' });
+    expect(update.status).toBe(200);
+    expect((update.body as BackendProperty).status).toBe('approved');
+
+    expect((await request('PATCH', `/properties/${house.id}/status`, { status: 'pending' })).status).toBe(400);
+    expect((await request('PATCH', '/properties/missing/status', { status: 'rejected', reason: 'Duplicate' })).status).toBe(404);
+
+    const statistics = (await request('GET', '/properties/statistics')).body as PropertyStatistics;
+    expect(statistics).toEqual({
+      total: 2,
+      pending: 1,
+      approved: 1,
+      rejected: 0,
+      averageValue: 700000,
+      totalValue: 1400000
+    });
+  });
+
+  it('should require a reason to reject and record the reviewer', async () => {
+    const created = (await request('POST', '/properties', newProperty())).body as BackendProperty;
+
+    const missingReason = await request('PATCH', `/properties/${created.id}/status`, { status: 'rejected' });
+    expect(missingReason.status).toBe(400);
+    expect(missingReason.body).toMatchObject({ details: ['reason is required when rejecting a property'] });
+
+    // The signed-in user is recorded, not the reviewer named in the body
+    const rejected = await request('PATCH', `/properties/${created.id}/status`, { status: 'rejected', reason: 'Duplicate', reviewer: 'Alex' });
+    expect(rejected.body).toMatchObject({ status: 'rejected', rejectionReason: 'Duplicate', reviewedBy: 'Alex Admin' });
+    expect((rejected.body as BackendProperty).reviewedAt).toBeDefined();
+
+    expect((await request('PATCH', `/properties/${created.id}`, { status: 'rejected' })).status).toBe(400);
+
+    const approved = await request('PATCH', `/properties/${created.id}`, {
+      status: 'approved',
+      reviewedBy: 'Sam',
+      reviewedAt: '2024-02-01T00:00:00.000Z'
+    }, '', 'reviewer');
+    expect(approved.body).toMatchObject({ status: 'approved', reviewedBy: 'Riley Reviewer' });
+    expect((approved.body as BackendProperty).reviewedAt).not.toBe('2024-02-01T00:00:00.000Z');
+    expect((await request('PATCH', `/properties/${created.id}`, { reviewedBy: 'Sam' })).status).toBe(400);
+
+    // Edits that leave the decision alone keep its reviewer
+    const edited = await request('PATCH', `/properties/${created.id}`, { status: 'approved', marketValue: 5 });
+    expect(edited.body).toMatchObject({ reviewedBy: 'Riley Reviewer' });
+    expect(JSON.parse(JSON.stringify(approved.body))).not.toHaveProperty('rejectionReason');
+  });
+
+  it('should keep the status of records created already reviewed, crediting the signed-in reviewer', async () => {
+    const approved = await request('POST', '/properties', newProperty({ status: 'approved', reviewedBy: 'Sam' }), '', 'reviewer');
+    expect(approved.status).toBe(201);
+    expect(approved.body).toMatchObject({ status: 'approved', reviewedBy: 'Riley Reviewer' });
+    expect((approved.body as BackendProperty).reviewedAt).toBeDefined();
+
+    const rejected = newProperty({ id: 'rejected-1', status: 'rejected' });
+    expect((await request('POST', '/properties', rejected)).body).toMatchObject({
+      details: ['rejectionReason is required when rejecting a property']
+    });
+    expect((await request('POST', '/properties', { ...rejected, rejectionReason: 'Duplicate' })).body)
+      .toMatchObject({ status: 'rejected', rejectionReason: 'Duplicate', reviewedBy: 'Alex Admin' });
+
+    expect((await request('POST', '/properties', newProperty({ status: 'approved' }), '', 'submitter')).status).toBe(403);
+    expect((await request('POST', '/properties', { ...newProperty(), status: 'archived' })).status).toBe(400);
+  });
+
+  it('should get, edit and delete a single property', async () => {
+    const created = (await request('POST', '/properties', newProperty({ id: 'local-1', submittedAt: '2024-01-01T00:00:00.000Z' }))).body as BackendProperty;
+    expect(created).toMatchObject({ id: 'local-1', submittedAt: '2024-01-01T00:00:00.000Z', owner: 'User Submitted' });
+    expect((await request('POST', '/properties', newProperty({ id: 'local-1' }))).status).toBe(409);
+
+    expect((await request('GET', '/properties/local-1')).body).toEqual(created);
+
+    const edit = await request('PATCH', '/properties/local-1', { marketValue: 1250000, state: 'tx', id: 'other' });
+    expect(edit.status).toBe(200);
+    expect(edit.body).toMatchObject({ id: 'local-1', marketValue: 1250000, state: 'TX' });
+    expect((await request('PATCH', '/properties/local-1', {})).status).toBe(400);
+
+    expect((await request('DELETE', '/properties/local-1')).status).toBe(200);
+    expect((await request('GET', '/properties/local-1')).status).toBe(404);
+    expect((await request('DELETE', '/properties/local-1')).status).toBe(404);
+  });
+
+  it('should enforce submitter, reviewer and admin roles', async () => {
+    const asSubmitter = (method: string, path: string, body?: unknown) => request(method, path, body, '', 'submitter');
+
+    expect((await request('POST', '/properties', newProperty(), '', null)).status).toBe(401);
+
+    const own = (await asSubmitter('POST', '/properties', newProperty())).body as BackendProperty;
+    expect(own.submittedBy).toBe('submitter');
+    const other = (await request('POST', '/properties', newProperty({ id: 'admin-1' }))).body as BackendProperty;
+    // Admins can move records that predate ownership without claiming them
+    expect(other.submittedBy).toBeUndefined();
+    // Anyone else who sends such a record becomes its submitter
+    expect(((await asSubmitter('POST', '/properties', newProperty({ id: 'legacy-1' }))).body as BackendProperty).submittedBy).toBe('submitter');
+    expect((await asSubmitter('POST', '/properties', newProperty({ submittedBy: 'reviewer' }))).status).toBe(403);
+
+    // Submitters edit and delete only their own records, and never review
+    expect((await asSubmitter('PATCH', `/properties/${own.id}`, { marketValue: 5 })).status).toBe(200);
+    expect((await asSubmitter('PATCH', `/properties/${other.id}`, { marketValue: 5 })).status).toBe(403);
+    expect((await asSubmitter('PATCH', `/properties/${own.id}/status`, { status: 'approved' })).status).toBe(403);
+    expect((await asSubmitter('PATCH', `/properties/${own.id}`, { status: 'approved' })).status).toBe(403);
+    expect((await asSubmitter('DELETE', `/properties/${other.id}`)).status).toBe(403);
+
+    const reviewed = await request('PATCH', `/properties/${own.id}/status`, { status: 'approved' }, '', 'reviewer');
+    expect(reviewed.body).toMatchObject({ status: 'approved', reviewedBy: 'Riley Reviewer' });
+    expect((await request('DELETE', `/properties/${own.id}`, undefined, '', 'reviewer')).status).toBe(403);
+
+    expect((await asSubmitter('DELETE', `/properties/${own.id}`)).status).toBe(200);
+    expect((await request('DELETE', `/properties/${other.id}`)).status).toBe(200);
+  });
+
+  it('should export properties as a CSV data URL', async () => {
+    await request('POST', '/properties', newProperty({ description: 'Has "quotes", and commas' }));
+
+    const result = await request('GET', '/export');
+    const { downloadUrl } = result.body as { downloadUrl: string };
+    const csv = decodeURIComponent(downloadUrl.replace('data:text/csv;charset=utf-8,', ''));
+
+    expect(csv.split('\n')[0]).toMatch(/^"ID","Address"/);
+    expect(csv).toContain('"Has ""quotes"", and commas"');
+  });
+
+  it('should return 404 and 405 for unknown routes and methods', async () => {
+    expect((await request('GET', '/nowhere')).status).toBe(404);
+    expect((await request('DELETE', '/properties')).status).toBe(405);
+  });
+});
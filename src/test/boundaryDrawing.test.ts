@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createBoundaryPolygon, getEdgeMidpoints, snapToGeometryEdges } from '../utils/boundaryDrawing';
+
+describe('Boundary Drawing', () => {
+  // ~96m x ~111m lot in downtown Austin
+  const parcel: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: [[
+      [-97.7431, 30.2672],
+      [-97.7421, 30.2672],
+      [-97.7421, 30.2682],
+      [-97.7431, 30.2682],
+      [-97.7431, 30.2672]
+    ]]
+  };
+
+  describe('createBoundaryPolygon', () => {
+    it('should close the ring of the drawn vertices', () => {
+      const polygon = createBoundaryPolygon([
+        { lat: 30.2672, lng: -97.7431 },
+        { lat: 30.2672, lng: -97.7421 },
+        { lat: 30.2682, lng: -97.7421 }
+      ]);
+
+      expect(polygon?.coordinates[0]).toEqual([
+        [-97.7431, 30.2672],
+        [-97.7421, 30.2672],
+        [-97.7421, 30.2682],
+        [-97.7431, 30.2672]
+      ]);
+    });
+
+    it('should return null with fewer than three vertices', () => {
+      expect(createBoundaryPolygon([{ lat: 30.2672, lng: -97.7431 }, { lat: 30.2672, lng: -97.7421 }])).toBeNull();
+    });
+  });
+
+  describe('getEdgeMidpoints', () => {
+    it('should return one midpoint per edge including the closing edge', () => {
+      const midpoints = getEdgeMidpoints([
+        { lat: 0, lng: 0 },
+        { lat: 0, lng: 2 },
+        { lat: 2, lng: 2 }
+      ]);
+
+      expect(midpoints).toEqual([
+        { lat: 0, lng: 1 },
+        { lat: 1, lng: 2 },
+        { lat: 1, lng: 1 }
+      ]);
+    });
+  });
+
+  describe('snapToGeometryEdges', () => {
+    it('should snap to a nearby parcel corner before its edges', () => {
+      // ~3m from the south-west corner
+      const result = snapToGeometryEdges({ lat: 30.26722, lng: -97.74312 }, [parcel], 5);
+
+      expect(result.snappedTo).toBe('vertex');
+      expect(result.coordinates.lat).toBeCloseTo(30.2672, 7);
+      expect(result.coordinates.lng).toBeCloseTo(-97.7431, 7);
+    });
+
+    it('should snap to the nearest point on a parcel edge', () => {
+      // ~2m south of the middle of the south edge
+      const result = snapToGeometryEdges({ lat: 30.26718, lng: -97.7426 }, [parcel], 5);
+
+      expect(result.snappedTo).toBe('edge');
+      expect(result.coordinates.lat).toBeCloseTo(30.2672, 7);
+      expect(result.coordinates.lng).toBeCloseTo(-97.7426, 7);
+      expect(result.distance).toBeCloseTo(2.2, 1);
+    });
+
+    it('should leave points outside the tolerance unchanged', () => {
+      const point = { lat: 30.2677, lng: -97.7426 };
+      expect(snapToGeometryEdges(point, [parcel], 5)).toEqual({ coordinates: point, snappedTo: null });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { GeocoderService } from '../services/geocoder';
+import type { AddressPoint } from '../services/comprehensiveDataLoader';
+import {
+  geocodeImportRows,
+  getMappingErrors,
+  isImportRowReady,
+  mapImportRows,
+  suggestImportMapping,
+  toImportTable,
+  toPropertySubmission
+} from '../services/bulkImport';
+import { parseCsvRows } from '../utils/csv';
+import { parseXlsxRows } from '../utils/xlsx';
+
+const point = (id: string, address: string, zip: string, lng: number, lat: number): AddressPoint => ({
+  id,
+  address,
+  city: 'Austin',
+  state: 'TX',
+  zip,
+  coordinates: { lat, lng },
+  geometry: { type: 'Point', coordinates: [lng, lat] }
+});
+
+const makeGeocoder = () => {
+  const service = new GeocoderService('');
+  service.setAddressPoints([
+    point('a1', '1100 CONGRESS AVE', '78701', -97.7404, 30.2747),
+    point('a2', '500 E 7TH ST', '78701', -97.7383, 30.2678)
+  ]);
+  return service;
+};
+
+const LISTINGS_CSV = [
+  'Street Address,City,Zip,List Price,Acres,Land Use,Notes,Lat,Lng',
+  '1100 Congress Ave,Austin,78701,"$1,250,000",0.5,Commercial office,"Corner lot, ""as is""",,',
+  '500 East 7th Street,Austin,78701,450000,,,,,',
+  '42 Nowhere Rd,Austin,78701,300000,,,,,',
+  '9 Pinned Pl,Austin,78702,275000,,Single family,,30.2601,-97.7201',
+  ',Austin,7870,free,,,,,'
+].join('\n');
+
+describe('Bulk Import', () => {
+  const table = toImportTable(parseCsvRows(LISTINGS_CSV));
+
+  describe('column mapping', () => {
+    it('should suggest columns from common header names', () => {
+      expect(suggestImportMapping(table.columns)).toEqual({
+        address: 'Street Address',
+        city: 'City',
+        zipCode: 'Zip',
+        price: 'List Price',
+        acreage: 'Acres',
+        propertyType: 'Land Use',
+        description: 'Notes',
+        latitude: 'Lat',
+        longitude: 'Lng'
+      });
+    });
+
+    it('should require the mandatory fields and both coordinates', () => {
+      expect(getMappingErrors({ address: 'A', city: 'B', zipCode: 'C', latitude: 'Lat' })).toEqual([
+        'Choose a column for Price',
+        'Map both latitude and longitude, or neither'
+      ]);
+    });
+
+    it('should number blank and repeated header names', () => {
+      expect(toImportTable([['Name', '', 'Name'], ['a', 'b', 'c']])).toEqual({
+        columns: ['Name', 'Column 2', 'Name (2)'],
+        rows: [{ Name: 'a', 'Column 2': 'b', 'Name (2)': 'c' }]
+      });
+    });
+  });
+
+  describe('mapImportRows', () => {
+    it('should convert values and report field errors per row', () => {
+      const rows = mapImportRows(table, suggestImportMapping(table.columns));
+
+      expect(rows[0]).toMatchObject({
+        row: 2,
+        submission: { price: 1250000, acreage: 0.5, propertyType: 'commercial', state: 'TX', description: 'Corner lot, "as is"' },
+        errors: []
+      });
+      expect(rows[3].submission.coordinates).toEqual({ lat: 30.2601, lng: -97.7201 });
+      expect(rows[3].geocode).toMatchObject({ source: 'file', confidence: 'high' });
+      expect(rows[4].errors).toEqual([
+        'Address is required',
+        'ZIP code "7870" is not a valid ZIP code',
+        'Price "free" is not a number'
+      ]);
+    });
+  });
+
+  describe('geocodeImportRows', () => {
+    it('should geocode rows without coordinates and flag rows that cannot be placed', async () => {
+      const service = makeGeocoder();
+      const geocode = vi.spyOn(service, 'geocode');
+      const onProgress = vi.fn();
+
+      const rows = await geocodeImportRows(mapImportRows(table, suggestImportMapping(table.columns)), { service, onProgress });
+
+      expect(rows[0].submission.coordinates).toEqual({ lat: 30.2747, lng: -97.7404 });
+      expect(rows[0].geocode).toMatchObject({ source: 'local', confidence: 'high', matchedAddress: '1100 CONGRESS AVE' });
+      expect(rows[1].geocode?.source).toBe('local');
+      expect(rows[2].errors).toEqual(['No location found for "42 Nowhere Rd, Austin"']);
+      expect(rows.map(isImportRowReady)).toEqual([true, true, false, true, false]);
+      // Rows with file coordinates or field errors are not looked up
+      expect(geocode).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(5, 5);
+
+      expect(toPropertySubmission(rows[0])).toMatchObject({ address: '1100 Congress Ave', price: 1250000 });
+    });
+
+    it('should look up a repeated address only once', async () => {
+      const service = makeGeocoder();
+      const geocode = vi.spyOn(service, 'geocode');
+      const repeated = toImportTable([['Address', 'City', 'Zip', 'Price'], ['1100 Congress Ave', 'Austin', '78701', '1'], ['1100 Congress Ave', 'Austin', '78701', '2']]);
+
+      const rows = await geocodeImportRows(mapImportRows(repeated, suggestImportMapping(repeated.columns)), { service });
+
+      expect(rows.every(isImportRowReady)).toBe(true);
+      expect(geocode).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('parseXlsxRows', () => {
+    it('should read shared, inline and numeric cells from the first sheet', () => {
+      const workbook = zipSync({
+        'xl/workbook.xml': strToU8(
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+          'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          '<sheets><sheet name="Listings" sheetId="1" r:id="rId1"/></sheets></workbook>'
+        ),
+        'xl/_rels/workbook.xml.rels': strToU8(
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="worksheet" Target="worksheets/listings.xml"/></Relationships>'
+        ),
+        'xl/sharedStrings.xml': strToU8(
+          '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<si><t>Address</t></si><si><t>Price</t></si><si><r><t>1100 </t></r><r><t>Congress Ave</t></r></si></sst>'
+        ),
+        'xl/worksheets/listings.xml': strToU8(
+          '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+          '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>1250000</v></c></row>' +
+          '<row r="3"></row>' +
+          '<row r="4"><c r="A4" t="inlineStr"><is><t>500 E 7th St</t></is></c><c r="B4" t="b"><v>1</v></c></row>' +
+          '</sheetData></worksheet>'
+        )
+      });
+
+      expect(parseXlsxRows(workbook)).toEqual([
+        ['Address', '', 'Price'],
+        ['1100 Congress Ave', '', '1250000'],
+        ['500 E 7th St', 'TRUE']
+      ]);
+    });
+
+    it('should reject files that are not workbooks', () => {
+      expect(() => parseXlsxRows(strToU8('Address,Price'))).toThrow('Not a valid .xlsx file');
+    });
+  });
+});
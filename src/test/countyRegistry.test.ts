@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getCounty, getCountyDataset, listCounties, normalizeCountyFips } from '../services/countyRegistry';
+import {
+  buildParcelIndex,
+  loadCountyAddresses,
+  loadCountyData,
+  mergeCountyData,
+  type ComprehensiveData
+} from '../services/comprehensiveDataLoader';
+import { streamShapefile } from '../services/shapefileStreamLoader';
+import type { TravisCountyParcel } from '../types';
+
+vi.mock('../services/shapefileStreamLoader', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/shapefileStreamLoader')>(),
+  streamShapefile: vi.fn()
+}));
+
+vi.mock('../services/datasetCache', () => ({
+  withDatasetCache: (_key: string, _urls: string[], load: () => Promise<unknown>) => load()
+}));
+
+describe('County Registry', () => {
+  describe('normalizeCountyFips', () => {
+    it('should expand 3-digit county codes to 5-digit Texas FIPS', () => {
+      expect(normalizeCountyFips('453')).toBe('48453');
+      expect(normalizeCountyFips(21)).toBe('48021');
+      expect(normalizeCountyFips('48491')).toBe('48491');
+      expect(normalizeCountyFips(undefined)).toBe('');
+    });
+  });
+
+  describe('getCounty', () => {
+    it('should find counties by FIPS code or name', () => {
+      expect(getCounty('48453')?.name).toBe('Travis');
+      expect(getCounty('209')?.name).toBe('Hays');
+      expect(getCounty('Williamson County')?.fips).toBe('48491');
+      expect(getCounty('Harris')).toBeUndefined();
+    });
+
+    it('should list the Austin-area counties', () => {
+      expect(listCounties().map(county => county.name)).toEqual(['Bastrop', 'Hays', 'Travis', 'Williamson']);
+    });
+  });
+
+  describe('getCountyDataset', () => {
+    it('should return dataset paths per county and year', () => {
+      const dataset = getCountyDataset('48453');
+      expect(dataset?.year).toBe(2024);
+      expect(dataset?.parcels?.shp).toBe('/data/stratmap24-landparcels_48453_travis_202404.shp');
+      expect(dataset?.addresses?.dbf).toBe('/data/stratmap24-addresspoints_48453_travis_202402.dbf');
+
+      expect(getCountyDataset('48021')?.parcels?.shp).toContain('48021_bastrop');
+      expect(getCountyDataset('48453', 1999)).toBeUndefined();
+    });
+  });
+
+  describe('mergeCountyData', () => {
+    const parcel = (id: string, county: string, lng: number): TravisCountyParcel => ({
+      OBJECTID: 1,
+      PROP_ID: id,
+      SITE_ADDR: '',
+      CITY: '',
+      STATE: 'TX',
+      ZIP: '',
+      OWNER_NAME: '',
+      TOTAL_VAL: 0,
+      LAND_VAL: 0,
+      IMP_VAL: 0,
+      SQ_FT: 0,
+      PROP_TYPE: 'residential',
+      COUNTY: county,
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[lng, 30], [lng + 0.001, 30], [lng + 0.001, 30.001], [lng, 30]]]
+      }
+    });
+
+    it('should add a county and replace its previously loaded parcels', () => {
+      const travisParcels = [parcel('T1', 'Travis', -97.74)];
+      const data: ComprehensiveData = {
+        parcels: travisParcels,
+        parcelIndex: buildParcelIndex(travisParcels),
+        addresses: [],
+        counties: [],
+        texasBoundary: { geometry: { type: 'Polygon', coordinates: [] } },
+        buildings: [],
+        parcelStats: {},
+        loadedCounties: ['48453']
+      };
+
+      const merged = mergeCountyData(data, { fips: '48209', parcels: [parcel('H1', 'Hays', -97.94)], addresses: [] });
+      expect(merged.parcels.map(p => p.PROP_ID)).toEqual(['T1', 'H1']);
+      expect(merged.loadedCounties).toEqual(['48453', '48209']);
+      expect(merged.parcelIndex.size).toBe(2);
+
+      const reloaded = mergeCountyData(merged, { fips: '48209', parcels: [parcel('H2', 'Hays', -97.94)], addresses: [] });
+      expect(reloaded.parcels.map(p => p.PROP_ID)).toEqual(['T1', 'H2']);
+      expect(reloaded.loadedCounties).toEqual(['48453', '48209']);
+
+      expect(mergeCountyData(data, { fips: '48491', parcels: [], addresses: [] })).toBe(data);
+    });
+
+    it('should read every address point, leaving a missing city and ZIP empty', async () => {
+      vi.mocked(streamShapefile).mockImplementation(async (_shp, _dbf, onFeature) => {
+        for (let index = 0; index < 1500; index++) {
+          onFeature({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [-97.94, 30.0] },
+            properties: index === 0 ? { SITUS_NUM: '1', SITUS_STRE: 'MAIN ST' } : { SITUS_ADDR: `${index} OAK ST`, SITUS_CITY: 'KYLE', SITUS_ZIP: '78640' }
+          }, index);
+        }
+        return 1500;
+      });
+
+      const addresses = await loadCountyAddresses('48209');
+
+      expect(addresses).toHaveLength(1500);
+      expect(addresses[0]).toMatchObject({ address: '1 MAIN ST', city: '', zip: '', state: 'TX', county: 'Hays' });
+      expect(addresses[1]).toMatchObject({ city: 'KYLE', zip: '78640', coordinates: { lng: -97.94, lat: 30.0 } });
+    });
+
+    it('should fail to load a county when nothing could be read', async () => {
+      await expect(loadCountyData('48999')).rejects.toThrow('No parcels or addresses could be loaded for 48999 County');
+    });
+  });
+});
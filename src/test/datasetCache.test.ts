@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getDatasetValidator, withDatasetCache } from '../services/datasetCache';
+
+// In-memory stand-in for the datasets object store
+const fakeDb = vi.hoisted(() => ({
+  available: true,
+  entries: {} as Record<string, { key: string }>
+}));
+
+vi.mock('../services/indexedDb', () => {
+  const store = {
+    get: (key: string) => ({ result: fakeDb.entries[key] }),
+    put: (entry: { key: string }) => { fakeDb.entries[entry.key] = structuredClone(entry); },
+    clear: () => { fakeDb.entries = {}; }
+  };
+
+  return {
+    DATASETS_STORE: 'datasets',
+    isIndexedDbAvailable: () => fakeDb.available,
+    openDatabase: async () => ({ transaction: () => ({ objectStore: () => store }) }),
+    requestToPromise: async (request: { result: unknown }) => request.result,
+    transactionDone: async () => undefined
+  };
+});
+
+const headResponse = (headers: Record<string, string>, ok = true) =>
+  ({ ok, status: ok ? 200 : 404, headers: new Headers(headers) }) as Response;
+
+describe('Dataset Cache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fakeDb.available = true;
+    fakeDb.entries = {};
+  });
+
+  describe('getDatasetValidator', () => {
+    it('should combine the ETags of every source file', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(headResponse({ ETag: '"shp-1"' }))
+        .mockResolvedValueOnce(headResponse({ 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT', 'Content-Length': '42' }));
+
+      expect(await getDatasetValidator(['/a.shp', '/a.dbf'])).toBe('"shp-1"|Mon, 01 Jan 2024 00:00:00 GMT;42');
+      expect(vi.mocked(fetch).mock.calls[0][1]?.method).toBe('HEAD');
+    });
+
+    it('should return null when a file cannot be revalidated', async () => {
+      vi.mocked(fetch).mockResolvedValue(headResponse({}));
+      expect(await getDatasetValidator(['/a.shp'])).toBeNull();
+
+      vi.mocked(fetch).mockResolvedValue(headResponse({ ETag: '"x"' }, false));
+      expect(await getDatasetValidator(['/a.shp'])).toBeNull();
+    });
+  });
+
+  describe('withDatasetCache', () => {
+    it('should reuse the cached result until the ETag changes', async () => {
+      const load = vi.fn().mockResolvedValueOnce(['first parse']).mockResolvedValueOnce(['second parse']);
+
+      vi.mocked(fetch).mockResolvedValue(headResponse({ ETag: '"v1"' }));
+      expect(await withDatasetCache('parcels:/a.shp', ['/a.shp'], load)).toEqual(['first parse']);
+      expect(await withDatasetCache('parcels:/a.shp', ['/a.shp'], load)).toEqual(['first parse']);
+      expect(load).toHaveBeenCalledTimes(1);
+
+      vi.mocked(fetch).mockResolvedValue(headResponse({ ETag: '"v2"' }));
+      expect(await withDatasetCache('parcels:/a.shp', ['/a.shp'], load)).toEqual(['second parse']);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache results rejected by isCacheable', async () => {
+      vi.mocked(fetch).mockResolvedValue(headResponse({ ETag: '"v1"' }));
+      const load = vi.fn(async (): Promise<string[]> => []);
+
+      await withDatasetCache('addresses:/a.shp', ['/a.shp'], load, { isCacheable: data => data.length > 0 });
+
+      expect(fakeDb.entries).toEqual({});
+    });
+
+    it('should load directly without IndexedDB', async () => {
+      fakeDb.available = false;
+      const load = vi.fn().mockResolvedValue(['parsed']);
+
+      expect(await withDatasetCache('parcels:/a.shp', ['/a.shp'], load)).toEqual(['parsed']);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync } from 'fflate';
+import * as shapefile from 'shapefile';
+import {
+  featuresToCsv,
+  featuresToGeoJson,
+  featuresToKml,
+  featuresToShapefile,
+  parcelsToFeatures,
+  propertiesToFeatures,
+  toWkt
+} from '../services/exportService';
+import { formatCsv, parseCsv, parseCsvRows } from '../utils/csv';
+import { toDbfFieldNames } from '../utils/shapefileWriter';
+import type { TravisCountyParcel } from '../types';
+import { makeProperty } from './fixtures';
+
+const SQUARE: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [[[-97.75, 30.26], [-97.74, 30.26], [-97.74, 30.27], [-97.75, 30.27], [-97.75, 30.26]]]
+};
+
+const makeParcel = (overrides: Partial<TravisCountyParcel> = {}): TravisCountyParcel => ({
+  OBJECTID: 1,
+  PROP_ID: '100200',
+  SITE_ADDR: '500 Congress Ave',
+  CITY: 'Austin',
+  STATE: 'TX',
+  ZIP: '78701',
+  OWNER_NAME: 'Jane Roe',
+  TOTAL_VAL: 750000,
+  LAND_VAL: 250000,
+  IMP_VAL: 500000,
+  SQ_FT: 2100,
+  PROP_TYPE: 'commercial',
+  geometry: SQUARE,
+  ...overrides
+});
+
+// Shapefiles store outer rings clockwise, the reverse of GeoJSON
+const CLOCKWISE_SQUARE: GeoJSON.Polygon = { type: 'Polygon', coordinates: [[...SQUARE.coordinates[0]].reverse()] };
+
+// Read back every layer of a zipped shapefile with the same reader the app imports with
+const readShapefileZip = async (zip: Uint8Array) => {
+  const files = unzipSync(zip);
+  const layers: Record<string, GeoJSON.FeatureCollection> = {};
+
+  for (const name of Object.keys(files).filter(file => file.endsWith('.shp'))) {
+    const base = name.slice(0, -4);
+    layers[base] = await shapefile.read(files[name].slice().buffer, files[`${base}.dbf`].slice().buffer, { encoding: 'utf-8' });
+  }
+  return { files, layers };
+};
+
+describe('Export Service', () => {
+  describe('CSV', () => {
+    it('should quote only fields with delimiters, quotes or line breaks', () => {
+      expect(formatCsv([['plain', 'a,b', 'say "hi"', 'two\nlines', 3, null]])).toBe(
+        'plain,"a,b","say ""hi""","two\nlines",3,\r\n'
+      );
+    });
+
+    it('should read back the same cells with parseCsv', () => {
+      const description = 'Corner lot, "as is"\r\nSecond line';
+      const csv = featuresToCsv(propertiesToFeatures([makeProperty({ description, geometry: SQUARE })]));
+      const [record] = parseCsv(csv);
+
+      expect(record.description).toBe(description);
+      expect(record.marketValue).toBe('500000');
+      expect(record.geometry_wkt).toBe(toWkt(SQUARE));
+      expect(parseCsvRows(csv)).toHaveLength(2);
+    });
+  });
+
+  describe('GeoJSON and KML', () => {
+    it('should use the boundary when there is one and a point otherwise', () => {
+      const collection = featuresToGeoJson(propertiesToFeatures([makeProperty(), makeProperty({ id: 'drawn', geometry: SQUARE })]));
+
+      expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [-97.7431, 30.2672] });
+      expect(collection.features[1].geometry).toEqual(SQUARE);
+      expect(collection.features[1].properties).toMatchObject({ id: 'drawn', owner: 'John Doe', latitude: 30.2672 });
+    });
+
+    it('should escape attributes in KML', () => {
+      const kml = featuresToKml(parcelsToFeatures([makeParcel({ OWNER_NAME: 'Smith & <Sons>' })]), 'Parcels');
+
+      expect(kml).toContain('<Data name="OWNER_NAME"><value>Smith &amp; &lt;Sons&gt;</value></Data>');
+      expect(kml).toContain('<outerBoundaryIs><LinearRing><coordinates>-97.75,30.26 -97.74,30.26');
+      expect(new DOMParser().parseFromString(kml, 'application/xml').querySelector('parsererror')).toBeNull();
+    });
+  });
+
+  describe('Shapefile', () => {
+    it('should keep unique field names within the dBase limit', () => {
+      expect(toDbfFieldNames(['propertyTypeReason', 'propertyType', 'id'])).toEqual(['propertyTy', 'propertyT1', 'id']);
+    });
+
+    it('should round-trip parcel polygons and attributes', async () => {
+      const { files, layers } = await readShapefileZip(featuresToShapefile(parcelsToFeatures([makeParcel()]), 'parcels'));
+
+      expect(Object.keys(files).sort()).toEqual(['parcels.cpg', 'parcels.dbf', 'parcels.prj', 'parcels.shp', 'parcels.shx']);
+      const [feature] = layers.parcels.features;
+      expect(feature.geometry).toEqual(CLOCKWISE_SQUARE);
+      expect(feature.properties).toMatchObject({ PROP_ID: '100200', OWNER_NAME: 'Jane Roe', TOTAL_VAL: 750000, SQ_FT: 2100 });
+    });
+
+    it('should split points and polygons into separate layers', async () => {
+      const properties = [makeProperty({ description: 'Café' }), makeProperty({ id: 'drawn', geometry: SQUARE, acreage: 1.25 })];
+      const { layers } = await readShapefileZip(featuresToShapefile(propertiesToFeatures(properties), 'properties'));
+
+      expect(layers.properties_points.features[0].geometry).toEqual({ type: 'Point', coordinates: [-97.7431, 30.2672] });
+      expect(layers.properties_points.features[0].properties).toMatchObject({ id: 'test-1', descriptio: 'Café' });
+      expect(layers.properties_polygons.features[0].geometry).toEqual(CLOCKWISE_SQUARE);
+      expect(layers.properties_polygons.features[0].properties).toMatchObject({ id: 'drawn', acreage: 1.25 });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENERIC_PROFILE,
+  STRATMAP_2024_PROFILE,
+  TCAD_PROFILE,
+  buildCustomProfile,
+  detectFieldMappingProfile,
+  mapParcelAttributes,
+  suggestColumnMapping
+} from '../utils/fieldMapping';
+
+describe('Field Mapping', () => {
+  const stratmapRecord = {
+    Prop_ID: '123456',
+    SITUS_ADDR: '',
+    SITUS_NUM: '1100',
+    SITUS_STRE: '',
+    SITUS_ST_1: 'CONGRESS',
+    SITUS_ST_2: 'AVE',
+    SITUS_CITY: 'AUSTIN',
+    SITUS_STAT: 'TX',
+    SITUS_ZIP: '78701',
+    OWNER_NAME: 'STATE OF TEXAS',
+    MKT_VALUE: '1,250,000',
+    LAND_VALUE: 750000,
+    IMP_VALUE: 500000,
+    YEAR_BUILT: 0,
+    GIS_AREA: 2.5,
+    STAT_LAND_: 'Commercial'
+  };
+
+  describe('detectFieldMappingProfile', () => {
+    it('should recognise the StratMap and TCAD schemas', () => {
+      expect(detectFieldMappingProfile(Object.keys(stratmapRecord))).toBe(STRATMAP_2024_PROFILE);
+      expect(detectFieldMappingProfile(['PROP_ID', 'py_owner_name', 'situs_num', 'situs_street', 'market_value', 'imprv_val'])).toBe(TCAD_PROFILE);
+    });
+
+    it('should return null for an unknown schema', () => {
+      expect(detectFieldMappingProfile(['PIN', 'OWNR', 'VAL'])).toBeNull();
+    });
+  });
+
+  describe('mapParcelAttributes', () => {
+    it('should map StratMap attributes with joins, parsing and defaults', () => {
+      const parcel = mapParcelAttributes(stratmapRecord, STRATMAP_2024_PROFILE, 4);
+
+      expect(parcel.OBJECTID).toBe(5);
+      expect(parcel.PROP_ID).toBe('123456');
+      expect(parcel.SITE_ADDR).toBe('1100 CONGRESS AVE');
+      expect(parcel.TOTAL_VAL).toBe(1250000);
+      expect(parcel.LAND_VAL).toBe(750000);
+      expect(parcel.YEAR_BUILT).toBeUndefined();
+      expect(parcel.PROP_TYPE).toBe('commercial');
+      expect(parcel.PROP_TYPE_REASON).toBe('Land use "Commercial" contains "commercial"');
+    });
+
+    it('should classify TCAD state codes with a subtype', () => {
+      const parcel = mapParcelAttributes({ prop_id: '1', state_cd: 'A1', prop_type_cd: 'R' }, TCAD_PROFILE, 0);
+
+      expect(parcel.PROP_TYPE).toBe('residential');
+      expect(parcel.PROP_SUBTYPE).toBe('single-family');
+      expect(parcel.PROP_TYPE_REASON).toBe('PTAD state code A1: Single-family residence');
+    });
+
+    it('should fall back to defaults when columns are missing', () => {
+      const parcel = mapParcelAttributes({}, GENERIC_PROFILE, 7);
+
+      expect(parcel.PROP_ID).toBe('PARCEL-7');
+      expect(parcel.SITE_ADDR).toBe('Unknown Address');
+      expect(parcel.CITY).toBe('');
+      expect(parcel.ZIP).toBe('');
+      expect(parcel.TOTAL_VAL).toBe(0);
+      expect(parcel.PROP_TYPE).toBe('residential');
+    });
+
+    it('should match source columns case-insensitively', () => {
+      const parcel = mapParcelAttributes({ prop_id: 'A1', site_addr: '1 Main St', total_val: '5000' }, GENERIC_PROFILE, 0);
+
+      expect(parcel.PROP_ID).toBe('A1');
+      expect(parcel.SITE_ADDR).toBe('1 Main St');
+      expect(parcel.TOTAL_VAL).toBe(5000);
+    });
+  });
+
+  describe('buildCustomProfile', () => {
+    it('should build a profile that recognises and maps its own schema', () => {
+      const fields = ['PIN', 'OWNR', 'VAL', 'ADDR'];
+      const suggestions = suggestColumnMapping(fields);
+      expect(suggestions.PROP_ID).toBeUndefined();
+
+      const profile = buildCustomProfile('County export', { PROP_ID: 'PIN', OWNER_NAME: 'OWNR', TOTAL_VAL: 'VAL', SITE_ADDR: 'ADDR' });
+      expect(detectFieldMappingProfile(fields, [profile])).toBe(profile);
+
+      const parcel = mapParcelAttributes({ PIN: 'X9', OWNR: 'Jane Doe', VAL: '320000', ADDR: '5 Elm St' }, profile, 0);
+      expect(parcel.PROP_ID).toBe('X9');
+      expect(parcel.OWNER_NAME).toBe('Jane Doe');
+      expect(parcel.TOTAL_VAL).toBe(320000);
+      expect(parcel.CITY).toBe('');
+    });
+  });
+});
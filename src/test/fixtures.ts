@@ -0,0 +1,18 @@
+// Shared test data
+import type { Property } from '../types';
+
+// A pending submission; pass overrides for the fields a test cares about
+export const makeProperty = (overrides: Partial<Property> = {}): Property => ({
+  id: 'test-1',
+  address: '123 Test St',
+  city: 'Austin',
+  state: 'TX',
+  zipCode: '78701',
+  owner: 'John Doe',
+  marketValue: 500000,
+  propertyType: 'residential',
+  coordinates: { lat: 30.2672, lng: -97.7431 },
+  submittedAt: '2024-01-01T00:00:00.000Z',
+  status: 'pending',
+  ...overrides
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GeocoderService, lookupLocation, normalizeAddress } from '../services/geocoder';
+import { buildParcelIndex, type AddressPoint } from '../services/comprehensiveDataLoader';
+import type { TravisCountyParcel } from '../types';
+
+const point = (id: string, address: string, zip: string, lng: number, lat: number): AddressPoint => ({
+  id,
+  address,
+  city: 'Austin',
+  state: 'TX',
+  zip,
+  coordinates: { lat, lng },
+  geometry: { type: 'Point', coordinates: [lng, lat] }
+});
+
+const addressPoints = [
+  point('a1', '1100 CONGRESS AVE', '78701', -97.7404, 30.2747),
+  point('a2', '1102 CONGRESS AVE', '78701', -97.7405, 30.2749),
+  point('a3', '1100 S CONGRESS AVE', '78704', -97.7495, 30.2511),
+  point('a4', '500 E 7TH ST', '78701', -97.7383, 30.2678)
+];
+
+describe('Geocoder', () => {
+  describe('normalizeAddress', () => {
+    it('should abbreviate suffixes and directionals and split off units', () => {
+      const parsed = normalizeAddress('1100 North Congress Avenue Apt 5, Austin, TX 78701');
+      expect(parsed).toMatchObject({
+        number: '1100',
+        predirectional: 'N',
+        street: 'CONGRESS',
+        suffix: 'AVE',
+        unit: '5',
+        city: 'AUSTIN',
+        zipCode: '78701',
+        normalized: '1100 N CONGRESS AVE'
+      });
+
+      expect(normalizeAddress('500 East 7th Street #210').normalized).toBe('500 E 7TH ST');
+      expect(normalizeAddress('500 E. 7th St. Suite 210 78701')).toMatchObject({ unit: '210', zipCode: '78701' });
+    });
+
+    it('should keep street names that look like suffixes or directionals', () => {
+      expect(normalizeAddress('200 Park Ln').street).toBe('PARK');
+      expect(normalizeAddress('12 N Loop Blvd')).toMatchObject({ predirectional: 'N', street: 'LOOP', suffix: 'BLVD' });
+      expect(normalizeAddress('12 West Way').normalized).toBe('12 WEST WAY');
+    });
+  });
+
+  describe('geocodeLocal', () => {
+    const geocoder = new GeocoderService(undefined);
+    geocoder.setAddressPoints(addressPoints);
+
+    it('should rank an exact match above nearby numbers and other directionals', () => {
+      const candidates = geocoder.geocodeLocal({ address: '1100 Congress Avenue', city: 'Austin', zipCode: '78701' });
+
+      expect(candidates[0]).toMatchObject({ addressPointId: 'a1', source: 'local', coordinates: { lat: 30.2747, lng: -97.7404 } });
+      expect(candidates[0].score).toBeGreaterThan(0.9);
+      expect(candidates.map(candidate => candidate.addressPointId)).toEqual(['a1', 'a2', 'a3']);
+      expect(candidates[1].score).toBeLessThan(candidates[0].score);
+    });
+
+    it('should match addresses with units and spelled-out parts', () => {
+      const [best] = geocoder.geocodeLocal('500 East Seventh Street Unit 3');
+      expect(best).toBeUndefined();
+
+      const [match] = geocoder.geocodeLocal('500 East 7th Street Unit 3, Austin, TX');
+      expect(match.addressPointId).toBe('a4');
+    });
+
+    it('should return no candidates for unknown streets', () => {
+      expect(geocoder.geocodeLocal('1 Nowhere Rd')).toEqual([]);
+    });
+  });
+
+  describe('geocode', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+    });
+
+    it('should work offline without a Mapbox token', async () => {
+      const geocoder = new GeocoderService(undefined);
+      geocoder.setAddressPoints(addressPoints);
+
+      const candidates = await geocoder.geocode('1102 Congress Ave, Austin, TX 78701');
+      expect(candidates[0].addressPointId).toBe('a2');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to Mapbox when there is no confident local match', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          features: [{ center: [-97.7, 30.3], relevance: 0.95, place_name: '1 Nowhere Rd, Austin, Texas 78751, United States' }]
+        })
+      } as Response);
+
+      const geocoder = new GeocoderService('pk.test');
+      geocoder.setAddressPoints(addressPoints);
+
+      const candidates = await geocoder.geocode('1 Nowhere Rd, Austin, TX');
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(candidates[0]).toMatchObject({ source: 'mapbox', address: '1 Nowhere Rd', score: 0.95, coordinates: { lat: 30.3, lng: -97.7 } });
+
+      await geocoder.geocode('1100 Congress Ave, Austin, TX 78701');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reverse geocoding', () => {
+    const geocoder = new GeocoderService('');
+    // As joined to the parcel below by the loader
+    geocoder.setAddressPoints(addressPoints.map(addressPoint =>
+      addressPoint.address.startsWith('110') && !addressPoint.address.includes(' S ')
+        ? { ...addressPoint, parcelId: '123456' }
+        : addressPoint
+    ));
+
+    // ~111 m x ~96 m lot around 1100 and 1102 Congress Ave
+    const parcel: TravisCountyParcel = {
+      OBJECTID: 1,
+      PROP_ID: '123456',
+      SITE_ADDR: '1100 CONGRESS AVE',
+      CITY: 'AUSTIN',
+      STATE: 'TX',
+      ZIP: '78701',
+      OWNER_NAME: 'STATE OF TEXAS',
+      TOTAL_VAL: 0,
+      LAND_VAL: 0,
+      IMP_VAL: 0,
+      SQ_FT: 0,
+      PROP_TYPE: 'commercial',
+      COUNTY: 'Travis',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[-97.741, 30.274], [-97.74, 30.274], [-97.74, 30.275], [-97.741, 30.275], [-97.741, 30.274]]]
+      }
+    };
+    const parcelIndex = buildParcelIndex([parcel]);
+
+    it('should return the nearest address point within the radius', () => {
+      const result = geocoder.reverseGeocode({ lat: 30.27475, lng: -97.74045 });
+      expect(result?.addressPoint.id).toBe('a1');
+      expect(result?.distance).toBeLessThan(10);
+
+      expect(geocoder.reverseGeocode({ lat: 30.26, lng: -97.72 })).toBeNull();
+    });
+
+    it('should describe a location from its parcel and nearest address point', () => {
+      const details = lookupLocation(parcelIndex, { lat: 30.2748, lng: -97.7405 }, geocoder);
+      expect(details).toMatchObject({
+        parcelId: '123456',
+        owner: 'STATE OF TEXAS',
+        propertyType: 'commercial',
+        county: 'Travis',
+        address: '1102 CONGRESS AVE',
+        zipCode: '78701'
+      });
+      expect(details.acreage).toBeCloseTo(2.64, 1);
+    });
+
+    it('should fall back to the nearest address point off any parcel', () => {
+      const details = lookupLocation(parcelIndex, { lat: 30.2679, lng: -97.7384 }, geocoder);
+      expect(details.parcelId).toBeUndefined();
+      expect(details.address).toBe('500 E 7TH ST');
+      expect(details.addressDistance).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAcreage,
+  calculateGeodesicArea,
+  calculatePolygonCenter,
+  getPolygons,
+  isPointInPolygon,
+  isValidPolygonalGeometry
+} from '../utils/geometry';
+
+describe('Geometry Utilities', () => {
+  const lot: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: [[
+      [-97.7431, 30.2672],
+      [-97.7421, 30.2672],
+      [-97.7421, 30.2682],
+      [-97.7431, 30.2682],
+      [-97.7431, 30.2672]
+    ]]
+  };
+
+  // A lot split by a road: one large part and one small sliver
+  const splitLot: GeoJSON.MultiPolygon = {
+    type: 'MultiPolygon',
+    coordinates: [
+      [[
+        [-97.7500, 30.2700],
+        [-97.7499, 30.2700],
+        [-97.7499, 30.2701],
+        [-97.7500, 30.2701],
+        [-97.7500, 30.2700]
+      ]],
+      lot.coordinates
+    ]
+  };
+
+  describe('getPolygons', () => {
+    it('should wrap a Polygon in a list', () => {
+      expect(getPolygons(lot)).toEqual([lot.coordinates]);
+    });
+
+    it('should return every part of a MultiPolygon', () => {
+      expect(getPolygons(splitLot)).toHaveLength(2);
+    });
+  });
+
+  describe('isValidPolygonalGeometry', () => {
+    it('should accept Polygon and MultiPolygon geometries', () => {
+      expect(isValidPolygonalGeometry(lot)).toBe(true);
+      expect(isValidPolygonalGeometry(splitLot)).toBe(true);
+    });
+
+    it('should reject points and degenerate rings', () => {
+      expect(isValidPolygonalGeometry({ type: 'Point', coordinates: [-97.7431, 30.2672] })).toBe(false);
+      expect(isValidPolygonalGeometry({ type: 'Polygon', coordinates: [[[0, 0], [1, 1]]] })).toBe(false);
+      expect(isValidPolygonalGeometry(null)).toBe(false);
+    });
+  });
+
+  describe('calculatePolygonCenter', () => {
+    it('should return the center of a Polygon', () => {
+      const center = calculatePolygonCenter(lot);
+      expect(center.lng).toBeCloseTo(-97.7428, 3);
+      expect(center.lat).toBeCloseTo(30.2675, 3);
+    });
+
+    it('should use the largest part of a MultiPolygon', () => {
+      const center = calculatePolygonCenter(splitLot);
+      expect(center).toEqual(calculatePolygonCenter(lot));
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    it('should test points against every part and skip holes', () => {
+      expect(isPointInPolygon({ lng: -97.7426, lat: 30.2677 }, lot)).toBe(true);
+      expect(isPointInPolygon({ lng: -97.7440, lat: 30.2677 }, lot)).toBe(false);
+      expect(isPointInPolygon({ lng: -97.74995, lat: 30.27005 }, splitLot)).toBe(true);
+
+      const withHole: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [lot.coordinates[0], [
+          [-97.7428, 30.2675],
+          [-97.7424, 30.2675],
+          [-97.7424, 30.2679],
+          [-97.7428, 30.2679],
+          [-97.7428, 30.2675]
+        ]]
+      };
+      expect(isPointInPolygon({ lng: -97.7426, lat: 30.2677 }, withHole)).toBe(false);
+    });
+  });
+
+  describe('calculateGeodesicArea', () => {
+    it('should return the area in square meters', () => {
+      // 0.001 degrees is about 96m east-west and 111m north-south at Austin's latitude
+      expect(calculateGeodesicArea(lot)).toBeGreaterThan(10600);
+      expect(calculateGeodesicArea(lot)).toBeLessThan(10800);
+      expect(calculateGeodesicArea(splitLot)).toBeCloseTo(calculateGeodesicArea(lot) * 1.01, -1);
+    });
+  });
+
+  describe('calculateAcreage', () => {
+    it('should return the area in acres rounded to two decimals', () => {
+      expect(calculateAcreage(lot)).toBe(2.64);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getReviewChanges,
+  matchesStatusFilter,
+  reviewProperties,
+  validateReviewDecision
+} from '../services/moderation';
+import { LocalStoragePropertyRepository } from '../services/propertyRepository';
+import { makeProperty } from './fixtures';
+
+describe('Moderation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const storage: Record<string, string> = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+  });
+
+  it('should hide rejected properties from every map filter', () => {
+    const rejected = makeProperty({ status: 'rejected' });
+    const approved = makeProperty({ status: 'approved' });
+    const legacy = makeProperty({ status: undefined });
+
+    expect(matchesStatusFilter(rejected, 'all')).toBe(false);
+    expect(matchesStatusFilter(approved, 'all')).toBe(true);
+    expect(matchesStatusFilter(approved, 'pending')).toBe(false);
+    expect(matchesStatusFilter(legacy, 'pending')).toBe(true);
+  });
+
+  it('should require a reviewer and a rejection reason', () => {
+    expect(validateReviewDecision({ status: 'approved', reviewer: ' ' })).toBe('A reviewer name is required');
+    expect(validateReviewDecision({ status: 'rejected', reviewer: 'Alex' })).toBe('A reason is required to reject a submission');
+    expect(validateReviewDecision({ status: 'rejected', reviewer: 'Alex', reason: 'Duplicate' })).toBeNull();
+  });
+
+  it('should record the reviewer and time, and drop the reason on approval', () => {
+    const reviewedAt = new Date('2024-03-01T12:00:00.000Z');
+
+    expect(getReviewChanges({ status: 'rejected', reviewer: ' Alex ', reason: ' Duplicate ' }, reviewedAt)).toEqual({
+      status: 'rejected',
+      reviewedBy: 'Alex',
+      reviewedAt: '2024-03-01T12:00:00.000Z',
+      rejectionReason: 'Duplicate'
+    });
+    expect(getReviewChanges({ status: 'approved', reviewer: 'Alex', reason: 'ignored' }, reviewedAt).rejectionReason).toBeUndefined();
+  });
+
+  it('should apply one decision to several properties', async () => {
+    const repository = new LocalStoragePropertyRepository();
+    await repository.create(makeProperty({ id: 'a' }));
+    await repository.create(makeProperty({ id: 'b' }));
+
+    const updated = await reviewProperties(repository, ['a', 'b', 'missing'], { status: 'approved', reviewer: 'Alex' });
+
+    expect(updated.map(property => property.id)).toEqual(['a', 'b']);
+    expect(await repository.get('b')).toMatchObject({ status: 'approved', reviewedBy: 'Alex' });
+    await expect(reviewProperties(repository, ['a'], { status: 'rejected', reviewer: 'Alex' })).rejects.toThrow('A reason is required');
+  });
+});
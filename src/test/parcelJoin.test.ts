@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildParcelIndex, type AddressPoint } from '../services/comprehensiveDataLoader';
+import { getParcelKey, getParcelStatsForProperty, joinParcelFeatures } from '../services/parcelJoin';
+import type { BuildingFootprint, Property, TravisCountyParcel } from '../types';
+
+const square = (lng: number, lat: number, size: number): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size], [lng, lat]]]
+});
+
+const parcel = (id: string, lng: number): TravisCountyParcel => ({
+  OBJECTID: 1,
+  PROP_ID: id,
+  SITE_ADDR: '',
+  CITY: 'Austin',
+  STATE: 'TX',
+  ZIP: '',
+  OWNER_NAME: '',
+  TOTAL_VAL: 0,
+  LAND_VAL: 0,
+  IMP_VAL: 0,
+  SQ_FT: 0,
+  PROP_TYPE: 'residential',
+  COUNTY: 'Travis',
+  geometry: square(lng, 30.27, 0.001)
+});
+
+const address = (id: string, text: string, lng: number, lat: number): AddressPoint => ({
+  id,
+  address: text,
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+  coordinates: { lat, lng },
+  geometry: { type: 'Point', coordinates: [lng, lat] }
+});
+
+const building = (id: string, lng: number, lat: number, height: number): BuildingFootprint => ({
+  id,
+  geometry: square(lng, lat, 0.0001),
+  height,
+  confidence: -1,
+  area: 0,
+  coordinates: { lat, lng },
+  properties: { building: 'yes' }
+});
+
+describe('Parcel Join', () => {
+  const parcelIndex = buildParcelIndex([parcel('P1', -97.745), parcel('P2', -97.743)]);
+
+  const result = joinParcelFeatures(
+    parcelIndex,
+    [
+      address('a1', '100 MAIN ST', -97.7445, 30.2705),
+      address('a2', '102 MAIN ST', -97.7442, 30.2702),
+      address('a3', '500 ELSEWHERE', -97.70, 30.30)
+    ],
+    [
+      building('b1', -97.7448, 30.2702, 6),
+      building('b2', -97.7444, 30.2704, 11.5),
+      building('b3', -97.7428, 30.2702, -1)
+    ]
+  );
+
+  it('should assign address points and buildings to the containing parcel', () => {
+    expect(result.addresses.map(a => a.parcelId)).toEqual(['P1', 'P1', undefined]);
+    expect(result.buildings.map(b => b.parcelId)).toEqual(['P1', 'P1', 'P2']);
+    expect(result.buildings.map(b => b.county)).toEqual(['Travis', 'Travis', 'Travis']);
+    expect(result.unmatchedAddresses).toBe(1);
+    expect(result.unmatchedBuildings).toBe(0);
+  });
+
+  it('should summarise addresses and buildings per parcel', () => {
+    const p1 = result.parcelStats[getParcelKey('P1', 'Travis')];
+    expect(p1.addresses).toEqual(['100 MAIN ST', '102 MAIN ST']);
+    expect(p1.buildingCount).toBe(2);
+    expect(p1.tallestBuildingHeight).toBe(11.5);
+    // Two ~10m x 11m footprints
+    expect(p1.footprintArea).toBeGreaterThan(2000);
+    expect(p1.footprintArea).toBeLessThan(2600);
+
+    const p2 = result.parcelStats[getParcelKey('P2', 'Travis')];
+    expect(p2.buildingCount).toBe(1);
+    expect(p2.tallestBuildingHeight).toBeUndefined();
+  });
+
+  it('should find stats for a property by parcel ID or location', () => {
+    const data = { parcelIndex, parcelStats: result.parcelStats };
+    const property = {
+      id: 'x',
+      address: '',
+      city: '',
+      state: 'TX',
+      zipCode: '',
+      owner: '',
+      marketValue: 0,
+      propertyType: 'residential',
+      coordinates: { lat: 30.2705, lng: -97.7425 }
+    } satisfies Property;
+
+    expect(getParcelStatsForProperty(data, property)?.buildingCount).toBe(1);
+    expect(getParcelStatsForProperty(data, { ...property, parcelId: 'P1', county: 'Travis' })?.buildingCount).toBe(2);
+    expect(getParcelStatsForProperty(data, { ...property, coordinates: { lat: 0, lng: 0 } })).toBeUndefined();
+  });
+});
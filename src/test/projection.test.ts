@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { createToWGS84, getGeoJSONProjection, getProjection, parsePrj, reprojectGeometry } from '../utils/projection';
+
+// .prj contents as shipped by StratMap / TxDOT (ESRI WKT) and GDAL (OGC WKT)
+const TEXAS_CENTRAL_ESRI = 'PROJCS["NAD_1983_StatePlane_Texas_Central_FIPS_4203_Feet",GEOGCS["GCS_North_American_1983",' +
+  'DATUM["D_North_American_1983",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],' +
+  'UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Conformal_Conic"],PARAMETER["False_Easting",2296583.333333333],' +
+  'PARAMETER["False_Northing",9842500.0],PARAMETER["Central_Meridian",-100.3333333333333],' +
+  'PARAMETER["Standard_Parallel_1",30.11666666666667],PARAMETER["Standard_Parallel_2",31.88333333333333],' +
+  'PARAMETER["Latitude_Of_Origin",29.66666666666667],UNIT["Foot_US",0.3048006096012192]]';
+
+const TEXAS_CENTRIC_ALBERS_OGC = 'PROJCS["NAD83 / Texas Centric Albers Equal Area",GEOGCS["NAD83",' +
+  'DATUM["North_American_Datum_1983",SPHEROID["GRS 1980",6378137,298.257222101]],PRIMEM["Greenwich",0],' +
+  'UNIT["degree",0.0174532925199433]],PROJECTION["Albers_Conic_Equal_Area"],PARAMETER["latitude_of_center",18],' +
+  'PARAMETER["longitude_of_center",-100],PARAMETER["standard_parallel_1",27.5],PARAMETER["standard_parallel_2",35],' +
+  'PARAMETER["false_easting",1500000],PARAMETER["false_northing",6000000],UNIT["metre",1],' +
+  'AXIS["Easting",EAST],AXIS["Northing",NORTH]]';
+
+const WEB_MERCATOR_ESRI = 'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",' +
+  'SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],' +
+  'PROJECTION["Mercator_Auxiliary_Sphere"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],' +
+  'PARAMETER["Central_Meridian",0.0],PARAMETER["Standard_Parallel_1",0.0],PARAMETER["Auxiliary_Sphere_Type",0.0],' +
+  'UNIT["Meter",1.0]]';
+
+const NAD83_GEOGRAPHIC = 'GEOGCS["GCS_North_American_1983",DATUM["D_North_American_1983",' +
+  'SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+describe('Projection Utilities', () => {
+  describe('parsePrj', () => {
+    it('should recognise the supported coordinate systems', () => {
+      expect(parsePrj(TEXAS_CENTRAL_ESRI).epsg).toBe(2277);
+      expect(parsePrj(TEXAS_CENTRIC_ALBERS_OGC).epsg).toBe(3083);
+      expect(parsePrj(WEB_MERCATOR_ESRI).epsg).toBe(3857);
+      expect(parsePrj(NAD83_GEOGRAPHIC).epsg).toBe(4269);
+    });
+
+    it('should throw a clear error for unsupported projections', () => {
+      const utmNad27 = 'PROJCS["NAD_1927_UTM_Zone_14N",GEOGCS["GCS_North_American_1927",DATUM["D_North_American_1927",' +
+        'SPHEROID["Clarke_1866",6378206.4,294.9786982]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],' +
+        'PROJECTION["Transverse_Mercator"],PARAMETER["Central_Meridian",-99.0],UNIT["Meter",1.0]]';
+
+      expect(() => parsePrj(utmNad27)).toThrow(/Unsupported projection "NAD_1927_UTM_Zone_14N"/);
+      expect(() => getProjection(32614)).toThrow(/EPSG:32614/);
+    });
+  });
+
+  describe('createToWGS84', () => {
+    // Reference values for the Texas Capitol (-97.7404, 30.2747)
+    it('should invert Texas State Plane Central (US feet)', () => {
+      const [lng, lat] = createToWGS84(parsePrj(TEXAS_CENTRAL_ESRI))([3115014.7789751394, 10073182.91911978]);
+      expect(lng).toBeCloseTo(-97.7404, 6);
+      expect(lat).toBeCloseTo(30.2747, 6);
+    });
+
+    it('should invert Texas Centric Albers Equal Area', () => {
+      const [lng, lat] = createToWGS84(getProjection(3083))([1716975.001134021, 7352707.291279569]);
+      expect(lng).toBeCloseTo(-97.7404, 6);
+      expect(lat).toBeCloseTo(30.2747, 6);
+    });
+
+    it('should invert Web Mercator', () => {
+      const [lng, lat] = createToWGS84(getProjection(3857))([-10880411.557930876, 3538909.063564954]);
+      expect(lng).toBeCloseTo(-97.7404, 6);
+      expect(lat).toBeCloseTo(30.2747, 6);
+    });
+  });
+
+  describe('reprojectGeometry', () => {
+    it('should reproject every ring of a MultiPolygon', () => {
+      const geometry: GeoJSON.MultiPolygon = {
+        type: 'MultiPolygon',
+        coordinates: [[[
+          [3115014.7789751394, 10073182.91911978],
+          [412721.35599896905, 10669799.305015229],
+          [4338329.040410827, 9913679.97220306],
+          [3115014.7789751394, 10073182.91911978]
+        ]]]
+      };
+
+      const ring = reprojectGeometry(geometry, getProjection(2277)).coordinates[0][0];
+      expect(ring[1][0]).toBeCloseTo(-106.4, 6);
+      expect(ring[1][1]).toBeCloseTo(31.8, 6);
+      expect(ring[2][0]).toBeCloseTo(-93.9, 6);
+      expect(ring[2][1]).toBeCloseTo(29.7, 6);
+    });
+  });
+
+  describe('getGeoJSONProjection', () => {
+    it('should read a legacy GeoJSON crs member', () => {
+      expect(getGeoJSONProjection({ crs: { properties: { name: 'urn:ogc:def:crs:EPSG::3857' } } })?.epsg).toBe(3857);
+      expect(getGeoJSONProjection({})).toBeNull();
+    });
+  });
+});
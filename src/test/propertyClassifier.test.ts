@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { classifyProperty, classifyStateCode, normalizeStateCode, toPropertyType } from '../utils/propertyClassifier';
+
+describe('Property Classifier', () => {
+  describe('normalizeStateCode', () => {
+    it('should normalise state codes and reject descriptions', () => {
+      expect(normalizeStateCode(' a1 ')).toBe('A1');
+      expect(normalizeStateCode('A1 D1')).toBe('A1');
+      expect(normalizeStateCode('XV')).toBe('XV');
+      expect(normalizeStateCode('AG')).toBeUndefined();
+      expect(normalizeStateCode('Commercial')).toBeUndefined();
+      expect(normalizeStateCode(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('classifyStateCode', () => {
+    it('should map PTAD codes to a property type and subtype', () => {
+      expect(classifyStateCode('A1')).toMatchObject({ propertyType: 'residential', subtype: 'single-family', stateCode: 'A1' });
+      expect(classifyStateCode('B2')).toMatchObject({ propertyType: 'residential', subtype: 'multifamily' });
+      expect(classifyStateCode('C1')).toMatchObject({ propertyType: 'vacant', subtype: 'vacant-lot' });
+      expect(classifyStateCode('D1')).toMatchObject({ propertyType: 'agricultural', subtype: 'open-space' });
+      expect(classifyStateCode('F1')).toMatchObject({ propertyType: 'commercial', subtype: 'commercial' });
+      expect(classifyStateCode('F2')).toMatchObject({ propertyType: 'industrial', subtype: 'manufacturing' });
+    });
+
+    it('should leave codes without a parcel category unclassified', () => {
+      expect(classifyStateCode('H1')).toBeUndefined();
+      expect(classifyStateCode('N')).toBeUndefined();
+      expect(classifyStateCode('XV')).toBeUndefined();
+    });
+  });
+
+  describe('classifyProperty', () => {
+    it('should record why each classification was made', () => {
+      const byCode = classifyProperty('F1');
+      expect(byCode.source).toBe('ptad-code');
+      expect(byCode.reason).toBe('PTAD state code F1: Commercial real property');
+
+      const byKeyword = classifyProperty('Retail Store');
+      expect(byKeyword).toMatchObject({ propertyType: 'commercial', subtype: 'retail', source: 'land-use-keyword' });
+      expect(byKeyword.reason).toContain('"retail"');
+
+      const byDefault = classifyProperty('Q9');
+      expect(byDefault).toMatchObject({ propertyType: 'residential', subtype: 'unclassified', source: 'default' });
+      expect(byDefault.reason).toContain('Unrecognised land use "Q9"');
+    });
+
+    it('should not take a land use from exemption codes', () => {
+      const exempt = classifyProperty('XV');
+
+      expect(exempt).toMatchObject({ propertyType: 'residential', subtype: 'exempt', source: 'default', stateCode: 'XV' });
+      expect(exempt.propertyType).not.toBe('commercial');
+      expect(exempt.reason).toBe('PTAD state code XV is a tax exemption, not a land use; defaulted to residential');
+      expect(toPropertyType('XB')).toBe('residential');
+    });
+  });
+
+  describe('toPropertyType', () => {
+    it('should keep classified types and classify raw values', () => {
+      expect(toPropertyType('industrial')).toBe('industrial');
+      expect(toPropertyType('D1')).toBe('agricultural');
+      expect(toPropertyType('')).toBe('residential');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { propertyEnrichmentService } from '../services/propertyDataEnrichment';
+import {
+  BuildingFootprintProvider,
+  ParcelAttributeProvider,
+  TcadAppraisalRollProvider,
+  type EnrichmentProvider
+} from '../services/enrichmentProviders';
+import { buildParcelIndex } from '../services/comprehensiveDataLoader';
+import type { BuildingFootprint, TravisCountyParcel } from '../types';
+
+const square = (lng: number, lat: number, size: number): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size], [lng, lat]]]
+});
+
+const parcel: TravisCountyParcel = {
+  OBJECTID: 1,
+  PROP_ID: '123456',
+  SITE_ADDR: '1100 CONGRESS AVE',
+  CITY: 'Austin',
+  STATE: 'TX',
+  ZIP: '78701',
+  OWNER_NAME: 'STATE OF TEXAS',
+  TOTAL_VAL: 1250000,
+  LAND_VAL: 750000,
+  IMP_VAL: 500000,
+  SQ_FT: 0,
+  PROP_TYPE: 'commercial',
+  PROP_SUBTYPE: 'commercial',
+  COUNTY: 'Travis',
+  geometry: square(-97.741, 30.274, 0.002)
+};
+
+const building: BuildingFootprint = {
+  id: 'way/1',
+  geometry: square(-97.7402, 30.2748, 0.0002),
+  height: 12,
+  confidence: 0.9,
+  area: 0,
+  coordinates: { lat: 30.2749, lng: -97.7401 },
+  properties: { building: 'yes' }
+};
+
+const location = { lat: 30.2749, lng: -97.7401 };
+
+describe('Property Data Enrichment', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+    propertyEnrichmentService.setProviders([]);
+  });
+
+  it('should merge provider values with per-field provenance', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      text: async () => 'prop_id,py_owner_name,market_value,yr_blt,deed_dt,sale_price\n123456,"TEXAS, STATE OF",1300000,1888,2019-05-01,990000\n'
+    } as Response);
+
+    propertyEnrichmentService.setProviders([
+      new ParcelAttributeProvider(buildParcelIndex([parcel])),
+      new TcadAppraisalRollProvider('/roll.csv'),
+      new BuildingFootprintProvider([building])
+    ]);
+
+    const result = await propertyEnrichmentService.enrichLocation('1100 Congress Ave', location);
+
+    expect(result.parcelId).toBe('123456');
+    expect(result.ownerName).toBe('TEXAS, STATE OF');
+    expect(result.provenance.ownerName?.providerId).toBe('tcad-appraisal-roll');
+    expect(result.marketValue).toBe(1300000);
+    expect(result.landValue).toBe(750000);
+    expect(result.provenance.landValue).toMatchObject({ providerId: 'parcel-attributes', detail: 'Parcel 123456 (Travis County)' });
+    expect(result.yearBuilt).toBe(1888);
+    expect(result.buildingHeight).toBe(12);
+    expect(result.squareFootage).toBeGreaterThan(2000);
+    expect(result.provenance.squareFootage?.providerId).toBe('building-footprints');
+    expect(result.lotSize).toBeGreaterThan(10);
+    expect(result.propertyId).toBe('parcel-123456');
+  });
+
+  it('should register the default providers for the loaded datasets', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 404 } as Response);
+
+    propertyEnrichmentService.setDatasets({ parcelIndex: buildParcelIndex([parcel]), buildings: [building] });
+
+    expect(propertyEnrichmentService.getProviders().map(provider => provider.id)).toEqual([
+      'parcel-attributes',
+      'tcad-appraisal-roll',
+      'building-footprints'
+    ]);
+
+    const result = await propertyEnrichmentService.enrichLocation('1100 Congress Ave', location);
+    expect(result.parcelId).toBe('123456');
+    expect(result.provenance.landValue?.providerId).toBe('parcel-attributes');
+    expect(result.buildingHeight).toBe(12);
+  });
+
+  it('should report fields no provider can supply as unknown', async () => {
+    propertyEnrichmentService.setProviders([new ParcelAttributeProvider(buildParcelIndex([parcel]))]);
+
+    const result = await propertyEnrichmentService.enrichLocation('Somewhere else', { lat: 30.5, lng: -97.5 }, 'a1');
+
+    expect(result.marketValue).toBeUndefined();
+    expect(result.bedrooms).toBeUndefined();
+    expect(result.unknownFields).toContain('marketValue');
+    expect(result.unknownFields).toContain('ownerName');
+    expect(result.provenance).toEqual({});
+    expect(result.propertyId).toBe('enriched-a1');
+  });
+
+  it('should let higher-priority providers win and keep going when one fails', async () => {
+    const provider = (id: string, priority: number, ownerName: string): EnrichmentProvider => ({
+      id,
+      name: id,
+      priority,
+      enrich: async () => ({ values: { ownerName } })
+    });
+    const failing: EnrichmentProvider = {
+      id: 'failing',
+      name: 'failing',
+      priority: 100,
+      enrich: async () => { throw new Error('offline'); }
+    };
+
+    propertyEnrichmentService.setProviders([provider('low', 1, 'Low'), failing, provider('high', 5, 'High')]);
+
+    const results = await propertyEnrichmentService.enrichAddressPoints([
+      { address: '1 Main St', coordinates: location },
+      { address: '1 Main St', coordinates: location }
+    ]);
+
+    expect(results[0].ownerName).toBe('High');
+    expect(results[0].provenance.ownerName?.providerId).toBe('high');
+    expect(results[1]).toEqual({ ...results[0], propertyId: 'enriched-address-1' });
+  });
+
+  it('should skip placeholder mock buildings', async () => {
+    propertyEnrichmentService.setProviders([new BuildingFootprintProvider([{ ...building, id: 'mock_building_1' }])]);
+
+    const result = await propertyEnrichmentService.enrichLocation('1100 Congress Ave', location);
+    expect(result.squareFootage).toBeUndefined();
+  });
+});
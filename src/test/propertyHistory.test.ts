@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AuditedPropertyRepository,
+  LocalStorageRevisionStore,
+  diffProperties
+} from '../services/propertyHistory';
+import { LocalStoragePropertyRepository } from '../services/propertyRepository';
+import { getReviewChanges } from '../services/moderation';
+import { makeProperty } from './fixtures';
+
+describe('Property History', () => {
+  let repository: AuditedPropertyRepository;
+  let actor: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const storage: Record<string, string> = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+
+    actor = 'Jamie';
+    repository = new AuditedPropertyRepository(new LocalStoragePropertyRepository(), new LocalStorageRevisionStore(), () => actor);
+  });
+
+  it('should diff only the fields that changed', () => {
+    const before = makeProperty({ description: 'Old' });
+    const after = makeProperty({ marketValue: 550000, coordinates: { lat: 30.2672, lng: -97.7431 } });
+
+    expect(diffProperties(before, after)).toEqual([
+      { field: 'marketValue', before: 500000, after: 550000 },
+      { field: 'description', before: 'Old', after: undefined }
+    ]);
+  });
+
+  it('should record every change with its actor and field-level diff', async () => {
+    await repository.create(makeProperty());
+    actor = 'Alex';
+    await repository.update('test-1', { marketValue: 550000 });
+    await repository.update('test-1', getReviewChanges({ status: 'approved', reviewer: 'Sam' }));
+    await repository.delete('test-1');
+
+    const history = await repository.getHistory('test-1');
+
+    expect(history.map(revision => [revision.revision, revision.action, revision.actor])).toEqual([
+      [1, 'create', 'Jamie'],
+      [2, 'update', 'Alex'],
+      // Moderation decisions are attributed to the signed-in user, not the reviewer they name
+      [3, 'status', 'Alex'],
+      [4, 'delete', 'Alex']
+    ]);
+    expect(history[1].changes).toEqual([{ field: 'marketValue', before: 500000, after: 550000 }]);
+    expect(history[2].snapshot).toMatchObject({ status: 'approved', reviewedBy: 'Alex' });
+    expect(history[3].snapshot).toBeNull();
+  });
+
+  it('should not record changes to missing properties', async () => {
+    expect(await repository.update('missing', { marketValue: 1 })).toBeNull();
+    expect(await repository.delete('missing')).toBe(false);
+    expect(await repository.getHistory('missing')).toEqual([]);
+  });
+
+  it('should restore an earlier version as a new revision', async () => {
+    await repository.create(makeProperty());
+    await repository.update('test-1', { marketValue: 550000, description: 'Renovated' });
+    const [original] = await repository.getHistory('test-1');
+
+    const restored = await repository.restore(original);
+
+    expect(restored).toMatchObject({ marketValue: 500000 });
+    expect(restored?.description).toBeUndefined();
+
+    const history = await repository.getHistory('test-1');
+    expect(history).toHaveLength(3);
+    expect(history[2]).toMatchObject({ action: 'restore', restoredFrom: 1, actor: 'Jamie' });
+    // Earlier revisions are left untouched
+    expect(history[1].snapshot).toMatchObject({ marketValue: 550000, description: 'Renovated' });
+  });
+
+  it('should bring back a deleted property', async () => {
+    await repository.create(makeProperty());
+    await repository.delete('test-1');
+    const [created] = await repository.getHistory('test-1');
+
+    await repository.restore(created);
+
+    expect(await repository.get('test-1')).toMatchObject({ address: '123 Test St' });
+  });
+
+  it('should list deleted properties until they are restored', async () => {
+    await repository.create(makeProperty());
+    await repository.update('test-1', { marketValue: 550000 });
+    await repository.create(makeProperty({ id: 'test-2' }));
+    actor = 'Riley';
+    await repository.delete('test-1');
+
+    const deleted = await repository.getDeletedProperties();
+    expect(deleted).toHaveLength(1);
+    expect(deleted[0]).toMatchObject({ property: { id: 'test-1', marketValue: 550000 }, deletedBy: 'Riley' });
+
+    const history = await repository.getHistory('test-1');
+    await repository.restore(history[1]);
+
+    expect(await repository.getDeletedProperties()).toEqual([]);
+    expect(await repository.get('test-1')).toMatchObject({ marketValue: 550000 });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  LocalStoragePropertyRepository,
+  migrateLocalProperties,
+  resolvePropertyRepository,
+  type PropertyRepository
+} from '../services/propertyRepository';
+import { HttpPropertyRepository, PropertyApiError } from '../services/propertyApi';
+import { AuditedPropertyRepository } from '../services/propertyHistory';
+import { STORAGE_KEY } from '../services/propertyStorage';
+import type { Property } from '../types';
+import { makeProperty } from './fixtures';
+
+// Minimal in-memory target for migration tests
+class MemoryPropertyRepository implements PropertyRepository {
+  readonly kind = 'indexedDB' as const;
+  readonly records: Record<string, Property> = {};
+
+  async list() { return Object.values(this.records); }
+  async get(id: string) { return this.records[id] || null; }
+  async create(property: Property) { this.records[property.id] = property; return property; }
+  async update(id: string, updates: Partial<Property>) {
+    if (!this.records[id]) return null;
+    this.records[id] = { ...this.records[id], ...updates, id };
+    return this.records[id];
+  }
+  async delete(id: string) {
+    const existed = id in this.records;
+    delete this.records[id];
+    return existed;
+  }
+}
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body }) as Response;
+
+describe('Property Repository', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+    vi.mocked(localStorage.removeItem).mockImplementation(key => { delete storage[key]; });
+  });
+
+  describe('LocalStoragePropertyRepository', () => {
+    it('should create, update and delete properties', async () => {
+      const repository = new LocalStoragePropertyRepository();
+
+      await repository.create(makeProperty());
+      expect(await repository.list()).toHaveLength(1);
+
+      const updated = await repository.update('test-1', { status: 'approved' });
+      expect(updated?.status).toBe('approved');
+      expect((await repository.get('test-1'))?.status).toBe('approved');
+
+      expect(await repository.delete('test-1')).toBe(true);
+      expect(await repository.get('test-1')).toBeNull();
+      expect(await repository.update('test-1', { status: 'rejected' })).toBeNull();
+    });
+  });
+
+  describe('migrateLocalProperties', () => {
+    it('should move normalized legacy records into the target and clear localStorage', async () => {
+      storage[STORAGE_KEY] = JSON.stringify([
+        {
+          id: 'legacy-1',
+          address: '1 Old Rd',
+          city: 'Austin',
+          state: 'TX',
+          zipCode: '78702',
+          coordinates: { lat: 30.26, lng: -97.72 },
+          propertyType: 'Residential',
+          price: 250000,
+          notes: 'From an old build'
+        },
+        makeProperty({ id: 'test-2' }),
+        // Missing its location, so it is set aside rather than migrated as a placeholder
+        { id: 'legacy-2', address: '2 Old Rd', price: 1 }
+      ]);
+
+      const target = new MemoryPropertyRepository();
+      await target.create(makeProperty({ id: 'test-2', status: 'approved' }));
+
+      expect(await migrateLocalProperties(target)).toBe(1);
+      expect(target.records['legacy-1']).toMatchObject({
+        propertyType: 'residential',
+        marketValue: 250000,
+        description: 'From an old build'
+      });
+      // Records already in the target win over the local copy
+      expect(target.records['test-2'].status).toBe('approved');
+      expect(target.records['legacy-2']).toBeUndefined();
+      expect(storage[STORAGE_KEY]).toBeUndefined();
+    });
+  });
+
+  describe('resolvePropertyRepository', () => {
+    it('should sync records kept in localStorage when IndexedDB is unavailable', async () => {
+      // Keep the background sync it starts from running into later tests
+      vi.useFakeTimers();
+      storage[STORAGE_KEY] = JSON.stringify([makeProperty()]);
+
+      const repository = await resolvePropertyRepository('auto');
+      vi.useRealTimers();
+
+      expect(repository).toBeInstanceOf(AuditedPropertyRepository);
+      expect(repository.kind).toBe('localStorage');
+      expect(await repository.list()).toHaveLength(1);
+    });
+  });
+
+  describe('HttpPropertyRepository', () => {
+    const repository = new HttpPropertyRepository('http://api.test/api/');
+
+    it('should map missing records to null and false', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(404, { error: 'Property missing not found' }));
+
+      expect(await repository.get('missing')).toBeNull();
+      expect(await repository.update('missing', { status: 'approved' })).toBeNull();
+      expect(await repository.delete('missing')).toBe(false);
+      expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://api.test/api/properties/missing');
+    });
+
+    it('should send updates without identity fields', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(200, makeProperty({ marketValue: 1 })));
+
+      await repository.update('test-1', { id: 'other', submittedAt: 'now', marketValue: 1 });
+
+      const [, init] = vi.mocked(fetch).mock.calls[0];
+      expect(init?.method).toBe('PATCH');
+      expect(JSON.parse(init?.body as string)).toEqual({ marketValue: 1 });
+    });
+
+    it('should act as another user when asked to', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(200, makeProperty()));
+
+      await repository.asUser('reviewer').get('test-1');
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(url).toBe('http://api.test/api/properties/test-1');
+      expect(init?.headers).toMatchObject({ 'X-User-Id': 'reviewer' });
+    });
+
+    it('should surface validation errors as PropertyApiError', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(400, { error: 'Invalid property', details: ['zipCode is required'] }));
+
+      const error = await repository.create(makeProperty()).catch(err => err);
+
+      expect(error).toBeInstanceOf(PropertyApiError);
+      expect(error).toMatchObject({ status: 400, message: 'Invalid property', details: ['zipCode is required'] });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateRecord, validateProperty } from '../services/propertySchema';
+import {
+  STORAGE_KEY,
+  exportProperties,
+  importProperties,
+  loadInvalidProperties,
+  loadProperties
+} from '../services/propertyStorage';
+import { IndexedDbPropertyRepository, LocalStoragePropertyRepository } from '../services/propertyRepository';
+import { makeProperty } from './fixtures';
+
+// In-memory stand-in for the properties object store
+const fakeDb = vi.hoisted(() => ({ records: {} as Record<string, unknown> }));
+
+vi.mock('../services/indexedDb', () => {
+  const store = {
+    getAll: () => ({ result: Object.values(fakeDb.records) }),
+    get: (id: string) => ({ result: fakeDb.records[id] }),
+    count: (id: string) => ({ result: id in fakeDb.records ? 1 : 0 }),
+    put: (record: { id: string }) => { fakeDb.records[record.id] = structuredClone(record); },
+    delete: (id: string) => { delete fakeDb.records[id]; },
+    clear: () => { fakeDb.records = {}; }
+  };
+
+  return {
+    PROPERTIES_STORE: 'properties',
+    DATASETS_STORE: 'datasets',
+    REVISIONS_STORE: 'revisions',
+    isIndexedDbAvailable: () => true,
+    openDatabase: async () => ({ transaction: () => ({ objectStore: () => store }) }),
+    requestToPromise: async (request: { result: unknown }) => request.result,
+    transactionDone: async () => undefined
+  };
+});
+
+describe('Property Schema', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = {};
+    fakeDb.records = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+  });
+
+  describe('validateProperty', () => {
+    it('should accept a valid record and drop unknown fields', () => {
+      const result = validateProperty({ ...makeProperty(), extra: 'ignored' });
+      expect(result).toEqual({ ok: true, value: makeProperty() });
+    });
+
+    it('should report every invalid field instead of filling defaults', () => {
+      const result = validateProperty({ id: 'broken', address: '1 Main St', state: 'Texas', marketValue: -5, propertyType: 'castle' });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors).toEqual([
+        'city is required',
+        'zipCode is required',
+        'owner is required',
+        'state must be a two-letter code',
+        'marketValue must be a non-negative number',
+        'propertyType "castle" is not a known property type',
+        'coordinates must have lat and lng within range'
+      ]);
+    });
+  });
+
+  describe('migrations', () => {
+    it('should migrate unversioned BackendService records', () => {
+      const legacy = { ...makeProperty(), marketValue: undefined, owner: undefined, price: 250000, notes: 'Corner lot', propertyType: 'Single Family' };
+
+      expect(validateProperty(migrateRecord(legacy, 0))).toEqual({
+        ok: true,
+        value: { ...makeProperty(), marketValue: 250000, owner: 'Unknown Owner', description: 'Corner lot' }
+      });
+    });
+
+    it('should refuse data from a newer schema version', () => {
+      expect(() => migrateRecord(makeProperty(), CURRENT_SCHEMA_VERSION + 1)).toThrow('newer than the supported version');
+    });
+
+    it('should quarantine placeholder records on load instead of showing them', () => {
+      storage[STORAGE_KEY] = JSON.stringify([
+        { ...makeProperty(), acreage: 0, description: '' },
+        makeProperty({ id: 'padded', zipCode: '00000' })
+      ]);
+      storage.submitted_properties_version = '1';
+
+      const properties = loadProperties();
+
+      expect(properties).toEqual([makeProperty()]);
+      expect(loadInvalidProperties()).toMatchObject([{ index: 1, id: 'padded', errors: ['zipCode is required'] }]);
+      expect(storage.submitted_properties_version).toBe(String(CURRENT_SCHEMA_VERSION));
+      expect(JSON.parse(storage[STORAGE_KEY])).toEqual([makeProperty()]);
+    });
+
+    it('should migrate and validate IndexedDB records, including ones pulled from the server', async () => {
+      fakeDb.records = {
+        'test-1': { ...makeProperty(), acreage: 0 },
+        padded: makeProperty({ id: 'padded', zipCode: '00000' })
+      };
+
+      expect(await new IndexedDbPropertyRepository().list()).toEqual([makeProperty()]);
+      expect(loadInvalidProperties()).toMatchObject([{ id: 'padded', errors: ['zipCode is required'] }]);
+      expect(Object.keys(fakeDb.records)).toEqual(['test-1']);
+
+      // Once migrated, records are only validated
+      fakeDb.records.remote = { ...makeProperty({ id: 'remote' }), propertyType: 'castle' };
+      fakeDb.records.kept = makeProperty({ id: 'kept', zipCode: '00000' });
+      expect((await new IndexedDbPropertyRepository().list()).map(property => property.id)).toEqual(['test-1', 'kept']);
+      expect(loadInvalidProperties().map(record => record.id)).toEqual(['padded', 'remote']);
+    });
+  });
+
+  describe('importProperties', () => {
+    it('should import valid records and report the invalid ones', async () => {
+      storage[STORAGE_KEY] = JSON.stringify([makeProperty({ id: 'existing' })]);
+      storage.submitted_properties_version = String(CURRENT_SCHEMA_VERSION);
+
+      const report = await importProperties(new LocalStoragePropertyRepository(), JSON.stringify([makeProperty(), { id: 'bad' }]), 'replace');
+
+      expect(report).toMatchObject({ success: true, mode: 'replace', schemaVersion: 0, total: 2, imported: 1 });
+      expect(report.errors).toHaveLength(1);
+      expect(report.errors[0]).toMatchObject({ index: 1, id: 'bad' });
+      expect(loadProperties().map(property => property.id)).toEqual(['test-1']);
+    });
+
+    it('should replace and merge the records of any repository', async () => {
+      const repository = new IndexedDbPropertyRepository();
+      await repository.create(makeProperty({ id: 'a' }));
+      await repository.create(makeProperty({ id: 'b', marketValue: 1, description: 'Old' }));
+      const exported = await exportProperties(repository);
+      expect(JSON.parse(exported).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+      fakeDb.records = {};
+      await repository.create(makeProperty({ id: 'b', marketValue: 2 }));
+      await repository.create(makeProperty({ id: 'c' }));
+      const merged = await importProperties(repository, exported, 'merge');
+
+      expect(merged).toMatchObject({ success: true, imported: 2, errors: [] });
+      expect((await repository.list()).map(property => [property.id, property.marketValue])).toEqual([['b', 1], ['c', 500000], ['a', 500000]]);
+
+      await repository.update('b', { description: undefined });
+      await importProperties(repository, JSON.stringify([makeProperty({ id: 'b', marketValue: 3 })]), 'replace');
+
+      expect(await repository.list()).toEqual([makeProperty({ id: 'b', marketValue: 3 })]);
+    });
+
+    it('should leave storage alone when nothing can be imported', async () => {
+      const repository = new LocalStoragePropertyRepository();
+      storage[STORAGE_KEY] = JSON.stringify([makeProperty()]);
+      storage.submitted_properties_version = String(CURRENT_SCHEMA_VERSION);
+
+      expect(await importProperties(repository, '{"not": "properties"}')).toMatchObject({ success: false, error: 'Expected an array of properties or an export file' });
+      expect(await importProperties(repository, '[{"id": "bad"}]')).toMatchObject({ success: false, error: 'No valid properties to import' });
+      expect((await importProperties(repository, JSON.stringify({ schemaVersion: 99, properties: [makeProperty()] }))).success).toBe(false);
+      expect(loadProperties()).toEqual([makeProperty()]);
+    });
+  });
+});
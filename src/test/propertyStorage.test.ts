@@ -344,5 +344,28 @@ describe('Property Storage Service', () => {
       expect(property.status).toBe('pending');
       expect(property.submittedAt).toBeDefined();
     });
+
+    it('should keep a drawn boundary as the property geometry', () => {
+      const boundary: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [[[-97.7431, 30.2672], [-97.7421, 30.2672], [-97.7421, 30.2682], [-97.7431, 30.2672]]]
+      };
+      const submission: PropertySubmission = {
+        address: '123 Test St',
+        city: 'Austin',
+        state: 'TX',
+        zipCode: '78701',
+        price: 500000,
+        acreage: 1.32,
+        propertyType: 'vacant',
+        description: 'Drawn lot',
+        coordinates: { lat: 30.2675, lng: -97.7424 },
+        geometry: boundary
+      };
+
+      const property = convertSubmissionToProperty(submission);
+      expect(property.geometry).toEqual(boundary);
+      expect(property.acreage).toBe(1.32);
+    });
   });
-}); 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PropertySyncService, SyncingPropertyRepository, type RemotePropertyRepository } from '../services/propertySync';
+import { getRetryDelay, loadOutbox, saveKnownRemoteIds } from '../services/propertyOutbox';
+import type { PropertyRepository } from '../services/propertyRepository';
+import type { Property } from '../types';
+import { makeProperty } from './fixtures';
+
+class MemoryPropertyRepository implements PropertyRepository {
+  readonly kind = 'indexedDB' as const;
+  records: Record<string, Property> = {};
+
+  async list() { return Object.values(this.records); }
+  async get(id: string) { return this.records[id] || null; }
+  async create(property: Property) { this.records[property.id] = property; return property; }
+  async update(id: string, updates: Partial<Property>) {
+    if (!this.records[id]) return null;
+    this.records[id] = { ...this.records[id], ...updates, id };
+    return this.records[id];
+  }
+  async delete(id: string) {
+    const existed = id in this.records;
+    delete this.records[id];
+    return existed;
+  }
+}
+
+class MemoryRemoteRepository extends MemoryPropertyRepository implements RemotePropertyRepository {
+  available = true;
+  actingUsers: string[] = [];
+  async isAvailable() { return this.available; }
+  asUser(userId: string) {
+    this.actingUsers.push(userId);
+    return this;
+  }
+}
+
+describe('Property Sync', () => {
+  let storage: Record<string, string>;
+  let local: MemoryPropertyRepository;
+  let remote: MemoryRemoteRepository;
+  let sync: PropertySyncService;
+  let repository: SyncingPropertyRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => storage[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage[key] = value; });
+    vi.mocked(localStorage.removeItem).mockImplementation(key => { delete storage[key]; });
+
+    local = new MemoryPropertyRepository();
+    remote = new MemoryRemoteRepository();
+    sync = new PropertySyncService(local, remote);
+    repository = new SyncingPropertyRepository(local, sync);
+  });
+
+  it('should queue local changes and replay them in order once the server is reachable', async () => {
+    remote.available = false;
+    await repository.create(makeProperty());
+    await repository.update('test-1', { status: 'approved' });
+
+    expect(await local.get('test-1')).toMatchObject({ status: 'approved' });
+    expect(loadOutbox().map(operation => operation.type)).toEqual(['create', 'status']);
+    expect(sync.getStatuses()['test-1']).toMatchObject({ state: 'pending', pendingOperations: 2 });
+
+    await sync.syncNow();
+    expect(remote.records).toEqual({});
+
+    remote.available = true;
+    await sync.syncNow();
+
+    expect(remote.records['test-1']).toMatchObject({ status: 'approved' });
+    expect(loadOutbox()).toEqual([]);
+    expect(sync.getStatuses()).toEqual({});
+  });
+
+  it('should replay each change as the user who queued it', async () => {
+    let userId = 'submitter';
+    sync = new PropertySyncService(local, remote, () => userId);
+    repository = new SyncingPropertyRepository(local, sync);
+
+    remote.available = false;
+    await repository.create(makeProperty({ submittedBy: 'submitter' }));
+    userId = 'reviewer';
+    await repository.update('test-1', { status: 'approved' });
+
+    userId = 'admin';
+    remote.available = true;
+    await sync.syncNow();
+
+    expect(remote.actingUsers).toEqual(['submitter', 'reviewer']);
+    expect(remote.records['test-1']).toMatchObject({ status: 'approved' });
+  });
+
+  it('should back off after a failed replay', async () => {
+    vi.spyOn(remote, 'create').mockRejectedValue(new Error('Failed to fetch'));
+    await repository.create(makeProperty());
+
+    await sync.syncNow();
+    const [operation] = loadOutbox();
+    expect(operation).toMatchObject({ attempts: 1, lastError: 'Failed to fetch' });
+    expect(Date.parse(operation.nextAttemptAt!) - Date.now()).toBeGreaterThan(4000);
+    expect(sync.getStatuses()['test-1'].state).toBe('error');
+
+    // Not retried before the backoff expires
+    await sync.syncNow();
+    expect(remote.create).toHaveBeenCalledTimes(1);
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(3)).toBe(20000);
+    expect(getRetryDelay(20)).toBe(300000);
+  });
+
+  it('should detect fields changed on the server and let the user pick a side', async () => {
+    await local.create(makeProperty());
+    await remote.create(makeProperty({ marketValue: 600000 }));
+
+    await repository.update('test-1', { marketValue: 550000 });
+    await sync.syncNow();
+
+    expect(sync.getStatuses()['test-1']).toMatchObject({
+      state: 'conflict',
+      conflict: { reason: 'Changed on the server: marketValue' }
+    });
+    expect(remote.records['test-1'].marketValue).toBe(600000);
+
+    await sync.resolveConflict('test-1', 'keepLocal');
+    await sync.syncNow();
+
+    expect(remote.records['test-1'].marketValue).toBe(550000);
+    expect(loadOutbox()).toEqual([]);
+  });
+
+  it('should treat a create the server already stored as sent, even with its own review details', async () => {
+    await repository.create(makeProperty({ status: 'approved', reviewedBy: 'Riley Reviewer' }));
+    // The response to an earlier attempt was lost after the server stamped the review
+    await remote.create(makeProperty({ status: 'approved', reviewedBy: 'Alex Admin', reviewedAt: '2024-02-01T00:00:00.000Z' }));
+
+    await sync.syncNow();
+
+    expect(loadOutbox()).toEqual([]);
+    expect(await local.get('test-1')).toMatchObject({ status: 'approved', reviewedBy: 'Alex Admin' });
+  });
+
+  it('should discard local changes when keeping the server copy', async () => {
+    await local.create(makeProperty());
+    await repository.delete('test-1');
+    await remote.create(makeProperty({ status: 'approved' }));
+
+    await sync.syncNow();
+    expect(sync.getStatuses()['test-1'].state).toBe('conflict');
+
+    await sync.resolveConflict('test-1', 'keepRemote');
+
+    expect(await local.get('test-1')).toMatchObject({ status: 'approved' });
+    expect(remote.records['test-1']).toBeDefined();
+    expect(loadOutbox()).toEqual([]);
+  });
+
+  it('should pull server changes and push records that were never sent', async () => {
+    const listener = vi.fn();
+    sync.subscribe(listener);
+
+    await remote.create(makeProperty({ id: 'remote-1' }));
+    await local.create(makeProperty({ id: 'unsent-1' }));
+    await local.create(makeProperty({ id: 'deleted-remotely' }));
+    saveKnownRemoteIds(['deleted-remotely']);
+
+    await sync.syncNow();
+
+    expect(await local.get('remote-1')).not.toBeNull();
+    expect(await local.get('deleted-remotely')).toBeNull();
+    expect(loadOutbox()).toMatchObject([{ type: 'create', propertyId: 'unsent-1' }]);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ propertiesChanged: true }));
+
+    await sync.syncNow();
+    expect(remote.records['unsent-1']).toBeDefined();
+  });
+});
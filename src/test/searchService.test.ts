@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PropertySearchService, matchesSearchFilters, propertySearch } from '../services/searchService';
+import { getPropertyById, searchProperties } from '../services/propertyService';
+import type { AddressPoint } from '../services/comprehensiveDataLoader';
+import type { BuildingFootprint, Property, TravisCountyParcel } from '../types';
+import { makeProperty } from './fixtures';
+
+const SQUARE: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [[[-97.7410, 30.2740], [-97.7400, 30.2740], [-97.7400, 30.2750], [-97.7410, 30.2750], [-97.7410, 30.2740]]]
+};
+
+// A submission on the parcel below, with the details the range filters look at
+const makeSubmission = (overrides: Partial<Property> = {}): Property => makeProperty({
+  id: 'submitted-1',
+  address: '1100 Congress Ave',
+  coordinates: { lat: 30.2745, lng: -97.7405 },
+  yearBuilt: 2010,
+  squareFootage: 2000,
+  bedrooms: 3,
+  bathrooms: 2,
+  ...overrides
+});
+
+const parcel: TravisCountyParcel = {
+  OBJECTID: 1,
+  PROP_ID: '100200',
+  SITE_ADDR: '1100 CONGRESS AVE',
+  CITY: 'AUSTIN',
+  STATE: 'TX',
+  ZIP: '78701',
+  OWNER_NAME: 'STATE OF TEXAS',
+  TOTAL_VAL: 9000000,
+  LAND_VAL: 4000000,
+  IMP_VAL: 5000000,
+  SQ_FT: 40000,
+  PROP_TYPE: 'F1',
+  COUNTY: 'Travis',
+  geometry: SQUARE
+};
+
+const address: AddressPoint = {
+  id: 'a1',
+  address: '1102 CONGRESS AVE',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+  county: 'Travis',
+  parcelId: '100200',
+  coordinates: { lat: 30.2746, lng: -97.7404 },
+  geometry: { type: 'Point', coordinates: [-97.7404, 30.2746] }
+};
+
+const building: BuildingFootprint = {
+  id: 'b1',
+  geometry: SQUARE,
+  height: 20,
+  confidence: 0.9,
+  area: 0,
+  coordinates: { lat: 30.2745, lng: -97.7405 },
+  parcelId: '100200',
+  properties: { building: 'commercial' }
+};
+
+describe('Search Service', () => {
+  describe('matchesSearchFilters', () => {
+    it('should treat 0 and empty values as unset', () => {
+      expect(matchesSearchFilters(makeSubmission(), { address: '', minPrice: 0, maxPrice: 0, bedrooms: 0 })).toBe(true);
+    });
+
+    it('should apply every filter, including city and state', () => {
+      const property = makeSubmission();
+
+      expect(matchesSearchFilters(property, { address: 'congress', city: 'AUSTIN', state: 'tx' })).toBe(true);
+      expect(matchesSearchFilters(property, { city: 'Round Rock' })).toBe(false);
+      expect(matchesSearchFilters(property, { minPrice: 600000 })).toBe(false);
+      expect(matchesSearchFilters(property, { maxYearBuilt: 2000 })).toBe(false);
+      expect(matchesSearchFilters(property, { minSquareFootage: 1500, maxSquareFootage: 2500 })).toBe(true);
+      expect(matchesSearchFilters(property, { bathrooms: 2.5 })).toBe(false);
+    });
+
+    it('should not match a range on a value the record does not have', () => {
+      expect(matchesSearchFilters(makeSubmission({ yearBuilt: undefined }), { minYearBuilt: 1990 })).toBe(false);
+    });
+  });
+
+  describe('PropertySearchService', () => {
+    let service: PropertySearchService;
+
+    beforeEach(() => {
+      service = new PropertySearchService();
+      service.setSubmissions([makeSubmission(), makeSubmission({ id: 'submitted-2', address: '12 Oak St', propertyType: 'commercial' })]);
+      service.setDatasets({ parcels: [parcel], addresses: [address], buildings: [building] });
+    });
+
+    it('should index every source and tag each result', () => {
+      const result = service.search({ address: 'congress' });
+
+      expect(result.results?.map(item => [item.source, item.property.id])).toEqual([
+        ['submission', 'submitted-1'],
+        ['parcel', '100200'],
+        ['address', 'address-a1'],
+        ['building', 'building-b1']
+      ]);
+      expect(result.totalsBySource).toEqual({ submission: 1, parcel: 1, address: 1, building: 1 });
+    });
+
+    it('should give address points and buildings the attributes of their parcel', () => {
+      const [addressResult] = service.findAll({ sources: ['address'] });
+      const [buildingResult] = service.findAll({ sources: ['building'] });
+
+      expect(addressResult.property).toMatchObject({ owner: 'STATE OF TEXAS', marketValue: 9000000, parcelId: '100200' });
+      expect(buildingResult.property).toMatchObject({ address: '1100 CONGRESS AVE', owner: 'STATE OF TEXAS', propertyType: 'commercial' });
+      expect(buildingResult.property.squareFootage).toBeGreaterThan(100000);
+    });
+
+    it('should leave owner and type unset without a parcel and match parcels within the county', () => {
+      const haysParcel = { ...parcel, OWNER_NAME: 'HAYS OWNER', PROP_TYPE: 'A1', COUNTY: 'Hays' };
+      service.setDatasets({
+        parcels: [parcel, haysParcel],
+        addresses: [{ ...address, id: 'a2', parcelId: undefined }],
+        buildings: [{ ...building, county: 'Hays' }]
+      });
+
+      const [addressResult] = service.findAll({ sources: ['address'] });
+      expect(addressResult.property.owner).toBeUndefined();
+      expect(addressResult.property.propertyType).toBeUndefined();
+      expect(service.findAll({ sources: ['address'], propertyType: 'residential' })).toEqual([]);
+
+      const [buildingResult] = service.findAll({ sources: ['building'] });
+      expect(buildingResult.property).toMatchObject({ owner: 'HAYS OWNER', county: 'Hays', propertyType: 'residential' });
+    });
+
+    it('should apply the same filters to every source', () => {
+      const result = service.search({ minPrice: 1000000 });
+
+      expect(result.results?.map(item => item.source)).toEqual(['parcel', 'address', 'building']);
+      expect(service.search({ propertyType: 'commercial', sources: ['submission'] }).properties.map(property => property.id)).toEqual(['submitted-2']);
+    });
+
+    it('should paginate matches', () => {
+      const first = service.search({}, 1, 2);
+      const last = service.search({}, 3, 2);
+
+      expect(first).toMatchObject({ total: 5, page: 1, pageSize: 2 });
+      expect(first.properties.map(property => property.id)).toEqual(['submitted-1', 'submitted-2']);
+      expect(last.properties.map(property => property.id)).toEqual(['building-b1']);
+      expect(service.search({}, 0, 2).page).toBe(1);
+    });
+
+    it('should list addresses starting with the query before other matches from the same source', () => {
+      service.setSubmissions([makeSubmission({ id: 'inner', address: '900 N Lamar Blvd' }), makeSubmission({ id: 'prefix', address: 'Lamar Square' })]);
+
+      expect(service.findAll({ address: 'lamar', sources: ['submission'] }).map(item => item.property.id)).toEqual(['prefix', 'inner']);
+    });
+
+    it('should match abbreviations, typos, owner names and parcel ids', () => {
+      expect(service.findAll({ address: '1100 Congres Avenue', sources: ['submission', 'parcel'] }).map(item => item.property.id))
+        .toEqual(['submitted-1', '100200']);
+      expect(service.findAll({ address: 'state of texas' }).map(item => item.source)).toEqual(['parcel', 'address', 'building']);
+      expect(service.findAll({ address: '100200', sources: ['parcel'] }).map(item => item.property.id)).toEqual(['100200']);
+      expect(matchesSearchFilters(makeSubmission({ address: '900 N Lamar Blvd' }), { address: '900 north lamar boulevard' })).toBe(true);
+    });
+
+    it('should combine spatial filters with attribute filters and outline ZIP codes', () => {
+      const radius = { type: 'radius' as const, center: { lat: 30.2745, lng: -97.7405 }, miles: 1 };
+
+      expect(service.findAll({ spatial: radius, minPrice: 1000000 }).map(item => item.source)).toEqual(['parcel', 'address', 'building']);
+      expect(service.findAll({ spatial: { type: 'zip', zipCode: '78702' } })).toEqual([]);
+      expect(service.findAll({ spatial: { ...radius, center: { lat: 30.5, lng: -97.7405 } } })).toEqual([]);
+
+      service.setSubmissions([
+        makeSubmission({ id: 'east', coordinates: { lat: 30.27, lng: -97.73 } }),
+        makeSubmission({ id: 'north', coordinates: { lat: 30.28, lng: -97.74 } })
+      ]);
+      expect(service.getQueryGeometry({ type: 'zip', zipCode: '78701' })?.type).toBe('Polygon');
+      expect(service.getQueryGeometry({ type: 'zip', zipCode: '78702' })).toBeNull();
+      expect(service.getQueryGeometry(radius)?.type).toBe('Polygon');
+    });
+
+    it('should suggest each matching address, owner and parcel id once, best first', () => {
+      const suggestions = service.suggest('congress');
+
+      expect(suggestions.map(({ label, field }) => [label, field])).toEqual([
+        ['1100 Congress Ave', 'address'],
+        ['1102 CONGRESS AVE', 'address']
+      ]);
+      expect(service.suggest('state of tex')[0]).toMatchObject({ label: 'STATE OF TEXAS', field: 'owner', source: 'parcel' });
+      expect(service.suggest('congress', 8, ['address']).map(suggestion => suggestion.source)).toEqual(['address']);
+      expect(service.suggest('congress', 1)).toHaveLength(1);
+    });
+  });
+
+  describe('propertyService', () => {
+    it('should search the shared index with SearchFilters field names', async () => {
+      propertySearch.setSubmissions([makeSubmission(), makeSubmission({ id: 'cheap', marketValue: 100000 })]);
+      propertySearch.setDatasets({});
+
+      const result = await searchProperties({ minPrice: 200000, maxPrice: 600000 });
+
+      expect(result.properties.map(property => property.id)).toEqual(['submitted-1']);
+      expect(await getPropertyById('cheap')).toMatchObject({ marketValue: 100000 });
+      expect(await getPropertyById('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { collectShapefileBundles, getCpgEncoding } from '../utils/shapefileProcessor';
+
+const WEB_MERCATOR_PRJ = 'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",' +
+  'SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],' +
+  'PROJECTION["Mercator_Auxiliary_Sphere"],UNIT["Meter",1.0]]';
+
+// jsdom's File does not implement arrayBuffer(), so build a minimal stand-in
+const makeFile = (name: string, content: string | Uint8Array) => {
+  const data = typeof content === 'string' ? strToU8(content) : content;
+  return { name, arrayBuffer: async () => data.slice().buffer } as unknown as File;
+};
+
+describe('Shapefile Processor', () => {
+  describe('collectShapefileBundles', () => {
+    it('should pair sidecar files by basename', async () => {
+      const bundles = await collectShapefileBundles([
+        makeFile('parcels.shp', 'shp'),
+        makeFile('parcels.dbf', 'dbf'),
+        makeFile('PARCELS.prj', WEB_MERCATOR_PRJ),
+        makeFile('parcels.cpg', 'UTF-8\n'),
+        makeFile('roads.shp', 'shp'),
+        makeFile('notes.txt', 'ignored')
+      ]);
+
+      expect(bundles.map(bundle => bundle.name).sort()).toEqual(['parcels', 'roads']);
+
+      const parcels = bundles.find(bundle => bundle.name === 'parcels')!;
+      expect(parcels.dbf).toBeDefined();
+      expect(parcels.prj).toBe(WEB_MERCATOR_PRJ);
+      expect(parcels.cpg).toBe('UTF-8');
+
+      const roads = bundles.find(bundle => bundle.name === 'roads')!;
+      expect(roads.dbf).toBeUndefined();
+    });
+
+    it('should read bundles from a zip file', async () => {
+      const zip = zipSync({
+        'travis/parcels.shp': strToU8('shp'),
+        'travis/parcels.dbf': strToU8('dbf'),
+        'travis/parcels.prj': strToU8(WEB_MERCATOR_PRJ),
+        '__MACOSX/travis/._parcels.shp': strToU8('resource fork')
+      });
+
+      const bundles = await collectShapefileBundles([makeFile('travis.zip', zip)]);
+
+      expect(bundles).toHaveLength(1);
+      expect(bundles[0].name).toBe('parcels');
+      expect(bundles[0].dbf).toBeDefined();
+      expect(bundles[0].prj).toBe(WEB_MERCATOR_PRJ);
+    });
+
+    it('should skip sidecars without a .shp', async () => {
+      const bundles = await collectShapefileBundles([makeFile('orphan.dbf', 'dbf')]);
+      expect(bundles).toEqual([]);
+    });
+  });
+
+  describe('getCpgEncoding', () => {
+    it('should map code pages to decoder labels', () => {
+      expect(getCpgEncoding('UTF-8')).toBe('utf-8');
+      expect(getCpgEncoding('1252')).toBe('windows-1252');
+      expect(getCpgEncoding(undefined)).toBeUndefined();
+    });
+  });
+});
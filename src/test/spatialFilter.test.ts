@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  METERS_PER_MILE,
+  convexHull,
+  createCircle,
+  describeSpatialFilter,
+  getSpatialFilterGeometry,
+  matchesSpatialFilter
+} from '../utils/spatialFilter';
+import { calculateDistance, isPointInPolygon, ringArea } from '../utils/geometry';
+import type { Property } from '../types';
+
+const CAPITOL = { lat: 30.2747, lng: -97.7404 };
+
+const makeProperty = (coordinates: { lat: number; lng: number }, zipCode: string = '78701'): Property => ({
+  id: 'p1',
+  address: '1100 Congress Ave',
+  city: 'Austin',
+  state: 'TX',
+  zipCode,
+  owner: 'State of Texas',
+  marketValue: 0,
+  propertyType: 'commercial',
+  coordinates
+});
+
+// Downtown Austin, with a hole around the Capitol grounds
+const DOWNTOWN: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [[-97.75, 30.26], [-97.73, 30.26], [-97.73, 30.28], [-97.75, 30.28], [-97.75, 30.26]],
+    [[-97.742, 30.273], [-97.742, 30.276], [-97.739, 30.276], [-97.739, 30.273], [-97.742, 30.273]]
+  ]
+};
+
+describe('Spatial Filter', () => {
+  describe('matchesSpatialFilter', () => {
+    it('should match drawn polygons and counties by coordinates, honouring holes', () => {
+      expect(matchesSpatialFilter(makeProperty({ lat: 30.265, lng: -97.745 }), { type: 'polygon', geometry: DOWNTOWN })).toBe(true);
+      expect(matchesSpatialFilter(makeProperty(CAPITOL), { type: 'polygon', geometry: DOWNTOWN })).toBe(false);
+      expect(matchesSpatialFilter(makeProperty({ lat: 30.4, lng: -97.7 }), { type: 'county', fips: '453', name: 'Travis', geometry: DOWNTOWN })).toBe(false);
+    });
+
+    it('should match a radius in miles', () => {
+      const nearby = { lat: CAPITOL.lat + 0.01, lng: CAPITOL.lng };
+      const miles = calculateDistance(CAPITOL, nearby) / METERS_PER_MILE;
+
+      expect(matchesSpatialFilter(makeProperty(nearby), { type: 'radius', center: CAPITOL, miles: miles + 0.01 })).toBe(true);
+      expect(matchesSpatialFilter(makeProperty(nearby), { type: 'radius', center: CAPITOL, miles: miles - 0.01 })).toBe(false);
+    });
+
+    it('should match ZIP codes on their first five digits', () => {
+      expect(matchesSpatialFilter(makeProperty(CAPITOL, '78701-1234'), { type: 'zip', zipCode: '78701' })).toBe(true);
+      expect(matchesSpatialFilter(makeProperty(CAPITOL, '78702'), { type: 'zip', zipCode: '78701' })).toBe(false);
+      expect(matchesSpatialFilter(makeProperty(CAPITOL, ''), { type: 'zip', zipCode: '' })).toBe(false);
+    });
+  });
+
+  describe('createCircle', () => {
+    it('should place a closed counterclockwise ring at the radius', () => {
+      const circle = createCircle(CAPITOL, 1000, 16);
+      const ring = circle.coordinates[0];
+
+      expect(ring).toHaveLength(17);
+      expect(ring[0]).toEqual(ring[16]);
+      expect(ringArea(ring)).toBeGreaterThan(0);
+      ring.forEach(([lng, lat]) => {
+        expect(calculateDistance(CAPITOL, { lat, lng })).toBeCloseTo(1000, 0);
+      });
+      expect(isPointInPolygon(CAPITOL, circle)).toBe(true);
+    });
+  });
+
+  describe('convexHull', () => {
+    it('should outline the outermost points and need three distinct points', () => {
+      const hull = convexHull([
+        { lat: 0, lng: 0 }, { lat: 0, lng: 2 }, { lat: 2, lng: 2 }, { lat: 2, lng: 0 }, { lat: 1, lng: 1 }, { lat: 0, lng: 0 }
+      ]);
+
+      expect(hull?.coordinates[0]).toEqual([[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]]);
+      expect(convexHull([{ lat: 0, lng: 0 }, { lat: 0, lng: 0 }, { lat: 1, lng: 1 }])).toBeNull();
+    });
+  });
+
+  describe('getSpatialFilterGeometry', () => {
+    it('should outline polygons, counties and radii but not ZIP codes', () => {
+      expect(getSpatialFilterGeometry({ type: 'polygon', geometry: DOWNTOWN })).toBe(DOWNTOWN);
+      expect(getSpatialFilterGeometry({ type: 'radius', center: CAPITOL, miles: 1 })?.type).toBe('Polygon');
+      expect(getSpatialFilterGeometry({ type: 'zip', zipCode: '78701' })).toBeNull();
+      expect(describeSpatialFilter({ type: 'county', fips: '453', name: 'Travis', geometry: DOWNTOWN })).toBe('Travis County');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialIndex, getGeometryBBox, bboxIntersects } from '../utils/spatialIndex';
+
+describe('Spatial Index', () => {
+  const square = (west: number, south: number, size: number): GeoJSON.Polygon => ({
+    type: 'Polygon',
+    coordinates: [[
+      [west, south],
+      [west + size, south],
+      [west + size, south + size],
+      [west, south + size],
+      [west, south]
+    ]]
+  });
+
+  describe('getGeometryBBox', () => {
+    it('should compute the bounding box of a polygon', () => {
+      const bbox = getGeometryBBox(square(-97.75, 30.25, 0.01));
+      expect(bbox.west).toBeCloseTo(-97.75);
+      expect(bbox.south).toBeCloseTo(30.25);
+      expect(bbox.east).toBeCloseTo(-97.74);
+      expect(bbox.north).toBeCloseTo(30.26);
+    });
+
+    it('should compute the bounding box of a point', () => {
+      const bbox = getGeometryBBox({ type: 'Point', coordinates: [-97.7431, 30.2672] });
+      expect(bbox).toEqual({ west: -97.7431, south: 30.2672, east: -97.7431, north: 30.2672 });
+    });
+  });
+
+  describe('bboxIntersects', () => {
+    it('should detect overlapping and disjoint boxes', () => {
+      const a = { west: 0, south: 0, east: 1, north: 1 };
+      expect(bboxIntersects(a, { west: 0.5, south: 0.5, east: 2, north: 2 })).toBe(true);
+      expect(bboxIntersects(a, { west: 2, south: 2, east: 3, north: 3 })).toBe(false);
+    });
+  });
+
+  describe('SpatialIndex', () => {
+    it('should return only items inside the search box', () => {
+      const index = new SpatialIndex<string>();
+      index.insert('downtown', getGeometryBBox(square(-97.745, 30.265, 0.001)));
+      index.insert('round-rock', getGeometryBBox(square(-97.68, 30.50, 0.001)));
+
+      const results = index.search({ west: -97.76, south: 30.26, east: -97.73, north: 30.28 });
+      expect(results).toEqual(['downtown']);
+      expect(index.size).toBe(2);
+    });
+
+    it('should not return duplicates for items spanning several cells', () => {
+      const index = new SpatialIndex<string>(0.01);
+      index.insert('large-tract', getGeometryBBox(square(-97.80, 30.20, 0.05)));
+
+      const results = index.search({ west: -97.85, south: 30.15, east: -97.70, north: 30.30 });
+      expect(results).toEqual(['large-tract']);
+    });
+
+    it('should cap results at the requested limit', () => {
+      const index = new SpatialIndex<number>();
+      for (let i = 0; i < 20; i++) {
+        index.insert(i, getGeometryBBox(square(-97.75 + i * 0.0001, 30.25, 0.0001)));
+      }
+
+      const results = index.search({ west: -98, south: 30, east: -97, north: 31 }, 5);
+      expect(results).toHaveLength(5);
+    });
+
+    it('should empty the index on clear', () => {
+      const index = new SpatialIndex<string>();
+      index.insert('parcel', getGeometryBBox(square(-97.75, 30.25, 0.001)));
+      index.clear();
+
+      expect(index.size).toBe(0);
+      expect(index.search({ west: -98, south: 30, east: -97, north: 31 })).toEqual([]);
+    });
+  });
+});
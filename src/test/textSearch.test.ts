@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TextSearchIndex,
+  editDistance,
+  matchesSearchText,
+  scoreSearchToken,
+  tokenizeSearchText
+} from '../services/textSearch';
+
+const makeIndex = () => {
+  const index = new TextSearchIndex<string>([1, 0.9, 1]);
+  index.add('lamar', ['123 N LAMAR BLVD', 'SMITH JOHN & MARY', '0101020304']);
+  index.add('lamar-square', ['LAMAR SQ', 'LAMAR SQUARE ASSOCIATION LLC', '0101020305']);
+  index.add('congress', ['1100 CONGRESS AVE', 'STATE OF TEXAS', '0200100200']);
+  index.add('oak', ['12 OAK ST', "O'BRIEN PATRICK", '0303030303']);
+  return index;
+};
+
+describe('Text Search', () => {
+  describe('tokenizeSearchText', () => {
+    it('should abbreviate suffixes, directionals and company words', () => {
+      expect(tokenizeSearchText('123 North Lamar Boulevard')).toEqual(['123', 'N', 'LAMAR', 'BLVD']);
+      expect(tokenizeSearchText("O'Brien & Sons Company, Inc.")).toEqual(['OBRIEN', 'AND', 'SONS', 'CO', 'INC']);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count transpositions as one edit and stop past the limit', () => {
+      expect(editDistance('LAMAR', 'LAMRA')).toBe(1);
+      expect(editDistance('CONGRESS', 'CONGRES')).toBe(1);
+      expect(editDistance('OAK', 'CONGRESS', 2)).toBe(3);
+    });
+  });
+
+  describe('scoreSearchToken', () => {
+    it('should rank exact matches above prefixes and typos, and never fuzz numbers', () => {
+      const exact = scoreSearchToken('LAMAR', 'LAMAR');
+      const prefix = scoreSearchToken('LAM', 'LAMAR', true);
+      const typo = scoreSearchToken('LAMR', 'LAMAR');
+
+      expect(exact).toBe(1);
+      expect(prefix).toBeLessThan(exact);
+      expect(typo).toBeGreaterThan(0);
+      expect(typo).toBeLessThan(exact);
+      expect(scoreSearchToken('LAM', 'LAMAR')).toBe(0);
+      expect(scoreSearchToken('1234', '1243')).toBe(0);
+    });
+  });
+
+  describe('matchesSearchText', () => {
+    it('should match every query word in any field', () => {
+      expect(matchesSearchText('123 north lamar boulevard', ['123 N LAMAR BLVD'])).toBe(true);
+      expect(matchesSearchText('smith lamar', ['123 N LAMAR BLVD', 'SMITH JOHN'])).toBe(true);
+      expect(matchesSearchText('124 lamar', ['123 N LAMAR BLVD'])).toBe(false);
+      expect(matchesSearchText('  ', ['anything'])).toBe(true);
+    });
+  });
+
+  describe('TextSearchIndex', () => {
+    it('should find addresses written out in full or with typos', () => {
+      const index = makeIndex();
+
+      expect(index.search('123 North Lamar Boulevard').map(hit => hit.item)).toEqual(['lamar']);
+      expect(index.search('1100 Congres Avenue').map(hit => hit.item)).toEqual(['congress']);
+      expect(index.search('1100 Congres Avenue')[0].field).toBe(0);
+    });
+
+    it('should search owner names and parcel ids', () => {
+      const index = makeIndex();
+
+      expect(index.search('john smith')).toEqual([expect.objectContaining({ item: 'lamar', field: 1 })]);
+      expect(index.search('obrien').map(hit => hit.item)).toEqual(['oak']);
+      expect(index.search('0200100200').map(hit => hit.item)).toEqual(['congress']);
+    });
+
+    it('should rank matches and complete the last word as a prefix', () => {
+      const index = makeIndex();
+
+      expect(index.search('lamar').map(hit => hit.item)).toEqual(['lamar-square', 'lamar']);
+      expect(index.search('lamar sq assn').map(hit => hit.item)).toEqual(['lamar-square']);
+      expect(index.search('0101', 1).map(hit => hit.item)).toEqual(['lamar']);
+      expect(index.search('nowhere')).toEqual([]);
+    });
+
+    it('should be empty after clear', () => {
+      const index = makeIndex();
+      index.clear();
+
+      expect(index.size).toBe(0);
+      expect(index.search('lamar')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// DTOs shared by BackendService and the REST server in server/
+import type { Property } from './index';
+
+export type PropertyStatus = NonNullable<Property['status']>;
+
+// Submitted properties are stored and exchanged as the canonical Property record
+export type BackendProperty = Property;
+
+// Body of POST /properties. Unless the client supplies them, the server assigns
+// id, submittedAt and owner, and the status is pending.
+export type NewBackendProperty = Omit<Property, 'id' | 'submittedAt' | 'owner'> & {
+  id?: string;
+  submittedAt?: string;
+  owner?: string;
+};
+
+// Body of PATCH /properties/:id
+export type PropertyUpdate = Partial<Omit<Property, 'id' | 'submittedAt'>>;
+
+// Query string of GET /properties/search
+export interface PropertySearchQuery {
+  address?: string;
+  propertyType?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  city?: string;
+}
+
+export type UserRole = 'submitter' | 'reviewer' | 'admin';
+
+// Signed-in user; the API identifies the user from the X-User-Id header
+export interface AuthUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// Body of PATCH /properties/:id/status. A reason is required when rejecting.
+export interface PropertyStatusUpdate {
+  status: Exclude<PropertyStatus, 'pending'>;
+  reason?: string;
+  reviewer?: string;
+}
+
+export interface PropertyStatistics {
+  total: number;
+  pending: number;
+  approved: number;
+  rejected: number;
+  averageValue: number;
+  totalValue: number;
+}
+
+export interface HealthResponse {
+  status: 'ok';
+  timestamp: string;
+}
+
+export interface ExportResponse {
+  downloadUrl: string;
+}
+
+// Error body for any non-2xx response
+export interface ApiError {
+  error: string;
+  details?: string[];
+}
+
+export interface BackendResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
@@ -1,3 +1,5 @@
+export type PolygonalGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
 export interface Property {
   id: string;
   address: string;
@@ -6,7 +8,8 @@ export interface Property {
   zipCode: string;
   county?: string;
   parcelId?: string;
-  owner: string;
+  // Owner and type are unknown for address points and buildings found on no parcel
+  owner?: string;
   assessedValue?: number;
   marketValue: number;
   landValue?: number;
@@ -15,17 +18,25 @@ export interface Property {
   squareFootage?: number;
   bedrooms?: number;
   bathrooms?: number;
-  propertyType: 'residential' | 'commercial' | 'industrial' | 'agricultural' | 'vacant' | 'mixed-use';
+  propertyType?: 'residential' | 'commercial' | 'industrial' | 'agricultural' | 'vacant' | 'mixed-use';
+  propertySubtype?: string;
+  propertyTypeReason?: string;
   coordinates: {
     lat: number;
     lng: number;
   };
-  geometry?: GeoJSON.Polygon;
+  geometry?: PolygonalGeometry;
   // New fields for enhanced property submission
   acreage?: number;
   description?: string;
   submittedAt?: string;
+  // Id of the user who submitted the property; unset on records from before sign-in existed
+  submittedBy?: string;
   status?: 'pending' | 'approved' | 'rejected';
+  // Moderation: who last approved or rejected the submission, when, and why it was rejected
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
 }
 
 export interface MapViewport {
@@ -36,6 +47,16 @@ export interface MapViewport {
   pitch?: number;
 }
 
+// Dataset a search result came from
+export type SearchSource = 'submission' | 'parcel' | 'address' | 'building';
+
+// Area a search is limited to, matched against each record's coordinates
+export type SpatialFilter =
+  | { type: 'polygon'; geometry: PolygonalGeometry }
+  | { type: 'radius'; center: { lat: number; lng: number }; miles: number }
+  | { type: 'county'; fips: string; name: string; geometry: PolygonalGeometry }
+  | { type: 'zip'; zipCode: string };
+
 export interface SearchFilters {
   address?: string;
   propertyType?: string;
@@ -49,6 +70,14 @@ export interface SearchFilters {
   maxSquareFootage?: number;
   bedrooms?: number;
   bathrooms?: number;
+  // Datasets to search; all of them when unset
+  sources?: SearchSource[];
+  spatial?: SpatialFilter;
+}
+
+export interface SearchResultItem {
+  source: SearchSource;
+  property: Property;
 }
 
 export interface PropertySearchResult {
@@ -56,6 +85,10 @@ export interface PropertySearchResult {
   total: number;
   page: number;
   pageSize: number;
+  // The same page tagged with the dataset each property came from
+  results?: SearchResultItem[];
+  // Matches per dataset before pagination
+  totalsBySource?: Partial<Record<SearchSource, number>>;
 }
 
 export interface MapLayer {
@@ -83,12 +116,23 @@ export interface TravisCountyParcel {
   BEDROOMS?: number;
   BATHROOMS?: number;
   PROP_TYPE: string;
-  geometry: GeoJSON.Polygon;
+  PROP_SUBTYPE?: string;
+  PROP_TYPE_REASON?: string; // why PROP_TYPE was chosen (PTAD code, land use keyword or default)
+  COUNTY?: string;
+  geometry: PolygonalGeometry;
+}
+
+// What the spatial join found on a parcel
+export interface ParcelJoinStats {
+  addresses: string[]; // situs addresses of the address points inside the parcel
+  buildingCount: number;
+  footprintArea: number; // total building footprint, in square feet
+  tallestBuildingHeight?: number; // in meters, undefined if no height is known
 }
 
 export interface BuildingFootprint {
   id: string;
-  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  geometry: PolygonalGeometry;
   height: number; // in meters, -1 if unknown
   confidence: number; // 0-1 confidence score, -1 if unknown
   area: number; // calculated area
@@ -96,6 +140,8 @@ export interface BuildingFootprint {
     lat: number;
     lng: number;
   };
+  parcelId?: string; // PROP_ID of the parcel containing the building's centroid
+  county?: string; // County of that parcel, since PROP_IDs are only unique within a county
   properties: {
     building: string;
     amenity?: string | null;
@@ -0,0 +1,109 @@
+// Boundary drawing helpers: building polygons from drawn vertices and snapping to parcel edges
+import type { PolygonalGeometry } from '../types';
+import { getPolygons } from './geometry';
+
+export interface BoundaryVertex {
+  lat: number;
+  lng: number;
+}
+
+export interface SnapResult {
+  coordinates: BoundaryVertex;
+  // What the point snapped to, or null when nothing was within tolerance
+  snappedTo: 'vertex' | 'edge' | null;
+  distance?: number;
+}
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+  distance: number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Closed polygon from the drawn vertices, or null with fewer than three
+ */
+export const createBoundaryPolygon = (vertices: BoundaryVertex[]): GeoJSON.Polygon | null => {
+  if (vertices.length < 3) return null;
+
+  const ring = vertices.map(vertex => [vertex.lng, vertex.lat]);
+  return {
+    type: 'Polygon',
+    coordinates: [[...ring, ring[0]]]
+  };
+};
+
+/**
+ * Midpoint of each edge of the closed boundary, used as handles for inserting vertices
+ */
+export const getEdgeMidpoints = (vertices: BoundaryVertex[]): BoundaryVertex[] => {
+  if (vertices.length < 2) return [];
+
+  const edgeCount = vertices.length === 2 ? 1 : vertices.length;
+  return Array.from({ length: edgeCount }, (_, index) => {
+    const start = vertices[index];
+    const end = vertices[(index + 1) % vertices.length];
+    return { lat: (start.lat + end.lat) / 2, lng: (start.lng + end.lng) / 2 };
+  });
+};
+
+/**
+ * Snap a point to the nearest vertex of the given geometries, or failing that the
+ * nearest point on one of their edges, when it lies within the tolerance. Vertices
+ * win over edges so drawn corners line up exactly with neighbouring parcels.
+ */
+export const snapToGeometryEdges = (
+  point: BoundaryVertex,
+  geometries: PolygonalGeometry[],
+  toleranceMeters: number
+): SnapResult => {
+  // Local equirectangular projection around the point, in meters
+  const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos((point.lat * Math.PI) / 180);
+  const project = ([lng, lat]: GeoJSON.Position) => ({
+    x: (lng - point.lng) * metersPerDegreeLng,
+    y: (lat - point.lat) * METERS_PER_DEGREE
+  });
+  const unproject = (x: number, y: number): BoundaryVertex => ({
+    lat: point.lat + y / METERS_PER_DEGREE,
+    lng: point.lng + x / metersPerDegreeLng
+  });
+
+  let nearestVertex: ProjectedPoint | null = null;
+  let nearestEdge: ProjectedPoint | null = null;
+
+  for (const ring of geometries.flatMap(geometry => getPolygons(geometry).flat())) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const a = project(ring[i]);
+      const b = project(ring[i + 1]);
+
+      const vertexDistance = Math.hypot(a.x, a.y);
+      if (!nearestVertex || vertexDistance < nearestVertex.distance) {
+        nearestVertex = { ...a, distance: vertexDistance };
+      }
+
+      // Closest point on segment AB to the origin
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+      const x = a.x + t * dx;
+      const y = a.y + t * dy;
+      const edgeDistance = Math.hypot(x, y);
+      if (!nearestEdge || edgeDistance < nearestEdge.distance) {
+        nearestEdge = { x, y, distance: edgeDistance };
+      }
+    }
+  }
+
+  if (nearestVertex && nearestVertex.distance <= toleranceMeters) {
+    return { coordinates: unproject(nearestVertex.x, nearestVertex.y), snappedTo: 'vertex', distance: nearestVertex.distance };
+  }
+
+  if (nearestEdge && nearestEdge.distance <= toleranceMeters) {
+    return { coordinates: unproject(nearestEdge.x, nearestEdge.y), snappedTo: 'edge', distance: nearestEdge.distance };
+  }
+
+  return { coordinates: point, snappedTo: null };
+};
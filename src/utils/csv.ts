@@ -0,0 +1,83 @@
+// CSV parsing and writing for tabular data files (RFC 4180 quoting)
+
+/**
+ * Split CSV text into rows of fields. Quoted fields may contain commas,
+ * line breaks and doubled quotes.
+ */
+export const parseCsvRows = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+};
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export const parseCsv = (text: string, delimiter: string = ','): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text, delimiter);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = cells[index] ?? '';
+    });
+    return record;
+  });
+};
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Quote a field only when it holds a delimiter, quote or line break
+const formatCsvCell = (cell: CsvCell, delimiter: string) => {
+  const text = cell === null || cell === undefined ? '' : String(cell);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows as RFC 4180 CSV: doubled quotes inside quoted fields and CRLF line
+ * endings, so parseCsvRows (and spreadsheets) read back exactly the same cells
+ */
+export const formatCsv = (rows: CsvCell[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(cell => formatCsvCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
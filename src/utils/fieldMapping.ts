@@ -0,0 +1,322 @@
+// Declarative attribute mappings from parcel source schemas to TravisCountyParcel
+import type { TravisCountyParcel } from '../types';
+import { classifyProperty } from './propertyClassifier';
+
+export type ParcelAttributes = Omit<TravisCountyParcel, 'geometry'>;
+// Fields a profile can map; the subtype and reason come from classifying PROP_TYPE
+export type ParcelField = Exclude<keyof ParcelAttributes, 'PROP_SUBTYPE' | 'PROP_TYPE_REASON'>;
+
+export type FieldTransform = 'uppercase' | 'titleCase' | 'propertyType' | 'acresToSquareFeet';
+
+export interface FieldRule {
+  // Source columns, matched case-insensitively; the first non-empty value wins
+  sources: string[];
+  // Combine every non-empty source value with this separator instead
+  join?: string;
+  transform?: FieldTransform;
+  // Used when no source has a value; "{index}" and "{record}" are replaced by the
+  // 0-based record index and 1-based record number
+  default?: string | number;
+}
+
+export interface FieldMappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  // Columns whose presence identifies this schema
+  signature: string[];
+  // A field may list several rules; the first one producing a value is used
+  fields: Partial<Record<ParcelField, FieldRule | FieldRule[]>>;
+  custom?: boolean;
+}
+
+type FieldType = 'string' | 'number' | 'optionalNumber';
+
+export const PARCEL_FIELDS: Record<ParcelField, { label: string; type: FieldType }> = {
+  OBJECTID: { label: 'Object ID', type: 'number' },
+  PROP_ID: { label: 'Property ID', type: 'string' },
+  SITE_ADDR: { label: 'Site Address', type: 'string' },
+  CITY: { label: 'City', type: 'string' },
+  STATE: { label: 'State', type: 'string' },
+  ZIP: { label: 'ZIP Code', type: 'string' },
+  OWNER_NAME: { label: 'Owner Name', type: 'string' },
+  TOTAL_VAL: { label: 'Market Value', type: 'number' },
+  LAND_VAL: { label: 'Land Value', type: 'number' },
+  IMP_VAL: { label: 'Improvement Value', type: 'number' },
+  YEAR_BUILT: { label: 'Year Built', type: 'optionalNumber' },
+  SQ_FT: { label: 'Square Footage', type: 'number' },
+  BEDROOMS: { label: 'Bedrooms', type: 'optionalNumber' },
+  BATHROOMS: { label: 'Bathrooms', type: 'optionalNumber' },
+  PROP_TYPE: { label: 'Property Type', type: 'string' },
+  COUNTY: { label: 'County', type: 'string' }
+};
+
+// Defaults shared by every profile
+const COMMON_FIELDS: FieldMappingProfile['fields'] = {
+  OBJECTID: { sources: ['OBJECTID', 'FID'], default: '{record}' },
+  STATE: { sources: [], default: 'TX' },
+  OWNER_NAME: { sources: [], default: 'Unknown Owner' },
+  PROP_TYPE: { sources: [], transform: 'propertyType', default: 'residential' }
+};
+
+export const STRATMAP_2024_PROFILE: FieldMappingProfile = {
+  id: 'stratmap-2024',
+  name: 'StratMap 2024 Land Parcels',
+  description: 'TxGIO StratMap statewide parcel schema',
+  signature: ['Prop_ID', 'SITUS_ADDR', 'SITUS_CITY', 'MKT_VALUE', 'LAND_VALUE', 'IMP_VALUE', 'GIS_AREA'],
+  fields: {
+    ...COMMON_FIELDS,
+    PROP_ID: { sources: ['Prop_ID', 'GEO_ID'], default: 'PARCEL-{index}' },
+    SITE_ADDR: [
+      { sources: ['SITUS_ADDR'] },
+      { sources: ['SITUS_NUM', 'SITUS_STRE', 'SITUS_ST_1', 'SITUS_ST_2'], join: ' ', default: 'Unknown Address' }
+    ],
+    CITY: { sources: ['SITUS_CITY'] },
+    STATE: { sources: ['SITUS_STAT'], default: 'TX' },
+    ZIP: { sources: ['SITUS_ZIP'] },
+    OWNER_NAME: { sources: ['OWNER_NAME', 'NAME_CARE'], default: 'Unknown Owner' },
+    TOTAL_VAL: { sources: ['MKT_VALUE'], default: 0 },
+    LAND_VAL: { sources: ['LAND_VALUE'], default: 0 },
+    IMP_VAL: { sources: ['IMP_VALUE'], default: 0 },
+    YEAR_BUILT: { sources: ['YEAR_BUILT'] },
+    SQ_FT: { sources: ['GIS_AREA'], default: 0 },
+    PROP_TYPE: { sources: ['STAT_LAND_', 'LOC_LAND_U'], transform: 'propertyType', default: 'residential' },
+    COUNTY: { sources: ['COUNTY'], transform: 'titleCase' }
+  }
+};
+
+export const TCAD_PROFILE: FieldMappingProfile = {
+  id: 'tcad',
+  name: 'TCAD Appraisal Export',
+  description: 'Travis Central Appraisal District parcel export',
+  signature: ['prop_id', 'py_owner_name', 'situs_num', 'situs_street', 'market_value', 'imprv_val'],
+  fields: {
+    ...COMMON_FIELDS,
+    PROP_ID: { sources: ['prop_id', 'geo_id'], default: 'PARCEL-{index}' },
+    SITE_ADDR: { sources: ['situs_num', 'situs_street_prefx', 'situs_street', 'situs_street_suffix'], join: ' ', default: 'Unknown Address' },
+    CITY: { sources: ['situs_city'], transform: 'titleCase' },
+    STATE: { sources: ['situs_state'], transform: 'uppercase', default: 'TX' },
+    ZIP: { sources: ['situs_zip'] },
+    OWNER_NAME: { sources: ['py_owner_name', 'owner_name'], default: 'Unknown Owner' },
+    TOTAL_VAL: { sources: ['market_value', 'appraised_val'], default: 0 },
+    LAND_VAL: { sources: ['land_val', 'land_hstd_val'], default: 0 },
+    IMP_VAL: { sources: ['imprv_val', 'imprv_hstd_val'], default: 0 },
+    YEAR_BUILT: { sources: ['yr_blt', 'year_built'] },
+    SQ_FT: [
+      { sources: ['living_area', 'imprv_sqft'] },
+      { sources: ['legal_acreage'], transform: 'acresToSquareFeet', default: 0 }
+    ],
+    BEDROOMS: { sources: ['bedrooms'] },
+    BATHROOMS: { sources: ['bathrooms'] },
+    PROP_TYPE: { sources: ['state_cd', 'prop_type_cd'], transform: 'propertyType', default: 'residential' }
+  }
+};
+
+// The field-name guesses the loaders used before profiles existed
+export const GENERIC_PROFILE: FieldMappingProfile = {
+  id: 'generic',
+  name: 'Generic Parcel Export',
+  description: 'Common field names such as PROP_ID, SITE_ADDR and TOTAL_VAL',
+  signature: ['PROP_ID', 'SITE_ADDR', 'OWNER_NAME', 'TOTAL_VAL'],
+  fields: {
+    ...COMMON_FIELDS,
+    PROP_ID: { sources: ['PROP_ID', 'PROPID', 'PARCEL_ID'], default: 'PARCEL-{index}' },
+    SITE_ADDR: { sources: ['SITE_ADDR', 'ADDRESS', 'SITE_ADDRESS'], default: 'Unknown Address' },
+    CITY: { sources: ['CITY'] },
+    STATE: { sources: ['STATE'], default: 'TX' },
+    ZIP: { sources: ['ZIP', 'ZIP_CODE'] },
+    OWNER_NAME: { sources: ['OWNER_NAME', 'OWNER'], default: 'Unknown Owner' },
+    TOTAL_VAL: { sources: ['TOTAL_VAL', 'MARKET_VAL', 'MARKET_VALUE', 'VALUE'], default: 0 },
+    LAND_VAL: { sources: ['LAND_VAL', 'LAND_VALUE'], default: 0 },
+    IMP_VAL: { sources: ['IMP_VAL', 'IMP_VALUE', 'IMPROVEMENT_VAL'], default: 0 },
+    YEAR_BUILT: { sources: ['YEAR_BUILT', 'YEAR'] },
+    SQ_FT: { sources: ['SQ_FT', 'SQUARE_FEET', 'AREA'], default: 0 },
+    BEDROOMS: { sources: ['BEDROOMS', 'BEDS'] },
+    BATHROOMS: { sources: ['BATHROOMS', 'BATHS'] },
+    PROP_TYPE: { sources: ['PROP_TYPE', 'TYPE', 'LAND_USE', 'LANDUSE', 'PROP_CLASS', 'CLASS'], transform: 'propertyType', default: 'residential' },
+    COUNTY: { sources: ['COUNTY', 'COUNTY_NAME', 'CNTY_NM'], transform: 'titleCase' }
+  }
+};
+
+export const BUILT_IN_PROFILES: FieldMappingProfile[] = [STRATMAP_2024_PROFILE, TCAD_PROFILE, GENERIC_PROFILE];
+
+// Share of signature columns that must be present to recognise a schema
+const MIN_SIGNATURE_MATCH = 0.6;
+
+const applyTransform = (value: string, transform: FieldTransform | undefined): string | number => {
+  switch (transform) {
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'titleCase':
+      return value.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+    case 'propertyType':
+      return classifyProperty(value).propertyType;
+    case 'acresToSquareFeet':
+      return parseNumber(value) * 43560;
+    default:
+      return value;
+  }
+};
+
+const parseNumber = (value: string | number): number => {
+  if (typeof value === 'number') return value;
+  return parseFloat(value.replace(/[$,\s]/g, ''));
+};
+
+const isEmpty = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Case-insensitive column lookup
+const createLookup = (properties: Record<string, unknown>) => {
+  const columns: Record<string, unknown> = {};
+  Object.keys(properties).forEach(key => {
+    columns[key.toLowerCase()] = properties[key];
+  });
+  return (source: string) => columns[source.toLowerCase()];
+};
+
+const resolveRule = (rule: FieldRule, lookup: (source: string) => unknown, index: number): string | number | undefined => {
+  const values = rule.sources
+    .map(source => lookup(source))
+    .filter(value => !isEmpty(value))
+    .map(value => String(value).trim());
+
+  const raw = rule.join !== undefined ? values.join(rule.join) : values[0];
+  if (!isEmpty(raw)) {
+    return applyTransform(raw!, rule.transform);
+  }
+
+  if (rule.default === undefined) return undefined;
+  return typeof rule.default === 'string'
+    ? rule.default.replace('{index}', String(index)).replace('{record}', String(index + 1))
+    : rule.default;
+};
+
+/**
+ * Convert raw source attributes into parcel attributes using a mapping profile
+ */
+export const mapParcelAttributes = (
+  properties: Record<string, unknown> | null | undefined,
+  profile: FieldMappingProfile,
+  index: number
+): ParcelAttributes => {
+  const lookup = createLookup(properties || {});
+  const attributes: Record<string, string | number | undefined> = {};
+
+  (Object.keys(PARCEL_FIELDS) as ParcelField[]).forEach(field => {
+    const configured = profile.fields[field] ?? COMMON_FIELDS[field];
+    const rules = Array.isArray(configured) ? configured : configured ? [configured] : [];
+
+    let value: string | number | undefined;
+    for (const rule of rules) {
+      value = resolveRule(rule, lookup, index);
+      if (!isEmpty(value)) break;
+    }
+
+    // Classify the raw code/description so the subtype and reason are kept too
+    if (rules.some(rule => rule.transform === 'propertyType')) {
+      const raw = rules
+        .map(rule => resolveRule({ ...rule, transform: undefined, default: undefined }, lookup, index))
+        .find(rawValue => !isEmpty(rawValue));
+      const classification = classifyProperty(raw === undefined ? undefined : String(raw));
+      attributes.PROP_SUBTYPE = classification.subtype;
+      attributes.PROP_TYPE_REASON = classification.reason;
+    }
+
+    const { type } = PARCEL_FIELDS[field];
+    if (type === 'string') {
+      attributes[field] = isEmpty(value) ? '' : String(value);
+    } else {
+      const number = isEmpty(value) ? NaN : parseNumber(value!);
+      attributes[field] = Number.isFinite(number) && (type === 'number' || number !== 0)
+        ? number
+        : type === 'number' ? 0 : undefined;
+    }
+  });
+
+  return attributes as unknown as ParcelAttributes;
+};
+
+/**
+ * Pick the profile whose signature best matches the source columns, or null
+ * when the schema is not recognised
+ */
+export const detectFieldMappingProfile = (
+  fieldNames: string[],
+  profiles: FieldMappingProfile[] = BUILT_IN_PROFILES
+): FieldMappingProfile | null => {
+  const available = new Set(fieldNames.map(name => name.toLowerCase()));
+
+  let bestProfile: FieldMappingProfile | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    if (profile.signature.length === 0) continue;
+    const matched = profile.signature.filter(field => available.has(field.toLowerCase())).length;
+    const score = matched / profile.signature.length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestProfile = profile;
+    }
+  }
+
+  return bestScore >= MIN_SIGNATURE_MATCH ? bestProfile : null;
+};
+
+/**
+ * Guess which source column feeds each parcel field, using the column names
+ * known to the built-in profiles
+ */
+export const suggestColumnMapping = (fieldNames: string[]): Partial<Record<ParcelField, string>> => {
+  const byLowerName: Record<string, string> = {};
+  fieldNames.forEach(name => {
+    byLowerName[name.toLowerCase()] = name;
+  });
+
+  const suggestions: Partial<Record<ParcelField, string>> = {};
+
+  (Object.keys(PARCEL_FIELDS) as ParcelField[]).forEach(field => {
+    for (const profile of BUILT_IN_PROFILES) {
+      const configured = profile.fields[field];
+      const rules = Array.isArray(configured) ? configured : configured ? [configured] : [];
+      const match = rules
+        .filter(rule => rule.join === undefined)
+        .flatMap(rule => rule.sources)
+        .find(source => byLowerName[source.toLowerCase()]);
+
+      if (match) {
+        suggestions[field] = byLowerName[match.toLowerCase()];
+        return;
+      }
+    }
+  });
+
+  return suggestions;
+};
+
+/**
+ * Build a profile from a one-column-per-field mapping chosen in the mapping builder
+ */
+export const buildCustomProfile = (
+  name: string,
+  columnMapping: Partial<Record<ParcelField, string>>
+): FieldMappingProfile => {
+  const fields: FieldMappingProfile['fields'] = {};
+
+  (Object.entries(columnMapping) as [ParcelField, string][]).forEach(([field, column]) => {
+    if (!column) return;
+    const common = COMMON_FIELDS[field];
+    fields[field] = {
+      sources: [column],
+      transform: field === 'PROP_TYPE' ? 'propertyType' : undefined,
+      default: common && !Array.isArray(common) ? common.default : PARCEL_FIELDS[field].type === 'number' ? 0 : undefined
+    };
+  });
+
+  return {
+    id: `custom-${Date.now()}`,
+    name: name.trim() || 'Custom Mapping',
+    signature: Array.from(new Set(Object.values(columnMapping).filter((column): column is string => !!column))),
+    fields,
+    custom: true
+  };
+};
@@ -0,0 +1,161 @@
+// Geometry helpers shared by the loaders and map components
+import type { PolygonalGeometry } from '../types';
+
+const DEFAULT_CENTER = { lat: 30.2672, lng: -97.7431 }; // Austin
+
+/**
+ * Check whether a geometry is a Polygon or MultiPolygon
+ */
+export const isPolygonalGeometry = (geometry: GeoJSON.Geometry | null | undefined): geometry is PolygonalGeometry => {
+  return !!geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon');
+};
+
+/**
+ * Normalise a Polygon or MultiPolygon into a list of polygons
+ */
+export const getPolygons = (geometry: PolygonalGeometry): GeoJSON.Position[][][] => {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+};
+
+/**
+ * Outer ring of the first polygon, used to sample coordinates
+ */
+export const getFirstRing = (geometry: PolygonalGeometry): GeoJSON.Position[] => {
+  return getPolygons(geometry)[0]?.[0] || [];
+};
+
+/**
+ * Validate that every polygon part has an outer ring with at least three points
+ */
+export const isValidPolygonalGeometry = (geometry: GeoJSON.Geometry | null | undefined): geometry is PolygonalGeometry => {
+  if (!isPolygonalGeometry(geometry) || !Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+    return false;
+  }
+
+  return getPolygons(geometry).every(polygon =>
+    Array.isArray(polygon) &&
+    Array.isArray(polygon[0]) &&
+    polygon[0].length >= 3
+  );
+};
+
+/**
+ * Planar signed area of a ring (shoelace formula), in squared coordinate units
+ */
+export const ringArea = (ring: GeoJSON.Position[]): number => {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[i + 1];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+/**
+ * Center of a Polygon or MultiPolygon. For multi-part geometries the center of
+ * the largest part is used so labels and markers land on the main lot.
+ */
+export const calculatePolygonCenter = (geometry: PolygonalGeometry): { lat: number; lng: number } => {
+  if (!geometry.coordinates || geometry.coordinates.length === 0) {
+    return DEFAULT_CENTER;
+  }
+
+  let largestRing: GeoJSON.Position[] = [];
+  let largestArea = -1;
+
+  for (const polygon of getPolygons(geometry)) {
+    const outerRing = polygon[0] || [];
+    const area = Math.abs(ringArea(outerRing));
+    if (area > largestArea) {
+      largestArea = area;
+      largestRing = outerRing;
+    }
+  }
+
+  if (largestRing.length === 0) {
+    return DEFAULT_CENTER;
+  }
+
+  let sumLng = 0;
+  let sumLat = 0;
+
+  for (const coord of largestRing) {
+    sumLng += coord[0];
+    sumLat += coord[1];
+  }
+
+  return {
+    lng: sumLng / largestRing.length,
+    lat: sumLat / largestRing.length,
+  };
+};
+
+export const EARTH_RADIUS_METERS = 6378137;
+
+export const SQUARE_FEET_PER_SQUARE_METER = 10.7639;
+export const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+// Ray casting test against a single ring
+const isPointInRing = (lng: number, lat: number, ring: GeoJSON.Position[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Check whether a point falls inside a Polygon or MultiPolygon, honouring holes
+ */
+export const isPointInPolygon = (point: { lat: number; lng: number }, geometry: PolygonalGeometry): boolean => {
+  return getPolygons(geometry).some(([outerRing, ...holes]) =>
+    !!outerRing &&
+    isPointInRing(point.lng, point.lat, outerRing) &&
+    !holes.some(hole => isPointInRing(point.lng, point.lat, hole))
+  );
+};
+
+// Spherical ring area in square meters (Chamberlain & Duquette)
+const ringAreaSquareMeters = (ring: GeoJSON.Position[]): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[i + 1];
+    area += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((area * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2);
+};
+
+/**
+ * Area of a WGS84 Polygon or MultiPolygon in square meters, excluding holes
+ */
+export const calculateGeodesicArea = (geometry: PolygonalGeometry): number => {
+  return getPolygons(geometry).reduce((total, [outerRing, ...holes]) => {
+    if (!outerRing) return total;
+    return total + ringAreaSquareMeters(outerRing) - holes.reduce((sum, hole) => sum + ringAreaSquareMeters(hole), 0);
+  }, 0);
+};
+
+/**
+ * Great-circle distance between two WGS84 points in meters (haversine)
+ */
+export const calculateDistance = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Area of a WGS84 Polygon or MultiPolygon in acres, rounded to two decimals
+ */
+export const calculateAcreage = (geometry: PolygonalGeometry): number => {
+  return Math.round((calculateGeodesicArea(geometry) / SQUARE_METERS_PER_ACRE) * 100) / 100;
+};
@@ -0,0 +1,452 @@
+// Projection utilities
+// Parses shapefile .prj WKT and reprojects coordinates from the declared CRS to WGS84 (EPSG:4326).
+// NAD83 and WGS84 are treated as equivalent; the datum shift is well under a meter in Texas.
+import { mercatorXToLng, mercatorYToLat, transformGeometryToWGS84 } from './coordinateTransform';
+
+export type ProjectionKind = 'geographic' | 'web-mercator' | 'lambert-conformal-conic' | 'albers-equal-area';
+
+export interface ProjectionDefinition {
+  name: string;
+  epsg?: number;
+  kind: ProjectionKind;
+  semiMajorAxis: number;
+  inverseFlattening: number;
+  linearUnit: number; // meters per projected unit
+  centralMeridian?: number;
+  latitudeOfOrigin?: number;
+  standardParallel1?: number;
+  standardParallel2?: number;
+  falseEasting?: number;
+  falseNorthing?: number;
+}
+
+interface WktNode {
+  keyword: string;
+  args: (string | number | WktNode)[];
+}
+
+const GRS80 = { semiMajorAxis: 6378137, inverseFlattening: 298.257222101 };
+const WGS84 = { semiMajorAxis: 6378137, inverseFlattening: 298.257223563 };
+const US_SURVEY_FOOT = 1200 / 3937;
+const DEG = Math.PI / 180;
+
+export const KNOWN_PROJECTIONS: Record<number, ProjectionDefinition> = {
+  4326: { name: 'WGS 84', epsg: 4326, kind: 'geographic', ...WGS84, linearUnit: 1 },
+  4269: { name: 'NAD83', epsg: 4269, kind: 'geographic', ...GRS80, linearUnit: 1 },
+  3857: { name: 'WGS 84 / Pseudo-Mercator', epsg: 3857, kind: 'web-mercator', ...WGS84, linearUnit: 1 },
+  2277: {
+    name: 'NAD83 / Texas Central (ftUS)',
+    epsg: 2277,
+    kind: 'lambert-conformal-conic',
+    ...GRS80,
+    linearUnit: US_SURVEY_FOOT,
+    centralMeridian: -100.3333333333333,
+    latitudeOfOrigin: 29.66666666666667,
+    standardParallel1: 31.88333333333333,
+    standardParallel2: 30.11666666666667,
+    falseEasting: 2296583.333,
+    falseNorthing: 9842500
+  },
+  3083: {
+    name: 'NAD83 / Texas Centric Albers Equal Area',
+    epsg: 3083,
+    kind: 'albers-equal-area',
+    ...GRS80,
+    linearUnit: 1,
+    centralMeridian: -100,
+    latitudeOfOrigin: 18,
+    standardParallel1: 27.5,
+    standardParallel2: 35,
+    falseEasting: 1500000,
+    falseNorthing: 6000000
+  }
+};
+
+const SUPPORTED_MESSAGE = 'Supported projections: EPSG:3857, EPSG:4326, EPSG:4269, EPSG:2277, EPSG:3083, ' +
+  'and NAD83/WGS84 Lambert Conformal Conic or Albers Equal Area definitions.';
+
+// Legacy ESRI codes for Web Mercator
+const WEB_MERCATOR_ALIASES = [3857, 900913, 102100, 102113];
+
+/**
+ * Look up a known projection by EPSG code
+ */
+export const getProjection = (epsg: number): ProjectionDefinition => {
+  if (WEB_MERCATOR_ALIASES.includes(epsg)) return KNOWN_PROJECTIONS[3857];
+
+  const projection = KNOWN_PROJECTIONS[epsg];
+  if (!projection) {
+    throw new Error(`Unsupported projection EPSG:${epsg}. ${SUPPORTED_MESSAGE}`);
+  }
+  return projection;
+};
+
+/**
+ * Parse WKT (OGC or ESRI flavour) into a keyword tree
+ */
+export const parseWkt = (wkt: string): WktNode => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < wkt.length && /\s/.test(wkt[pos])) pos++;
+  };
+
+  const parseNode = (): WktNode => {
+    skipWhitespace();
+    const keywordMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(wkt.slice(pos));
+    if (!keywordMatch) {
+      throw new Error(`Invalid WKT: expected keyword at position ${pos}`);
+    }
+
+    const keyword = keywordMatch[0].toUpperCase();
+    pos += keywordMatch[0].length;
+    skipWhitespace();
+
+    const args: WktNode['args'] = [];
+    const open = wkt[pos];
+    if (open !== '[' && open !== '(') {
+      // Bare enum values such as AXIS["Easting",EAST]
+      return { keyword, args };
+    }
+
+    const close = open === '[' ? ']' : ')';
+    pos++;
+
+    while (pos < wkt.length) {
+      skipWhitespace();
+      const ch = wkt[pos];
+
+      if (ch === '"') {
+        const end = wkt.indexOf('"', pos + 1);
+        if (end === -1) throw new Error('Invalid WKT: unterminated string');
+        args.push(wkt.slice(pos + 1, end));
+        pos = end + 1;
+      } else if (/[-+\d.]/.test(ch)) {
+        const numberMatch = /^[-+]?\d*\.?\d+(?:[eE][-+]?\d+)?/.exec(wkt.slice(pos));
+        if (!numberMatch) throw new Error(`Invalid WKT: bad number at position ${pos}`);
+        args.push(parseFloat(numberMatch[0]));
+        pos += numberMatch[0].length;
+      } else {
+        args.push(parseNode());
+      }
+
+      skipWhitespace();
+      if (wkt[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (wkt[pos] === close) {
+        pos++;
+        return { keyword, args };
+      }
+      throw new Error(`Invalid WKT: unexpected "${wkt[pos] ?? 'end of input'}" at position ${pos}`);
+    }
+
+    throw new Error('Invalid WKT: unbalanced brackets');
+  };
+
+  return parseNode();
+};
+
+const childNodes = (node: WktNode, keyword: string): WktNode[] =>
+  node.args.filter((arg): arg is WktNode => typeof arg === 'object' && arg.keyword === keyword);
+
+const childNode = (node: WktNode, keyword: string): WktNode | undefined => childNodes(node, keyword)[0];
+
+const nodeName = (node: WktNode | undefined): string => (typeof node?.args[0] === 'string' ? node.args[0] : '');
+
+const nodeNumber = (node: WktNode | undefined, index: number): number | undefined => {
+  const value = node?.args[index];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const getAuthorityCode = (node: WktNode): number | undefined => {
+  const authority = childNode(node, 'AUTHORITY');
+  if (!authority || String(authority.args[0]).toUpperCase() !== 'EPSG') return undefined;
+  const code = parseInt(String(authority.args[1]), 10);
+  return Number.isFinite(code) ? code : undefined;
+};
+
+const getEllipsoid = (geogcs: WktNode | undefined) => {
+  const spheroid = geogcs && childNode(childNode(geogcs, 'DATUM') || geogcs, 'SPHEROID');
+  const semiMajorAxis = nodeNumber(spheroid, 1);
+  const inverseFlattening = nodeNumber(spheroid, 2);
+  return semiMajorAxis && inverseFlattening ? { semiMajorAxis, inverseFlattening } : GRS80;
+};
+
+// Only GRS80/WGS84-based datums can be reprojected without a datum shift
+const isNorthAmericanDatum = (ellipsoid: { semiMajorAxis: number; inverseFlattening: number }) =>
+  Math.abs(ellipsoid.semiMajorAxis - 6378137) < 1 && Math.abs(ellipsoid.inverseFlattening - 298.2572) < 0.001;
+
+const readParameters = (projcs: WktNode): Record<string, number> => {
+  const parameters: Record<string, number> = {};
+  childNodes(projcs, 'PARAMETER').forEach(parameter => {
+    const value = nodeNumber(parameter, 1);
+    if (value !== undefined) {
+      parameters[nodeName(parameter).toLowerCase().replace(/\s+/g, '_')] = value;
+    }
+  });
+  return parameters;
+};
+
+const firstDefined = (...values: (number | undefined)[]) => values.find(value => value !== undefined);
+
+// Label a parsed definition with its EPSG code when it matches a known projection
+const matchKnownEpsg = (definition: ProjectionDefinition): number | undefined => {
+  const close = (a?: number, b?: number, tolerance = 1e-6) =>
+    a === undefined || b === undefined ? a === b : Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(b));
+
+  return Object.values(KNOWN_PROJECTIONS).find(known =>
+    known.kind === definition.kind &&
+    close(known.linearUnit, definition.linearUnit) &&
+    close(known.centralMeridian, definition.centralMeridian) &&
+    close(known.latitudeOfOrigin, definition.latitudeOfOrigin) &&
+    close(Math.min(known.standardParallel1 ?? 0, known.standardParallel2 ?? 0), Math.min(definition.standardParallel1 ?? 0, definition.standardParallel2 ?? 0)) &&
+    close(Math.max(known.standardParallel1 ?? 0, known.standardParallel2 ?? 0), Math.max(definition.standardParallel1 ?? 0, definition.standardParallel2 ?? 0)) &&
+    close(known.falseEasting, definition.falseEasting, 1e-4) &&
+    close(known.falseNorthing, definition.falseNorthing, 1e-4)
+  )?.epsg;
+};
+
+/**
+ * Parse the WKT contents of a .prj file into a projection definition.
+ * Throws a descriptive error when the projection is not supported.
+ */
+export const parsePrj = (wkt: string): ProjectionDefinition => {
+  const root = parseWkt(wkt.trim());
+
+  const authorityCode = getAuthorityCode(root);
+  if (authorityCode !== undefined && (KNOWN_PROJECTIONS[authorityCode] || WEB_MERCATOR_ALIASES.includes(authorityCode))) {
+    return getProjection(authorityCode);
+  }
+
+  if (root.keyword === 'GEOGCS') {
+    const datumName = nodeName(childNode(root, 'DATUM')).toLowerCase();
+    if (/wgs.?(19)?84/.test(datumName)) return KNOWN_PROJECTIONS[4326];
+    if (/north.?american.?(datum.?)?1983|nad.?83/.test(datumName)) return KNOWN_PROJECTIONS[4269];
+    throw new Error(`Unsupported geographic datum "${nodeName(childNode(root, 'DATUM'))}". ${SUPPORTED_MESSAGE}`);
+  }
+
+  if (root.keyword !== 'PROJCS') {
+    throw new Error(`Unsupported coordinate system type "${root.keyword}". ${SUPPORTED_MESSAGE}`);
+  }
+
+  const name = nodeName(root);
+  const projectionName = nodeName(childNode(root, 'PROJECTION')).toLowerCase();
+  const ellipsoid = getEllipsoid(childNode(root, 'GEOGCS'));
+
+  if (/mercator_auxiliary_sphere|pseudo.?mercator|popular_visualisation/.test(projectionName) ||
+      /web.?mercator|pseudo.?mercator/i.test(name)) {
+    return KNOWN_PROJECTIONS[3857];
+  }
+
+  if (!isNorthAmericanDatum(ellipsoid)) {
+    throw new Error(`Unsupported projection "${name}": only NAD83/WGS84 datums can be reprojected. ${SUPPORTED_MESSAGE}`);
+  }
+
+  let kind: ProjectionKind;
+  if (/lambert_conformal_conic/.test(projectionName)) {
+    kind = 'lambert-conformal-conic';
+  } else if (/albers/.test(projectionName)) {
+    kind = 'albers-equal-area';
+  } else {
+    throw new Error(`Unsupported projection "${name}" (${projectionName || 'unknown method'}). ${SUPPORTED_MESSAGE}`);
+  }
+
+  const parameters = readParameters(root);
+  const definition: ProjectionDefinition = {
+    name,
+    kind,
+    ...ellipsoid,
+    linearUnit: nodeNumber(childNode(root, 'UNIT'), 1) ?? 1,
+    centralMeridian: firstDefined(parameters.central_meridian, parameters.longitude_of_center, parameters.longitude_of_origin),
+    latitudeOfOrigin: firstDefined(parameters.latitude_of_origin, parameters.latitude_of_center),
+    standardParallel1: parameters.standard_parallel_1,
+    standardParallel2: parameters.standard_parallel_2,
+    falseEasting: parameters.false_easting ?? 0,
+    falseNorthing: parameters.false_northing ?? 0
+  };
+
+  if (definition.centralMeridian === undefined || definition.latitudeOfOrigin === undefined ||
+      definition.standardParallel1 === undefined || definition.standardParallel2 === undefined) {
+    throw new Error(`Unsupported projection "${name}": missing conic parameters. ${SUPPORTED_MESSAGE}`);
+  }
+
+  definition.epsg = authorityCode ?? matchKnownEpsg(definition);
+  return definition;
+};
+
+/**
+ * Parse a GeoJSON `crs` member (e.g. "urn:ogc:def:crs:EPSG::3857"), if present
+ */
+export const getGeoJSONProjection = (data: { crs?: { properties?: { name?: string } } }): ProjectionDefinition | null => {
+  const crsName = data?.crs?.properties?.name;
+  if (!crsName) return null;
+  if (/CRS84$/i.test(crsName)) return KNOWN_PROJECTIONS[4326];
+
+  const match = /EPSG:{1,2}(\d+)/i.exec(crsName);
+  if (!match) {
+    throw new Error(`Unsupported GeoJSON CRS "${crsName}". ${SUPPORTED_MESSAGE}`);
+  }
+  return getProjection(parseInt(match[1], 10));
+};
+
+// Ellipsoid helpers (Snyder, "Map Projections: A Working Manual")
+const eccentricity = (definition: ProjectionDefinition) => {
+  const f = 1 / definition.inverseFlattening;
+  return Math.sqrt(2 * f - f * f);
+};
+
+const msfn = (e: number, phi: number) => Math.cos(phi) / Math.sqrt(1 - e * e * Math.sin(phi) ** 2);
+
+const tsfn = (e: number, phi: number) => {
+  const eSin = e * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - eSin) / (1 + eSin), e / 2);
+};
+
+const qsfn = (e: number, phi: number) => {
+  const sin = Math.sin(phi);
+  const eSin = e * sin;
+  return (1 - e * e) * (sin / (1 - eSin * eSin) - (1 / (2 * e)) * Math.log((1 - eSin) / (1 + eSin)));
+};
+
+const createLambertInverse = (definition: ProjectionDefinition) => {
+  const a = definition.semiMajorAxis;
+  const e = eccentricity(definition);
+  const phi0 = definition.latitudeOfOrigin! * DEG;
+  const phi1 = definition.standardParallel1! * DEG;
+  const phi2 = definition.standardParallel2! * DEG;
+  const lambda0 = definition.centralMeridian! * DEG;
+
+  const m1 = msfn(e, phi1);
+  const m2 = msfn(e, phi2);
+  const t0 = tsfn(e, phi0);
+  const t1 = tsfn(e, phi1);
+  const t2 = tsfn(e, phi2);
+  const n = Math.abs(phi1 - phi2) > 1e-10 ? (Math.log(m1) - Math.log(m2)) / (Math.log(t1) - Math.log(t2)) : Math.sin(phi1);
+  const F = m1 / (n * Math.pow(t1, n));
+  const rho0 = a * F * Math.pow(t0, n);
+
+  return (x: number, y: number): [number, number] => {
+    const dx = x;
+    const dy = rho0 - y;
+    const sign = n < 0 ? -1 : 1;
+    const rho = sign * Math.sqrt(dx * dx + dy * dy);
+    const theta = Math.atan2(sign * dx, sign * dy);
+    const t = Math.pow(rho / (a * F), 1 / n);
+
+    let phi = Math.PI / 2 - 2 * Math.atan(t);
+    for (let i = 0; i < 15; i++) {
+      const eSin = e * Math.sin(phi);
+      const next = Math.PI / 2 - 2 * Math.atan(t * Math.pow((1 - eSin) / (1 + eSin), e / 2));
+      if (Math.abs(next - phi) < 1e-12) {
+        phi = next;
+        break;
+      }
+      phi = next;
+    }
+
+    return [(theta / n + lambda0) / DEG, phi / DEG];
+  };
+};
+
+const createAlbersInverse = (definition: ProjectionDefinition) => {
+  const a = definition.semiMajorAxis;
+  const e = eccentricity(definition);
+  const e2 = e * e;
+  const phi0 = definition.latitudeOfOrigin! * DEG;
+  const phi1 = definition.standardParallel1! * DEG;
+  const phi2 = definition.standardParallel2! * DEG;
+  const lambda0 = definition.centralMeridian! * DEG;
+
+  const m1 = msfn(e, phi1);
+  const m2 = msfn(e, phi2);
+  const q0 = qsfn(e, phi0);
+  const q1 = qsfn(e, phi1);
+  const q2 = qsfn(e, phi2);
+  const n = Math.abs(phi1 - phi2) > 1e-10 ? (m1 * m1 - m2 * m2) / (q2 - q1) : Math.sin(phi1);
+  const C = m1 * m1 + n * q1;
+  const rho0 = (a * Math.sqrt(C - n * q0)) / n;
+
+  return (x: number, y: number): [number, number] => {
+    const dy = rho0 - y;
+    const sign = n < 0 ? -1 : 1;
+    const rho = Math.sqrt(x * x + dy * dy);
+    const theta = Math.atan2(sign * x, sign * dy);
+    const q = (C - (rho * rho * n * n) / (a * a)) / n;
+
+    let phi = Math.asin(Math.max(-1, Math.min(1, q / 2)));
+    for (let i = 0; i < 15; i++) {
+      const sin = Math.sin(phi);
+      const eSin = e * sin;
+      const oneMinus = 1 - eSin * eSin;
+      const delta = (oneMinus * oneMinus) / (2 * Math.cos(phi)) *
+        (q / (1 - e2) - sin / oneMinus + (1 / (2 * e)) * Math.log((1 - eSin) / (1 + eSin)));
+      phi += delta;
+      if (Math.abs(delta) < 1e-12) break;
+    }
+
+    return [(lambda0 + theta / n) / DEG, phi / DEG];
+  };
+};
+
+/**
+ * Build a function converting [x, y] in the given projection to [lng, lat] WGS84
+ */
+export const createToWGS84 = (definition: ProjectionDefinition): ((coord: GeoJSON.Position) => GeoJSON.Position) => {
+  switch (definition.kind) {
+    case 'geographic':
+      return coord => coord;
+
+    case 'web-mercator':
+      return ([x, y, ...rest]) => [mercatorXToLng(x), mercatorYToLat(y), ...rest];
+
+    case 'lambert-conformal-conic':
+    case 'albers-equal-area': {
+      const inverse = definition.kind === 'lambert-conformal-conic'
+        ? createLambertInverse(definition)
+        : createAlbersInverse(definition);
+      const unit = definition.linearUnit;
+      const falseEasting = (definition.falseEasting ?? 0) * unit;
+      const falseNorthing = (definition.falseNorthing ?? 0) * unit;
+
+      return ([x, y, ...rest]) => [...inverse(x * unit - falseEasting, y * unit - falseNorthing), ...rest];
+    }
+  }
+};
+
+const mapCoordinates = (coordinates: unknown, transform: (coord: GeoJSON.Position) => GeoJSON.Position): unknown => {
+  if (!Array.isArray(coordinates)) return coordinates;
+  if (typeof coordinates[0] === 'number') return transform(coordinates as GeoJSON.Position);
+  return coordinates.map(child => mapCoordinates(child, transform));
+};
+
+/**
+ * Reproject any GeoJSON geometry from the given projection to WGS84
+ */
+export const reprojectGeometry = <G extends GeoJSON.Geometry>(geometry: G, definition: ProjectionDefinition): G => {
+  if (!geometry || definition.kind === 'geographic') return geometry;
+
+  const transform = createToWGS84(definition);
+
+  if (geometry.type === 'GeometryCollection') {
+    return {
+      ...geometry,
+      geometries: geometry.geometries.map(child => reprojectGeometry(child, definition))
+    };
+  }
+
+  return {
+    ...geometry,
+    coordinates: mapCoordinates((geometry as Exclude<GeoJSON.Geometry, GeoJSON.GeometryCollection>).coordinates, transform)
+  } as G;
+};
+
+/**
+ * Reproject using the declared projection, or fall back to magnitude-based
+ * Web Mercator detection for sources that do not declare one.
+ */
+export const toWGS84Geometry = <G extends GeoJSON.Geometry>(geometry: G, definition: ProjectionDefinition | null): G => {
+  if (definition) return reprojectGeometry(geometry, definition);
+  return transformGeometryToWGS84(geometry);
+};
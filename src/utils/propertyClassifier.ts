@@ -0,0 +1,162 @@
+// Property type classification from Texas PTAD state property category codes,
+// with a land use keyword fallback for sources that only carry descriptions
+import type { Property } from '../types';
+
+export type PropertyType = NonNullable<Property['propertyType']>;
+
+export type ClassificationSource = 'ptad-code' | 'land-use-keyword' | 'default';
+
+export interface PropertyClassification {
+  propertyType: PropertyType;
+  subtype: string;
+  source: ClassificationSource;
+  // Normalised PTAD code, when the value was one
+  stateCode?: string;
+  reason: string;
+}
+
+interface StateCodeCategory {
+  propertyType: PropertyType;
+  subtype: string;
+  description: string;
+}
+
+const PROPERTY_TYPES: PropertyType[] = ['residential', 'commercial', 'industrial', 'agricultural', 'vacant', 'mixed-use'];
+
+const DEFAULT_PROPERTY_TYPE: PropertyType = 'residential';
+
+// Comptroller PTAD state property categories. Subcategories (A1, F2, ...) take
+// precedence over their letter category.
+const STATE_CODE_CATEGORIES: Record<string, StateCodeCategory> = {
+  A: { propertyType: 'residential', subtype: 'single-family', description: 'Single-family residential' },
+  A1: { propertyType: 'residential', subtype: 'single-family', description: 'Single-family residence' },
+  A2: { propertyType: 'residential', subtype: 'mobile-home', description: 'Mobile home on owned land' },
+  B: { propertyType: 'residential', subtype: 'multifamily', description: 'Multifamily residential' },
+  C: { propertyType: 'vacant', subtype: 'vacant-lot', description: 'Vacant lots and land tracts' },
+  C1: { propertyType: 'vacant', subtype: 'vacant-lot', description: 'Vacant lots and land tracts' },
+  C2: { propertyType: 'vacant', subtype: 'colonia-lot', description: 'Colonia lots and land tracts' },
+  D1: { propertyType: 'agricultural', subtype: 'open-space', description: 'Qualified open-space land' },
+  D2: { propertyType: 'agricultural', subtype: 'farm-improvements', description: 'Farm and ranch improvements on qualified land' },
+  E: { propertyType: 'agricultural', subtype: 'rural-land', description: 'Rural land not qualified for open-space appraisal' },
+  F1: { propertyType: 'commercial', subtype: 'commercial', description: 'Commercial real property' },
+  F2: { propertyType: 'industrial', subtype: 'manufacturing', description: 'Industrial and manufacturing real property' },
+  G: { propertyType: 'industrial', subtype: 'mineral', description: 'Oil, gas and other mineral reserves' },
+  J: { propertyType: 'industrial', subtype: 'utility', description: 'Utilities' },
+  L1: { propertyType: 'commercial', subtype: 'business-personal-property', description: 'Commercial personal property' },
+  L2: { propertyType: 'industrial', subtype: 'industrial-personal-property', description: 'Industrial and manufacturing personal property' },
+  M: { propertyType: 'residential', subtype: 'mobile-home', description: 'Mobile homes' },
+  O: { propertyType: 'vacant', subtype: 'residential-inventory', description: 'Residential inventory' },
+  S: { propertyType: 'commercial', subtype: 'special-inventory', description: 'Special inventory' }
+};
+
+// Totally exempt property (XV, XB, ...): the code says why a parcel is not taxed, e.g.
+// church, school or park, not how its land is used, so it does not classify the parcel
+const isExemptionCode = (stateCode: string) => stateCode.startsWith('X');
+
+// Checked in order; the first keyword found in the description wins
+const LAND_USE_KEYWORDS: { keyword: string; propertyType: PropertyType; subtype: string }[] = [
+  { keyword: 'mixed', propertyType: 'mixed-use', subtype: 'mixed-use' },
+  { keyword: 'residential', propertyType: 'residential', subtype: 'residential' },
+  { keyword: 'single', propertyType: 'residential', subtype: 'single-family' },
+  { keyword: 'multi', propertyType: 'residential', subtype: 'multifamily' },
+  { keyword: 'commercial', propertyType: 'commercial', subtype: 'commercial' },
+  { keyword: 'retail', propertyType: 'commercial', subtype: 'retail' },
+  { keyword: 'office', propertyType: 'commercial', subtype: 'office' },
+  { keyword: 'industrial', propertyType: 'industrial', subtype: 'industrial' },
+  { keyword: 'manufacturing', propertyType: 'industrial', subtype: 'manufacturing' },
+  { keyword: 'agricultural', propertyType: 'agricultural', subtype: 'agricultural' },
+  { keyword: 'farm', propertyType: 'agricultural', subtype: 'farm' },
+  { keyword: 'rural', propertyType: 'agricultural', subtype: 'rural-land' },
+  { keyword: 'vacant', propertyType: 'vacant', subtype: 'vacant-lot' },
+  { keyword: 'undeveloped', propertyType: 'vacant', subtype: 'vacant-lot' }
+];
+
+export const isPropertyType = (value: unknown): value is PropertyType =>
+  typeof value === 'string' && (PROPERTY_TYPES as string[]).includes(value);
+
+/**
+ * Normalise a PTAD state code such as "a1", " F1 " or "A1 D1" (first code wins).
+ * Returns undefined when the value is not shaped like a state code.
+ */
+export const normalizeStateCode = (value: string | null | undefined): string | undefined => {
+  const token = String(value ?? '').trim().toUpperCase().split(/[\s,;/]+/)[0];
+  // A, A1, F1C, B12 and the exempt codes XV, XB, ...
+  return /^([A-Z]|[A-Z][0-9]{1,2}[A-Z]?|X[A-Z]{1,2})$/.test(token) ? token : undefined;
+};
+
+// Most specific category first: "F1" -> F1, "A11" -> A1 -> A, "XV" -> X
+const findStateCodeCategory = (code: string): StateCodeCategory | undefined => {
+  const candidates = [code, code.slice(0, 2), code.charAt(0)];
+  for (const candidate of candidates) {
+    if (STATE_CODE_CATEGORIES[candidate]) return STATE_CODE_CATEGORIES[candidate];
+  }
+  return undefined;
+};
+
+/**
+ * Classify a PTAD state code, or return undefined for codes we can't place
+ * (e.g. H and N personal property, which have no parcel, and exemptions)
+ */
+export const classifyStateCode = (value: string | null | undefined): PropertyClassification | undefined => {
+  const stateCode = normalizeStateCode(value);
+  if (!stateCode || isExemptionCode(stateCode)) return undefined;
+
+  const category = findStateCodeCategory(stateCode);
+  if (!category) return undefined;
+
+  return {
+    propertyType: category.propertyType,
+    subtype: category.subtype,
+    source: 'ptad-code',
+    stateCode,
+    reason: `PTAD state code ${stateCode}: ${category.description}`
+  };
+};
+
+/**
+ * Classify a land use / state code value: PTAD codes first, then land use
+ * keywords, then the residential default. Every result says why it was chosen.
+ */
+export const classifyProperty = (value: string | null | undefined): PropertyClassification => {
+  const text = String(value ?? '').trim();
+
+  const byCode = classifyStateCode(text);
+  if (byCode) return byCode;
+
+  const lowerText = text.toLowerCase();
+  const match = lowerText ? LAND_USE_KEYWORDS.find(({ keyword }) => lowerText.includes(keyword)) : undefined;
+  if (match) {
+    return {
+      propertyType: match.propertyType,
+      subtype: match.subtype,
+      source: 'land-use-keyword',
+      reason: `Land use "${text}" contains "${match.keyword}"`
+    };
+  }
+
+  const stateCode = normalizeStateCode(text);
+  if (stateCode && isExemptionCode(stateCode)) {
+    return {
+      propertyType: DEFAULT_PROPERTY_TYPE,
+      subtype: 'exempt',
+      source: 'default',
+      stateCode,
+      reason: `PTAD state code ${stateCode} is a tax exemption, not a land use; defaulted to ${DEFAULT_PROPERTY_TYPE}`
+    };
+  }
+
+  return {
+    propertyType: DEFAULT_PROPERTY_TYPE,
+    subtype: 'unclassified',
+    source: 'default',
+    reason: text
+      ? `Unrecognised land use "${text}"; defaulted to ${DEFAULT_PROPERTY_TYPE}`
+      : `No land use or state code; defaulted to ${DEFAULT_PROPERTY_TYPE}`
+  };
+};
+
+/**
+ * Property type for a parcel PROP_TYPE value that may already be classified
+ */
+export const toPropertyType = (value: string | null | undefined): PropertyType =>
+  isPropertyType(value) ? value : classifyProperty(value).propertyType;
@@ -1,5 +1,10 @@
 import * as shapefile from 'shapefile';
-import type { Property, TravisCountyParcel } from '../types';
+import { unzipSync } from 'fflate';
+import type { Property, TravisCountyParcel, PolygonalGeometry } from '../types';
+import { calculatePolygonCenter, isPolygonalGeometry } from './geometry';
+import { parsePrj, toWGS84Geometry } from './projection';
+import { toPropertyType } from './propertyClassifier';
+import { BUILT_IN_PROFILES, GENERIC_PROFILE, detectFieldMappingProfile, mapParcelAttributes, type FieldMappingProfile } from './fieldMapping';
 
 export interface ShapefileFeature {
   type: 'Feature';
@@ -12,42 +17,184 @@ export interface ShapefileFeature {
   };
 }
 
-export const processTravisCountyShapefile = async (file: File): Promise<TravisCountyParcel[]> => {
+export interface ShapefileBundle {
+  name: string;
+  shp: Uint8Array;
+  dbf?: Uint8Array;
+  prj?: string;
+  cpg?: string;
+}
+
+interface NamedFileData {
+  name: string;
+  data: Uint8Array;
+}
+
+const SHAPEFILE_PARTS = ['shp', 'dbf', 'prj', 'cpg'] as const;
+
+// Code pages written to .cpg files by ArcGIS/QGIS, mapped to TextDecoder labels
+const CODE_PAGE_ENCODINGS: Record<string, string> = {
+  'utf-8': 'utf-8',
+  'utf8': 'utf-8',
+  '65001': 'utf-8',
+  '1252': 'windows-1252',
+  'ansi 1252': 'windows-1252',
+  'iso-8859-1': 'iso-8859-1',
+  '88591': 'iso-8859-1',
+  '8859_1': 'iso-8859-1',
+  '437': 'ibm437'
+};
+
+const decodeText = (data: Uint8Array) => new TextDecoder().decode(data).trim();
+
+/**
+ * Convert the contents of a .cpg file into an encoding shapefile.open understands
+ */
+export const getCpgEncoding = (cpg: string | undefined): string | undefined => {
+  if (!cpg) return undefined;
+  const codePage = cpg.trim().toLowerCase();
+  return CODE_PAGE_ENCODINGS[codePage] || codePage;
+};
+
+// Expand .zip uploads into their entries; other files pass through as-is
+const readUploadedFiles = async (files: File[]): Promise<NamedFileData[]> => {
+  const entries: NamedFileData[] = [];
+
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const unzipped = unzipSync(data, {
+        filter: entry => !entry.name.startsWith('__MACOSX/') && !entry.name.endsWith('/')
+      });
+      Object.entries(unzipped).forEach(([name, entryData]) => entries.push({ name, data: entryData }));
+    } else {
+      entries.push({ name: file.name, data });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Group uploaded files (or the contents of .zip uploads) into shapefile bundles,
+ * pairing .shp/.dbf/.prj/.cpg sidecars by basename
+ */
+export const collectShapefileBundles = async (files: File[]): Promise<ShapefileBundle[]> => {
+  const groups: Record<string, Partial<Record<typeof SHAPEFILE_PARTS[number], Uint8Array>> & { name: string }> = {};
+
+  for (const { name, data } of await readUploadedFiles(files)) {
+    const match = /^(.*)\.([^./]+)$/.exec(name);
+    const extension = match?.[2].toLowerCase() as typeof SHAPEFILE_PARTS[number] | undefined;
+    if (!match || !extension || !SHAPEFILE_PARTS.includes(extension)) continue;
+
+    const key = match[1].toLowerCase();
+    groups[key] = groups[key] || { name: match[1].split('/').pop() || match[1] };
+    groups[key][extension] = data;
+  }
+
+  return Object.values(groups)
+    .filter(group => {
+      if (!group.shp) {
+        console.warn(`⚠️ Ignoring ${group.name}: no matching .shp file`);
+      }
+      return !!group.shp;
+    })
+    .map(group => ({
+      name: group.name,
+      shp: group.shp!,
+      dbf: group.dbf,
+      prj: group.prj ? decodeText(group.prj) : undefined,
+      cpg: group.cpg ? decodeText(group.cpg) : undefined
+    }));
+};
+
+/**
+ * Read the DBF column names and first record of a bundle, used to pick or build a field mapping
+ */
+export const inspectShapefileBundle = async (bundle: ShapefileBundle): Promise<{ fields: string[]; sample: Record<string, unknown> }> => {
+  if (!bundle.dbf) {
+    return { fields: [], sample: {} };
+  }
+
+  const encoding = getCpgEncoding(bundle.cpg);
+  const source = await shapefile.openDbf(bundle.dbf, encoding ? { encoding } : undefined);
+  const result = await source.read();
+  const sample = (!result.done && result.value) || {};
+
+  return { fields: Object.keys(sample), sample };
+};
+
+/**
+ * Read a shapefile bundle into parcels, reprojected to WGS84 using its .prj.
+ * Attributes are mapped with the given profile, or one detected from the DBF columns.
+ */
+export const processShapefileBundle = async (
+  bundle: ShapefileBundle,
+  profile: FieldMappingProfile | null = null,
+  profiles: FieldMappingProfile[] = BUILT_IN_PROFILES
+): Promise<TravisCountyParcel[]> => {
+  if (!bundle.dbf) {
+    console.warn(`⚠️ ${bundle.name} has no .dbf file; parcels will have no attributes`);
+  }
+
+  const projection = bundle.prj ? parsePrj(bundle.prj) : null;
+  if (!projection) {
+    console.warn(`⚠️ ${bundle.name} has no .prj file, detecting coordinate system from coordinate ranges`);
+  }
+
+  const encoding = getCpgEncoding(bundle.cpg);
+  const source = await shapefile.open(bundle.shp, bundle.dbf, encoding ? { encoding } : undefined);
+
+  const parcels: TravisCountyParcel[] = [];
+  let mappingProfile = profile;
+  let index = 0;
+  let result;
+
+  while ((result = await source.read()) && !result.done) {
+    const feature = result.value as ShapefileFeature;
+    const recordIndex = index++;
+
+    // Only Polygon and MultiPolygon parcels can be converted
+    if (!isPolygonalGeometry(feature.geometry as GeoJSON.Geometry)) continue;
+
+    // Without an explicit profile, pick one from the first record's columns
+    if (!mappingProfile) {
+      mappingProfile = detectFieldMappingProfile(Object.keys(feature.properties || {}), profiles) || GENERIC_PROFILE;
+      console.log(`Mapping ${bundle.name} attributes with the ${mappingProfile.name} profile`);
+    }
+
+    const parcel: TravisCountyParcel = {
+      ...mapParcelAttributes(feature.properties, mappingProfile, recordIndex),
+      geometry: toWGS84Geometry(feature.geometry as PolygonalGeometry, projection),
+    };
+
+    parcels.push(parcel);
+  }
+
+  return parcels;
+};
+
+/**
+ * Process uploaded shapefile parts (.shp with .dbf/.prj/.cpg sidecars) or .zip bundles
+ */
+export const processTravisCountyShapefile = async (
+  files: File[],
+  profiles: FieldMappingProfile[] = BUILT_IN_PROFILES
+): Promise<TravisCountyParcel[]> => {
   try {
-    const arrayBuffer = await file.arrayBuffer();
-    const source = await shapefile.open(arrayBuffer);
-    
+    const bundles = await collectShapefileBundles(files);
+    if (bundles.length === 0) {
+      throw new Error('No .shp file found in the upload');
+    }
+
     const parcels: TravisCountyParcel[] = [];
-    let result;
-    
-    while ((result = await source.read()) && !result.done) {
-      const feature = result.value as ShapefileFeature;
-      
-      // Extract properties from the shapefile
-      const properties = feature.properties;
-      
-      const parcel: TravisCountyParcel = {
-        OBJECTID: properties.OBJECTID || Math.random(),
-        PROP_ID: properties.PROP_ID || properties.PROPID || properties.PARCEL_ID || '',
-        SITE_ADDR: properties.SITE_ADDR || properties.ADDRESS || properties.SITE_ADDRESS || '',
-        CITY: properties.CITY || 'Austin',
-        STATE: properties.STATE || 'TX',
-        ZIP: properties.ZIP || properties.ZIP_CODE || '',
-        OWNER_NAME: properties.OWNER_NAME || properties.OWNER || '',
-        TOTAL_VAL: properties.TOTAL_VAL || properties.MARKET_VAL || properties.VALUE || 0,
-        LAND_VAL: properties.LAND_VAL || properties.LAND_VALUE || 0,
-        IMP_VAL: properties.IMP_VAL || properties.IMPROVEMENT_VAL || 0,
-        YEAR_BUILT: properties.YEAR_BUILT || properties.YEAR || undefined,
-        SQ_FT: properties.SQ_FT || properties.SQUARE_FEET || properties.AREA || undefined,
-        BEDROOMS: properties.BEDROOMS || properties.BEDS || undefined,
-        BATHROOMS: properties.BATHROOMS || properties.BATHS || undefined,
-        PROP_TYPE: properties.PROP_TYPE || properties.TYPE || 'residential',
-        geometry: feature.geometry as GeoJSON.Polygon,
-      };
-      
-      parcels.push(parcel);
+    for (const bundle of bundles) {
+      const bundleParcels = await processShapefileBundle(bundle, null, profiles);
+      console.log(`Loaded ${bundleParcels.length} parcels from ${bundle.name}`);
+      parcels.push(...bundleParcels);
     }
-    
+
     return parcels;
   } catch (error) {
     console.error('Error processing shapefile:', error);
@@ -65,7 +212,7 @@ export const convertToProperty = (parcel: TravisCountyParcel): Property => {
     city: parcel.CITY,
     state: parcel.STATE,
     zipCode: parcel.ZIP,
-    county: 'Travis',
+    county: parcel.COUNTY || undefined,
     parcelId: parcel.PROP_ID,
     owner: parcel.OWNER_NAME,
     assessedValue: parcel.TOTAL_VAL,
@@ -76,44 +223,10 @@ export const convertToProperty = (parcel: TravisCountyParcel): Property => {
     squareFootage: parcel.SQ_FT,
     bedrooms: parcel.BEDROOMS,
     bathrooms: parcel.BATHROOMS,
-    propertyType: mapPropertyType(parcel.PROP_TYPE),
+    propertyType: toPropertyType(parcel.PROP_TYPE),
+    propertySubtype: parcel.PROP_SUBTYPE,
+    propertyTypeReason: parcel.PROP_TYPE_REASON,
     coordinates,
     geometry: parcel.geometry,
   };
 };
-
-const calculatePolygonCenter = (geometry: GeoJSON.Polygon): { lat: number; lng: number } => {
-  if (!geometry.coordinates || geometry.coordinates.length === 0) {
-    return { lat: 30.2672, lng: -97.7431 }; // Default to Austin
-  }
-  
-  const coordinates = geometry.coordinates[0]; // First ring of the polygon
-  let sumLng = 0;
-  let sumLat = 0;
-  
-  for (const coord of coordinates) {
-    sumLng += coord[0];
-    sumLat += coord[1];
-  }
-  
-  return {
-    lng: sumLng / coordinates.length,
-    lat: sumLat / coordinates.length,
-  };
-};
-
-const mapPropertyType = (type: string): Property['propertyType'] => {
-  const lowerType = type.toLowerCase();
-  
-  if (lowerType.includes('residential') || lowerType.includes('single') || lowerType.includes('multi')) {
-    return 'residential';
-  } else if (lowerType.includes('commercial') || lowerType.includes('retail') || lowerType.includes('office')) {
-    return 'commercial';
-  } else if (lowerType.includes('industrial') || lowerType.includes('manufacturing')) {
-    return 'industrial';
-  } else if (lowerType.includes('agricultural') || lowerType.includes('farm') || lowerType.includes('rural')) {
-    return 'agricultural';
-  } else {
-    return 'vacant';
-  }
-}; 
\ No newline at end of file
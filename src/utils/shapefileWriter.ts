@@ -0,0 +1,285 @@
+// Shapefile writing (ESRI Shapefile Technical Description, dBase III attributes),
+// the counterpart of the readers in shapefileProcessor.ts
+import { zipSync } from 'fflate';
+
+export type ShapefileAttribute = string | number | boolean | null | undefined;
+
+export interface ShapefileRecord {
+  geometry: GeoJSON.Point | GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
+  attributes: Record<string, ShapefileAttribute>;
+}
+
+// Files of one layer, keyed by extension
+export interface ShapefileLayerFiles {
+  shp: Uint8Array;
+  shx: Uint8Array;
+  dbf: Uint8Array;
+  prj: string;
+  cpg: string;
+}
+
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYGON = 5;
+const HEADER_BYTES = 100;
+const MAX_FIELD_NAME_LENGTH = 10;
+const MAX_CHARACTER_WIDTH = 254;
+const NUMERIC_WIDTH = 19;
+const NUMERIC_DECIMALS = 8;
+
+export const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const encoder = new TextEncoder();
+
+type Bounds = [number, number, number, number];
+
+const extendBounds = (bounds: Bounds | null, positions: GeoJSON.Position[]): Bounds | null => {
+  return positions.reduce<Bounds | null>((box, [x, y]) => box
+    ? [Math.min(box[0], x), Math.min(box[1], y), Math.max(box[2], x), Math.max(box[3], y)]
+    : [x, y, x, y], bounds);
+};
+
+// Twice the signed area; positive for counter-clockwise rings
+const signedArea = (ring: GeoJSON.Position[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0);
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise, the reverse of GeoJSON
+const orientRing = (ring: GeoJSON.Position[], isOuter: boolean) => {
+  const isClockwise = signedArea(ring) < 0;
+  return isClockwise === isOuter ? ring : [...ring].reverse();
+};
+
+const getPolygonRings = (geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon): GeoJSON.Position[][] => {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.flatMap(polygon => polygon.map((ring, index) => orientRing(ring, index === 0)));
+};
+
+// Record contents (without the 8-byte record header)
+const encodeShape = (geometry: ShapefileRecord['geometry']): Uint8Array => {
+  if (!geometry) {
+    const content = new DataView(new ArrayBuffer(4));
+    content.setInt32(0, SHAPE_NULL, true);
+    return new Uint8Array(content.buffer);
+  }
+
+  if (geometry.type === 'Point') {
+    const content = new DataView(new ArrayBuffer(20));
+    content.setInt32(0, SHAPE_POINT, true);
+    content.setFloat64(4, geometry.coordinates[0], true);
+    content.setFloat64(12, geometry.coordinates[1], true);
+    return new Uint8Array(content.buffer);
+  }
+
+  const rings = getPolygonRings(geometry);
+  const points = rings.flat();
+  const bounds = extendBounds(null, points) || [0, 0, 0, 0];
+  const content = new DataView(new ArrayBuffer(44 + rings.length * 4 + points.length * 16));
+
+  content.setInt32(0, SHAPE_POLYGON, true);
+  bounds.forEach((value, i) => content.setFloat64(4 + i * 8, value, true));
+  content.setInt32(36, rings.length, true);
+  content.setInt32(40, points.length, true);
+
+  let offset = 44;
+  let start = 0;
+  rings.forEach(ring => {
+    content.setInt32(offset, start, true);
+    offset += 4;
+    start += ring.length;
+  });
+  points.forEach(([x, y]) => {
+    content.setFloat64(offset, x, true);
+    content.setFloat64(offset + 8, y, true);
+    offset += 16;
+  });
+
+  return new Uint8Array(content.buffer);
+};
+
+const writeMainHeader = (view: DataView, fileBytes: number, shapeType: number, bounds: Bounds | null) => {
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, fileBytes / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  (bounds || [0, 0, 0, 0]).forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+};
+
+const writeGeometry = (records: ShapefileRecord[]): { shp: Uint8Array; shx: Uint8Array } => {
+  const shapes = records.map(record => encodeShape(record.geometry));
+  const geometries = records.map(record => record.geometry).filter(geometry => geometry !== null);
+  const shapeType = geometries.length === 0 ? SHAPE_NULL : geometries[0].type === 'Point' ? SHAPE_POINT : SHAPE_POLYGON;
+  const bounds = geometries.reduce<Bounds | null>((box, geometry) => extendBounds(
+    box,
+    geometry.type === 'Point' ? [geometry.coordinates] : getPolygonRings(geometry).flat()
+  ), null);
+
+  const shpBytes = HEADER_BYTES + shapes.reduce((sum, shape) => sum + 8 + shape.length, 0);
+  const shxBytes = HEADER_BYTES + shapes.length * 8;
+  const shp = new Uint8Array(shpBytes);
+  const shx = new Uint8Array(shxBytes);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+
+  writeMainHeader(shpView, shpBytes, shapeType, bounds);
+  writeMainHeader(shxView, shxBytes, shapeType, bounds);
+
+  let offset = HEADER_BYTES;
+  shapes.forEach((shape, i) => {
+    shxView.setInt32(HEADER_BYTES + i * 8, offset / 2, false);
+    shxView.setInt32(HEADER_BYTES + i * 8 + 4, shape.length / 2, false);
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, shape.length / 2, false);
+    shp.set(shape, offset + 8);
+    offset += 8 + shape.length;
+  });
+
+  return { shp, shx };
+};
+
+interface DbfField {
+  key: string;
+  name: string;
+  type: 'C' | 'N' | 'L';
+  width: number;
+  decimals: number;
+}
+
+/**
+ * dBase field names are at most 10 ASCII characters; shorten and number them
+ * so every attribute keeps its own column
+ */
+export const toDbfFieldNames = (keys: string[]): string[] => {
+  const used = new Set<string>();
+
+  return keys.map(key => {
+    const base = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, MAX_FIELD_NAME_LENGTH) || 'FIELD';
+    let name = base;
+    for (let n = 1; used.has(name.toUpperCase()); n++) {
+      const suffix = String(n);
+      name = `${base.slice(0, MAX_FIELD_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  });
+};
+
+// Cut a string to a byte length without splitting a UTF-8 sequence
+const truncateBytes = (value: string, maxBytes: number): Uint8Array => {
+  let text = value;
+  let bytes = encoder.encode(text);
+  while (bytes.length > maxBytes) {
+    text = text.slice(0, -1);
+    bytes = encoder.encode(text);
+  }
+  return bytes;
+};
+
+const formatNumber = (value: number, field: DbfField) => {
+  const text = field.decimals > 0 ? value.toFixed(field.decimals) : String(Math.round(value));
+  return text.length > field.width ? value.toExponential(field.width - 8) : text;
+};
+
+const describeFields = (records: ShapefileRecord[]): DbfField[] => {
+  const keys = Array.from(new Set(records.flatMap(record => Object.keys(record.attributes))));
+  const names = toDbfFieldNames(keys);
+
+  return keys.map((key, i) => {
+    const values = records.map(record => record.attributes[key]).filter(value => value !== null && value !== undefined);
+
+    if (values.length > 0 && values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      const decimals = values.every(value => Number.isInteger(value)) ? 0 : NUMERIC_DECIMALS;
+      return { key, name: names[i], type: 'N', width: NUMERIC_WIDTH, decimals };
+    }
+    if (values.length > 0 && values.every(value => typeof value === 'boolean')) {
+      return { key, name: names[i], type: 'L', width: 1, decimals: 0 };
+    }
+
+    const width = Math.min(MAX_CHARACTER_WIDTH, Math.max(1, ...values.map(value => encoder.encode(String(value)).length)));
+    return { key, name: names[i], type: 'C', width, decimals: 0 };
+  });
+};
+
+const writeDbf = (records: ShapefileRecord[]): Uint8Array => {
+  const fields = describeFields(records);
+  const headerBytes = 32 + fields.length * 32 + 1;
+  const recordBytes = 1 + fields.reduce((sum, field) => sum + field.width, 0);
+  const dbf = new Uint8Array(headerBytes + records.length * recordBytes + 1);
+  const view = new DataView(dbf.buffer);
+  const today = new Date();
+
+  view.setUint8(0, 0x03);
+  view.setUint8(1, today.getFullYear() - 1900);
+  view.setUint8(2, today.getMonth() + 1);
+  view.setUint8(3, today.getDate());
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerBytes, true);
+  view.setUint16(10, recordBytes, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    dbf.set(encoder.encode(field.name), offset);
+    dbf[offset + 11] = field.type.charCodeAt(0);
+    dbf[offset + 16] = field.width;
+    dbf[offset + 17] = field.decimals;
+  });
+  dbf[headerBytes - 1] = 0x0d;
+
+  // Space-padded fields: numbers right-aligned, text left-aligned
+  dbf.fill(0x20, headerBytes, dbf.length - 1);
+  records.forEach((record, r) => {
+    let offset = headerBytes + r * recordBytes + 1;
+
+    fields.forEach(field => {
+      const value = record.attributes[field.key];
+      if (value !== null && value !== undefined) {
+        if (field.type === 'N') {
+          const text = encoder.encode(formatNumber(value as number, field));
+          dbf.set(text, offset + field.width - text.length);
+        } else if (field.type === 'L') {
+          dbf[offset] = (value ? 'T' : 'F').charCodeAt(0);
+        } else {
+          dbf.set(truncateBytes(String(value), field.width), offset);
+        }
+      }
+      offset += field.width;
+    });
+  });
+  dbf[dbf.length - 1] = 0x1a;
+
+  return dbf;
+};
+
+/**
+ * Write one layer. Every geometry must have the same type (Point, or Polygon and
+ * MultiPolygon); records without geometry are written as null shapes.
+ */
+export const writeShapefileLayer = (records: ShapefileRecord[]): ShapefileLayerFiles => {
+  const types = new Set(records.map(record => record.geometry?.type === 'Point' ? 'point' : record.geometry ? 'polygon' : null));
+  types.delete(null);
+  if (types.size > 1) {
+    throw new Error('A shapefile layer cannot mix points and polygons');
+  }
+
+  return { ...writeGeometry(records), dbf: writeDbf(records), prj: WGS84_PRJ, cpg: 'UTF-8' };
+};
+
+/**
+ * Zip layers into one archive, each layer as name.shp, .shx, .dbf, .prj and .cpg
+ */
+export const zipShapefileLayers = (layers: Record<string, ShapefileLayerFiles>): Uint8Array => {
+  const files: Record<string, Uint8Array> = {};
+
+  Object.entries(layers).forEach(([name, layer]) => {
+    files[`${name}.shp`] = layer.shp;
+    files[`${name}.shx`] = layer.shx;
+    files[`${name}.dbf`] = layer.dbf;
+    files[`${name}.prj`] = encoder.encode(layer.prj);
+    files[`${name}.cpg`] = encoder.encode(layer.cpg);
+  });
+
+  return zipSync(files);
+};
@@ -0,0 +1,139 @@
+// Spatial search filters: drawn polygons, radius around a point, county and ZIP code.
+// A record matches by its coordinates, so parcels and buildings match by their centre.
+import type { PolygonalGeometry, Property, SpatialFilter } from '../types';
+import { EARTH_RADIUS_METERS, calculateDistance, isPointInPolygon } from './geometry';
+import { getGeometryBBox, type BoundingBox } from './spatialIndex';
+
+export const METERS_PER_MILE = 1609.344;
+export const DEFAULT_RADIUS_MILES = 1;
+
+const CIRCLE_STEPS = 64;
+
+// County outlines have thousands of vertices, so their boxes are computed once per geometry
+const bboxCache = new WeakMap<PolygonalGeometry, BoundingBox>();
+
+const getCachedBBox = (geometry: PolygonalGeometry): BoundingBox => {
+  let bbox = bboxCache.get(geometry);
+  if (!bbox) {
+    bbox = getGeometryBBox(geometry);
+    bboxCache.set(geometry, bbox);
+  }
+  return bbox;
+};
+
+const isInPolygonalArea = (point: { lat: number; lng: number }, geometry: PolygonalGeometry): boolean => {
+  const bbox = getCachedBBox(geometry);
+  if (point.lng < bbox.west || point.lng > bbox.east || point.lat < bbox.south || point.lat > bbox.north) return false;
+  return isPointInPolygon(point, geometry);
+};
+
+const toZip5 = (zipCode: string | undefined) => (zipCode || '').trim().slice(0, 5);
+
+/**
+ * Whether a property lies within the area of a spatial filter
+ */
+export const matchesSpatialFilter = (property: Property, filter: SpatialFilter): boolean => {
+  const point = property.coordinates;
+
+  switch (filter.type) {
+    case 'polygon':
+    case 'county':
+      return !!point && isInPolygonalArea(point, filter.geometry);
+    case 'radius':
+      return !!point && calculateDistance(filter.center, point) <= filter.miles * METERS_PER_MILE;
+    case 'zip':
+      return !!toZip5(filter.zipCode) && toZip5(property.zipCode) === toZip5(filter.zipCode);
+  }
+};
+
+/**
+ * Polygon approximating a circle of the given radius, for drawing radius filters
+ */
+export const createCircle = (
+  center: { lat: number; lng: number },
+  radiusMeters: number,
+  steps: number = CIRCLE_STEPS
+): GeoJSON.Polygon => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  const lat = toRadians(center.lat);
+  const lng = toRadians(center.lng);
+  const angular = radiusMeters / EARTH_RADIUS_METERS;
+
+  const ring: GeoJSON.Position[] = [];
+  for (let i = 0; i < steps; i++) {
+    // Clockwise from north, as bearings go
+    const bearing = (2 * Math.PI * i) / steps;
+    const pointLat = Math.asin(Math.sin(lat) * Math.cos(angular) + Math.cos(lat) * Math.sin(angular) * Math.cos(bearing));
+    const pointLng = lng + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat),
+      Math.cos(angular) - Math.sin(lat) * Math.sin(pointLat)
+    );
+    ring.push([toDegrees(pointLng), toDegrees(pointLat)]);
+  }
+  // GeoJSON outer rings run counterclockwise
+  ring.reverse();
+
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+/**
+ * Convex hull of a set of points (monotone chain), or null for fewer than three distinct points
+ */
+export const convexHull = (points: { lat: number; lng: number }[]): GeoJSON.Polygon | null => {
+  const sorted = points
+    .map(point => [point.lng, point.lat])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+    .filter((point, index, all) => index === 0 || point[0] !== all[index - 1][0] || point[1] !== all[index - 1][1]);
+  if (sorted.length < 3) return null;
+
+  const cross = (o: GeoJSON.Position, a: GeoJSON.Position, b: GeoJSON.Position) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const buildChain = (ordered: GeoJSON.Position[]) => {
+    const chain: GeoJSON.Position[] = [];
+    ordered.forEach(point => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+      chain.push(point);
+    });
+    chain.pop();
+    return chain;
+  };
+
+  const hull = [...buildChain(sorted), ...buildChain([...sorted].reverse())];
+  if (hull.length < 3) return null;
+
+  return { type: 'Polygon', coordinates: [[...hull, hull[0]]] };
+};
+
+/**
+ * Outline of a spatial filter's area. ZIP codes have no boundary data, so they
+ * have no outline here; see PropertySearchService.getQueryGeometry.
+ */
+export const getSpatialFilterGeometry = (filter: SpatialFilter): PolygonalGeometry | null => {
+  switch (filter.type) {
+    case 'polygon':
+    case 'county':
+      return filter.geometry;
+    case 'radius':
+      return createCircle(filter.center, filter.miles * METERS_PER_MILE);
+    case 'zip':
+      return null;
+  }
+};
+
+/**
+ * Short label for a spatial filter, e.g. "Within 2 mi of 30.26720, -97.74310"
+ */
+export const describeSpatialFilter = (filter: SpatialFilter): string => {
+  switch (filter.type) {
+    case 'polygon':
+      return 'Drawn area';
+    case 'radius':
+      return `Within ${filter.miles} mi of ${filter.center.lat.toFixed(5)}, ${filter.center.lng.toFixed(5)}`;
+    case 'county':
+      return `${filter.name} County`;
+    case 'zip':
+      return `ZIP ${filter.zipCode}`;
+  }
+};
@@ -0,0 +1,123 @@
+// Spatial index utilities
+// Uniform grid index over WGS84 bounding boxes for fast viewport queries
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Roughly 1km cells at Texas latitudes
+const DEFAULT_CELL_SIZE = 0.01;
+
+/**
+ * Compute the bounding box of any GeoJSON geometry
+ */
+export const getGeometryBBox = (geometry: GeoJSON.Geometry): BoundingBox => {
+  const bbox: BoundingBox = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+
+  const visit = (coords: unknown): void => {
+    if (!Array.isArray(coords)) return;
+
+    if (typeof coords[0] === 'number') {
+      const [x, y] = coords as number[];
+      if (x < bbox.west) bbox.west = x;
+      if (x > bbox.east) bbox.east = x;
+      if (y < bbox.south) bbox.south = y;
+      if (y > bbox.north) bbox.north = y;
+      return;
+    }
+
+    coords.forEach(visit);
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach(child => {
+      const childBBox = getGeometryBBox(child);
+      visit([[childBBox.west, childBBox.south], [childBBox.east, childBBox.north]]);
+    });
+  } else {
+    visit(geometry.coordinates);
+  }
+
+  return bbox;
+};
+
+/**
+ * Check whether two bounding boxes overlap
+ */
+export const bboxIntersects = (a: BoundingBox, b: BoundingBox): boolean => {
+  return a.west <= b.east && a.east >= b.west && a.south <= b.north && a.north >= b.south;
+};
+
+/**
+ * Grid-bucketed spatial index. Items are stored in every cell their bounding
+ * box touches, so queries only need to visit the cells covering the search box.
+ */
+export class SpatialIndex<T> {
+  private cells: Record<string, { item: T; bbox: BoundingBox }[]> = {};
+  private cellSize: number;
+  private count = 0;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  insert(item: T, bbox: BoundingBox): void {
+    if (!Number.isFinite(bbox.west) || !Number.isFinite(bbox.south)) return;
+
+    const entry = { item, bbox };
+    this.forEachCell(bbox, key => {
+      (this.cells[key] ||= []).push(entry);
+    });
+    this.count++;
+  }
+
+  /**
+   * Return every item whose bounding box intersects the search box.
+   * Results are capped at `limit` items when provided.
+   */
+  search(bbox: BoundingBox, limit: number = Infinity): T[] {
+    const seen = new Set<T>();
+    const results: T[] = [];
+
+    this.forEachCell(bbox, key => {
+      if (results.length >= limit) return;
+
+      const bucket = this.cells[key];
+      if (!bucket) return;
+
+      for (const entry of bucket) {
+        if (results.length >= limit) break;
+        if (seen.has(entry.item) || !bboxIntersects(entry.bbox, bbox)) continue;
+        seen.add(entry.item);
+        results.push(entry.item);
+      }
+    });
+
+    return results;
+  }
+
+  clear(): void {
+    this.cells = {};
+    this.count = 0;
+  }
+
+  private forEachCell(bbox: BoundingBox, callback: (key: string) => void): void {
+    const minX = Math.floor(bbox.west / this.cellSize);
+    const maxX = Math.floor(bbox.east / this.cellSize);
+    const minY = Math.floor(bbox.south / this.cellSize);
+    const maxY = Math.floor(bbox.north / this.cellSize);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        callback(`${x}:${y}`);
+      }
+    }
+  }
+}
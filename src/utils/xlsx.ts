@@ -0,0 +1,91 @@
+// Minimal reader for Excel workbooks (.xlsx, Office Open XML): cell values of the
+// first worksheet as text, the same shape parseCsvRows returns
+import { strFromU8, unzipSync } from 'fflate';
+
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const data = files[path];
+  return data ? new DOMParser().parseFromString(strFromU8(data), 'application/xml') : null;
+};
+
+// Elements by local name, whatever namespace prefix the writer used
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Text of a string item: plain <t>, or the runs of rich text (phonetic hints skipped)
+const readStringItem = (item: Element) =>
+  elements(item, 't')
+    .filter(text => text.parentElement?.localName !== 'rPh')
+    .map(text => text.textContent || '')
+    .join('');
+
+// 'AB12' -> 27
+const getColumnIndex = (reference: string) => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Path of the first worksheet, following the workbook relationships
+const getFirstSheetPath = (files: Record<string, Uint8Array>) => {
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const relationships = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationId = sheet?.getAttributeNS(RELATIONSHIP_NS, 'id') || sheet?.getAttribute('r:id');
+  const target = relationships && relationId
+    ? elements(relationships, 'Relationship').find(relation => relation.getAttribute('Id') === relationId)?.getAttribute('Target')
+    : undefined;
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Read the first worksheet of an .xlsx file into rows of cell text. Numbers keep
+ * their stored form (dates stay as Excel serial numbers) and blank rows are skipped.
+ */
+export const parseXlsxRows = (data: Uint8Array): string[][] => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('Not a valid .xlsx file');
+  }
+
+  const sheet = parseXml(files, getFirstSheetPath(files));
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStringsXml = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(readStringItem) : [];
+
+  const rows = elements(sheet, 'row').map(row => {
+    const cells: string[] = [];
+
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const column = reference ? getColumnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        const item = elements(cell, 'is')[0];
+        text = item ? readStringItem(item) : '';
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = text;
+    });
+
+    return cells;
+  });
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};